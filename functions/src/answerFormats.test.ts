@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isCorrectChoice } from './answerFormats';
+
+describe('isCorrectChoice', () => {
+  const choices = ['12', '14', '16', '18'];
+
+  it('matches the text of the chosen option', () => {
+    assert.equal(isCorrectChoice(choices, 2, '16'), true);
+    assert.equal(isCorrectChoice(choices, 2, ' 16 '), true);
+    assert.equal(isCorrectChoice(choices, 2, '14'), false);
+  });
+
+  it('accepts a bare letter label', () => {
+    assert.equal(isCorrectChoice(choices, 2, 'C'), true);
+    assert.equal(isCorrectChoice(choices, 2, 'b'), false);
+  });
+
+  it('reads option text before letter labels', () => {
+    const letterChoices = ['B', 'A', 'D', 'C'];
+
+    assert.equal(isCorrectChoice(letterChoices, 0, 'B'), true);
+    assert.equal(isCorrectChoice(letterChoices, 1, 'B'), false);
+    assert.equal(isCorrectChoice(letterChoices, 3, 'C'), true);
+  });
+
+  it('rejects answers that match no option', () => {
+    assert.equal(isCorrectChoice(choices, 0, '20'), false);
+    assert.equal(isCorrectChoice(choices, 0, ''), false);
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  sanitizeCanonicalAnswer,
+  verifyAgainstAnswerKey,
+  type CanonicalAnswer,
+} from './answerKeys';
+import type { VerificationResult } from './verification';
+
+/**
+ * Answer formats for quiz questions.
+ *
+ * `free` is the original single free-text answer. The other formats change what the generator
+ * writes and what the learner fills in: `multipleChoice` adds four options whose wrong ones come
+ * from common misconceptions, `numeric` asks for a number with units, `expression` asks for a
+ * symbolic expression, and `multiPart` splits the question into parts that are graded one by one
+ * for partial credit. The correct choice and each part's answer live in the answer key only.
+ */
+
+export type QuestionFormat = 'free' | 'multipleChoice' | 'numeric' | 'expression' | 'multiPart';
+
+export interface QuestionPart {
+  label: string;
+  prompt: string;
+}
+
+export interface AnswerKeyPart extends QuestionPart {
+  answer: CanonicalAnswer;
+}
+
+export interface FormattedAnswer {
+  format: QuestionFormat;
+  choices: string[];
+  correctChoiceIndex: number | null;
+  parts: AnswerKeyPart[];
+}
+
+export interface PartResult {
+  label: string;
+  isCorrect: boolean;
+  correctAnswer: string;
+  verification: VerificationResult;
+}
+
+const QUESTION_FORMATS: QuestionFormat[] = [
+  'free',
+  'multipleChoice',
+  'numeric',
+  'expression',
+  'multiPart',
+];
+const CHOICE_COUNT = 4;
+const CHOICE_LABELS = ['A', 'B', 'C', 'D'];
+const MIN_PARTS = 2;
+const MAX_PARTS = 4;
+const MAX_CHOICE_LENGTH = 200;
+const MAX_PART_PROMPT_LENGTH = 400;
+
+export const isQuestionFormat = (value: unknown): value is QuestionFormat =>
+  typeof value === 'string' && (QUESTION_FORMATS as string[]).includes(value);
+
+const FORMAT_DIRECTIVES: Record<Exclude<QuestionFormat, 'free'>, string> = {
+  multipleChoice: `ANSWER FORMAT: MULTIPLE CHOICE.
+Add "choices": an array of exactly ${CHOICE_COUNT} short answer options (plain text math, no labels like "A)"), and "correctChoice": the 0-based index of the right one. Each wrong option must be the result of a specific common misconception or slip for this problem (sign error, wrong operation, forgetting a step), so every option looks plausible. Do not list the options in problemText. answer.value must equal the correct option.`,
+  numeric: `ANSWER FORMAT: NUMERIC WITH UNITS.
+The final answer must be a single number with a unit of measure (e.g. "12.5 m", "45 km/h"). Say in problemText which unit to answer in. Use answerType "quantity".`,
+  expression: `ANSWER FORMAT: SYMBOLIC EXPRESSION.
+The final answer must be an algebraic expression in the problem's variables (e.g. "3x^2 - 2x", "(x+1)/(x-1)"), not a number; this replaces the final-numerical-answer rule above. Use answerType "expression".`,
+  multiPart: `ANSWER FORMAT: MULTI-PART.
+Write a shared setup in problemText, then add "parts": an array of ${MIN_PARTS}-${MAX_PARTS} objects { "prompt": "<one question>", "answer": { "value", "answerType", "acceptableForms" } } that build on each other. Each part asks for one final answer. Do not repeat the part questions in problemText. Set the top-level answer to the last part's answer.`,
+};
+
+export const buildAnswerFormatDirective = (format: QuestionFormat): string =>
+  format === 'free' ? '' : `\n\n${FORMAT_DIRECTIVES[format]}`;
+
+const sanitizeLine = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+};
+
+const partLabel = (index: number) => String.fromCharCode(97 + index);
+
+/**
+ * Reads the format-specific fields of a generated problem. A format whose fields are missing
+ * or malformed degrades to `free`, which still grades against the top-level answer.
+ */
+export const readFormattedAnswer = (
+  parsed: Record<string, unknown>,
+  requested: QuestionFormat,
+): FormattedAnswer => {
+  const free: FormattedAnswer = {
+    format: 'free',
+    choices: [],
+    correctChoiceIndex: null,
+    parts: [],
+  };
+
+  if (requested === 'multipleChoice') {
+    const choices = Array.isArray(parsed.choices)
+      ? parsed.choices
+          .map((choice) => sanitizeLine(choice, MAX_CHOICE_LENGTH))
+          .filter((choice): choice is string => choice !== null)
+      : [];
+    const correctChoiceIndex = parsed.correctChoice;
+
+    if (
+      choices.length !== CHOICE_COUNT ||
+      new Set(choices).size !== CHOICE_COUNT ||
+      typeof correctChoiceIndex !== 'number' ||
+      !Number.isInteger(correctChoiceIndex) ||
+      correctChoiceIndex < 0 ||
+      correctChoiceIndex >= CHOICE_COUNT
+    ) {
+      return free;
+    }
+
+    return { format: 'multipleChoice', choices, correctChoiceIndex, parts: [] };
+  }
+
+  if (requested === 'multiPart') {
+    const parts = Array.isArray(parsed.parts)
+      ? parsed.parts.slice(0, MAX_PARTS).flatMap((item): Omit<AnswerKeyPart, 'label'>[] => {
+          if (!item || typeof item !== 'object') {
+            return [];
+          }
+
+          const record = item as Record<string, unknown>;
+          const prompt = sanitizeLine(record.prompt, MAX_PART_PROMPT_LENGTH);
+          const answer = sanitizeCanonicalAnswer(record.answer);
+          return prompt && answer ? [{ prompt, answer }] : [];
+        })
+      : [];
+
+    if (parts.length < MIN_PARTS) {
+      return free;
+    }
+
+    return {
+      format: 'multiPart',
+      choices: [],
+      correctChoiceIndex: null,
+      parts: parts.map((part, index) => ({ ...part, label: partLabel(index) })),
+    };
+  }
+
+  return { ...free, format: requested };
+};
+
+/** The answer key's top-level answer for a multi-part problem lists every part. */
+export const combinePartAnswers = (parts: AnswerKeyPart[]): CanonicalAnswer => ({
+  value: parts.map((part) => `(${part.label}) ${part.answer.value}`).join('; '),
+  answerType: null,
+  acceptableForms: [],
+});
+
+/**
+ * Matches a multiple-choice answer against the key. The client sends the chosen option's text;
+ * a bare letter ("B") is accepted only when no option reads exactly that, so options such as
+ * "A" or "C" are never mistaken for labels.
+ */
+export const isCorrectChoice = (
+  choices: string[],
+  correctChoiceIndex: number,
+  learnerAnswer: string,
+): boolean => {
+  const trimmed = learnerAnswer.trim();
+  const textIndex = choices.findIndex((choice) => choice.trim() === trimmed);
+  const chosenIndex = textIndex >= 0 ? textIndex : CHOICE_LABELS.indexOf(trimmed.toUpperCase());
+  return chosenIndex >= 0 && chosenIndex === correctChoiceIndex;
+};
+
+export const choiceLabel = (index: number): string => CHOICE_LABELS[index] ?? String(index + 1);
+
+/** Grades each part on its own; unanswered parts are incorrect. */
+export const gradeParts = (parts: AnswerKeyPart[], partAnswers: string[]): PartResult[] =>
+  parts.map((part, index) => {
+    const verification = verifyAgainstAnswerKey(part.answer, partAnswers[index] ?? '');
+    return {
+      label: part.label,
+      isCorrect: verification.verdict === 'correct',
+      correctAnswer: part.answer.value,
+      verification,
+    };
+  });
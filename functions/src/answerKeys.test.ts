@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseAnswerKeyDocument } from './answerKeys';
+
+const storedKey = {
+  ownerUid: 'owner',
+  problemText: 'Solve $2x + 3 = 11$.',
+  topicId: 'algebra',
+  difficulty: 'beginner',
+  answer: { value: '4', answerType: 'number', acceptableForms: ['x = 4'] },
+  workedSolution: 'Subtract 3, then divide by 2.',
+};
+
+describe('parseAnswerKeyDocument', () => {
+  it('returns the key to its owner', () => {
+    const lookup = parseAnswerKeyDocument(storedKey, 'owner');
+
+    assert.equal(lookup.status, 'found');
+    assert.equal(lookup.status === 'found' && lookup.key.answer.value, '4');
+  });
+
+  it('refuses another user without revealing the key', () => {
+    assert.deepEqual(parseAnswerKeyDocument(storedKey, 'someone-else'), { status: 'forbidden' });
+  });
+
+  it('refuses keys that have no owner recorded', () => {
+    assert.deepEqual(parseAnswerKeyDocument({ ...storedKey, ownerUid: undefined }, 'owner'), {
+      status: 'forbidden',
+    });
+  });
+
+  it('reports missing documents', () => {
+    assert.deepEqual(parseAnswerKeyDocument(undefined, 'owner'), { status: 'missing' });
+  });
+});
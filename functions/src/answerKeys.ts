@@ -0,0 +1,192 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import type { AnswerKeyPart, FormattedAnswer } from './answerFormats';
+import {
+  isAnswerForm,
+  verifyAnswer,
+  type AnswerForm,
+  type VerificationResult,
+} from './verification';
+
+/**
+ * Answer keys for generated problems.
+ *
+ * The canonical answer and worked solution are produced in the same model call that writes
+ * the problem, then stored in a collection the client rules never expose. Clients only hold
+ * the problem id; the key is revealed by the grading endpoints after an answer is submitted.
+ */
+
+export const ANSWER_KEYS_COLLECTION = 'problemAnswers';
+
+const MAX_ACCEPTABLE_FORMS = 6;
+
+export interface CanonicalAnswer {
+  value: string;
+  answerType: AnswerForm | null;
+  acceptableForms: string[];
+}
+
+export interface StoredAnswerKey extends FormattedAnswer {
+  problemText: string;
+  topicId: string;
+  difficulty: string;
+  answer: CanonicalAnswer;
+  workedSolution: string | null;
+}
+
+const sanitizeText = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+/**
+ * Validates the `answer` object returned by the generator. Returns null when the model did
+ * not supply a usable final value.
+ */
+export const sanitizeCanonicalAnswer = (raw: unknown): CanonicalAnswer | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const record = raw as Record<string, unknown>;
+  const value = sanitizeText(record.value);
+
+  if (!value) {
+    return null;
+  }
+
+  const acceptableForms = Array.isArray(record.acceptableForms)
+    ? record.acceptableForms
+        .map(sanitizeText)
+        .filter((form): form is string => form !== null && form !== value)
+        .slice(0, MAX_ACCEPTABLE_FORMS)
+    : [];
+
+  return {
+    value,
+    answerType: isAnswerForm(record.answerType) ? record.answerType : null,
+    acceptableForms,
+  };
+};
+
+export const sanitizeWorkedSolution = sanitizeText;
+
+export const saveAnswerKey = async (key: StoredAnswerKey, ownerUid: string): Promise<string> => {
+  const ref = await getFirestore()
+    .collection(ANSWER_KEYS_COLLECTION)
+    .add({
+      ...key,
+      ownerUid,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+  return ref.id;
+};
+
+/** A stored key as the grading endpoints see it: keys are only readable by their owner. */
+export type AnswerKeyLookup =
+  | { status: 'found'; key: StoredAnswerKey }
+  | { status: 'missing' }
+  | { status: 'forbidden' };
+
+/** Reads an answer key document for `callerUid`; another user's key is `forbidden`. */
+export const parseAnswerKeyDocument = (
+  data: Record<string, unknown> | undefined,
+  callerUid: string,
+): AnswerKeyLookup => {
+  if (!data) {
+    return { status: 'missing' };
+  }
+
+  if (data.ownerUid !== callerUid) {
+    return { status: 'forbidden' };
+  }
+
+  const answer = sanitizeCanonicalAnswer(data.answer);
+
+  if (!answer) {
+    return { status: 'missing' };
+  }
+
+  // Keys stored before answer formats existed have none of the format fields.
+  const parts = Array.isArray(data.parts)
+    ? data.parts.flatMap((item: unknown): AnswerKeyPart[] => {
+        const record = (item ?? {}) as Record<string, unknown>;
+        const partAnswer = sanitizeCanonicalAnswer(record.answer);
+        return typeof record.label === 'string' && typeof record.prompt === 'string' && partAnswer
+          ? [{ label: record.label, prompt: record.prompt, answer: partAnswer }]
+          : [];
+      })
+    : [];
+  const choices = Array.isArray(data.choices)
+    ? data.choices.filter((choice: unknown): choice is string => typeof choice === 'string')
+    : [];
+  const correctChoiceIndex =
+    typeof data.correctChoiceIndex === 'number' && data.correctChoiceIndex < choices.length
+      ? data.correctChoiceIndex
+      : null;
+
+  let format: FormattedAnswer['format'] = 'free';
+  if (data.format === 'multipleChoice' && correctChoiceIndex !== null) {
+    format = 'multipleChoice';
+  } else if (data.format === 'multiPart' && parts.length > 0) {
+    format = 'multiPart';
+  } else if (data.format === 'numeric' || data.format === 'expression') {
+    format = data.format;
+  }
+
+  return {
+    status: 'found',
+    key: {
+      format,
+      choices,
+      correctChoiceIndex,
+      parts,
+      problemText: typeof data.problemText === 'string' ? data.problemText : '',
+      topicId: typeof data.topicId === 'string' ? data.topicId : 'general',
+      difficulty: typeof data.difficulty === 'string' ? data.difficulty : 'intermediate',
+      answer,
+      workedSolution: sanitizeText(data.workedSolution),
+    },
+  };
+};
+
+export const loadAnswerKey = async (
+  problemId: string,
+  callerUid: string,
+): Promise<AnswerKeyLookup> => {
+  // Firestore ids never contain slashes; rejecting them keeps callers inside the collection.
+  if (!problemId || problemId.includes('/')) {
+    return { status: 'missing' };
+  }
+
+  const snapshot = await getFirestore().collection(ANSWER_KEYS_COLLECTION).doc(problemId).get();
+  return parseAnswerKeyDocument(snapshot.exists ? snapshot.data() : undefined, callerUid);
+};
+
+/**
+ * Checks a learner answer against the canonical value and each acceptable form. Any match is
+ * correct; otherwise the canonical value's verdict stands.
+ */
+export const verifyAgainstAnswerKey = (
+  answer: CanonicalAnswer,
+  learnerAnswer: string,
+): VerificationResult => {
+  const primary = verifyAnswer(answer.value, learnerAnswer, { expectedForm: answer.answerType });
+
+  if (primary.verdict === 'correct') {
+    return primary;
+  }
+
+  for (const form of answer.acceptableForms) {
+    const alternate = verifyAnswer(form, learnerAnswer, { expectedForm: answer.answerType });
+    if (alternate.verdict === 'correct') {
+      return { ...alternate, form: primary.form };
+    }
+  }
+
+  return primary;
+};
@@ -0,0 +1,48 @@
+import { getAuth } from 'firebase-admin/auth';
+import type * as functions from 'firebase-functions';
+
+/**
+ * Caller identity for the HTTP functions.
+ *
+ * Clients send the signed-in user's Firebase ID token as `Authorization: Bearer <token>`.
+ * The Admin SDK verifies it against production Auth, or against the Auth emulator whenever
+ * `FIREBASE_AUTH_EMULATOR_HOST` is set (the emulator suite sets it for the Functions emulator).
+ */
+
+export interface AuthContext {
+  uid: string;
+  email: string | null;
+}
+
+const extractBearerToken = (header: string | undefined): string | null => {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  const token = match?.[1]?.trim();
+  return token ? token : null;
+};
+
+/**
+ * Verifies the caller's ID token and stores the result on `res.locals.auth`. Responds with
+ * 401 and returns null when the token is missing or invalid, so handlers can simply return.
+ */
+export const requireAuth = async (
+  req: functions.https.Request,
+  res: functions.Response,
+): Promise<AuthContext | null> => {
+  const token = extractBearerToken(req.headers.authorization);
+
+  if (!token) {
+    res.status(401).json({ error: 'Authentication required.' });
+    return null;
+  }
+
+  try {
+    const decoded = await getAuth().verifyIdToken(token);
+    const context: AuthContext = { uid: decoded.uid, email: decoded.email ?? null };
+    res.locals.auth = context;
+    return context;
+  } catch (error) {
+    console.error('ID token verification failed', error);
+    res.status(401).json({ error: 'Invalid or expired ID token.' });
+    return null;
+  }
+};
@@ -2,8 +2,45 @@ import cors from 'cors';
 import { config as loadEnv } from 'dotenv';
 import { getApps, initializeApp } from 'firebase-admin/app';
 import * as functions from 'firebase-functions';
-import { OpenAI } from 'openai';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  buildAnswerFormatDirective,
+  choiceLabel,
+  combinePartAnswers,
+  gradeParts,
+  isCorrectChoice,
+  isQuestionFormat,
+  readFormattedAnswer,
+  type AnswerKeyPart,
+  type QuestionFormat,
+} from './answerFormats';
+import { requireAuth } from './auth';
+import {
+  loadAnswerKey,
+  sanitizeCanonicalAnswer,
+  sanitizeWorkedSolution,
+  saveAnswerKey,
+  verifyAgainstAnswerKey,
+  type AnswerKeyLookup,
+  type CanonicalAnswer,
+  type StoredAnswerKey,
+} from './answerKeys';
+import {
+  chatCompletion,
+  hasImageContent,
+  streamChatCompletion,
+  type LlmEndpoint,
+  type LlmMessage,
+  type LlmUsageListener,
+} from './llm';
+import { enforceQuota, trackUsageFor } from './quota';
+import {
+  buildStepTrackingDirective,
+  parseCompletedSteps,
+  parseStepPlan,
+  sanitizeStepStatuses,
+} from './solutionSteps';
+import { normalizeModelText, normalizeProblemText } from './textNormalization';
+import { isAnswerForm, type AnswerForm, type VerificationVerdict } from './verification';
 
 loadEnv();
 
@@ -23,11 +60,22 @@ const corsHandler = cors(corsOptions);
 type StepType = 'hint' | 'check' | 'final';
 type ResponseMode = 'default' | 'hint';
 type ProblemDifficulty = 'beginner' | 'intermediate' | 'advanced';
+type QuizGradingPath = 'verifier' | 'model';
 type QuizEvaluationResponse = {
   isCorrect: boolean;
   correctAnswer?: string | null;
   explanation?: string | null;
   feedback?: string | null;
+  gradedBy?: QuizGradingPath;
+  answerForm?: AnswerForm | null;
+  canonicalAnswer?: CanonicalAnswer | null;
+  /** Share of the question earned, 0-1; below 1 with some credit for partly right multi-part answers. */
+  score?: number;
+  partResults?: Array<{ label: string; isCorrect: boolean; correctAnswer: string }>;
+};
+type QuizSolution = {
+  answer: CanonicalAnswer;
+  explanation: string | null;
 };
 
 const DEFAULT_PROBLEM_DIFFICULTY: ProblemDifficulty = 'intermediate';
@@ -184,19 +232,34 @@ const PROBLEM_TOPIC_GUIDANCE: Record<
 const DEFAULT_TOPIC_GUIDANCE =
   'Select a meaningful concept from algebra, geometry, or calculus and pose a problem that invites step-by-step reasoning without revealing the answer.';
 
+const GRAPH_BLOCK_GUIDE = `A graph block is a fenced block whose body is one JSON object, written on its own line:
+\`\`\`graph
+{"title": "<optional>", "x": [-10, 10], "y": [-10, 10], "functions": ["y = a*sin(x)", {"expression": "x = 2", "label": "<optional>"}], "points": [{"x": 1, "y": 2, "label": "A"}], "segments": [{"from": [0, 0], "to": [3, 4], "label": "AB"}], "regions": [{"above": "x^2", "below": "4", "from": -2, "to": 2}], "sliders": [{"name": "a", "min": 0, "max": 3, "value": 1, "step": 0.1}]}
+\`\`\`
+Every field is optional but include at least one thing to draw. Write expressions in plain text (^ for powers, sqrt(), sin(), pi), as "y = ..." or "x = ..." equations. Sliders are single letters other than x, y and e, and functions, points and segments may use them. "regions" shades above the "above" curve and below the "below" curve. Never reveal an answer through the graph.`;
+
 const PROBLEM_GENERATOR_PROMPT = `You are MathMate, an AI tutor content designer. Generate a single math problem aligned with the requested topic and difficulty. The problem must invite reasoning and avoid giving away the solution.
 
 Always respond with a single JSON object using this exact shape:
 {
   "problemText": "<full problem statement with LaTeX where helpful>",
   "topicId": "<kebab-case topic identifier>",
+  "subtopic": "<the subtopic from the available list that this problem practices>",
   "difficulty": "beginner" | "intermediate" | "advanced",
   "suggestedHint": "<optional nudge that unlocks the first step>",
-  "title": "<short descriptive title for dashboards>"
+  "title": "<short descriptive title for dashboards>",
+  "answer": {
+    "value": "<final answer only, plain text math>",
+    "answerType": "number" | "quantity" | "expression" | "equation" | "interval" | "set" | "tuple" | "boolean",
+    "acceptableForms": ["<other equivalent ways to write the same answer>"]
+  },
+  "workedSolution": "<concise step-by-step solution, 2-6 sentences>"
 }
 
+The answer and workedSolution are an answer key: they are stored privately and NEVER shown with the problem. Solve the problem you wrote carefully and make sure answer.value is exactly right. Write answer.value with ^ for powers, sqrt() for roots and pi for π, units after the number for quantities, and all solutions separated by commas for sets.
+
 CRITICAL FORMATTING RULES:
-1. NEVER include the final answer or full worked solution.
+1. NEVER include the final answer or full worked solution in problemText.
 2. Encourage the learner to think or explain their steps.
 3. Use LaTeX delimiters ($...$ or $$...$$) ONLY for mathematical expressions - NOT for currency symbols.
 4. For currency amounts, use regular text like "$7" or "7 dollars" - DO NOT use LaTeX delimiters around currency.
@@ -205,6 +268,7 @@ CRITICAL FORMATTING RULES:
 7. If showing equations, use LaTeX: $n + m = 10$ for inline or $$n + m = 10$$ for block equations.
 8. For angles, use the degree symbol "°" directly (e.g., "60°" or "45°") or write "degrees" (e.g., "60 degrees"). NEVER use "exto" or other variations.
 9. Omit suggestedHint if it is not necessary.
+10. When the problem asks the learner to read a graph (function graphs, trig graphs, coordinate geometry, scatter plots for regression), include it in problemText as a graph block. ${GRAPH_BLOCK_GUIDE}
 
 FORMATTING EXAMPLES:
 - CORRECT: "A book costs $7 each and magazines cost $3 each."
@@ -216,6 +280,8 @@ FORMATTING EXAMPLES:
 - INCORRECT: "60exto" or "60 exto" (use "60°" or "60 degrees" instead)
 `;
 
+const MAX_VARIANT_SOURCE_LENGTH = 1500;
+
 const isValidProblemDifficulty = (value: unknown): value is ProblemDifficulty =>
   typeof value === 'string' && ['beginner', 'intermediate', 'advanced'].includes(value);
 
@@ -228,6 +294,20 @@ const normalizeTopicId = (value: unknown): string | null => {
   return trimmed.length > 0 ? trimmed : null;
 };
 
+// Matches a subtopic name against the topic's list, returning the canonical spelling.
+const findSubtopic = (topicId: string | null, value: unknown): string | null => {
+  if (!topicId || typeof value !== 'string') {
+    return null;
+  }
+
+  const wanted = value.trim().toLowerCase();
+  return (
+    PROBLEM_TOPIC_GUIDANCE[topicId]?.subtopics.find(
+      (subtopic) => subtopic.toLowerCase() === wanted,
+    ) ?? null
+  );
+};
+
 const sanitizeTopicId = (value: string): string =>
   value
     .trim()
@@ -245,6 +325,12 @@ const sanitizeEvaluationField = (value: unknown): string | null => {
   return trimmed.length > 0 ? trimmed : null;
 };
 
+/** Like sanitizeEvaluationField, plus the formatting fixes applied to all model prose. */
+const sanitizeEvaluationText = (value: unknown): string | null => {
+  const text = sanitizeEvaluationField(value);
+  return text ? normalizeModelText(text) : null;
+};
+
 const BASE_SYSTEM_PROMPT = `You are MathMate, a Socratic math tutor. Your role is to GUIDE learners to discover solutions themselves, NEVER to solve problems for them.
 
 CRITICAL RULES:
@@ -266,7 +352,9 @@ Rules for stepType:
 - Use "check" when validating the student's reasoning or asking a follow-up question (MOST COMMON)
 - Use "final" only when summarizing the full solution after the learner has successfully completed the problem or explicitly asks for a wrap-up
 
-Remember: Your goal is to help the learner THINK through the problem, not to solve it for them. Use LaTeX delimiters for math: $$...$$ for block equations, $...$ for inline.`;
+Remember: Your goal is to help the learner THINK through the problem, not to solve it for them. Use LaTeX delimiters for math: $$...$$ for block equations, $...$ for inline.
+
+When a picture would help the learner explore (how a parameter changes a graph, where two curves meet, a region or a shape on the coordinate plane), add a graph block to "content". ${GRAPH_BLOCK_GUIDE}`;
 
 const MODE_DIRECTIVES: Record<ResponseMode, string> = {
   default:
@@ -274,6 +362,29 @@ const MODE_DIRECTIVES: Record<ResponseMode, string> = {
   hint: 'Current mode: hint requested. Provide a concise hint that unlocks the next idea without solving the entire problem. Do not share the final answer. Set stepType to "hint" for this reply.',
 };
 
+const QUIZ_SOLUTION_SYSTEM_PROMPT = `You are MathMate, an expert mathematician preparing an answer key. Solve the question carefully, step by step, and report ONLY the final answer in a form that can be checked mechanically.
+
+RESPOND STRICTLY WITH A JSON OBJECT USING THIS EXACT SHAPE:
+{
+  "correctAnswer": "<final answer only>",
+  "answerForm": "number" | "quantity" | "expression" | "equation" | "interval" | "set" | "tuple" | "boolean",
+  "explanation": "<2-4 sentence explanation of the key idea>"
+}
+
+How to write correctAnswer for each answerForm:
+- number: a single exact value, e.g. "17", "3/4", "2*sqrt(3)", "0.125". Prefer exact values over rounded decimals unless the question asks for rounding.
+- quantity: a number followed by its unit, e.g. "12 ft^2", "45 km/h", "$18.50", "30 degrees".
+- expression: a simplified expression in the question's variables, e.g. "3x^2 + 2x - 1".
+- equation: a full equation, e.g. "y = 2x + 3".
+- interval: inequality or interval notation, e.g. "x > 3", "[2, 5)", "(-inf, -1) U (2, inf)".
+- set: every solution separated by commas, e.g. "-3, 2". Use "no solution" when there is none.
+- tuple: an ordered pair or triple, e.g. "(2, -1)".
+- boolean: "true" or "false".
+
+Rules:
+- Do NOT include working, words, or LaTeX delimiters in correctAnswer.
+- Use plain text math: ^ for powers, sqrt() for roots, pi for π.`;
+
 const QUIZ_EVALUATION_SYSTEM_PROMPT = `You are MathMate, an expert math evaluator and tutor. Your job is to review a learner's answer and provide:
 
 1. Whether the answer is correct (true/false)
@@ -289,36 +400,12 @@ RESPOND STRICTLY WITH A JSON OBJECT USING THIS EXACT SHAPE:
   "feedback": "<supportive coaching feedback>"
 }
 
-🚨 CRITICAL EVALUATION RULES FOR QUIZ MODE - READ THIS CAREFULLY:
-
-RULE 1: Calculate the problem yourself first to determine the correct numerical answer.
-  Example: "25 balloons, give away 8" → Correct answer is 17 (25 - 8 = 17)
-
-RULE 2: Extract ONLY the final numerical answer from the learner's response.
-  - If learner writes "17" → extracted answer = 17
-  - If learner writes "25-8=17" → extracted answer = 17 (number after =)
-  - If learner writes "25 - 8 = 17" → extracted answer = 17 (number after =)
-  - If learner writes "17." → extracted answer = 17
-  - Ignore everything else (equations, work, formatting) - only extract the final number
-
-RULE 3: Compare mathematically:
-  - If extracted answer = correct answer → mark isCorrect = TRUE
-  - If extracted answer ≠ correct answer → mark isCorrect = FALSE
-  - That's it. No other criteria.
-
-RULE 4: Examples showing CORRECT answers:
-  * Question: "25 balloons, give away 8, how many left?" (Correct: 17)
-    - Learner writes "17" → isCorrect = TRUE ✓
-    - Learner writes "25-8=17" → isCorrect = TRUE ✓
-    - Learner writes "25 - 8 = 17" → isCorrect = TRUE ✓
-    - Learner writes "16" → isCorrect = FALSE ✗
-
-RULE 5: Default to CORRECT if you're unsure.
-  - When in doubt, mark as CORRECT
-  - Only mark FALSE if you're absolutely certain the numerical answer is wrong
-  - Do NOT mark as incorrect for formatting, showing work, or any reason other than wrong numerical answer
-
-IMPORTANT: The ONLY thing that matters is whether the final numerical answer matches the correct answer. Everything else is irrelevant.
+EVALUATION RULES:
+- Work out the correct answer yourself before reading the learner's answer. If a reference answer is supplied, treat it as the answer key unless it is clearly wrong.
+- Judge the learner's FINAL answer only. Shown work, equivalent notation and harmless formatting differences do not make an answer wrong.
+- Mark isCorrect = true only when the final answer is mathematically equivalent to the correct answer. Missing solutions, extra solutions, wrong signs, wrong units or unjustified rounding are incorrect.
+- An empty, off-topic or unfinished answer is incorrect.
+- If you are unsure, mark the answer incorrect and explain what a complete answer would need.
 
 Rules:
 - Keep explanations concise (2-4 sentences)
@@ -327,33 +414,220 @@ Rules:
 - Do NOT include Markdown or LaTeX delimiters; plain text is fine.
 - If the question has multiple parts, summarize the correct resolution for each part.`;
 
+/**
+ * Tutor guidance for sessions started from a generated problem. The stored answer key lets
+ * the tutor judge the learner's final answer instead of re-solving the problem each turn.
+ */
+const buildAnswerKeyDirective = (
+  key: StoredAnswerKey,
+  answerCheck: VerificationVerdict | null,
+): string => {
+  const alternates =
+    key.answer.acceptableForms.length > 0
+      ? `\nEquivalent forms: ${key.answer.acceptableForms.join('; ')}`
+      : '';
+
+  let checkNote =
+    'Use the answer key to judge whether the learner has reached the correct final answer. Only use stepType "final" when their final answer matches it.';
+
+  if (answerCheck === 'correct') {
+    checkNote =
+      'AUTOMATIC CHECK: The learner\'s latest message matches the final answer in the answer key. Confirm it, summarize the key steps, and use stepType "final".';
+  } else if (answerCheck === 'incorrect') {
+    checkNote =
+      'AUTOMATIC CHECK: The learner\'s latest message does NOT match the final answer. It may still be a correct intermediate step, so judge that yourself, but do not treat the problem as solved and do not use stepType "final".';
+  }
+
+  return `ANSWER KEY FOR THE CURRENT PROBLEM (private - never reveal or quote it):
+Problem: ${key.problemText}
+Final answer: ${key.answer.value}${alternates}
+Worked solution: ${key.workedSolution ?? 'not available'}
+
+${checkNote}`;
+};
+
+const VERIFIED_FEEDBACK = {
+  correct: 'Nice work! Your answer matches the expected result.',
+  incorrect:
+    'Not quite. Compare your answer with the correct one and find the step where they start to differ.',
+  empty: 'No answer was submitted. Review the worked solution, then try a similar problem.',
+};
+
 const isValidStepType = (value: unknown): value is StepType =>
   typeof value === 'string' && ['hint', 'check', 'final'].includes(value);
 
-const createOpenAIClient = () => {
-  const apiKey = process.env.OPENAI_API_KEY;
+/**
+ * Asks the model for an answer key only (no grading), so the learner's answer can be checked
+ * deterministically against it. Returns null when no usable answer comes back.
+ */
+const solveQuizQuestion = async (
+  question: string,
+  difficulty: ProblemDifficulty,
+  onUsage: LlmUsageListener,
+): Promise<QuizSolution | null> => {
+  const rawContent = await chatCompletion(
+    'quizSolution',
+    [
+      { role: 'system', content: QUIZ_SOLUTION_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Question:\n${question}\n\nDifficulty: ${difficulty}.`,
+      },
+    ],
+    { jsonMode: true, onUsage },
+  );
 
-  if (!apiKey) {
-    throw new Error(
-      'OPENAI_API_KEY is not configured. Please set it as a Firebase Functions secret.',
-    );
+  if (!rawContent) {
+    return null;
   }
 
-  return new OpenAI({ apiKey });
+  try {
+    const parsed = JSON.parse(rawContent) as Record<string, unknown>;
+    const correctAnswer = sanitizeEvaluationField(parsed.correctAnswer);
+
+    if (!correctAnswer) {
+      return null;
+    }
+
+    return {
+      answer: {
+        value: correctAnswer,
+        answerType: isAnswerForm(parsed.answerForm) ? parsed.answerForm : null,
+        acceptableForms: [],
+      },
+      explanation: sanitizeEvaluationText(parsed.explanation),
+    };
+  } catch (parseError) {
+    console.error('Failed to parse quiz solution JSON', parseError, rawContent);
+    return null;
+  }
 };
 
-let openaiClient: OpenAI | null = null;
+/**
+ * Model grading for answers the verifier cannot compare (proofs, explanations, free-form
+ * text). The reference answer, when known, is passed along as the answer key.
+ */
+const gradeQuizAnswerWithModel = async (
+  question: string,
+  answer: string,
+  difficulty: ProblemDifficulty,
+  referenceAnswer: string | null,
+  onUsage: LlmUsageListener,
+): Promise<QuizEvaluationResponse | null> => {
+  const rawContent = await chatCompletion(
+    'quizEvaluation',
+    [
+      { role: 'system', content: QUIZ_EVALUATION_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Evaluate the learner's response and provide structured feedback.
 
-const getOpenAIClient = () => {
-  if (!openaiClient) {
-    try {
-      openaiClient = createOpenAIClient();
-    } catch (error) {
-      console.error('Failed to create OpenAI client:', error);
-      throw error;
-    }
+Question:
+${question}
+
+Reference answer:
+${referenceAnswer ?? '(not available - solve the question yourself first)'}
+
+Learner answer:
+${answer || '(no answer provided)'}
+
+Difficulty: ${difficulty}.`,
+      },
+    ],
+    { jsonMode: true, onUsage },
+  );
+
+  if (!rawContent) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(rawContent) as Partial<QuizEvaluationResponse>;
+    return {
+      isCorrect: parsed.isCorrect === true,
+      correctAnswer: sanitizeEvaluationField(parsed.correctAnswer) ?? referenceAnswer,
+      explanation: sanitizeEvaluationText(parsed.explanation),
+      feedback: sanitizeEvaluationText(parsed.feedback),
+    };
+  } catch (parseError) {
+    console.error('Failed to parse quiz evaluation JSON', parseError, rawContent);
+    return null;
+  }
+};
+
+/**
+ * Grades a multi-part answer part by part for partial credit. Parts the verifier cannot compare
+ * go to the model with the part's own reference answer.
+ */
+const gradeMultiPartAnswer = async (
+  problemText: string,
+  parts: AnswerKeyPart[],
+  partAnswers: string[],
+  difficulty: ProblemDifficulty,
+  onUsage: LlmUsageListener,
+  workedSolution: string | null,
+  canonicalAnswer: CanonicalAnswer,
+): Promise<QuizEvaluationResponse> => {
+  const results = await Promise.all(
+    gradeParts(parts, partAnswers).map(async (result, index) => {
+      if (result.verification.verdict !== 'unverifiable') {
+        return result;
+      }
+
+      const part = parts[index];
+      const evaluation = await gradeQuizAnswerWithModel(
+        `${problemText}\n\nPart (${part.label}): ${part.prompt}`,
+        partAnswers[index] ?? '',
+        difficulty,
+        part.answer.value,
+        onUsage,
+      );
+      return { ...result, isCorrect: evaluation?.isCorrect === true };
+    }),
+  );
+
+  const usedModel = results.some((result) => result.verification.verdict === 'unverifiable');
+  const correctParts = results.filter((result) => result.isCorrect).length;
+  const isCorrect = correctParts === results.length;
+  let feedback = isCorrect ? VERIFIED_FEEDBACK.correct : VERIFIED_FEEDBACK.incorrect;
+  if (correctParts > 0 && !isCorrect) {
+    feedback = `You got ${correctParts} of ${results.length} parts right. Check the parts marked wrong against the worked solution.`;
+  } else if (partAnswers.every((answer) => !answer)) {
+    feedback = VERIFIED_FEEDBACK.empty;
+  }
+
+  return {
+    isCorrect,
+    correctAnswer: canonicalAnswer.value,
+    explanation: workedSolution,
+    feedback,
+    gradedBy: usedModel ? 'model' : 'verifier',
+    answerForm: null,
+    canonicalAnswer,
+    score: results.length > 0 ? correctParts / results.length : 0,
+    partResults: results.map(({ label, isCorrect: partCorrect, correctAnswer }) => ({
+      label,
+      isCorrect: partCorrect,
+      correctAnswer,
+    })),
+  };
+};
+
+const MAX_IMAGES_PER_MESSAGE = 4;
+const MAX_IMAGE_LATEX_LENGTH = 2000;
+
+const sanitizeImageLatex = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_IMAGE_LATEX_LENGTH) : null;
+
+// Older clients send a single `imageUrl`; newer ones send every attachment in `imageUrls`.
+const toMessageImageUrls = (message: { imageUrl?: string | null; imageUrls?: unknown }) => {
+  const imageUrls = Array.isArray(message.imageUrls)
+    ? message.imageUrls.filter((url): url is string => typeof url === 'string' && url.length > 0)
+    : [];
+  if (imageUrls.length === 0 && typeof message.imageUrl === 'string' && message.imageUrl) {
+    imageUrls.push(message.imageUrl);
   }
-  return openaiClient;
+  return imageUrls.slice(0, MAX_IMAGES_PER_MESSAGE);
 };
 
 export const generateResponse = functions
@@ -364,7 +638,7 @@ export const generateResponse = functions
     secrets: ['OPENAI_API_KEY'],
   })
   .https.onRequest((req, res) => {
-    corsHandler(req, res, () => {
+    corsHandler(req, res, async () => {
       if (req.method === 'OPTIONS') {
         res.status(204).send('');
         return;
@@ -375,10 +649,25 @@ export const generateResponse = functions
         return;
       }
 
-      const { messages, mode, stream } = req.body as {
-        messages?: Array<{ role: string; content: string; imageUrl?: string | null }>;
+      const caller = await requireAuth(req, res);
+      if (!caller || !(await enforceQuota(res, caller.uid, 'generateResponse'))) {
+        return;
+      }
+
+      const trackUsage = trackUsageFor(caller.uid);
+
+      const { messages, mode, stream, problemId, steps } = req.body as {
+        messages?: Array<{
+          role: string;
+          content: string;
+          imageUrl?: string | null;
+          imageUrls?: unknown;
+          imageLatex?: unknown;
+        }>;
         mode?: ResponseMode;
         stream?: boolean;
+        problemId?: unknown;
+        steps?: unknown;
       };
 
       if (!Array.isArray(messages) || messages.length === 0) {
@@ -389,7 +678,7 @@ export const generateResponse = functions
       const responseMode: ResponseMode = mode === 'hint' ? 'hint' : 'default';
       const shouldStream = stream === true;
 
-      const sanitizedMessages: ChatCompletionMessageParam[] = [
+      const sanitizedMessages: LlmMessage[] = [
         {
           role: 'system',
           content: `${BASE_SYSTEM_PROMPT}\n\n${MODE_DIRECTIVES[responseMode]}`,
@@ -402,30 +691,29 @@ export const generateResponse = functions
           return;
         }
 
-        // Allow empty content if there's an imageUrl
+        // Allow empty content if there are images
         const content = typeof message.content === 'string' ? message.content : '';
-        const imageUrl =
-          message.imageUrl && typeof message.imageUrl === 'string' ? message.imageUrl : null;
+        const imageUrls = toMessageImageUrls(message);
+        const imageLatex = sanitizeImageLatex(message.imageLatex);
 
         const role = message.role === 'assistant' ? 'assistant' : 'user';
 
-        // If message has an image, format it for Vision API
-        if (imageUrl && role === 'user') {
+        // If message has images, format them for Vision API
+        if (imageUrls.length > 0 && role === 'user') {
+          const text =
+            content.trim() ||
+            `I have a math problem in ${imageUrls.length > 1 ? 'these images' : 'this image'}. Please help me understand it and guide me through solving it step by step using questions, not by giving me the answer directly.`;
           sanitizedMessages.push({
             role: 'user',
             content: [
               {
                 type: 'text',
-                text:
-                  content.trim() ||
-                  'I have a math problem in this image. Please help me understand it and guide me through solving it step by step using questions, not by giving me the answer directly.',
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUrl,
-                },
+                // The learner checked and corrected the OCR reading, so it outranks the pixels.
+                text: imageLatex
+                  ? `${text}\n\nI confirmed the problem in the image reads: $$${imageLatex}$$`
+                  : text,
               },
+              ...imageUrls.map((url) => ({ type: 'image' as const, url })),
             ],
           });
         } else {
@@ -437,25 +725,69 @@ export const generateResponse = functions
       }
 
       try {
-        const client = getOpenAIClient();
-
-        // Use gpt-4o for vision support, fallback to gpt-4o-mini if no images
-        const hasImages = sanitizedMessages.some(
-          (msg) =>
-            msg.role === 'user' &&
-            Array.isArray(msg.content) &&
-            msg.content.some((item) => typeof item === 'object' && 'image_url' in item),
-        );
+        // Image messages go to the vision endpoint config; text-only chats use the cheaper one
+        const hasImages = hasImageContent(sanitizedMessages);
+        const endpoint: LlmEndpoint = hasImages ? 'tutorVisionResponse' : 'tutorResponse';
 
         // Strengthen system prompt for image messages to emphasize Socratic method
         const systemPromptWithImage = hasImages
-          ? `${BASE_SYSTEM_PROMPT}\n\n${MODE_DIRECTIVES[responseMode]}\n\nSPECIAL NOTE FOR IMAGE PROBLEMS: When you see a math problem in an image, you must guide the learner through understanding and solving it using questions. DO NOT solve it for them. Start by asking what they understand about the problem, then guide them step by step with questions.`
+          ? `${BASE_SYSTEM_PROMPT}\n\n${MODE_DIRECTIVES[responseMode]}\n\nSPECIAL NOTE FOR IMAGE PROBLEMS: When you see a math problem in an image, you must guide the learner through understanding and solving it using questions. DO NOT solve it for them. Start by asking what they understand about the problem, then guide them step by step with questions. When the learner has confirmed what the image says, work from that confirmed text rather than your own reading of the image.`
           : `${BASE_SYSTEM_PROMPT}\n\n${MODE_DIRECTIVES[responseMode]}`;
 
+        // Sessions started from a generated problem check the learner against its answer key.
+        let answerCheck: VerificationVerdict | null = null;
+        let answerKeyDirective = '';
+        const requestedProblemId = sanitizeEvaluationField(problemId);
+
+        if (requestedProblemId) {
+          let lookup: AnswerKeyLookup = { status: 'missing' };
+          try {
+            lookup = await loadAnswerKey(requestedProblemId, caller.uid);
+          } catch (answerKeyError) {
+            console.error('Failed to load answer key', answerKeyError);
+          }
+
+          if (lookup.status === 'forbidden') {
+            res.status(403).json({ error: 'This problem belongs to another user.' });
+            return;
+          }
+
+          if (lookup.status === 'found') {
+            const latestLearnerMessage = [...messages]
+              .reverse()
+              .find((message) => message?.role === 'user');
+            const latestContent =
+              typeof latestLearnerMessage?.content === 'string'
+                ? latestLearnerMessage.content.trim()
+                : '';
+
+            if (latestContent && responseMode !== 'hint') {
+              const verdict = verifyAgainstAnswerKey(lookup.key.answer, latestContent).verdict;
+              answerCheck = verdict === 'unverifiable' ? null : verdict;
+            }
+            answerKeyDirective = `\n\n${buildAnswerKeyDirective(lookup.key, answerCheck)}`;
+          }
+        }
+
+        // A final answer that fails the answer-key check must not close the problem.
+        const resolveStepType = (stepType: StepType | undefined): StepType | undefined =>
+          stepType === 'final' && answerCheck === 'incorrect' ? 'check' : stepType;
+
+        // The step checklist the learner sees; empty until the model proposes a plan.
+        const stepStatuses = sanitizeStepStatuses(steps);
+        const readStepProgress = (parsed: unknown) => {
+          const record =
+            parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+          return {
+            plan: stepStatuses.length === 0 ? parseStepPlan(record.plan) : null,
+            completedSteps: parseCompletedSteps(record.completedSteps, stepStatuses),
+          };
+        };
+
         // Update system message with image-specific guidance if needed
         sanitizedMessages[0] = {
           role: 'system',
-          content: systemPromptWithImage,
+          content: `${systemPromptWithImage}${answerKeyDirective}\n\n${buildStepTrackingDirective(stepStatuses)}`,
         };
 
         if (shouldStream) {
@@ -468,20 +800,14 @@ export const generateResponse = functions
           let accumulatedStepType: StepType | undefined = undefined;
           let jsonBuffer = ''; // Buffer for raw JSON during streaming
 
-          const streamPromise = client.chat.completions.create({
-            model: hasImages ? 'gpt-4o' : 'gpt-4o-mini',
-            temperature: 0.3,
-            response_format: { type: 'json_object' },
-            messages: sanitizedMessages,
-            stream: true,
-          });
-
           // Handle streaming asynchronously
           (async () => {
             try {
-              const stream = await streamPromise;
-              for await (const chunk of stream) {
-                const delta = chunk.choices[0]?.delta?.content;
+              const stream = streamChatCompletion(endpoint, sanitizedMessages, {
+                jsonMode: true,
+                onUsage: trackUsage,
+              });
+              for await (const delta of stream) {
                 if (delta) {
                   jsonBuffer += delta;
 
@@ -494,9 +820,9 @@ export const generateResponse = functions
                       typeof parsed.content === 'string'
                     ) {
                       // Only update parsedContent with the actual content, never raw JSON
-                      parsedContent = parsed.content.trim();
+                      parsedContent = normalizeModelText(parsed.content.trim());
                       if (isValidStepType(parsed.stepType)) {
-                        accumulatedStepType = parsed.stepType;
+                        accumulatedStepType = resolveStepType(parsed.stepType);
                       }
 
                       // Send incremental content update (only if we have parsed content)
@@ -516,16 +842,16 @@ export const generateResponse = functions
                 const parsed = JSON.parse(jsonBuffer);
                 const finalContent =
                   parsed && typeof parsed === 'object' && typeof parsed.content === 'string'
-                    ? parsed.content.trim()
+                    ? normalizeModelText(parsed.content.trim())
                     : parsedContent.trim();
 
                 const finalStepType =
                   parsed && typeof parsed === 'object' && isValidStepType(parsed.stepType)
-                    ? parsed.stepType
+                    ? resolveStepType(parsed.stepType)
                     : accumulatedStepType;
 
                 res.write(
-                  `data: ${JSON.stringify({ content: finalContent, stepType: finalStepType, done: true })}\n\n`,
+                  `data: ${JSON.stringify({ content: finalContent, stepType: finalStepType, answerCheck, ...readStepProgress(parsed), done: true })}\n\n`,
                 );
                 res.write('data: [DONE]\n\n');
                 res.end();
@@ -533,13 +859,13 @@ export const generateResponse = functions
                 console.error('Failed to parse final JSON:', parseError, jsonBuffer);
                 // Send parsed content as fallback (never raw JSON)
                 res.write(
-                  `data: ${JSON.stringify({ content: parsedContent.trim(), done: true })}\n\n`,
+                  `data: ${JSON.stringify({ content: parsedContent.trim(), answerCheck, done: true })}\n\n`,
                 );
                 res.write('data: [DONE]\n\n');
                 res.end();
               }
             } catch (error) {
-              console.error('Streaming error:', error);
+              console.error('Streaming error:', { uid: caller.uid }, error);
               res.write(`data: ${JSON.stringify({ error: 'Streaming failed' })}\n\n`);
               res.write('data: [DONE]\n\n');
               res.end();
@@ -547,18 +873,10 @@ export const generateResponse = functions
           })();
         } else {
           // Non-streaming mode: original behavior
-          client.chat.completions
-            .create({
-              model: hasImages ? 'gpt-4o' : 'gpt-4o-mini',
-              temperature: 0.3,
-              response_format: { type: 'json_object' },
-              messages: sanitizedMessages,
-            })
-            .then((completion) => {
-              const assistantMessage = completion.choices[0]?.message?.content?.trim();
-
+          chatCompletion(endpoint, sanitizedMessages, { jsonMode: true, onUsage: trackUsage })
+            .then((assistantMessage) => {
               if (!assistantMessage) {
-                res.status(500).json({ error: 'No response returned from OpenAI.' });
+                res.status(500).json({ error: 'No response returned from the model.' });
                 return;
               }
 
@@ -572,7 +890,7 @@ export const generateResponse = functions
                   parseError,
                   assistantMessage,
                 );
-                res.status(500).json({ error: 'Malformed response returned from OpenAI.' });
+                res.status(500).json({ error: 'Malformed response returned from the model.' });
                 return;
               }
 
@@ -580,11 +898,11 @@ export const generateResponse = functions
                 parsed &&
                 typeof parsed === 'object' &&
                 typeof (parsed as { content?: unknown }).content === 'string'
-                  ? ((parsed as { content: string }).content || '').trim()
+                  ? normalizeModelText(((parsed as { content: string }).content || '').trim())
                   : '';
 
               if (!content) {
-                res.status(500).json({ error: 'OpenAI returned an empty content payload.' });
+                res.status(500).json({ error: 'The model returned an empty content payload.' });
                 return;
               }
 
@@ -593,19 +911,21 @@ export const generateResponse = functions
                   ? (parsed as { stepType?: unknown }).stepType
                   : undefined;
 
-              const stepType = isValidStepType(maybeStepType) ? maybeStepType : undefined;
+              const stepType = isValidStepType(maybeStepType)
+                ? resolveStepType(maybeStepType)
+                : undefined;
 
-              res.status(200).json({ content, stepType });
+              res.status(200).json({ content, stepType, answerCheck, ...readStepProgress(parsed) });
             })
             .catch((error) => {
-              console.error('generateResponse failed', error);
+              console.error('generateResponse failed', { uid: caller.uid }, error);
               res.status(500).json({ error: 'Failed to generate response.' });
             });
         }
       } catch (error) {
-        console.error('Failed to get OpenAI client:', error);
+        console.error('Failed to start model request:', { uid: caller.uid }, error);
         res.status(500).json({
-          error: 'Failed to initialize OpenAI client. Check logs for details.',
+          error: 'Failed to initialize the model provider. Check logs for details.',
         });
       }
     });
@@ -630,25 +950,51 @@ export const generateProblem = functions
         return;
       }
 
-      const { topic, difficulty, recentProblems, mode } = req.body as {
+      const caller = await requireAuth(req, res);
+      if (!caller || !(await enforceQuota(res, caller.uid, 'generateProblem'))) {
+        return;
+      }
+
+      const trackUsage = trackUsageFor(caller.uid);
+
+      const { topic, subtopic, difficulty, recentProblems, mode, variantOf, format } = req.body as {
         topic?: unknown;
+        subtopic?: unknown;
+        variantOf?: unknown;
+        format?: unknown;
         difficulty?: unknown;
         recentProblems?: Array<{ topicId: string; problemText: string; timestamp: number }> | null;
         mode?: 'quiz' | 'tutor';
       };
 
       const problemMode = mode === 'quiz' ? 'quiz' : 'tutor';
+      // Answer formats only apply to quiz questions; tutor problems stay free response.
+      const requestedFormat: QuestionFormat =
+        problemMode === 'quiz' && isQuestionFormat(format) ? format : 'free';
+      const finalAnswerKind =
+        requestedFormat === 'expression' ? 'final expression' : 'final numerical answer';
 
       const requestedTopic = normalizeTopicId(topic);
+      const requestedSubtopic = findSubtopic(requestedTopic, subtopic);
+      // Review sessions ask for a fresh version of a problem the learner missed.
+      const variantSource =
+        typeof variantOf === 'string' && variantOf.trim()
+          ? variantOf.trim().slice(0, MAX_VARIANT_SOURCE_LENGTH)
+          : null;
+      const variantInstructions = variantSource
+        ? `\n\n🔁 ISOMORPHIC VARIANT: Write a variant of the problem below. Keep the same mathematical structure, skill, and number of steps, but change the numbers, names, and context so the answer is different. Do NOT copy its wording.\n\nOriginal problem:\n${variantSource}`
+        : '';
       const requestedDifficulty: ProblemDifficulty = isValidProblemDifficulty(difficulty)
         ? (difficulty as ProblemDifficulty)
         : DEFAULT_PROBLEM_DIFFICULTY;
 
       const topicGuidance = requestedTopic ? PROBLEM_TOPIC_GUIDANCE[requestedTopic] : undefined;
       const topicGuidanceText = topicGuidance?.guidance ?? DEFAULT_TOPIC_GUIDANCE;
-      const subtopicsText = topicGuidance?.subtopics
-        ? `\n\nAvailable subtopics for variety: ${topicGuidance.subtopics.join(', ')}`
-        : '';
+      const subtopicsText = requestedSubtopic
+        ? `\n\nRequired subtopic: ${requestedSubtopic}. The problem MUST practice this subtopic; create variety through the numbers, context, and structure instead.`
+        : topicGuidance?.subtopics
+          ? `\n\nAvailable subtopics for variety: ${topicGuidance.subtopics.join(', ')}`
+          : '';
 
       // Check for problem diversity violations
       const recentProblemsList = Array.isArray(recentProblems) ? recentProblems : [];
@@ -723,7 +1069,7 @@ ${relevantProblems
 - Example GOOD question: "Emma has 15 pencils. She gives away 7. How many pencils does she have left?"
 - Example BAD question: "Emma has 15 pencils. She gives away 7. Write an equation and solve to find how many pencils she has left."
 - Example BAD question: "Emma has 15 pencils. She gives away 7. Calculate this by finding the difference."
-- Keep the question focused on the mathematical scenario and the final answer needed`
+- Keep the question focused on the mathematical scenario and the final answer needed${buildAnswerFormatDirective(requestedFormat)}`
           : `
 🚨 TUTOR MODE (default):
 - You can encourage thinking and reasoning
@@ -745,7 +1091,7 @@ Topic focus: ${topicGuidanceText}${subtopicsText}${topicDiversityWarning}${diver
 
       const quizModeReminder =
         problemMode === 'quiz'
-          ? `\n\n🚨 REMEMBER: This is QUIZ MODE - only ask for the final numerical answer. Do NOT ask for equations or work. Just ask "How many...?" or "What is...?"`
+          ? `\n\n🚨 REMEMBER: This is QUIZ MODE - only ask for the ${finalAnswerKind}. Do NOT ask for equations or work. Just ask "How many...?" or "What is...?"`
           : '';
 
       const userContent = topicGuidance
@@ -753,7 +1099,7 @@ Topic focus: ${topicGuidanceText}${subtopicsText}${topicDiversityWarning}${diver
 
 🚨 CRITICAL REQUIREMENTS:
 1. This problem MUST be MATHEMATICALLY DIFFERENT from any recent problems
-2. Choose a DIFFERENT subtopic from the available list (not one used recently)
+2. ${requestedSubtopic ? `Practice the subtopic "${requestedSubtopic}" - do not switch to another subtopic` : 'Choose a DIFFERENT subtopic from the available list (not one used recently)'}
 3. Use DIFFERENT numbers (if you see 12 and 4, use different numbers like 15, 8, 20, 3, etc.)
 4. Use a DIFFERENT operation (if recent problems used division, use addition, subtraction, multiplication, etc.)
 5. Use a COMPLETELY DIFFERENT real-world context (not "apples" again - use books, money, distance, time, shapes, etc.)
@@ -772,22 +1118,20 @@ If you select a different but related topic, set topicId to a descriptive kebab-
 6. The problem structure must be DIFFERENT from recent problems
 7. Set topicId to a descriptive kebab-case label matching the topic you choose${quizModeReminder}`;
 
+      const userPrompt = `${userContent}${variantInstructions}`;
+
       try {
-        const client = getOpenAIClient();
-        const completion = await client.chat.completions.create({
-          model: 'gpt-4o-mini',
-          temperature: 0.85, // High enough for variety but lower to reduce formatting errors
-          response_format: { type: 'json_object' },
-          messages: [
+        const rawContent = await chatCompletion(
+          'problemGeneration',
+          [
             { role: 'system', content: systemContent },
-            { role: 'user', content: userContent },
+            { role: 'user', content: userPrompt },
           ],
-        });
-
-        const rawContent = completion.choices[0]?.message?.content?.trim();
+          { jsonMode: true, onUsage: trackUsage },
+        );
 
         if (!rawContent) {
-          res.status(500).json({ error: 'No response returned from OpenAI.' });
+          res.status(500).json({ error: 'No response returned from the model.' });
           return;
         }
 
@@ -797,431 +1141,24 @@ If you select a different but related topic, set topicId to a descriptive kebab-
           parsed = JSON.parse(rawContent);
         } catch (parseError) {
           console.error('Failed to parse generated problem JSON', parseError, rawContent);
-          res.status(500).json({ error: 'Malformed problem response returned from OpenAI.' });
+          res.status(500).json({ error: 'Malformed problem response returned from the model.' });
           return;
         }
 
-        let problemText =
+        const rawProblemText =
           parsed &&
           typeof parsed === 'object' &&
           typeof (parsed as { problemText?: unknown }).problemText === 'string'
             ? ((parsed as { problemText: string }).problemText || '').trim()
             : '';
 
-        if (!problemText) {
-          res.status(500).json({ error: 'OpenAI returned an empty problem statement.' });
+        if (!rawProblemText) {
+          res.status(500).json({ error: 'The model returned an empty problem statement.' });
           return;
         }
 
-        // Post-process to fix common formatting issues
-        // STEP 1: Fix incorrect splits first (e.g., "or ganizing" -> "organizing")
-        // Fix common words that get incorrectly split
-        problemText = problemText
-          .replace(/\bor\s+ganizing\b/gi, 'organizing')
-          .replace(/\bor\s+ganize\b/gi, 'organize')
-          .replace(/\bor\s+ganized\b/gi, 'organized')
-          .replace(/\bor\s+ganization\b/gi, 'organization')
-          .replace(/\bre\s+alizing\b/gi, 'realizing')
-          .replace(/\bre\s+alize\b/gi, 'realize')
-          .replace(/\bre\s+alized\b/gi, 'realized')
-          .replace(/\bre\s+cognizing\b/gi, 'recognizing')
-          .replace(/\bre\s+cognize\b/gi, 'recognize')
-          .replace(/\bre\s+cognized\b/gi, 'recognized');
-
-        // STEP 2: Fix angle formatting - replace common malformed angle patterns
-        problemText = problemText
-          .replace(/(\d+)\s*exto\s*/gi, '$1° ') // Fix "60 exto" or "60exto" -> "60° "
-          .replace(/(\d+)\s*degrees?\s*/gi, '$1° ') // Standardize "60 degrees" -> "60° "
-          .replace(/(\d+)\s*deg\s*/gi, '$1° ') // Fix "60 deg" -> "60° "
-          .replace(/(\d+)\s*°\s*/g, '$1° ') // Normalize spacing around degree symbol
-          .replace(/([a-z])([A-Z])/g, '$1 $2') // Add space between camelCase words
-          // STEP 3: Fix missing spaces between words and numbers
-          .replace(/(\d)([a-zA-Z])/g, '$1 $2') // Add space between number and letter (e.g., "7each" -> "7 each")
-          .replace(/([a-zA-Z])(\d)/g, '$1 $2') // Add space between letter and number (e.g., "has30" -> "has 30")
-          // STEP 4: Fix concatenated words with "and" + number (e.g., "*fictionbooksand9*" -> "fiction books and 9")
-          // Handle both with and without markdown asterisks
-          // Match pattern: word+books+and+number (e.g., "fictionbooksand9")
-          .replace(/\*?([a-z]+?)(books)(and)(\d+)\*?/gi, '$1 $2 $3 $4') // "*fictionbooksand9*" -> "fiction books and 9"
-          // Match pattern: word+book+and+number (e.g., "fictionbookand9")
-          .replace(/\*?([a-z]+?)(book)(and)(\d+)\*?/gi, '$1 $2 $3 $4') // "*fictionbookand9*" -> "fiction book and 9"
-          // Match pattern: word+books+space+and+number (e.g., "fiction booksand9")
-          .replace(/\*?([a-z]+)(books)(\s+)(and)(\d+)\*?/gi, '$1 $2 $3$4 $5') // "*fiction booksand9*" -> "fiction books and 9"
-          // STEP 5: Fix missing spaces between common words ONLY when clearly concatenated
-          .replace(
-            /\b(and|or)(she|he|they|we|you|it|the|a|an|this|that|these|those|has|have|had|is|are|was|were|can|will)\b/gi,
-            '$1 $2',
-          )
-          .replace(
-            /\b(she|he|they|we|you|it|the|a|an|this|that|these|those|has|have|had|is|are|was|were|can|will)(and|or)\b/gi,
-            '$1 $2',
-          )
-          // STEP 6: Fix common word concatenations (e.g., "fictionbooks" -> "fiction books")
-          .replace(/([a-z]+)(books|book)(\s|$|[^a-z])/gi, (match, prefix, word, after) => {
-            // Only split if it's clearly a concatenated word (like "fictionbooks")
-            // Common patterns: word + "books" or word + "book"
-            if (prefix.toLowerCase() === 'fiction' || prefix.toLowerCase() === 'nonfiction') {
-              return `${prefix} ${word}${after || ''}`;
-            }
-            // For other cases, check if prefix looks like a complete word + "s" or similar
-            if (prefix.length > 5 && prefix.endsWith('s')) {
-              const base = prefix.slice(0, -1);
-              // Only split if base is a reasonable word length
-              if (base.length > 3) {
-                return `${base} ${word}${after || ''}`;
-              }
-            }
-            return match;
-          })
-          .replace(/\s+/g, ' ') // Normalize multiple spaces to single space
-          .trim();
-
-        // Fix currency detection - add dollar signs before numbers in currency context
-        // Match patterns like "costs 5", "spend 30", "buy 5", "$5 and", "to spend 30", etc.
-        // BUT NOT for quantity contexts like "has 24 pencils", "has 5 books", etc.
-        problemText = problemText.replace(
-          /\b(?:costs?|spends?|pays?|spent|price|prices?|worth|total|dollars?)\s+(\d+)\b/gi,
-          (match, amount, offset) => {
-            // Check if there's already a dollar sign before this number
-            const beforeMatch = problemText.substring(0, offset);
-            const afterMatch = problemText.substring(offset + match.length);
-            const contextBefore = beforeMatch.slice(-30);
-            const contextAfter = afterMatch.slice(0, 30);
-
-            // If dollar sign already exists immediately before this number, don't add another
-            if (contextBefore.slice(-2) === '$' || beforeMatch.slice(-1) === '$') {
-              return match;
-            }
-
-            // Also check if this number is part of a math expression (don't add $ to equation numbers)
-            if (contextAfter.match(/^\s*[+\-*/=()]/) || contextBefore.match(/[+\-*/=()]\s*$/)) {
-              return match;
-            }
-
-            // Replace the amount with $amount
-            return match.replace(amount, `$${amount}`);
-          },
-        );
-
-        // Handle "has/have" - don't add $ if followed by quantity words (pencils, books, etc.)
-        problemText = problemText.replace(
-          /\b(has|have)\s+(\d+)\s+([a-z]+)/gi,
-          (match, verb, amount, nextWord, offset) => {
-            // Check if there's already a dollar sign before this number
-            const beforeMatch = problemText.substring(0, offset);
-            if (beforeMatch.slice(-1) === '$') {
-              return match;
-            }
-
-            // Common quantity words that should NOT have $ added
-            const quantityWords = [
-              'pencils',
-              'pencil',
-              'books',
-              'book',
-              'items',
-              'item',
-              'pieces',
-              'piece',
-              'objects',
-              'object',
-              'things',
-              'thing',
-              'students',
-              'student',
-              'people',
-              'pupils',
-              'pupil',
-              'children',
-              'child',
-            ];
-
-            // If followed by a quantity word, don't add $
-            if (quantityWords.includes(nextWord.toLowerCase())) {
-              return match;
-            }
-
-            // If followed by currency-related words, add $
-            const currencyWords = ['dollar', 'dollars', 'cent', 'cents', 'money', 'cash'];
-            if (currencyWords.includes(nextWord.toLowerCase())) {
-              return match.replace(amount, `$${amount}`);
-            }
-
-            // For other cases with "has/have", don't add $ to be safe
-            return match;
-          },
-        );
-
-        // Handle "buy/buys + number + more/quantity words" - don't add $ for quantity purchases
-        // This must come BEFORE the general "buy/buys" pattern to prevent false currency detection
-        problemText = problemText.replace(
-          /\b(buy|buys)\s+(\d+)\s+(more|additional|extra)\s+([a-z]+)/gi,
-          (match) => {
-            // Check if there's already a dollar sign - if so, remove it
-            if (match.includes('$')) {
-              return match.replace(/\$(\d+)/g, '$1');
-            }
-            return match;
-          },
-        );
-
-        // Handle "buy/buys + number + quantity words" - don't add $ for quantity purchases
-        problemText = problemText.replace(
-          /\b(buy|buys)\s+(\d+)\s+([a-z]+)/gi,
-          (match, verb, amount, nextWord, offset) => {
-            // Check if there's already a dollar sign - if so, remove it for quantity purchases
-            if (match.includes('$')) {
-              const quantityWords = [
-                'pencils',
-                'pencil',
-                'books',
-                'book',
-                'items',
-                'item',
-                'pieces',
-                'piece',
-                'objects',
-                'object',
-                'things',
-                'thing',
-                'students',
-                'student',
-                'people',
-                'pupils',
-                'pupil',
-                'children',
-                'child',
-                'stickers',
-                'sticker',
-                'apples',
-                'apple',
-                'oranges',
-                'orange',
-                'cookies',
-                'cookie',
-                'candies',
-                'candy',
-                'marbles',
-                'marble',
-                'coins',
-                'coin',
-                'stamps',
-                'stamp',
-                'cards',
-                'card',
-                'tickets',
-                'ticket',
-                'flowers',
-                'flower',
-                'trees',
-                'tree',
-                'cars',
-                'car',
-                'bikes',
-                'bike',
-                'toys',
-                'toy',
-                'games',
-                'game',
-              ];
-              if (quantityWords.includes(nextWord.toLowerCase())) {
-                return match.replace(/\$(\d+)/g, '$1');
-              }
-            }
-
-            const beforeMatch = problemText.substring(0, offset);
-            if (beforeMatch.slice(-1) === '$') {
-              return match;
-            }
-
-            // Common quantity words that should NOT have $ added
-            const quantityWords = [
-              'pencils',
-              'pencil',
-              'books',
-              'book',
-              'items',
-              'item',
-              'pieces',
-              'piece',
-              'objects',
-              'object',
-              'things',
-              'thing',
-              'students',
-              'student',
-              'people',
-              'pupils',
-              'pupil',
-              'children',
-              'child',
-              'stickers',
-              'sticker',
-              'apples',
-              'apple',
-              'oranges',
-              'orange',
-              'cookies',
-              'cookie',
-              'candies',
-              'candy',
-              'marbles',
-              'marble',
-              'coins',
-              'coin',
-              'stamps',
-              'stamp',
-              'cards',
-              'card',
-              'tickets',
-              'ticket',
-              'flowers',
-              'flower',
-              'trees',
-              'tree',
-              'cars',
-              'car',
-              'bikes',
-              'bike',
-              'toys',
-              'toy',
-              'games',
-              'game',
-            ];
-
-            // If followed by a quantity word, don't add $
-            if (quantityWords.includes(nextWord.toLowerCase())) {
-              return match;
-            }
-
-            // If followed by currency-related words, add $
-            const currencyWords = ['dollar', 'dollars', 'cent', 'cents', 'money', 'cash'];
-            if (currencyWords.includes(nextWord.toLowerCase())) {
-              return match.replace(amount, `$${amount}`);
-            }
-
-            // For other cases with "buy/buys", add $ to be safe (buying usually implies currency)
-            return match.replace(amount, `$${amount}`);
-          },
-        );
-
-        // Handle "buy/buys" without a following word (e.g., "buy 5" at end of sentence)
-        problemText = problemText.replace(
-          /\b(buy|buys)\s+\$?(\d+)(\s|$|[.,!?])/gi,
-          (match, verb, amount, after, offset) => {
-            const beforeMatch = problemText.substring(0, offset);
-            if (beforeMatch.slice(-1) === '$') {
-              return match;
-            }
-            // Check context before the match to see if it's likely a quantity
-            const contextBefore = problemText.substring(Math.max(0, offset - 20), offset);
-            // If preceded by "more" or quantity words, remove $ if present
-            if (contextBefore.match(/\b(more|additional|extra)\s+(buy|buys)\s*$/i)) {
-              return match.replace(/\$(\d+)/g, '$1');
-            }
-            // Otherwise, add $ for buying (usually implies currency) if not already present
-            if (!match.includes('$')) {
-              return match.replace(amount, `$${amount}`);
-            }
-            return match;
-          },
-        );
-
-        // Also fix currency at start of sentences or after certain punctuation
-        problemText = problemText.replace(
-          /(?:^|\. |, |\? |! )(\d+)\s+(?:and|or|to|costs?|spends?|buy|buys?)(?:\s+([a-z]+))?/gi,
-          (match, amount, nextWord) => {
-            // Check if it's already a currency
-            if (match.includes('$')) {
-              // If followed by quantity words, remove the $
-              if (nextWord) {
-                const quantityWords = [
-                  'more',
-                  'pencils',
-                  'pencil',
-                  'books',
-                  'book',
-                  'items',
-                  'item',
-                  'pieces',
-                  'piece',
-                  'objects',
-                  'object',
-                  'things',
-                  'thing',
-                  'students',
-                  'student',
-                  'people',
-                  'stickers',
-                  'sticker',
-                ];
-                if (quantityWords.includes(nextWord.toLowerCase())) {
-                  return match.replace(/\$(\d+)/g, '$1');
-                }
-              }
-              return match;
-            }
-            // If followed by quantity words, don't add $
-            if (nextWord) {
-              const quantityWords = [
-                'more',
-                'pencils',
-                'pencil',
-                'books',
-                'book',
-                'items',
-                'item',
-                'pieces',
-                'piece',
-                'objects',
-                'object',
-                'things',
-                'thing',
-                'students',
-                'student',
-                'people',
-                'stickers',
-                'sticker',
-              ];
-              if (quantityWords.includes(nextWord.toLowerCase())) {
-                return match;
-              }
-            }
-            return match.replace(amount, `$${amount}`);
-          },
-        );
-
-        // Fix malformed currency/LaTeX patterns
-        // Pattern: number followed by $$ (not part of valid $$...$$ block) - likely malformed currency
-        problemText = problemText.replace(/(\d+)\$\$([^$]|$)/g, (match, num, after) => {
-          // If followed by space or end, likely currency - convert to $num
-          // If followed by other char, might be start of equation, keep $$
-          if (!after || after.trim() === '') {
-            return `$${num}${after || ''}`;
-          }
-          // Check if it's part of a valid LaTeX block $$...$$ by looking ahead
-          const restOfText = problemText.substring(problemText.indexOf(match) + match.length);
-          if (restOfText.includes('$$')) {
-            // Might be valid LaTeX, don't change
-            return match;
-          }
-          // Likely malformed, fix it
-          return `$${num}${after}`;
-        });
-
-        // Fix standalone double dollar signs (not part of valid $$...$$ blocks)
-        // This handles cases where $$ appears alone or malformed
-        problemText = problemText.replace(/([^$])\$\$([^$]|$)/g, (match, before, after) => {
-          // Check if this is part of a valid $$...$$ block
-          const textAfter = problemText.substring(problemText.indexOf(match) + match.length);
-          const hasClosingDollar = textAfter.includes('$$');
-
-          if (!hasClosingDollar) {
-            // No closing $$, likely malformed - convert to single $
-            return `${before}$${after || ''}`;
-          }
-          // Might be valid LaTeX block, keep it
-          return match;
-        });
+        // Repair formatting mistakes the model makes in word problems (see textNormalization).
+        const problemText = normalizeProblemText(rawProblemText);
 
         const rawTopicId =
           parsed &&
@@ -1230,6 +1167,14 @@ If you select a different but related topic, set topicId to a descriptive kebab-
             ? ((parsed as { topicId: string }).topicId || '').trim()
             : (requestedTopic ?? 'general');
         const resolvedTopicId = sanitizeTopicId(rawTopicId);
+        const resolvedSubtopic =
+          requestedSubtopic ??
+          findSubtopic(
+            resolvedTopicId,
+            parsed && typeof parsed === 'object'
+              ? (parsed as { subtopic?: unknown }).subtopic
+              : null,
+          );
 
         const rawDifficulty =
           parsed &&
@@ -1256,15 +1201,61 @@ If you select a different but related topic, set topicId to a descriptive kebab-
             ? ((parsed as { title: string }).title || '').trim()
             : '';
 
+        const formatted = readFormattedAnswer(parsed as Record<string, unknown>, requestedFormat);
+
+        // The answer key is stored server-side only; the client receives just its id.
+        let canonicalAnswer =
+          parsed && typeof parsed === 'object'
+            ? sanitizeCanonicalAnswer((parsed as { answer?: unknown }).answer)
+            : null;
+        if (formatted.format === 'multiPart') {
+          canonicalAnswer = combinePartAnswers(formatted.parts);
+        } else if (formatted.format === 'multipleChoice' && formatted.correctChoiceIndex !== null) {
+          canonicalAnswer = canonicalAnswer ?? {
+            value: formatted.choices[formatted.correctChoiceIndex],
+            answerType: null,
+            acceptableForms: [],
+          };
+        }
+        let problemId: string | null = null;
+
+        if (canonicalAnswer) {
+          try {
+            problemId = await saveAnswerKey(
+              {
+                ...formatted,
+                problemText,
+                topicId: resolvedTopicId,
+                difficulty: resolvedDifficulty,
+                answer: canonicalAnswer,
+                workedSolution: sanitizeWorkedSolution(
+                  (parsed as { workedSolution?: unknown }).workedSolution,
+                ),
+              },
+              caller.uid,
+            );
+          } catch (storeError) {
+            console.error('Failed to store answer key', { uid: caller.uid }, storeError);
+          }
+        }
+
         res.status(200).json({
           problemText,
           topicId: resolvedTopicId,
+          subtopic: resolvedSubtopic,
           difficulty: resolvedDifficulty,
           suggestedHint: suggestedHint || undefined,
           title: title || undefined,
+          problemId,
+          format: formatted.format,
+          choices: formatted.format === 'multipleChoice' ? formatted.choices : undefined,
+          parts:
+            formatted.format === 'multiPart'
+              ? formatted.parts.map(({ label, prompt }) => ({ label, prompt }))
+              : undefined,
         });
       } catch (error) {
-        console.error('generateProblem failed', error);
+        console.error('generateProblem failed', { uid: caller.uid }, error);
         res.status(500).json({ error: 'Failed to generate problem.' });
       }
     });
@@ -1294,16 +1285,25 @@ export const evaluateQuizAnswer = functions
       return;
     }
 
-    corsHandler(req, res, () => {
+    corsHandler(req, res, async () => {
       if (req.method !== 'POST') {
         res.status(405).json({ error: 'Method not allowed' });
         return;
       }
 
-      const { question, userAnswer, difficulty } = req.body as {
+      const caller = await requireAuth(req, res);
+      if (!caller || !(await enforceQuota(res, caller.uid, 'evaluateQuizAnswer'))) {
+        return;
+      }
+
+      const trackUsage = trackUsageFor(caller.uid);
+
+      const { question, userAnswer, difficulty, problemId, partAnswers } = req.body as {
         question?: unknown;
         userAnswer?: unknown;
         difficulty?: unknown;
+        problemId?: unknown;
+        partAnswers?: unknown;
       };
 
       if (typeof question !== 'string' || question.trim().length === 0) {
@@ -1316,143 +1316,116 @@ export const evaluateQuizAnswer = functions
       const requestedDifficulty: ProblemDifficulty = isValidProblemDifficulty(difficulty)
         ? (difficulty as ProblemDifficulty)
         : DEFAULT_PROBLEM_DIFFICULTY;
+      const requestedProblemId = sanitizeEvaluationField(problemId);
+      const trimmedPartAnswers = Array.isArray(partAnswers)
+        ? partAnswers.map((item) => (typeof item === 'string' ? item.trim() : ''))
+        : [];
 
       (async () => {
         try {
-          const client = getOpenAIClient();
-          const completion = await client.chat.completions.create({
-            model: 'gpt-4o-mini',
-            temperature: 0.1,
-            response_format: { type: 'json_object' },
-            messages: [
-              { role: 'system', content: QUIZ_EVALUATION_SYSTEM_PROMPT },
-              {
-                role: 'user',
-                content: `Evaluate the learner's response and provide structured feedback.
-
-IMPORTANT: Calculate the problem yourself step-by-step to verify the correct answer before evaluating the learner's response.
-
-Question:
-${trimmedQuestion}
-
-Learner answer:
-${trimmedAnswer || '(no answer provided)'}
-
-Difficulty: ${requestedDifficulty}.
-
-QUIZ MODE EVALUATION PROCESS - FOLLOW THESE STEPS EXACTLY:
-
-STEP 1: Calculate the problem yourself to determine the correct answer.
-  Example: "Liam has 25 balloons. He gives away 8. How many does he have left?"
-  Correct answer: 25 - 8 = 17
-
-STEP 2: Extract the FINAL NUMERICAL ANSWER from the learner's response:
-  - If they wrote just a number (e.g., "17"), use that number → 17
-  - If they wrote an equation (e.g., "25-8=17", "25 - 8 = 17"), extract the number AFTER the equals sign → 17
-  - If they wrote multiple numbers, use the LAST number (the final answer)
-
-STEP 3: Compare mathematically:
-  - If extracted number = correct answer → mark isCorrect as TRUE
-  - If extracted number ≠ correct answer → mark isCorrect as FALSE
-
-CRITICAL: If the numbers match, it's CORRECT. Do NOT mark as incorrect for formatting, showing work, or any other reason.
-
-EXAMPLES:
-- Question: "Liam has 25 balloons. He gives away 8. How many left?" (Correct: 17)
-  * Learner writes "17" → isCorrect = TRUE (17 = 17)
-  * Learner writes "25-8=17" → isCorrect = TRUE (extract 17, 17 = 17)
-  * Learner writes "25 - 8 = 17" → isCorrect = TRUE (extract 17, 17 = 17)
-  * Learner writes "17." → isCorrect = TRUE (extract 17, 17 = 17)
-  * Learner writes "16" → isCorrect = FALSE (16 ≠ 17)
-
-- Question: "How many more friends does Sarah need to invite?" (Correct: 5)
-  * Learner writes "5" → isCorrect = TRUE (5 = 5)
-  * Learner writes "8-3=5" → isCorrect = TRUE (extract 5, 5 = 5)
-  * Learner writes "8 - 3 = 5" → isCorrect = TRUE (extract 5, 5 = 5)
-  * Learner writes "8-3=3" → isCorrect = FALSE (extract 3, 3 ≠ 5)
-
-REMEMBER: 
-- The goal is to check if the learner got the RIGHT ANSWER
-- If the final numerical answer matches, mark it as CORRECT
-- Do NOT mark as incorrect unless the final numerical answer is mathematically wrong
-- When in doubt, mark as CORRECT`,
-              },
-            ],
-          });
-
-          const rawContent = completion.choices[0]?.message?.content?.trim();
-
-          if (!rawContent) {
-            res.status(500).json({ error: 'No evaluation returned from OpenAI.' });
+          // 1. Establish the answer key: the one stored at generation time, otherwise solve once.
+          const lookup: AnswerKeyLookup = requestedProblemId
+            ? await loadAnswerKey(requestedProblemId, caller.uid)
+            : { status: 'missing' };
+          if (lookup.status === 'forbidden') {
+            res.status(403).json({ error: 'This problem belongs to another user.' });
+            return;
+          }
+          const answerKey = lookup.status === 'found' ? lookup.key : null;
+
+          if (answerKey?.format === 'multipleChoice' && answerKey.correctChoiceIndex !== null) {
+            const isCorrect = isCorrectChoice(
+              answerKey.choices,
+              answerKey.correctChoiceIndex,
+              trimmedAnswer,
+            );
+            const response: QuizEvaluationResponse = {
+              isCorrect,
+              correctAnswer: `${choiceLabel(answerKey.correctChoiceIndex)}. ${answerKey.choices[answerKey.correctChoiceIndex]}`,
+              explanation: answerKey.workedSolution,
+              feedback: trimmedAnswer
+                ? VERIFIED_FEEDBACK[isCorrect ? 'correct' : 'incorrect']
+                : VERIFIED_FEEDBACK.empty,
+              gradedBy: 'verifier',
+              answerForm: answerKey.answer.answerType,
+              canonicalAnswer: answerKey.answer,
+              score: isCorrect ? 1 : 0,
+            };
+            res.status(200).json(response);
             return;
           }
 
-          let parsed: unknown;
-
-          try {
-            parsed = JSON.parse(rawContent) as QuizEvaluationResponse;
-          } catch (parseError) {
-            console.error('Failed to parse quiz evaluation JSON', parseError, rawContent);
-            res.status(500).json({ error: 'Malformed evaluation response returned from OpenAI.' });
+          if (answerKey?.format === 'multiPart') {
+            res
+              .status(200)
+              .json(
+                await gradeMultiPartAnswer(
+                  answerKey.problemText,
+                  answerKey.parts,
+                  trimmedPartAnswers,
+                  requestedDifficulty,
+                  trackUsage,
+                  answerKey.workedSolution,
+                  answerKey.answer,
+                ),
+              );
             return;
           }
+          const solution: QuizSolution | null = answerKey
+            ? { answer: answerKey.answer, explanation: answerKey.workedSolution }
+            : await solveQuizQuestion(trimmedQuestion, requestedDifficulty, trackUsage);
+
+          // 2. Check the learner's answer deterministically whenever its form allows it.
+          if (solution) {
+            const verification = verifyAgainstAnswerKey(solution.answer, trimmedAnswer);
+
+            if (verification.verdict !== 'unverifiable') {
+              const isCorrect = verification.verdict === 'correct';
+              let feedback = isCorrect ? VERIFIED_FEEDBACK.correct : VERIFIED_FEEDBACK.incorrect;
+              if (!trimmedAnswer) {
+                feedback = VERIFIED_FEEDBACK.empty;
+              }
 
-          const parsedRecord =
-            parsed && typeof parsed === 'object'
-              ? (parsed as Partial<QuizEvaluationResponse>)
-              : ({} as Partial<QuizEvaluationResponse>);
-
-          let isCorrect = parsedRecord.isCorrect === true;
-          const correctAnswer = sanitizeEvaluationField(parsedRecord.correctAnswer);
-          const explanation = sanitizeEvaluationField(parsedRecord.explanation);
-          const feedback = sanitizeEvaluationField(parsedRecord.feedback);
-
-          // FALLBACK VALIDATION: Extract and compare numerical answers
-          // This ensures correct answers aren't marked wrong due to OpenAI inconsistencies
-          const extractNumericAnswer = (answer: string): number | null => {
-            if (!answer || typeof answer !== 'string') {
-              return null;
-            }
-            // Try to find number after = (for equations like "25-8=17" or "25 - 8 = 17")
-            const equationMatch = answer.match(/=\s*(\d+(?:\.\d+)?)/);
-            if (equationMatch) {
-              const num = Number.parseFloat(equationMatch[1]);
-              return Number.isFinite(num) ? num : null;
-            }
-            // Try to find standalone number (last number in the string)
-            const numberMatches = answer.match(/(-?\d+(?:\.\d+)?)/g);
-            if (numberMatches && numberMatches.length > 0) {
-              // Use the last number (usually the final answer)
-              const lastNum = Number.parseFloat(numberMatches[numberMatches.length - 1]);
-              return Number.isFinite(lastNum) ? lastNum : null;
+              const response: QuizEvaluationResponse = {
+                isCorrect,
+                correctAnswer: solution.answer.value,
+                explanation: solution.explanation,
+                feedback,
+                gradedBy: 'verifier',
+                answerForm: verification.form,
+                canonicalAnswer: answerKey?.answer ?? null,
+                score: isCorrect ? 1 : 0,
+              };
+              res.status(200).json(response);
+              return;
             }
-            return null;
-          };
-
-          const userNumericAnswer = extractNumericAnswer(trimmedAnswer);
-          const correctNumericAnswer = correctAnswer ? extractNumericAnswer(correctAnswer) : null;
+          }
 
-          // If both numerical answers can be extracted and they match, override OpenAI's judgment
-          if (userNumericAnswer !== null && correctNumericAnswer !== null) {
-            // Compare with small tolerance for floating point numbers
-            if (Math.abs(userNumericAnswer - correctNumericAnswer) < 0.001) {
-              if (!isCorrect) {
-                console.log(
-                  `[evaluateQuizAnswer] Overriding OpenAI evaluation: User answer ${userNumericAnswer} matches correct answer ${correctNumericAnswer}. Question: "${trimmedQuestion.substring(0, 100)}..."`,
-                );
-              }
-              isCorrect = true;
-            }
+          // 3. Fall back to model grading for answers that cannot be compared mechanically.
+          const evaluation = await gradeQuizAnswerWithModel(
+            trimmedQuestion,
+            trimmedAnswer,
+            requestedDifficulty,
+            solution?.answer.value ?? null,
+            trackUsage,
+          );
+
+          if (!evaluation) {
+            res.status(500).json({ error: 'No evaluation returned from the model.' });
+            return;
           }
 
-          res.status(200).json({
-            isCorrect,
-            correctAnswer,
-            explanation,
-            feedback,
-          });
+          const response: QuizEvaluationResponse = {
+            ...evaluation,
+            explanation: evaluation.explanation ?? solution?.explanation ?? null,
+            gradedBy: 'model',
+            answerForm: solution?.answer.answerType ?? null,
+            canonicalAnswer: answerKey?.answer ?? null,
+            score: evaluation.isCorrect ? 1 : 0,
+          };
+          res.status(200).json(response);
         } catch (error) {
-          console.error('evaluateQuizAnswer failed', error);
+          console.error('evaluateQuizAnswer failed', { uid: caller.uid }, error);
           res.status(500).json({ error: 'Failed to evaluate quiz answer.' });
         }
       })();
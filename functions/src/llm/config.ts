@@ -0,0 +1,53 @@
+/**
+ * Per-endpoint model settings. Defaults live here; any value can be overridden without a code
+ * change through environment variables named after the endpoint, e.g.
+ * `LLM_PROBLEM_GENERATION_MODEL`, `LLM_PROBLEM_GENERATION_TEMPERATURE` or
+ * `LLM_QUIZ_EVALUATION_TIMEOUT_MS`.
+ */
+
+export type LlmEndpoint =
+  | 'tutorResponse'
+  | 'tutorVisionResponse'
+  | 'problemGeneration'
+  | 'quizSolution'
+  | 'quizEvaluation';
+
+export interface LlmEndpointConfig {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+}
+
+const LLM_ENDPOINT_DEFAULTS: Record<LlmEndpoint, LlmEndpointConfig> = {
+  tutorResponse: { model: 'gpt-4o-mini', temperature: 0.3, timeoutMs: 60_000 },
+  // Image messages need a vision-capable model.
+  tutorVisionResponse: { model: 'gpt-4o', temperature: 0.3, timeoutMs: 90_000 },
+  // High enough for variety but lower to reduce formatting errors.
+  problemGeneration: { model: 'gpt-4o-mini', temperature: 0.85, timeoutMs: 60_000 },
+  quizSolution: { model: 'gpt-4o-mini', temperature: 0, timeoutMs: 45_000 },
+  quizEvaluation: { model: 'gpt-4o-mini', temperature: 0.1, timeoutMs: 45_000 },
+};
+
+const toEnvPrefix = (endpoint: LlmEndpoint) =>
+  `LLM_${endpoint.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+
+const readNumber = (name: string): number | null => {
+  const raw = process.env[name];
+  if (!raw) {
+    return null;
+  }
+
+  const value = Number.parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const getEndpointConfig = (endpoint: LlmEndpoint): LlmEndpointConfig => {
+  const defaults = LLM_ENDPOINT_DEFAULTS[endpoint];
+  const prefix = toEnvPrefix(endpoint);
+
+  return {
+    model: process.env[`${prefix}_MODEL`]?.trim() || defaults.model,
+    temperature: readNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    timeoutMs: readNumber(`${prefix}_TIMEOUT_MS`) ?? defaults.timeoutMs,
+  };
+};
@@ -0,0 +1,218 @@
+import { readFileSync } from 'fs';
+import type { LlmEndpoint } from './config';
+import { estimateTokens, messageText, type LlmProvider, type LlmRequest } from './types';
+
+/**
+ * Offline stand-in for the model provider, selected with `LLM_PROVIDER=fixture`.
+ *
+ * Replies are deterministic: scripted responses from `LLM_FIXTURES_PATH` when present,
+ * otherwise a small built-in problem bank and canned tutor/grading replies. No network and no
+ * API key are needed, so the Functions emulator and integration tests run anywhere.
+ *
+ * The fixtures file maps an endpoint name to a reply or a list of replies; lists are served
+ * in order and then repeat. Object replies are sent as JSON.
+ *
+ *   { "tutorResponse": [{ "content": "What is 3 + 4?", "stepType": "check" }] }
+ */
+
+type FixtureReply = string | Record<string, unknown>;
+type FixtureScript = Partial<Record<LlmEndpoint, FixtureReply | FixtureReply[]>>;
+
+const FIXTURE_PROBLEMS = [
+  {
+    problemText:
+      'A bookshelf holds 48 books split evenly across 6 shelves. How many books are on each shelf?',
+    topicId: 'foundations',
+    subtopic: 'Arithmetic',
+    title: 'Books per shelf',
+    suggestedHint: 'Think about sharing 48 into 6 equal groups.',
+    answer: { value: '8', answerType: 'number', acceptableForms: ['8 books'] },
+    workedSolution: 'Each shelf holds the same number of books, so divide: 48 / 6 = 8.',
+  },
+  {
+    problemText: 'Solve for $x$: $3x - 7 = 11$.',
+    topicId: 'pre-algebra',
+    subtopic: 'Linear Equations (1 variable)',
+    title: 'One-step linear equation',
+    suggestedHint: 'Undo the subtraction first, then the multiplication.',
+    answer: { value: '6', answerType: 'number', acceptableForms: ['x = 6'] },
+    workedSolution: 'Add 7 to both sides to get 3x = 18, then divide by 3 to get x = 6.',
+  },
+  {
+    problemText: 'A rectangle is 9 cm long and 4 cm wide. What is its area?',
+    topicId: 'geometry',
+    subtopic: 'Perimeter, Area, and Volume',
+    title: 'Area of a rectangle',
+    suggestedHint: 'Area of a rectangle is length times width.',
+    answer: { value: '36 cm^2', answerType: 'quantity', acceptableForms: ['36'] },
+    workedSolution: 'Multiply length by width: 9 cm × 4 cm = 36 cm².',
+  },
+  {
+    problemText: 'Find all real solutions of $x^2 - 5x + 6 = 0$.',
+    topicId: 'algebra',
+    subtopic: 'Quadratic Equations',
+    title: 'Factoring a quadratic',
+    suggestedHint: 'Look for two numbers that multiply to 6 and add to -5.',
+    answer: { value: '2, 3', answerType: 'set', acceptableForms: [] },
+    workedSolution: 'Factor as (x - 2)(x - 3) = 0, so x = 2 or x = 3.',
+  },
+];
+
+// Returned when the generator prompt asks for one of the structured answer formats.
+const FIXTURE_MULTIPLE_CHOICE_PROBLEM = {
+  problemText: 'Solve for $x$: $2(x + 3) = 14$.',
+  topicId: 'pre-algebra',
+  subtopic: 'Linear Equations (1 variable)',
+  title: 'Distributing before solving',
+  suggestedHint: 'Divide both sides by 2 first.',
+  choices: ['4', '5.5', '8', '10'],
+  correctChoice: 0,
+  answer: { value: '4', answerType: 'number', acceptableForms: [] },
+  workedSolution: 'Divide both sides by 2 to get x + 3 = 7, then subtract 3 to get x = 4.',
+};
+
+const FIXTURE_MULTI_PART_PROBLEM = {
+  problemText: 'A garden is a rectangle 12 m long and 5 m wide.',
+  topicId: 'geometry',
+  subtopic: 'Perimeter, Area, and Volume',
+  title: 'Garden measurements',
+  suggestedHint: 'Start with the perimeter: add all four sides.',
+  parts: [
+    {
+      prompt: 'What is the perimeter of the garden?',
+      answer: { value: '34 m', answerType: 'quantity', acceptableForms: ['34'] },
+    },
+    {
+      prompt: 'What is the area of the garden?',
+      answer: { value: '60 m^2', answerType: 'quantity', acceptableForms: ['60'] },
+    },
+  ],
+  answer: { value: '60 m^2', answerType: 'quantity', acceptableForms: ['60'] },
+  workedSolution: 'Perimeter: 2 × (12 + 5) = 34 m. Area: 12 × 5 = 60 m².',
+};
+
+const loadFixtureScript = (): FixtureScript => {
+  const path = process.env.LLM_FIXTURES_PATH;
+
+  if (!path) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as FixtureScript;
+  } catch (error) {
+    console.error('Failed to load LLM fixtures', error);
+    return {};
+  }
+};
+
+const lastUserText = (request: LlmRequest): string => {
+  const message = [...request.messages].reverse().find((item) => item.role === 'user');
+  return message ? messageText(message).trim() : '';
+};
+
+const findFixtureProblem = (text: string) =>
+  FIXTURE_PROBLEMS.find((problem) => text.includes(problem.problemText));
+
+export const createFixtureProvider = (): LlmProvider => {
+  const script = loadFixtureScript();
+  const counters = new Map<LlmEndpoint, number>();
+
+  const nextIndex = (endpoint: LlmEndpoint) => {
+    const index = counters.get(endpoint) ?? 0;
+    counters.set(endpoint, index + 1);
+    return index;
+  };
+
+  const builtInReply = (request: LlmRequest, index: number): FixtureReply => {
+    const learnerText = lastUserText(request);
+
+    switch (request.endpoint) {
+      case 'tutorResponse':
+      case 'tutorVisionResponse': {
+        const systemText = request.messages[0] ? messageText(request.messages[0]) : '';
+        // Mirror the step-tracking contract: propose a plan once, then report progress.
+        const stepProgress = systemText.includes('"completedSteps"')
+          ? { completedSteps: [] }
+          : {
+              plan: [
+                { title: 'Identify what the problem gives and asks for' },
+                { title: 'Choose a method' },
+                { title: 'Carry out the method and check the result' },
+              ],
+            };
+        return {
+          content: learnerText
+            ? `Let's think about that together. What is the first thing you notice about "${learnerText.slice(0, 80)}"?`
+            : 'What do you notice about this problem?',
+          stepType: 'check',
+          ...stepProgress,
+        };
+      }
+      case 'problemGeneration': {
+        const systemText = request.messages[0] ? messageText(request.messages[0]) : '';
+        if (systemText.includes('ANSWER FORMAT: MULTIPLE CHOICE')) {
+          return { ...FIXTURE_MULTIPLE_CHOICE_PROBLEM, difficulty: 'intermediate' };
+        }
+        if (systemText.includes('ANSWER FORMAT: MULTI-PART')) {
+          return { ...FIXTURE_MULTI_PART_PROBLEM, difficulty: 'intermediate' };
+        }
+        const problem = FIXTURE_PROBLEMS[index % FIXTURE_PROBLEMS.length];
+        return { ...problem, difficulty: 'intermediate' };
+      }
+      case 'quizSolution': {
+        const problem = findFixtureProblem(learnerText);
+        return problem
+          ? {
+              correctAnswer: problem.answer.value,
+              answerForm: problem.answer.answerType,
+              explanation: problem.workedSolution,
+            }
+          : { explanation: 'The offline provider has no answer key for this question.' };
+      }
+      case 'quizEvaluation':
+      default:
+        return {
+          isCorrect: false,
+          correctAnswer: null,
+          explanation: 'The offline provider cannot grade free-form answers.',
+          feedback: 'Review the question and compare your reasoning with a worked example.',
+        };
+    }
+  };
+
+  const reply = (request: LlmRequest): string => {
+    const index = nextIndex(request.endpoint);
+    const scripted = script[request.endpoint];
+    const value = Array.isArray(scripted)
+      ? scripted[index % scripted.length]
+      : (scripted ?? builtInReply(request, index));
+
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    const promptTokens = estimateTokens(request.messages.map(messageText).join('\n'));
+    const completionTokens = estimateTokens(text);
+    request.onUsage?.({
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    });
+    return text;
+  };
+
+  return {
+    name: 'fixture',
+
+    async chat(request) {
+      return reply(request);
+    },
+
+    async *streamChat(request) {
+      // Split into a few pieces so streaming consumers see partial JSON like they would live.
+      const text = reply(request);
+      const size = Math.max(1, Math.ceil(text.length / 4));
+      for (let offset = 0; offset < text.length; offset += size) {
+        yield text.slice(offset, offset + size);
+      }
+    },
+  };
+};
@@ -0,0 +1,62 @@
+import { getEndpointConfig, type LlmEndpoint } from './config';
+import { createFixtureProvider } from './fixtureProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import type { LlmMessage, LlmProvider, LlmRequest, LlmUsageListener } from './types';
+
+export { getEndpointConfig, type LlmEndpoint, type LlmEndpointConfig } from './config';
+export {
+  estimateTokens,
+  hasImageContent,
+  messageText,
+  type LlmContentPart,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmUsage,
+  type LlmUsageListener,
+} from './types';
+
+export interface LlmCallOptions {
+  jsonMode?: boolean;
+  onUsage?: LlmUsageListener;
+}
+
+/**
+ * Provider selection: `LLM_PROVIDER=fixture` uses the offline stand-in, anything else (the
+ * default) talks to OpenAI.
+ */
+let provider: LlmProvider | null = null;
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    provider =
+      process.env.LLM_PROVIDER?.trim().toLowerCase() === 'fixture'
+        ? createFixtureProvider()
+        : createOpenAIProvider();
+  }
+  return provider;
+};
+
+const buildRequest = (
+  endpoint: LlmEndpoint,
+  messages: LlmMessage[],
+  options: LlmCallOptions,
+): LlmRequest => ({
+  endpoint,
+  messages,
+  jsonMode: options.jsonMode ?? false,
+  onUsage: options.onUsage,
+  ...getEndpointConfig(endpoint),
+});
+
+export const chatCompletion = (
+  endpoint: LlmEndpoint,
+  messages: LlmMessage[],
+  options: LlmCallOptions = {},
+): Promise<string | null> => getLlmProvider().chat(buildRequest(endpoint, messages, options));
+
+export const streamChatCompletion = (
+  endpoint: LlmEndpoint,
+  messages: LlmMessage[],
+  options: LlmCallOptions = {},
+): AsyncIterable<string> => getLlmProvider().streamChat(buildRequest(endpoint, messages, options));
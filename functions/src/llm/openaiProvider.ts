@@ -0,0 +1,93 @@
+import { OpenAI } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { LlmMessage, LlmProvider, LlmRequest } from './types';
+
+type OpenAIUsage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+const createOpenAIClient = () => {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (!apiKey) {
+    throw new Error(
+      'OPENAI_API_KEY is not configured. Please set it as a Firebase Functions secret.',
+    );
+  }
+
+  return new OpenAI({ apiKey });
+};
+
+let openaiClient: OpenAI | null = null;
+
+const getOpenAIClient = () => {
+  if (!openaiClient) {
+    try {
+      openaiClient = createOpenAIClient();
+    } catch (error) {
+      console.error('Failed to create OpenAI client:', error);
+      throw error;
+    }
+  }
+  return openaiClient;
+};
+
+const toOpenAIMessage = (message: LlmMessage): ChatCompletionMessageParam => {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content } as ChatCompletionMessageParam;
+  }
+
+  // Only user messages may carry images in the Chat Completions API.
+  return {
+    role: 'user',
+    content: message.content.map((part) =>
+      part.type === 'image'
+        ? { type: 'image_url' as const, image_url: { url: part.url } }
+        : { type: 'text' as const, text: part.text },
+    ),
+  };
+};
+
+const buildParams = (request: LlmRequest) => ({
+  model: request.model,
+  temperature: request.temperature,
+  messages: request.messages.map(toOpenAIMessage),
+  ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+});
+
+const reportUsage = (request: LlmRequest, usage: OpenAIUsage | null | undefined) => {
+  if (usage) {
+    request.onUsage?.({
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    });
+  }
+};
+
+export const createOpenAIProvider = (): LlmProvider => ({
+  name: 'openai',
+
+  async chat(request) {
+    const completion = await getOpenAIClient().chat.completions.create(buildParams(request), {
+      timeout: request.timeoutMs,
+    });
+
+    reportUsage(request, completion.usage);
+    return completion.choices[0]?.message?.content?.trim() || null;
+  },
+
+  async *streamChat(request) {
+    const stream = await getOpenAIClient().chat.completions.create(
+      // The final chunk carries usage (with empty choices) when include_usage is set.
+      { ...buildParams(request), stream: true, stream_options: { include_usage: true } },
+      { timeout: request.timeoutMs },
+    );
+
+    for await (const chunk of stream) {
+      reportUsage(request, chunk.usage);
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  },
+});
@@ -0,0 +1,59 @@
+import type { LlmEndpoint } from './config';
+
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export type LlmContentPart = { type: 'text'; text: string } | { type: 'image'; url: string };
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string | LlmContentPart[];
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type LlmUsageListener = (usage: LlmUsage) => void;
+
+/**
+ * A fully resolved request: model, temperature and timeout come from the endpoint config,
+ * so providers never hard-code them.
+ */
+export interface LlmRequest {
+  endpoint: LlmEndpoint;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  messages: LlmMessage[];
+  /** Ask the provider for a single JSON object as the whole reply. */
+  jsonMode: boolean;
+  /** Called once with the token usage of the call, when the provider reports it. */
+  onUsage?: LlmUsageListener;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Returns the full reply text, or null when the provider produced nothing. */
+  chat(request: LlmRequest): Promise<string | null>;
+  /** Yields reply text deltas in order. */
+  streamChat(request: LlmRequest): AsyncIterable<string>;
+}
+
+export const hasImageContent = (messages: LlmMessage[]): boolean =>
+  messages.some(
+    (message) =>
+      Array.isArray(message.content) && message.content.some((part) => part.type === 'image'),
+  );
+
+export const messageText = (message: LlmMessage): string =>
+  typeof message.content === 'string'
+    ? message.content
+    : message.content
+        .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+        .map((part) => part.text)
+        .join('\n');
+
+/** Rough token count for providers that do not report usage (about four characters each). */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
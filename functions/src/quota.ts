@@ -0,0 +1,234 @@
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type * as functions from 'firebase-functions';
+import type { LlmUsage, LlmUsageListener } from './llm';
+
+/**
+ * Request throttling and daily token budgets for the AI endpoints.
+ *
+ * Each uid gets a token bucket per endpoint (every call costs one token, refilled continuously),
+ * plus a daily model-token budget per user and one shared by everyone. State lives in
+ * collections the client rules never expose:
+ *
+ *   usageQuotas/{uid}                 buckets.{endpoint} = { tokens, updatedAt }
+ *   usageQuotas/{uid}/days/{date}     { tokens }
+ *   usageGlobal/{date}                { tokens }
+ *
+ * Every limit can be overridden through environment variables, e.g.
+ * `QUOTA_GENERATE_PROBLEM_CAPACITY`, `QUOTA_GENERATE_PROBLEM_REFILL_PER_MINUTE`,
+ * `QUOTA_USER_DAILY_TOKENS` or `QUOTA_GLOBAL_DAILY_TOKENS`. A value of 0 disables that limit.
+ */
+
+export type QuotaEndpoint = 'generateResponse' | 'generateProblem' | 'evaluateQuizAnswer';
+
+export type QuotaRejectionReason = 'rate_limited' | 'daily_budget_exhausted';
+
+export interface QuotaRejection {
+  reason: QuotaRejectionReason;
+  scope: 'user' | 'global';
+  retryAfterSeconds: number;
+}
+
+interface BucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+const USER_QUOTAS_COLLECTION = 'usageQuotas';
+const GLOBAL_USAGE_COLLECTION = 'usageGlobal';
+
+const BUCKET_DEFAULTS: Record<QuotaEndpoint, BucketConfig> = {
+  generateResponse: { capacity: 20, refillPerMinute: 10 },
+  // A quiz requests up to 15 problems at once, so the burst must cover a full quiz.
+  generateProblem: { capacity: 30, refillPerMinute: 15 },
+  evaluateQuizAnswer: { capacity: 40, refillPerMinute: 20 },
+};
+
+const DEFAULT_USER_DAILY_TOKENS = 250_000;
+const DEFAULT_GLOBAL_DAILY_TOKENS = 20_000_000;
+
+const readLimit = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number.parseFloat(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const getBucketConfig = (endpoint: QuotaEndpoint): BucketConfig => {
+  const prefix = `QUOTA_${endpoint.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+  const defaults = BUCKET_DEFAULTS[endpoint];
+
+  return {
+    capacity: readLimit(`${prefix}_CAPACITY`, defaults.capacity),
+    refillPerMinute: readLimit(`${prefix}_REFILL_PER_MINUTE`, defaults.refillPerMinute),
+  };
+};
+
+/** Budgets reset at midnight UTC. */
+const usageDay = (now: Date) => now.toISOString().slice(0, 10);
+
+const secondsUntilNextDay = (now: Date) => {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((next.getTime() - now.getTime()) / 1000));
+};
+
+const readTokens = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+/**
+ * Spends one request token for `endpoint` after checking the daily budgets. Returns null when
+ * the call may proceed, otherwise why it was rejected and when to retry.
+ */
+export const consumeQuota = async (
+  uid: string,
+  endpoint: QuotaEndpoint,
+): Promise<QuotaRejection | null> => {
+  const db = getFirestore();
+  const now = new Date();
+  const day = usageDay(now);
+  const bucket = getBucketConfig(endpoint);
+  const userDailyLimit = readLimit('QUOTA_USER_DAILY_TOKENS', DEFAULT_USER_DAILY_TOKENS);
+  const globalDailyLimit = readLimit('QUOTA_GLOBAL_DAILY_TOKENS', DEFAULT_GLOBAL_DAILY_TOKENS);
+
+  const userRef = db.collection(USER_QUOTAS_COLLECTION).doc(uid);
+  const userDayRef = userRef.collection('days').doc(day);
+  const globalDayRef = db.collection(GLOBAL_USAGE_COLLECTION).doc(day);
+
+  return db.runTransaction(async (transaction) => {
+    const [userSnapshot, userDaySnapshot, globalDaySnapshot] = await transaction.getAll(
+      userRef,
+      userDayRef,
+      globalDayRef,
+    );
+
+    if (globalDailyLimit > 0 && readTokens(globalDaySnapshot.get('tokens')) >= globalDailyLimit) {
+      return {
+        reason: 'daily_budget_exhausted',
+        scope: 'global',
+        retryAfterSeconds: secondsUntilNextDay(now),
+      };
+    }
+
+    if (userDailyLimit > 0 && readTokens(userDaySnapshot.get('tokens')) >= userDailyLimit) {
+      return {
+        reason: 'daily_budget_exhausted',
+        scope: 'user',
+        retryAfterSeconds: secondsUntilNextDay(now),
+      };
+    }
+
+    if (bucket.capacity <= 0 || bucket.refillPerMinute <= 0) {
+      return null;
+    }
+
+    const stored = userSnapshot.get(`buckets.${endpoint}`) as
+      | { tokens?: unknown; updatedAt?: unknown }
+      | undefined;
+    const updatedAt = stored?.updatedAt instanceof Timestamp ? stored.updatedAt.toMillis() : 0;
+    const refillPerMs = bucket.refillPerMinute / 60_000;
+    const available = stored
+      ? Math.min(
+          bucket.capacity,
+          readTokens(stored.tokens) + Math.max(0, now.getTime() - updatedAt) * refillPerMs,
+        )
+      : bucket.capacity;
+
+    if (available < 1) {
+      return {
+        reason: 'rate_limited',
+        scope: 'user',
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - available) / refillPerMs / 1000)),
+      };
+    }
+
+    transaction.set(
+      userRef,
+      {
+        buckets: {
+          [endpoint]: { tokens: available - 1, updatedAt: Timestamp.fromDate(now) },
+        },
+      },
+      { merge: true },
+    );
+
+    return null;
+  });
+};
+
+/** Adds model token usage to the caller's and the global daily totals. */
+export const recordTokenUsage = async (uid: string, tokens: number): Promise<void> => {
+  if (!(tokens > 0)) {
+    return;
+  }
+
+  const db = getFirestore();
+  const day = usageDay(new Date());
+  const batch = db.batch();
+  const increment = {
+    tokens: FieldValue.increment(tokens),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  batch.set(db.collection(USER_QUOTAS_COLLECTION).doc(uid).collection('days').doc(day), increment, {
+    merge: true,
+  });
+  batch.set(db.collection(GLOBAL_USAGE_COLLECTION).doc(day), increment, { merge: true });
+
+  await batch.commit();
+};
+
+/** Usage listener for model calls made on behalf of `uid`; recording never fails the request. */
+export const trackUsageFor =
+  (uid: string): LlmUsageListener =>
+  (usage: LlmUsage) => {
+    recordTokenUsage(uid, usage.totalTokens).catch((error) => {
+      console.error('Failed to record token usage', { uid }, error);
+    });
+  };
+
+const QUOTA_MESSAGES: Record<QuotaRejectionReason, Record<QuotaRejection['scope'], string>> = {
+  rate_limited: {
+    user: 'Too many requests. Please slow down and try again shortly.',
+    global: 'Too many requests. Please slow down and try again shortly.',
+  },
+  daily_budget_exhausted: {
+    user: 'You have reached your daily AI usage limit. It resets at midnight UTC.',
+    global: 'MathMate has reached its daily AI usage limit. Please try again tomorrow.',
+  },
+};
+
+/**
+ * Checks the caller's quota for `endpoint` and answers with a structured 429 when it is
+ * exhausted. Quota storage failures are logged and let the request through, so an outage in
+ * bookkeeping never locks learners out.
+ */
+export const enforceQuota = async (
+  res: functions.Response,
+  uid: string,
+  endpoint: QuotaEndpoint,
+): Promise<boolean> => {
+  let rejection: QuotaRejection | null = null;
+
+  try {
+    rejection = await consumeQuota(uid, endpoint);
+  } catch (error) {
+    console.error('Quota check failed', { uid, endpoint }, error);
+    return true;
+  }
+
+  if (!rejection) {
+    return true;
+  }
+
+  res.set('Retry-After', String(rejection.retryAfterSeconds));
+  res.status(429).json({
+    error: QUOTA_MESSAGES[rejection.reason][rejection.scope],
+    code: rejection.reason,
+    scope: rejection.scope,
+    retryAfterSeconds: rejection.retryAfterSeconds,
+  });
+  return false;
+};
@@ -0,0 +1,127 @@
+/**
+ * Structured solution steps for tutor sessions.
+ *
+ * The first reply about a new problem carries a short `plan` of solution steps; the client stores
+ * it under the session and sends the step titles back on every turn, and the model reports which
+ * steps the learner has completed through `completedSteps`.
+ */
+
+export interface SolutionStepPlan {
+  title: string;
+  latex: string | null;
+  hint: string | null;
+}
+
+export interface SolutionStepStatus {
+  order: number;
+  title: string;
+  completed: boolean;
+}
+
+const MAX_STEPS = 8;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DETAIL_LENGTH = 400;
+
+const sanitizeLine = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+};
+
+/** Reads the step checklist the client sends with each tutor request. */
+export const sanitizeStepStatuses = (value: unknown): SolutionStepStatus[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .slice(0, MAX_STEPS)
+    .map((item, index): SolutionStepStatus | null => {
+      if (!item || typeof item !== 'object') {
+        return null;
+      }
+
+      const record = item as Record<string, unknown>;
+      const title = sanitizeLine(record.title, MAX_TITLE_LENGTH);
+
+      if (!title) {
+        return null;
+      }
+
+      return {
+        order:
+          typeof record.order === 'number' && Number.isInteger(record.order)
+            ? record.order
+            : index + 1,
+        title,
+        completed: record.completed === true,
+      };
+    })
+    .filter((item): item is SolutionStepStatus => item !== null)
+    .sort((a, b) => a.order - b.order);
+};
+
+/** Reads `plan` from a tutor reply; returns null unless it holds at least two usable steps. */
+export const parseStepPlan = (value: unknown): SolutionStepPlan[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const steps = value
+    .slice(0, MAX_STEPS)
+    .map((item): SolutionStepPlan | null => {
+      if (!item || typeof item !== 'object') {
+        return null;
+      }
+
+      const record = item as Record<string, unknown>;
+      const title = sanitizeLine(record.title, MAX_TITLE_LENGTH);
+
+      return title
+        ? {
+            title,
+            latex: sanitizeLine(record.latex, MAX_DETAIL_LENGTH),
+            hint: sanitizeLine(record.hint, MAX_DETAIL_LENGTH),
+          }
+        : null;
+    })
+    .filter((item): item is SolutionStepPlan => item !== null);
+
+  return steps.length >= 2 ? steps : null;
+};
+
+/** Reads `completedSteps` from a tutor reply, keeping only orders that exist in the plan. */
+export const parseCompletedSteps = (
+  value: unknown,
+  steps: SolutionStepStatus[],
+): number[] | null => {
+  if (!Array.isArray(value) || steps.length === 0) {
+    return null;
+  }
+
+  const known = new Set(steps.map((step) => step.order));
+  const orders = value.filter(
+    (item): item is number => typeof item === 'number' && known.has(item),
+  );
+
+  return Array.from(new Set(orders)).sort((a, b) => a - b);
+};
+
+/** System prompt section asking for a plan, or for progress against the existing one. */
+export const buildStepTrackingDirective = (steps: SolutionStepStatus[]): string => {
+  if (steps.length === 0) {
+    return `SOLUTION STEPS: If the conversation contains a specific math problem to solve, also include "plan" in your JSON: an array of 2-6 steps in solving order, each shaped as {"title": "<short action, e.g. Isolate the x term>", "latex": "<optional general form or formula, no final numbers>", "hint": "<optional one-sentence nudge>"}. Titles name the action, never its result, and must not reveal the answer. Omit "plan" when there is no problem yet.`;
+  }
+
+  const checklist = steps
+    .map((step) => `${step.order}. ${step.title}${step.completed ? ' [done]' : ''}`)
+    .join('\n');
+
+  return `SOLUTION STEPS (the learner sees these as a checklist):
+${checklist}
+
+Also include "completedSteps" in your JSON: the numbers of every step the learner has completed correctly through their OWN work so far, e.g. [1, 2], or [] if none. Never mark a step complete because you explained it. Do not include "plan".`;
+};
@@ -0,0 +1,54 @@
+import {
+  collapseWhitespace,
+  fixExtoDegrees,
+  markCurrencyAfterPriceWords,
+  markCurrencyAtClauseStart,
+  markCurrencyForBarePurchases,
+  markCurrencyForPurchases,
+  normalizeDegreeNotation,
+  rejoinSplitWords,
+  repairTrailingDoubleDollar,
+  repairUnpairedDoubleDollar,
+  separateConjunctions,
+  separateDigitsAndLetters,
+  splitBookCompounds,
+  splitBookConcatenations,
+  splitCamelCase,
+} from './passes';
+import { createTextPipeline, type TextPass } from './pipeline';
+
+export * from './lexicon';
+export * from './passes';
+export { createTextPipeline, runPass, type TextPass, type TextPipeline } from './pipeline';
+
+/**
+ * Full clean-up for generated problem statements. Delimiters are repaired first so LaTeX
+ * segments are recognized correctly by every later prose pass.
+ */
+export const PROBLEM_TEXT_PASSES: readonly TextPass[] = [
+  repairTrailingDoubleDollar,
+  repairUnpairedDoubleDollar,
+  rejoinSplitWords,
+  fixExtoDegrees,
+  normalizeDegreeNotation,
+  splitCamelCase,
+  splitBookConcatenations,
+  separateDigitsAndLetters,
+  separateConjunctions,
+  splitBookCompounds,
+  collapseWhitespace,
+  markCurrencyAfterPriceWords,
+  markCurrencyForPurchases,
+  markCurrencyForBarePurchases,
+  markCurrencyAtClauseStart,
+];
+
+/**
+ * Conservative subset for conversational text (tutor replies, grading feedback): only fixes
+ * that cannot change meaning, and no whitespace collapsing so line breaks survive.
+ */
+export const MODEL_TEXT_PASSES: readonly TextPass[] = [rejoinSplitWords, fixExtoDegrees];
+
+export const normalizeProblemText = createTextPipeline(PROBLEM_TEXT_PASSES);
+
+export const normalizeModelText = createTextPipeline(MODEL_TEXT_PASSES);
@@ -0,0 +1,94 @@
+/**
+ * Word lists shared by the normalization passes. Extend these rather than adding ad-hoc lists
+ * to individual passes.
+ */
+
+/** Countable nouns: an amount in front of one of these is a quantity, never a price. */
+export const QUANTITY_NOUNS: ReadonlySet<string> = new Set([
+  'pencils',
+  'pencil',
+  'books',
+  'book',
+  'items',
+  'item',
+  'pieces',
+  'piece',
+  'objects',
+  'object',
+  'things',
+  'thing',
+  'students',
+  'student',
+  'people',
+  'pupils',
+  'pupil',
+  'children',
+  'child',
+  'stickers',
+  'sticker',
+  'apples',
+  'apple',
+  'oranges',
+  'orange',
+  'cookies',
+  'cookie',
+  'candies',
+  'candy',
+  'marbles',
+  'marble',
+  'coins',
+  'coin',
+  'stamps',
+  'stamp',
+  'cards',
+  'card',
+  'tickets',
+  'ticket',
+  'flowers',
+  'flower',
+  'trees',
+  'tree',
+  'cars',
+  'car',
+  'bikes',
+  'bike',
+  'toys',
+  'toy',
+  'games',
+  'game',
+]);
+
+/** Words that already name the currency, so the amount needs no `$`. */
+export const CURRENCY_WORDS: ReadonlySet<string> = new Set([
+  'dollar',
+  'dollars',
+  'cent',
+  'cents',
+  'money',
+  'cash',
+]);
+
+/** "buy 5 more ..." describes a quantity even when the noun is unknown. */
+export const QUANTITY_MODIFIERS: ReadonlySet<string> = new Set(['more', 'additional', 'extra']);
+
+/** Words the model sometimes splits in two, as `[prefix, rest]` ("or ganizing"). */
+export const SPLIT_WORDS: ReadonlyArray<readonly [string, string]> = [
+  ['or', 'ganizing'],
+  ['or', 'ganize'],
+  ['or', 'ganized'],
+  ['or', 'ganization'],
+  ['re', 'alizing'],
+  ['re', 'alize'],
+  ['re', 'alized'],
+  ['re', 'cognizing'],
+  ['re', 'cognize'],
+  ['re', 'cognized'],
+];
+
+export const isQuantityWord = (word: string | undefined): boolean => {
+  const normalized = word?.toLowerCase() ?? '';
+  return QUANTITY_NOUNS.has(normalized) || QUANTITY_MODIFIERS.has(normalized);
+};
+
+export const isCurrencyWord = (word: string | undefined): boolean =>
+  CURRENCY_WORDS.has(word?.toLowerCase() ?? '');
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { normalizeModelText, normalizeProblemText, type TextPipeline } from '.';
+
+/**
+ * Golden corpus: real malformed model outputs and the text each pipeline must produce.
+ * Files are read from `src/` so the compiled test always checks the committed corpus.
+ * After an intentional behavior change, regenerate with `UPDATE_GOLDEN=1 npm test` and
+ * review the diff.
+ */
+
+interface GoldenCase {
+  name: string;
+  input: string;
+  expected: string;
+}
+
+const GOLDEN_DIR = join(__dirname, '..', '..', 'src', 'textNormalization', 'golden');
+
+const runGoldenFile = (file: string, pipeline: TextPipeline) => {
+  const path = join(GOLDEN_DIR, file);
+  const cases = JSON.parse(readFileSync(path, 'utf8')) as GoldenCase[];
+
+  if (process.env.UPDATE_GOLDEN === '1') {
+    const updated = cases.map((item) => ({ ...item, expected: pipeline(item.input) }));
+    writeFileSync(path, `${JSON.stringify(updated, null, 2)}\n`);
+    return;
+  }
+
+  for (const item of cases) {
+    it(item.name, () => {
+      assert.equal(pipeline(item.input), item.expected);
+    });
+  }
+};
+
+describe('normalizeProblemText', () => {
+  runGoldenFile('problemText.json', normalizeProblemText);
+
+  it('is idempotent on its own output', () => {
+    const cases = JSON.parse(
+      readFileSync(join(GOLDEN_DIR, 'problemText.json'), 'utf8'),
+    ) as GoldenCase[];
+
+    for (const item of cases) {
+      assert.equal(normalizeProblemText(item.expected), item.expected, item.name);
+    }
+  });
+});
+
+describe('normalizeModelText', () => {
+  runGoldenFile('modelText.json', normalizeModelText);
+});
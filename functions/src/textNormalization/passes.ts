@@ -0,0 +1,216 @@
+import { isCurrencyWord, isQuantityWord, SPLIT_WORDS } from './lexicon';
+import type { TextPass } from './pipeline';
+
+/**
+ * Named fixes for formatting mistakes seen in model output. Each pass targets one kind of
+ * damage; the pipelines in `index.ts` decide which ones run and in what order.
+ */
+
+const MATH_OPERATOR_AFTER = /^\s*[+\-*/=()]/;
+const MATH_OPERATOR_BEFORE = /[+\-*/=()]\s*$/;
+
+const nextWordAt = (text: string, index: number): string | undefined =>
+  text.slice(index).match(/^\s*([a-z]+)/i)?.[1];
+
+const withDollar = (match: string, amount: string) => match.replace(amount, () => `$${amount}`);
+
+const withoutDollar = (match: string, amount: string) => match.replace(`$${amount}`, () => amount);
+
+// Model output ---------------------------------------------------------------------------
+
+/** "15$$ and" -> "$15 and": an amount glued to `$$` is a currency sign, not display math. */
+export const repairTrailingDoubleDollar: TextPass = {
+  name: 'repairTrailingDoubleDollar',
+  scope: 'raw',
+  apply: (text) => text.replace(/(\d+)\$\$(?=[\s.,;:!?]|$)/g, (_match, amount) => `$${amount}`),
+};
+
+/** An odd `$$` has no partner; the last one becomes a single `$`. */
+export const repairUnpairedDoubleDollar: TextPass = {
+  name: 'repairUnpairedDoubleDollar',
+  scope: 'raw',
+  apply: (text) => {
+    const positions = Array.from(text.matchAll(/\$\$/g), (match) => match.index ?? 0);
+
+    if (positions.length % 2 === 0) {
+      return text;
+    }
+
+    const last = positions[positions.length - 1];
+    return `${text.slice(0, last)}$${text.slice(last + 2)}`;
+  },
+};
+
+/** "or ganizing" -> "organizing". */
+export const rejoinSplitWords: TextPass = {
+  name: 'rejoinSplitWords',
+  scope: 'prose',
+  apply: (text) =>
+    SPLIT_WORDS.reduce(
+      (current, [prefix, rest]) =>
+        current.replace(new RegExp(`\\b${prefix}\\s+${rest}\\b`, 'gi'), `${prefix}${rest}`),
+      text,
+    ),
+};
+
+/** "60 exto" -> "60°": what is left of `^\text{o}` after JSON escaping eats the backslash. */
+export const fixExtoDegrees: TextPass = {
+  name: 'fixExtoDegrees',
+  scope: 'prose',
+  apply: (text) => text.replace(/(\d+)\s*exto(?![a-z])/gi, '$1°'),
+};
+
+/** "60 degrees" / "60 deg" -> "60°", with one space before a following word. */
+export const normalizeDegreeNotation: TextPass = {
+  name: 'normalizeDegreeNotation',
+  scope: 'prose',
+  apply: (text) =>
+    text
+      .replace(/(\d+)\s*(?:degrees?|deg)(?![a-z])/gi, '$1°')
+      .replace(/(\d+)\s*°/g, '$1°')
+      .replace(/(\d+)°\s*(?=[a-z0-9])/gi, '$1° '),
+};
+
+/** "plantsCorn" -> "plants Corn". */
+export const splitCamelCase: TextPass = {
+  name: 'splitCamelCase',
+  scope: 'prose',
+  apply: (text) => text.replace(/([a-z])([A-Z])/g, '$1 $2'),
+};
+
+/**
+ * "*fictionbooksand9*" -> "fiction books and 9". Runs before digits are separated from
+ * letters, which would otherwise break the "and9" it keys on.
+ */
+export const splitBookConcatenations: TextPass = {
+  name: 'splitBookConcatenations',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(
+      /\*?\b([a-z]*?)(books?)and(\d+)\*?/gi,
+      (_match, prefix: string, word: string, amount: string) =>
+        `${prefix ? `${prefix} ` : ''}${word} and ${amount}`,
+    ),
+};
+
+/** "has30" -> "has 30", "7each" -> "7 each"; ordinals such as "4th" stay intact. */
+export const separateDigitsAndLetters: TextPass = {
+  name: 'separateDigitsAndLetters',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(/(\d)(?!(?:st|nd|rd|th)\b)([a-z])/gi, '$1 $2').replace(/([a-z])(\d)/gi, '$1 $2'),
+};
+
+/** "andshe" -> "and she", "Theyand" -> "They and". */
+export const separateConjunctions: TextPass = {
+  name: 'separateConjunctions',
+  scope: 'prose',
+  apply: (text) =>
+    text
+      .replace(
+        /\b(and|or)(she|he|they|we|you|it|the|a|an|this|that|these|those|has|have|had|is|are|was|were|can|will)\b/gi,
+        '$1 $2',
+      )
+      .replace(
+        /\b(she|he|they|we|you|it|the|a|an|this|that|these|those|has|have|had|is|are|was|were|can|will)(and|or)\b/gi,
+        '$1 $2',
+      ),
+};
+
+/** "fictionbooks" -> "fiction books", leaving real compounds such as "notebooks" alone. */
+export const splitBookCompounds: TextPass = {
+  name: 'splitBookCompounds',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(
+      /([a-z]+)(books|book)(\s|$|[^a-z])/gi,
+      (match, prefix: string, word: string, after: string) => {
+        if (prefix.toLowerCase() === 'fiction' || prefix.toLowerCase() === 'nonfiction') {
+          return `${prefix} ${word}${after || ''}`;
+        }
+        // A long prefix ending in "s" is usually a whole word plus a stray plural.
+        if (prefix.length > 5 && prefix.endsWith('s')) {
+          return `${prefix.slice(0, -1)} ${word}${after || ''}`;
+        }
+        return match;
+      },
+    ),
+};
+
+export const collapseWhitespace: TextPass = {
+  name: 'collapseWhitespace',
+  scope: 'raw',
+  apply: (text) => text.replace(/\s+/g, ' ').trim(),
+};
+
+// Currency -------------------------------------------------------------------------------
+
+/** "costs 5" -> "costs $5", unless the amount is part of an equation or names its currency. */
+export const markCurrencyAfterPriceWords: TextPass = {
+  name: 'markCurrencyAfterPriceWords',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(
+      /\b(?:costs?|spends?|pays?|spent|price|prices?|worth|total|dollars?)\s+(\d+)\b/gi,
+      (match, amount: string, offset: number) => {
+        const end = offset + match.length;
+
+        if (
+          MATH_OPERATOR_AFTER.test(text.slice(end, end + 30)) ||
+          MATH_OPERATOR_BEFORE.test(text.slice(Math.max(0, offset - 30), offset)) ||
+          isCurrencyWord(nextWordAt(text, end))
+        ) {
+          return match;
+        }
+
+        return withDollar(match, amount);
+      },
+    ),
+};
+
+/**
+ * "buys 3 sandwiches" -> "buys $3 sandwiches", but "buys 6 apples" and "buy 5 more" are
+ * quantities, so a stray `$` there is removed instead.
+ */
+export const markCurrencyForPurchases: TextPass = {
+  name: 'markCurrencyForPurchases',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(
+      /\b(buys?)\s+(\$?)(\d+)\s+([a-z]+)/gi,
+      (match, _verb, dollar: string, amount: string, nextWord: string) => {
+        if (isQuantityWord(nextWord) || isCurrencyWord(nextWord)) {
+          return dollar ? withoutDollar(match, amount) : match;
+        }
+
+        return dollar ? match : withDollar(match, amount);
+      },
+    ),
+};
+
+/** "so she can buy 15." -> "so she can buy $15.": a bare amount after "buy" is a price. */
+export const markCurrencyForBarePurchases: TextPass = {
+  name: 'markCurrencyForBarePurchases',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(/\b(buys?)\s+(\d+)(?=\s*(?:[.,!?]|$))/gi, (match, _verb, amount: string) =>
+      withDollar(match, amount),
+    ),
+};
+
+/** ". 45 to the owner" -> ". $45 to the owner", unless a quantity word follows. */
+export const markCurrencyAtClauseStart: TextPass = {
+  name: 'markCurrencyAtClauseStart',
+  scope: 'prose',
+  apply: (text) =>
+    text.replace(
+      /(?:^|\. |, |\? |! )(\$?)(\d+)\s+(?:and|or|to|costs?|spends?|buys?)(?:\s+([a-z]+))?/gi,
+      (match, dollar: string, amount: string, nextWord: string | undefined) => {
+        if (isQuantityWord(nextWord)) {
+          return dollar ? withoutDollar(match, amount) : match;
+        }
+
+        return dollar ? match : withDollar(match, amount);
+      },
+    ),
+};
@@ -0,0 +1,55 @@
+/**
+ * A pass is one named, self-contained fix. `prose` passes only see the text outside LaTeX
+ * segments, so spacing and currency fixes cannot corrupt math; `raw` passes see everything
+ * (used for the math delimiters themselves and whitespace).
+ */
+export interface TextPass {
+  name: string;
+  scope: 'prose' | 'raw';
+  apply: (text: string) => string;
+}
+
+export type TextPipeline = (text: string) => string;
+
+// ```graph blocks (JSON that prose fixes would corrupt), $$...$$, \[...\], \(...\) and $...$,
+// except that `$` followed by a plain amount ("$5 and") is currency rather than the start of
+// inline math.
+const MATH_SEGMENT =
+  /```graph[\s\S]*?```|\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)|\$(?!\d[\d,]*(?:\.\d+)?(?:[\s.,;:!?)]|$))[^$\n]+\$/g;
+
+// Placeholders use private-use characters only, so no pass pattern (letters, digits, spaces,
+// `$`) can match or split them.
+const PLACEHOLDER_START = '\uE000';
+const PLACEHOLDER_END = '\uE001';
+const PLACEHOLDER = /\uE000([\uE100-\uF8FF])\uE001/g;
+const PLACEHOLDER_BASE = 0xe100;
+const MAX_PLACEHOLDERS = 0xf8ff - PLACEHOLDER_BASE;
+
+const applyToProse = (text: string, apply: (text: string) => string): string => {
+  const segments: string[] = [];
+  const masked = text.replace(MATH_SEGMENT, (segment) => {
+    if (segments.length >= MAX_PLACEHOLDERS) {
+      return segment;
+    }
+    segments.push(segment);
+    return `${PLACEHOLDER_START}${String.fromCharCode(PLACEHOLDER_BASE + segments.length - 1)}${PLACEHOLDER_END}`;
+  });
+
+  if (segments.length === 0) {
+    return apply(text);
+  }
+
+  return apply(masked).replace(
+    PLACEHOLDER,
+    (placeholder, code: string) => segments[code.charCodeAt(0) - PLACEHOLDER_BASE] ?? placeholder,
+  );
+};
+
+export const runPass = (text: string, pass: TextPass): string =>
+  pass.scope === 'prose' ? applyToProse(text, pass.apply) : pass.apply(text);
+
+/** Composes passes into a pipeline that runs them in order. */
+export const createTextPipeline =
+  (passes: readonly TextPass[]): TextPipeline =>
+  (text) =>
+    passes.reduce((current, pass) => runPass(current, pass), text);
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { verifyAnswer } from './answerVerifier';
+
+const verdictOf = (expected: string, learner: string) => verifyAnswer(expected, learner).verdict;
+
+describe('verifyAnswer', () => {
+  it('accepts equivalent numeric forms', () => {
+    assert.equal(verdictOf('1/2', '0.5'), 'correct');
+    assert.equal(verdictOf('0.5', '50%'), 'correct');
+    assert.equal(verdictOf('4', 'x = 4'), 'correct');
+    assert.equal(verdictOf('100', 'The answer is 100.'), 'correct');
+  });
+
+  it('accepts simplified radicals, constants and scientific notation', () => {
+    assert.equal(verdictOf('\\frac{\\sqrt{2}}{2}', '1/\\sqrt{2}'), 'correct');
+    assert.equal(verdictOf('2\\pi', '2π'), 'correct');
+    assert.equal(verdictOf('300000000', '3 \\times 10^8'), 'correct');
+  });
+
+  it('rejects arithmetic left undone against a numeric key', () => {
+    const result = verifyAnswer('100', '25*4');
+
+    assert.equal(result.verdict, 'incorrect');
+    assert.match(result.detail, /not fully simplified/);
+    assert.equal(verdictOf('100', '10^2'), 'incorrect');
+    assert.equal(verdictOf('3/4', '6/8'), 'incorrect');
+    assert.equal(verdictOf('4', '\\sqrt{16}'), 'incorrect');
+    assert.equal(verdictOf('120', '5!'), 'incorrect');
+  });
+
+  it('still accepts unsimplified answers when the key itself is unsimplified', () => {
+    assert.equal(verdictOf('2^10', '1024'), 'correct');
+    assert.equal(verdictOf('2^10', '4^5'), 'correct');
+  });
+
+  it('accepts a worked chain whichever side holds the simplified value', () => {
+    assert.equal(verdictOf('17', '25-8 = 17'), 'correct');
+    assert.equal(verdictOf('17', '17 = 25-8'), 'correct');
+    assert.equal(verdictOf('18', '17 = 25-8'), 'incorrect');
+  });
+
+  it('checks every root of a list for simplification', () => {
+    assert.equal(verdictOf('x = 2, x = -3', '-3, 2'), 'correct');
+    assert.equal(verdictOf('x = 2, x = -3', '-3, 1+1'), 'incorrect');
+  });
+
+  it('converts units', () => {
+    assert.equal(verdictOf('12 cm', '0.12 m'), 'correct');
+    assert.equal(verdictOf('12 cm', '12 m'), 'incorrect');
+  });
+
+  it('leaves a matching bare number to the grader when the key has a unit', () => {
+    const angle = verifyAnswer('30 degrees', '30');
+    assert.equal(angle.verdict, 'unverifiable');
+    assert.match(angle.detail, /no unit/);
+    assert.equal(verdictOf('12 ft^2', '12'), 'unverifiable');
+    assert.equal(verdictOf('12 cm', '12'), 'unverifiable');
+  });
+
+  it('still rejects a bare number with the wrong value', () => {
+    assert.equal(verdictOf('12 ft^2', '13'), 'incorrect');
+    assert.equal(verdictOf('30 degrees', '60'), 'incorrect');
+  });
+
+  it('reads dollar amounts the same way on both sides', () => {
+    assert.equal(verdictOf('$18.50', '18.50 dollars'), 'correct');
+    assert.equal(verdictOf('18.50 dollars', '$18.50'), 'correct');
+    assert.equal(verdictOf('18.50 dollars', '\\$18.50'), 'correct');
+    assert.equal(verdictOf('5 dollars', '$5'), 'correct');
+    assert.equal(verdictOf('$5', '5 dollars'), 'correct');
+    assert.equal(verdictOf('$5', '$6'), 'incorrect');
+    assert.equal(verdictOf('18.50 dollars', '18.5'), 'unverifiable');
+  });
+
+  it('keeps $...$ as math delimiters around a number', () => {
+    assert.equal(verdictOf('5', '$5$'), 'correct');
+    assert.equal(verdictOf('$15$', '15'), 'correct');
+  });
+
+  it('compares algebraic expressions by value', () => {
+    assert.equal(verdictOf('2x + 2', '2(x + 1)'), 'correct');
+    assert.equal(verdictOf('(x + 1)^2', 'x^2 + 2x + 1'), 'correct');
+    assert.equal(verdictOf('(x + 1)^2', 'x^2 + 1'), 'incorrect');
+  });
+
+  it('leaves oversized answers to the model instead of parsing them', () => {
+    const result = verifyAnswer('4', `${'1+'.repeat(400)}1`);
+
+    assert.equal(result.verdict, 'unverifiable');
+  });
+
+  it('survives deeply nested input without overflowing the stack', () => {
+    const nested = `${'('.repeat(240)}4${')'.repeat(240)}`;
+
+    assert.equal(verdictOf('4', nested), 'unverifiable');
+    assert.equal(verdictOf('4', `${'-'.repeat(200)}4`), 'unverifiable');
+  });
+
+  it('marks an empty answer incorrect', () => {
+    assert.equal(verdictOf('4', '   '), 'incorrect');
+  });
+});
@@ -0,0 +1,1270 @@
+import {
+  collectVariables,
+  evaluateExpression,
+  normalizeMathText,
+  tryParseExpression,
+  type ExpressionNode,
+} from './expression';
+import { isDimensionless, parseUnit, sameDimensions, type Unit } from './units';
+
+/**
+ * Deterministic answer verification.
+ *
+ * Compares a learner's answer against a reference answer by value rather than by wording:
+ * equivalent forms ("1/2", "0.5", "50%"), converted units, reordered roots and algebraically
+ * equivalent expressions all match. When either side cannot be interpreted the verifier says
+ * so explicitly ("unverifiable") instead of guessing, and the caller decides what to do next.
+ */
+
+export type AnswerForm =
+  | 'number'
+  | 'quantity'
+  | 'expression'
+  | 'equation'
+  | 'interval'
+  | 'set'
+  | 'tuple'
+  | 'boolean';
+
+export type VerificationVerdict = 'correct' | 'incorrect' | 'unverifiable';
+
+export interface VerificationResult {
+  verdict: VerificationVerdict;
+  form: AnswerForm | null;
+  detail: string;
+}
+
+export interface VerifyAnswerOptions {
+  expectedForm?: AnswerForm | null;
+}
+
+interface NumberAnswer {
+  form: 'number';
+  value: number;
+  decimals: number | null;
+  percent: boolean;
+  /** False for arithmetic on plain numbers that was never carried out, e.g. "25*4". */
+  reduced: boolean;
+}
+
+interface QuantityAnswer {
+  form: 'quantity';
+  value: number;
+  decimals: number | null;
+  unit: Unit;
+}
+
+interface ExpressionAnswer {
+  form: 'expression';
+  node: ExpressionNode;
+}
+
+interface EquationAnswer {
+  form: 'equation';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+interface Interval {
+  lower: number;
+  upper: number;
+  lowerClosed: boolean;
+  upperClosed: boolean;
+}
+
+interface IntervalAnswer {
+  form: 'interval';
+  intervals: Interval[];
+}
+
+interface TupleAnswer {
+  form: 'tuple';
+  items: ScalarAnswer[];
+}
+
+interface SetAnswer {
+  form: 'set';
+  items: Array<ScalarAnswer | TupleAnswer>;
+}
+
+interface BooleanAnswer {
+  form: 'boolean';
+  value: boolean;
+}
+
+type ScalarAnswer = NumberAnswer | QuantityAnswer | ExpressionAnswer | EquationAnswer;
+
+type ParsedAnswer = ScalarAnswer | IntervalAnswer | TupleAnswer | SetAnswer | BooleanAnswer;
+
+interface NamedScalar {
+  name: string | null;
+  answer: ScalarAnswer;
+}
+
+const ANSWER_FORMS: AnswerForm[] = [
+  'number',
+  'quantity',
+  'expression',
+  'equation',
+  'interval',
+  'set',
+  'tuple',
+  'boolean',
+];
+
+export const isAnswerForm = (value: unknown): value is AnswerForm =>
+  typeof value === 'string' && ANSWER_FORMS.includes(value as AnswerForm);
+
+const LEAD_IN_PATTERNS = [
+  /^(?:so|thus|therefore|hence)\b[,:]?\s*/i,
+  /^(?:the\s+)?(?:final\s+)?(?:answer|result|solution|value)s?\s*(?:is|are|=|:)\s*/i,
+  /^(?:i\s+think\s+)?(?:it\s+is|it'?s|i\s+got)\s+/i,
+  /^(?:approximately|approx\.?|about|roughly|around|~)\s*/i,
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+const EMPTY_SET_PATTERN =
+  /^(?:no\s+(?:real\s+)?(?:solutions?|roots?)|none|∅|emptyset|varnothing|(?:the\s+)?empty\s+set|\(\s*\))$/i;
+
+const ALL_REALS_PATTERN =
+  /^(?:all\s+real\s+numbers|all\s+reals|every\s+real\s+number|r|mathbb\s*\(?r\)?)$/i;
+
+const VARIABLE_NAME_PATTERN = /^(?:[a-zA-Z]|alpha|beta|gamma|theta|lambda|mu|phi|omega)$/;
+
+// Thirteen values (a prime count) so the stride below visits every value once per variable.
+const SAMPLE_VALUES = [
+  0.37, 1.73, -0.58, 2.21, -1.46, 0.83, 3.09, -2.64, 1.12, -0.29, 2.76, 0.51, -1.87,
+];
+
+const MIN_VALID_SAMPLES = 4;
+
+const isClose = (left: number, right: number, relative = 1e-7): boolean => {
+  if (!Number.isFinite(left) || !Number.isFinite(right)) {
+    return left === right;
+  }
+
+  return Math.abs(left - right) <= 1e-9 + relative * Math.max(Math.abs(left), Math.abs(right));
+};
+
+const countDecimals = (literal: string): number | null => {
+  const match = literal.trim().match(/^-?\d*\.?(\d*)$/);
+  if (!match || !/\d/.test(literal)) {
+    return null;
+  }
+  return literal.includes('.') ? match[1].length : 0;
+};
+
+const splitTopLevel = (text: string, separators: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth -= 1;
+    }
+
+    if (depth === 0 && separators.test(char)) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+const isWrapped = (text: string): boolean => {
+  if (!/^[[(]/.test(text) || !/[\])]$/.test(text)) {
+    return false;
+  }
+
+  // The opening bracket must close at the very end, e.g. "(1,2)" but not "(1)+(2)".
+  let depth = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (char === '(' || char === '[') {
+      depth += 1;
+    } else if (char === ')' || char === ']') {
+      depth -= 1;
+      if (depth === 0 && i < text.length - 1) {
+        return false;
+      }
+    }
+  }
+  return depth === 0;
+};
+
+/**
+ * Strips conversational framing ("The answer is", "approximately", trailing periods) from
+ * an already-normalized answer.
+ */
+const stripLeadIns = (text: string): string => {
+  let output = text.trim();
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const pattern of LEAD_IN_PATTERNS) {
+      const next = output.replace(pattern, '');
+      if (next !== output) {
+        output = next.trim();
+        changed = true;
+      }
+    }
+  }
+
+  return output.replace(/[.!]+$/, '').trim();
+};
+
+const evaluateConstant = (text: string): number | null => {
+  const node = tryParseExpression(text);
+  if (!node || collectVariables(node).size > 0) {
+    return null;
+  }
+
+  const value = evaluateExpression(node);
+  return Number.isNaN(value) ? null : value;
+};
+
+const isPlainLiteral = (node: ExpressionNode): boolean =>
+  (node.type === 'number' && !node.constant) ||
+  (node.type === 'unary' && isPlainLiteral(node.operand));
+
+const greatestCommonDivisor = (left: number, right: number): number =>
+  right === 0 ? left : greatestCommonDivisor(right, left % right);
+
+/** "10^8" as written in scientific notation ("3 \times 10^8"). */
+const isPowerOfTen = (node: ExpressionNode): boolean =>
+  node.type === 'binary' &&
+  node.operator === '^' &&
+  node.left.type === 'number' &&
+  node.left.value === 10 &&
+  isPlainLiteral(node.right) &&
+  Number.isInteger(evaluateExpression(node.right));
+
+/**
+ * Whether a constant expression is already in simplest form. Fractions in lowest terms,
+ * radicals and multiples of constants ("3/4", "2\sqrt{3}", "\frac{\pi}{2}") are; arithmetic
+ * left undone on plain numbers ("25*4", "6/8", "\sqrt{16}", "2^3") is not. Scientific
+ * notation ("3 \times 10^8") counts as reduced.
+ */
+const isReduced = (node: ExpressionNode): boolean => {
+  switch (node.type) {
+    case 'unary':
+      return isReduced(node.operand);
+    case 'factorial':
+      return !isPlainLiteral(node.operand) && isReduced(node.operand);
+    case 'call': {
+      const value = evaluateExpression(node);
+      if (node.args.every(isPlainLiteral) && Number.isInteger(value)) {
+        return false;
+      }
+      return node.args.every(isReduced);
+    }
+    case 'binary': {
+      if (node.operator === '*' && isPlainLiteral(node.left) && isPowerOfTen(node.right)) {
+        return true;
+      }
+      if (isPlainLiteral(node.left) && isPlainLiteral(node.right)) {
+        if (node.operator !== '/') {
+          return false;
+        }
+        const numerator = Math.abs(evaluateExpression(node.left));
+        const denominator = Math.abs(evaluateExpression(node.right));
+        return (
+          Number.isInteger(numerator) &&
+          Number.isInteger(denominator) &&
+          denominator > 1 &&
+          greatestCommonDivisor(numerator, denominator) === 1
+        );
+      }
+      return isReduced(node.left) && isReduced(node.right);
+    }
+    default:
+      return true;
+  }
+};
+
+const QUANTITY_PATTERN = /^(-)?\s*(\d+(?:\.\d+)?|\.\d+)\s*(.*)$/;
+
+// A `$` (or `\$`) before an amount, unless another `$` closes it as math ("$5$") or a currency
+// word already follows ("$5 dollars").
+const CURRENCY_PATTERN =
+  /\\?\$\s*(-?)\s*(\d[\d,]*(?:\.\d+)?|\.\d+)(?![\d.,])(?!\s*(?:\$|dollars?\b))/g;
+
+/**
+ * Rewrites dollar amounts as "18.50 dollars" before `normalizeMathText` drops every `$` as a math
+ * delimiter, so "$18.50" and "18.50 dollars" parse to the same quantity.
+ */
+const markCurrency = (raw: string): string => raw.replace(CURRENCY_PATTERN, '$1$2 dollars');
+
+/**
+ * Parses a value with no "=" in it: a number, a percentage, a quantity with units, or an
+ * expression. Prose labels after a number ("12 apples") are dropped.
+ */
+const parseValue = (text: string, preferred: AnswerForm | null): ScalarAnswer | null => {
+  const word = NUMBER_WORDS[text.toLowerCase()];
+  if (word !== undefined) {
+    return { form: 'number', value: word, decimals: 0, percent: false, reduced: true };
+  }
+
+  const quantity = text.match(QUANTITY_PATTERN);
+  if (quantity) {
+    const [, leadingSign, literal, suffix] = quantity;
+    const sign = leadingSign ? -1 : 1;
+    const value = sign * Number.parseFloat(literal);
+    const decimals = countDecimals(literal);
+    const trimmedSuffix = suffix.trim();
+
+    if (/^(?:%|percent)$/i.test(trimmedSuffix)) {
+      return { form: 'number', value, decimals, percent: true, reduced: true };
+    }
+
+    const wantsSymbolic = preferred === 'expression' || preferred === 'equation';
+
+    if (trimmedSuffix && /^[a-zA-Z°$]/.test(trimmedSuffix)) {
+      const unit = parseUnit(trimmedSuffix);
+
+      if (unit && !isDimensionless(unit) && !wantsSymbolic) {
+        return { form: 'quantity', value, decimals, unit };
+      }
+
+      if (!unit && !tryParseExpression(text)) {
+        // "12 apples", "5 square units": the words are a label, not a unit we can convert.
+        if (/^[a-zA-Z][a-zA-Z\s]*$/.test(trimmedSuffix)) {
+          return { form: 'number', value, decimals, percent: false, reduced: true };
+        }
+      }
+    }
+  }
+
+  const node = tryParseExpression(text);
+  if (!node) {
+    // A symbolic value followed by a unit, e.g. "\frac{\pi}{4} rad" or "2\sqrt{3} cm".
+    const trailingUnit = text.match(/^(.+?)\s*([a-zA-Z°][a-zA-Z°/^\d\s]*)$/);
+    const unit = trailingUnit ? parseUnit(trailingUnit[2]) : null;
+    const value = trailingUnit ? evaluateConstant(trailingUnit[1]) : null;
+    return unit && value !== null && !isDimensionless(unit)
+      ? { form: 'quantity', value, decimals: null, unit }
+      : null;
+  }
+
+  if (collectVariables(node).size > 0) {
+    return { form: 'expression', node };
+  }
+
+  const value = evaluateExpression(node);
+  if (Number.isNaN(value)) {
+    return null;
+  }
+
+  return {
+    form: 'number',
+    value,
+    decimals: countDecimals(text),
+    percent: false,
+    reduced: isReduced(node),
+  };
+};
+
+/**
+ * Parses a single answer that may contain "=": an assignment ("x = 4"), a worked chain
+ * ("2 + 3 = 5") or an equation ("y = 2x + 1").
+ */
+const parseNamedScalar = (text: string, preferred: AnswerForm | null): NamedScalar | null => {
+  if (/!=|<|>/.test(text)) {
+    return null;
+  }
+
+  const sides = text.split('=').map((side) => side.trim());
+
+  if (sides.length === 1) {
+    const answer = parseValue(text, preferred);
+    return answer ? { name: null, answer } : null;
+  }
+
+  if (sides.some((side) => !side)) {
+    return null;
+  }
+
+  const last = sides[sides.length - 1];
+
+  if (preferred === 'equation' && sides.length === 2) {
+    const left = tryParseExpression(sides[0]);
+    const right = tryParseExpression(sides[1]);
+    return left && right ? { name: null, answer: { form: 'equation', left, right } } : null;
+  }
+
+  const lastNode = tryParseExpression(last);
+  if (VARIABLE_NAME_PATTERN.test(sides[0]) && sides.length === 2) {
+    if (!lastNode || !collectVariables(lastNode).has(sides[0])) {
+      const answer = parseValue(last, preferred);
+      // "y = 2x + 1" is a relation between variables, not a value for y.
+      if (answer?.form === 'expression') {
+        return {
+          name: null,
+          answer: {
+            form: 'equation',
+            left: { type: 'variable', name: sides[0] },
+            right: answer.node,
+          },
+        };
+      }
+      return answer ? { name: sides[0], answer } : null;
+    }
+  }
+
+  const allConstant = sides.every((side) => evaluateConstant(side) !== null);
+  if (allConstant) {
+    // In a worked chain the simplified value may stand on either side: "25-8 = 17", "17 = 25-8".
+    const values = sides.map((side) => parseValue(side, preferred));
+    const answer =
+      [...values].reverse().find((value) => value && (value.form !== 'number' || value.reduced)) ??
+      values[values.length - 1];
+    return answer ? { name: null, answer } : null;
+  }
+
+  if (sides.length === 2) {
+    const left = tryParseExpression(sides[0]);
+    const right = lastNode;
+    return left && right ? { name: null, answer: { form: 'equation', left, right } } : null;
+  }
+
+  return null;
+};
+
+/**
+ * Expands a single "±" into both branches: "3 ± 2" -> ["3 + (2)", "3 - (2)"].
+ */
+const expandPlusMinus = (text: string): string[] => {
+  const index = text.search(/[±∓]/);
+  if (index === -1) {
+    return [text];
+  }
+
+  const before = text.slice(0, index);
+  const after = text.slice(index + 1).trim();
+  const assignment = before.match(/^(.*=\s*)(.*)$/);
+  const prefix = assignment ? assignment[1] : '';
+  const base = (assignment ? assignment[2] : before).trim();
+
+  return [`${prefix}${base} + (${after})`, `${prefix}${base} - (${after})`];
+};
+
+const parseInterval = (text: string): Interval | null => {
+  const match = text.match(/^([[(])\s*([^,]+?)\s*,\s*([^,]+?)\s*([\])])$/);
+  if (!match) {
+    return null;
+  }
+
+  const lower = evaluateConstant(match[2]);
+  const upper = evaluateConstant(match[3]);
+  if (lower === null || upper === null || lower > upper) {
+    return null;
+  }
+
+  return {
+    lower,
+    upper,
+    lowerClosed: match[1] === '[',
+    upperClosed: match[4] === ']',
+  };
+};
+
+const intersectIntervals = (left: Interval, right: Interval): Interval | null => {
+  const lower = Math.max(left.lower, right.lower);
+  const upper = Math.min(left.upper, right.upper);
+
+  if (lower > upper) {
+    return null;
+  }
+
+  const lowerClosed =
+    (left.lower !== lower || left.lowerClosed) && (right.lower !== lower || right.lowerClosed);
+  const upperClosed =
+    (left.upper !== upper || left.upperClosed) && (right.upper !== upper || right.upperClosed);
+
+  if (lower === upper && !(lowerClosed && upperClosed)) {
+    return null;
+  }
+
+  return { lower, upper, lowerClosed, upperClosed };
+};
+
+const isVariableName = (text: string): boolean => VARIABLE_NAME_PATTERN.test(text.trim());
+
+/**
+ * Turns one inequality chain ("x > 3", "3 <= x", "-2 < x <= 5") into an interval.
+ */
+const parseInequalityChain = (text: string): Interval | null => {
+  const pieces = text.split(/(<=|>=|<|>)/).map((piece) => piece.trim());
+  const all: Interval = {
+    lower: Number.NEGATIVE_INFINITY,
+    upper: Number.POSITIVE_INFINITY,
+    lowerClosed: false,
+    upperClosed: false,
+  };
+
+  const bound = (operator: string, value: number, variableOnLeft: boolean): Interval => {
+    const lessThan = operator.startsWith('<') === variableOnLeft;
+    const closed = operator.endsWith('=');
+    return lessThan
+      ? { ...all, upper: value, upperClosed: closed }
+      : { ...all, lower: value, lowerClosed: closed };
+  };
+
+  if (pieces.length === 3) {
+    const [left, operator, right] = pieces;
+    if (isVariableName(left)) {
+      const value = evaluateConstant(right);
+      return value === null ? null : bound(operator, value, true);
+    }
+    if (isVariableName(right)) {
+      const value = evaluateConstant(left);
+      return value === null ? null : bound(operator, value, false);
+    }
+    return null;
+  }
+
+  if (pieces.length === 5 && isVariableName(pieces[2])) {
+    const lower = evaluateConstant(pieces[0]);
+    const upper = evaluateConstant(pieces[4]);
+    if (lower === null || upper === null) {
+      return null;
+    }
+    const first = bound(pieces[1], lower, false);
+    const second = bound(pieces[3], upper, true);
+    return intersectIntervals(first, second);
+  }
+
+  return null;
+};
+
+const parseInequalities = (text: string): IntervalAnswer | null => {
+  const intervals: Interval[] = [];
+
+  for (const part of text.split(/\s+or\s+|∪/i)) {
+    let current: Interval | null = {
+      lower: Number.NEGATIVE_INFINITY,
+      upper: Number.POSITIVE_INFINITY,
+      lowerClosed: false,
+      upperClosed: false,
+    };
+
+    for (const condition of part.split(/\s+and\s+|,/i)) {
+      if (!condition.trim()) {
+        continue;
+      }
+      const interval = parseInequalityChain(condition);
+      if (!interval) {
+        return null;
+      }
+      current = current ? intersectIntervals(current, interval) : null;
+    }
+
+    if (current) {
+      intervals.push(current);
+    }
+  }
+
+  return { form: 'interval', intervals };
+};
+
+const parseIntervalUnion = (text: string): IntervalAnswer | null => {
+  const intervals: Interval[] = [];
+
+  for (const part of text.split(/∪|\s+U\s+|\s+or\s+/)) {
+    const interval = parseInterval(part.trim());
+    if (!interval) {
+      return null;
+    }
+    intervals.push(interval);
+  }
+
+  return intervals.length > 0 ? { form: 'interval', intervals } : null;
+};
+
+const parseTuple = (inner: string, preferred: AnswerForm | null): TupleAnswer | null => {
+  const items: ScalarAnswer[] = [];
+
+  for (const part of splitTopLevel(inner, /[,;]/)) {
+    const parsed = parseNamedScalar(part, preferred === 'tuple' ? null : preferred);
+    if (!parsed) {
+      return null;
+    }
+    items.push(parsed.answer);
+  }
+
+  return items.length > 1 ? { form: 'tuple', items } : null;
+};
+
+/**
+ * Parses a list of answers ("2, -3", "x = 2 or x = -3", "(1, 2), (3, 4)"). Lists of
+ * assignments to different variables ("x = 2, y = 3") become an ordered tuple instead.
+ */
+const parseList = (
+  parts: string[],
+  preferred: AnswerForm | null,
+): SetAnswer | TupleAnswer | null => {
+  const itemPreference = preferred === 'set' || preferred === 'tuple' ? null : preferred;
+  const named: NamedScalar[] = [];
+  const tuples: TupleAnswer[] = [];
+
+  for (const part of parts) {
+    if (isWrapped(part) && part.includes(',')) {
+      const tuple = parseTuple(part.slice(1, -1), itemPreference);
+      if (!tuple) {
+        return null;
+      }
+      tuples.push(tuple);
+      continue;
+    }
+
+    for (const branch of expandPlusMinus(part)) {
+      const parsed = parseNamedScalar(branch, itemPreference);
+      if (!parsed) {
+        return null;
+      }
+      named.push(parsed);
+    }
+  }
+
+  const names = named.map((item) => item.name);
+  const distinctNames = new Set(names);
+  const isNamedTuple =
+    tuples.length === 0 &&
+    named.length > 1 &&
+    names.every((name) => name !== null) &&
+    distinctNames.size === named.length;
+
+  if (isNamedTuple) {
+    const sorted = [...named].sort((a, b) => (a.name as string).localeCompare(b.name as string));
+    return { form: 'tuple', items: sorted.map((item) => item.answer) };
+  }
+
+  return { form: 'set', items: [...named.map((item) => item.answer), ...tuples] };
+};
+
+const extractRawSetBody = (raw: string): string | null => {
+  const stripped = raw
+    .replace(/\$/g, '')
+    .replace(/\\left|\\right/g, '')
+    .trim();
+  const match = stripped.match(/^\\?\{([\s\S]*)\\?\}$/);
+  return match ? match[1].replace(/\\$/, '') : null;
+};
+
+/**
+ * Interprets an answer string. `preferred` breaks ties between readings: "(2, 5)" is an
+ * interval when the reference is an interval and a point otherwise; "3m" is a length unless
+ * the reference is symbolic.
+ */
+const parseAnswer = (raw: string, preferred: AnswerForm | null): ParsedAnswer | null => {
+  const setBody = extractRawSetBody(raw);
+  if (setBody !== null) {
+    const inner = stripLeadIns(normalizeMathText(setBody));
+    if (!inner) {
+      return { form: 'set', items: [] };
+    }
+    return parseList(splitTopLevel(inner, /[,;]/), 'set');
+  }
+
+  const text = stripLeadIns(normalizeMathText(markCurrency(raw).replace(/\\approx|≈/g, '=')));
+
+  if (!text) {
+    return null;
+  }
+
+  if (/^(?:true|yes)$/i.test(text)) {
+    return { form: 'boolean', value: true };
+  }
+
+  if (/^(?:false|no)$/i.test(text)) {
+    return { form: 'boolean', value: false };
+  }
+
+  if (EMPTY_SET_PATTERN.test(text)) {
+    return { form: 'set', items: [] };
+  }
+
+  if (ALL_REALS_PATTERN.test(text)) {
+    return {
+      form: 'interval',
+      intervals: [
+        {
+          lower: Number.NEGATIVE_INFINITY,
+          upper: Number.POSITIVE_INFINITY,
+          lowerClosed: false,
+          upperClosed: false,
+        },
+      ],
+    };
+  }
+
+  if (/[<>]/.test(text)) {
+    return parseInequalities(text);
+  }
+
+  const looksLikeInterval =
+    /∪/.test(text) ||
+    /^\[[^,]+,[^,]+\)$|^\([^,]+,[^,]+\]$/.test(text) ||
+    (preferred === 'interval' && /^[[(][^,]+,[^,]+[\])]$/.test(text)) ||
+    (/^[[(]/.test(text) && /\binf\b/.test(text));
+
+  if (looksLikeInterval) {
+    return parseIntervalUnion(text);
+  }
+
+  const parts = splitTopLevel(text.replace(/\s+(?:or|and)\s+/gi, ','), /[,;]/);
+
+  if (parts.length > 1) {
+    return parseList(parts, preferred);
+  }
+
+  if (/[±∓]/.test(text)) {
+    return parseList([text], preferred);
+  }
+
+  if (isWrapped(text) && text.includes(',')) {
+    if (text.startsWith('[') && text.endsWith(']') && preferred !== 'tuple') {
+      return parseIntervalUnion(text);
+    }
+    return parseTuple(text.slice(1, -1), preferred);
+  }
+
+  return parseNamedScalar(text, preferred)?.answer ?? null;
+};
+
+const withinRounding = (expected: number, learner: number, decimals: number | null, step = 1) =>
+  decimals !== null &&
+  Math.abs(expected - learner) <= 0.5 * Math.pow(10, -decimals) * step * (1 + 1e-9);
+
+/**
+ * Compares two values in the same base unit, allowing either side to be a rounded form of
+ * the other when it was written as a decimal with at least two places (or as many places as
+ * the reference itself uses).
+ */
+const valuesMatch = (
+  expected: number,
+  learner: number,
+  expectedDecimals: number | null,
+  learnerDecimals: number | null,
+  expectedStep = 1,
+  learnerStep = 1,
+): boolean => {
+  if (isClose(expected, learner)) {
+    return true;
+  }
+
+  const requiredPlaces = Math.min(2, expectedDecimals ?? 2);
+  if (learnerDecimals !== null && learnerDecimals >= Math.max(1, requiredPlaces)) {
+    if (withinRounding(expected, learner, learnerDecimals, learnerStep)) {
+      return true;
+    }
+  }
+
+  return (
+    expectedDecimals !== null &&
+    expectedDecimals >= 1 &&
+    withinRounding(learner, expected, expectedDecimals, expectedStep)
+  );
+};
+
+const compareNumbers = (expected: NumberAnswer, learner: NumberAnswer): VerificationVerdict => {
+  // A numeric key expects the final number, not the arithmetic that produces it.
+  if (expected.reduced && !learner.reduced) {
+    return 'incorrect';
+  }
+
+  const expectedCandidates = expected.percent
+    ? [expected.value / 100, ...(learner.percent ? [] : [expected.value])]
+    : [expected.value];
+  const learnerCandidates = learner.percent
+    ? [
+        learner.value / 100,
+        ...(!expected.percent && Math.abs(expected.value) > 1 ? [learner.value] : []),
+      ]
+    : [learner.value];
+
+  for (const candidate of expectedCandidates) {
+    for (const value of learnerCandidates) {
+      const scaled = candidate !== expected.value || value !== learner.value;
+      const expectedDecimals = scaled ? null : expected.decimals;
+      if (valuesMatch(candidate, value, expectedDecimals, scaled ? null : learner.decimals)) {
+        return 'correct';
+      }
+    }
+  }
+
+  return 'incorrect';
+};
+
+const TEMPERATURE_DIMENSIONS = ['celsius', 'fahrenheit', 'kelvin'];
+
+const isTemperature = (unit: Unit) =>
+  Object.keys(unit.dimensions).some((dimension) => TEMPERATURE_DIMENSIONS.includes(dimension));
+
+const compareQuantities = (
+  expected: QuantityAnswer | NumberAnswer,
+  learner: QuantityAnswer | NumberAnswer,
+): VerificationVerdict => {
+  if (expected.form === 'number' && learner.form === 'number') {
+    return compareNumbers(expected, learner);
+  }
+
+  // A bare number is right only if the question already fixed the unit, which the verifier
+  // cannot see; a matching value goes to the grader with the question in hand.
+  if (learner.form === 'number') {
+    return valuesMatch(expected.value, learner.value, expected.decimals, learner.decimals)
+      ? 'unverifiable'
+      : 'incorrect';
+  }
+
+  // Only the learner gave a unit: the reference is read in that same unit.
+  if (expected.form === 'number') {
+    return valuesMatch(expected.value, learner.value, expected.decimals, learner.decimals)
+      ? 'correct'
+      : 'incorrect';
+  }
+
+  if (!sameDimensions(expected.unit, learner.unit)) {
+    // Temperature scales are offset, not proportional; leave those conversions to a person.
+    return isTemperature(expected.unit) && isTemperature(learner.unit)
+      ? 'unverifiable'
+      : 'incorrect';
+  }
+
+  return valuesMatch(
+    expected.value * expected.unit.scale,
+    learner.value * learner.unit.scale,
+    expected.decimals,
+    learner.decimals,
+    expected.unit.scale,
+    learner.unit.scale,
+  )
+    ? 'correct'
+    : 'incorrect';
+};
+
+const sampleScope = (variables: string[], index: number): Record<string, number> =>
+  Object.fromEntries(
+    variables.map((name, position) => [
+      name,
+      SAMPLE_VALUES[(index * 5 + position * 3) % SAMPLE_VALUES.length],
+    ]),
+  );
+
+/**
+ * Checks algebraic equivalence by evaluating both sides at fixed sample points. Points where
+ * either side is undefined (outside a log or root domain) are skipped.
+ */
+const compareExpressions = (
+  expected: ExpressionNode,
+  learner: ExpressionNode,
+): VerificationVerdict => {
+  const expectedVariables = collectVariables(expected);
+  const learnerVariables = collectVariables(learner);
+
+  if (expectedVariables.size === 0 && learnerVariables.size > 0) {
+    return 'incorrect';
+  }
+
+  for (const name of learnerVariables) {
+    if (!expectedVariables.has(name)) {
+      return 'unverifiable';
+    }
+  }
+
+  const variables = [...expectedVariables].sort();
+  let valid = 0;
+
+  for (let index = 0; index < SAMPLE_VALUES.length; index += 1) {
+    const scope = sampleScope(variables, index);
+    const expectedValue = evaluateExpression(expected, scope);
+    const learnerValue = evaluateExpression(learner, scope);
+
+    if (!Number.isFinite(expectedValue) || !Number.isFinite(learnerValue)) {
+      continue;
+    }
+
+    if (!isClose(expectedValue, learnerValue, 1e-6)) {
+      return 'incorrect';
+    }
+
+    valid += 1;
+  }
+
+  return valid >= MIN_VALID_SAMPLES ? 'correct' : 'unverifiable';
+};
+
+/**
+ * Two equations match when (left - right) of one is a constant non-zero multiple of the
+ * other's, so "2y = 4x + 6" matches "y = 2x + 3".
+ */
+const compareEquations = (
+  expected: EquationAnswer,
+  learner: EquationAnswer,
+): VerificationVerdict => {
+  const expectedVariables = collectVariables(expected.left);
+  collectVariables(expected.right, expectedVariables);
+  const learnerVariables = collectVariables(learner.left);
+  collectVariables(learner.right, learnerVariables);
+
+  for (const name of learnerVariables) {
+    if (!expectedVariables.has(name)) {
+      return 'unverifiable';
+    }
+  }
+
+  const variables = [...expectedVariables].sort();
+  let ratio: number | null = null;
+  let valid = 0;
+
+  for (let index = 0; index < SAMPLE_VALUES.length; index += 1) {
+    const scope = sampleScope(variables, index);
+    const expectedValue =
+      evaluateExpression(expected.left, scope) - evaluateExpression(expected.right, scope);
+    const learnerValue =
+      evaluateExpression(learner.left, scope) - evaluateExpression(learner.right, scope);
+
+    if (!Number.isFinite(expectedValue) || !Number.isFinite(learnerValue)) {
+      continue;
+    }
+
+    const expectedZero = Math.abs(expectedValue) < 1e-9;
+    const learnerZero = Math.abs(learnerValue) < 1e-9;
+
+    if (expectedZero || learnerZero) {
+      if (expectedZero !== learnerZero) {
+        return 'incorrect';
+      }
+      continue;
+    }
+
+    const current = learnerValue / expectedValue;
+    if (ratio === null) {
+      ratio = current;
+    } else if (!isClose(ratio, current, 1e-6)) {
+      return 'incorrect';
+    }
+
+    valid += 1;
+  }
+
+  return valid >= MIN_VALID_SAMPLES ? 'correct' : 'unverifiable';
+};
+
+/**
+ * For "y = 2x + 1" style references, returns the right-hand side so a bare "2x + 1" can be
+ * compared against it.
+ */
+const solvedSide = (equation: EquationAnswer): ExpressionNode | null => {
+  if (equation.left.type !== 'variable') {
+    return null;
+  }
+
+  return collectVariables(equation.right).has(equation.left.name) ? null : equation.right;
+};
+
+const toExpressionNode = (answer: ScalarAnswer): ExpressionNode | null => {
+  switch (answer.form) {
+    case 'expression':
+      return answer.node;
+    case 'number':
+      return answer.percent ? null : { type: 'number', value: answer.value };
+    default:
+      return null;
+  }
+};
+
+const compareScalars = (expected: ScalarAnswer, learner: ScalarAnswer): VerificationVerdict => {
+  const numeric = (answer: ScalarAnswer) => answer.form === 'number' || answer.form === 'quantity';
+
+  if (numeric(expected) && numeric(learner)) {
+    return compareQuantities(
+      expected as NumberAnswer | QuantityAnswer,
+      learner as NumberAnswer | QuantityAnswer,
+    );
+  }
+
+  if (expected.form === 'equation' && learner.form === 'equation') {
+    return compareEquations(expected, learner);
+  }
+
+  if (expected.form === 'equation' || learner.form === 'equation') {
+    const equation = (expected.form === 'equation' ? expected : learner) as EquationAnswer;
+    const other = expected.form === 'equation' ? learner : expected;
+    const side = solvedSide(equation);
+    const otherNode = toExpressionNode(other);
+    if (!side || !otherNode) {
+      return 'unverifiable';
+    }
+    return expected.form === 'equation'
+      ? compareExpressions(side, otherNode)
+      : compareExpressions(otherNode, side);
+  }
+
+  const expectedNode = toExpressionNode(expected);
+  const learnerNode = toExpressionNode(learner);
+
+  if (!expectedNode || !learnerNode) {
+    return 'unverifiable';
+  }
+
+  return compareExpressions(expectedNode, learnerNode);
+};
+
+const combineVerdicts = (verdicts: VerificationVerdict[]): VerificationVerdict => {
+  if (verdicts.includes('incorrect')) {
+    return 'incorrect';
+  }
+  return verdicts.includes('unverifiable') ? 'unverifiable' : 'correct';
+};
+
+const compareTuples = (expected: TupleAnswer, learner: TupleAnswer): VerificationVerdict => {
+  if (expected.items.length !== learner.items.length) {
+    return 'incorrect';
+  }
+
+  return combineVerdicts(
+    expected.items.map((item, index) => compareScalars(item, learner.items[index])),
+  );
+};
+
+const compareSetItems = (
+  expected: ScalarAnswer | TupleAnswer,
+  learner: ScalarAnswer | TupleAnswer,
+): VerificationVerdict => {
+  if (expected.form === 'tuple' || learner.form === 'tuple') {
+    return expected.form === 'tuple' && learner.form === 'tuple'
+      ? compareTuples(expected, learner)
+      : 'incorrect';
+  }
+
+  return compareScalars(expected, learner);
+};
+
+const dedupeItems = <T extends ScalarAnswer | TupleAnswer>(items: T[]): T[] =>
+  items.filter(
+    (item, index) =>
+      !items.slice(0, index).some((earlier) => compareSetItems(earlier, item) === 'correct'),
+  );
+
+/**
+ * Order-independent comparison: every reference item must be matched by a distinct learner
+ * item and nothing extra may be left over. Repeated roots count once.
+ */
+const compareSets = (expected: SetAnswer, learner: SetAnswer): VerificationVerdict => {
+  const expectedItems = dedupeItems(expected.items);
+  const learnerItems = dedupeItems(learner.items);
+
+  if (expectedItems.length !== learnerItems.length) {
+    return 'incorrect';
+  }
+
+  const used = new Set<number>();
+  let sawUnverifiable = false;
+
+  for (const item of expectedItems) {
+    let matched = false;
+
+    for (let index = 0; index < learnerItems.length; index += 1) {
+      if (used.has(index)) {
+        continue;
+      }
+      const verdict = compareSetItems(item, learnerItems[index]);
+      if (verdict === 'correct') {
+        used.add(index);
+        matched = true;
+        break;
+      }
+      if (verdict === 'unverifiable') {
+        sawUnverifiable = true;
+      }
+    }
+
+    if (!matched) {
+      return sawUnverifiable ? 'unverifiable' : 'incorrect';
+    }
+  }
+
+  return 'correct';
+};
+
+const endpointsMatch = (left: number, right: number) =>
+  left === right || (Number.isFinite(left) && Number.isFinite(right) && isClose(left, right));
+
+const compareIntervals = (
+  expected: IntervalAnswer,
+  learner: IntervalAnswer,
+): VerificationVerdict => {
+  if (expected.intervals.length !== learner.intervals.length) {
+    return 'incorrect';
+  }
+
+  const byLower = (a: Interval, b: Interval) => a.lower - b.lower || a.upper - b.upper;
+  const expectedSorted = [...expected.intervals].sort(byLower);
+  const learnerSorted = [...learner.intervals].sort(byLower);
+
+  const allMatch = expectedSorted.every((interval, index) => {
+    const other = learnerSorted[index];
+    return (
+      endpointsMatch(interval.lower, other.lower) &&
+      endpointsMatch(interval.upper, other.upper) &&
+      (!Number.isFinite(interval.lower) || interval.lowerClosed === other.lowerClosed) &&
+      (!Number.isFinite(interval.upper) || interval.upperClosed === other.upperClosed)
+    );
+  });
+
+  return allMatch ? 'correct' : 'incorrect';
+};
+
+const isScalar = (answer: ParsedAnswer): answer is ScalarAnswer =>
+  answer.form === 'number' ||
+  answer.form === 'quantity' ||
+  answer.form === 'expression' ||
+  answer.form === 'equation';
+
+const unwrapSingleton = (answer: ParsedAnswer): ParsedAnswer =>
+  answer.form === 'set' && answer.items.length === 1 ? answer.items[0] : answer;
+
+const compareParsed = (expected: ParsedAnswer, learner: ParsedAnswer): VerificationVerdict => {
+  const left = unwrapSingleton(expected);
+  const right = unwrapSingleton(learner);
+
+  if (isScalar(left) && isScalar(right)) {
+    return compareScalars(left, right);
+  }
+
+  if (left.form === 'set' || right.form === 'set') {
+    const asSet = (answer: ParsedAnswer): SetAnswer | null => {
+      if (answer.form === 'set') {
+        return answer;
+      }
+      return isScalar(answer) || answer.form === 'tuple' ? { form: 'set', items: [answer] } : null;
+    };
+    const expectedSet = asSet(left);
+    const learnerSet = asSet(right);
+    return expectedSet && learnerSet ? compareSets(expectedSet, learnerSet) : 'unverifiable';
+  }
+
+  if (left.form === 'tuple' && right.form === 'tuple') {
+    return compareTuples(left, right);
+  }
+
+  if (left.form === 'interval' && right.form === 'interval') {
+    return compareIntervals(left, right);
+  }
+
+  if (left.form === 'boolean' && right.form === 'boolean') {
+    return left.value === right.value ? 'correct' : 'incorrect';
+  }
+
+  return 'unverifiable';
+};
+
+const VERDICT_DETAILS: Record<VerificationVerdict, string> = {
+  correct: 'The answer is equivalent to the reference answer.',
+  incorrect: 'The answer is not equivalent to the reference answer.',
+  unverifiable: 'The answers could not be compared automatically.',
+};
+
+/** Answers longer than this are left to a person (or the model) rather than parsed. */
+const MAX_ANSWER_LENGTH = 500;
+
+/** Says why an answer with the reference's value was not simply marked correct, if it was not. */
+const explainVerdict = (
+  verdict: VerificationVerdict,
+  expected: ParsedAnswer,
+  learner: ParsedAnswer,
+): string | null => {
+  const left = unwrapSingleton(expected);
+  const right = unwrapSingleton(learner);
+
+  if (verdict === 'unverifiable' && left.form === 'quantity' && right.form === 'number') {
+    return 'The number matches but has no unit; only the question says whether one was needed.';
+  }
+
+  if (verdict !== 'incorrect') {
+    return null;
+  }
+
+  if (left.form === 'number' && right.form === 'number' && left.reduced && !right.reduced) {
+    return compareNumbers(left, { ...right, reduced: true }) === 'correct'
+      ? 'The answer has the right value but is not fully simplified.'
+      : null;
+  }
+
+  return null;
+};
+
+/**
+ * Verifies `learner` against the reference answer `expected`.
+ *
+ * Returns "unverifiable" whenever either answer falls outside what can be compared
+ * deterministically; it never guesses.
+ */
+export const verifyAnswer = (
+  expected: string,
+  learner: string,
+  options: VerifyAnswerOptions = {},
+): VerificationResult => {
+  const expectedForm = options.expectedForm ?? null;
+
+  if (!learner.trim()) {
+    return { verdict: 'incorrect', form: expectedForm, detail: 'No answer was given.' };
+  }
+
+  if (expected.length > MAX_ANSWER_LENGTH || learner.length > MAX_ANSWER_LENGTH) {
+    return {
+      verdict: 'unverifiable',
+      form: expectedForm,
+      detail: 'The answer is too long to compare automatically.',
+    };
+  }
+
+  const parsedExpected = expected.trim() ? parseAnswer(expected, expectedForm) : null;
+
+  if (!parsedExpected) {
+    return {
+      verdict: 'unverifiable',
+      form: expectedForm,
+      detail: 'The reference answer could not be interpreted.',
+    };
+  }
+
+  const parsedLearner = parseAnswer(learner, parsedExpected.form);
+
+  if (!parsedLearner) {
+    return {
+      verdict: 'unverifiable',
+      form: parsedExpected.form,
+      detail: 'The answer could not be interpreted.',
+    };
+  }
+
+  const verdict = compareParsed(parsedExpected, parsedLearner);
+  const detail = explainVerdict(verdict, parsedExpected, parsedLearner) ?? VERDICT_DETAILS[verdict];
+  return { verdict, form: parsedExpected.form, detail };
+};
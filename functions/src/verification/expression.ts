@@ -0,0 +1,738 @@
+/**
+ * Tolerant math expression parser used by the answer verifier.
+ *
+ * Accepts plain text ("3x^2 + 1/2"), common unicode symbols (π, √, ², ×) and the
+ * LaTeX subset that models and learners actually type (\frac, \sqrt, \cdot, \pi),
+ * and evaluates the parsed tree numerically for a given variable assignment.
+ */
+
+export type FunctionName =
+  | 'sin'
+  | 'cos'
+  | 'tan'
+  | 'sec'
+  | 'csc'
+  | 'cot'
+  | 'arcsin'
+  | 'arccos'
+  | 'arctan'
+  | 'sinh'
+  | 'cosh'
+  | 'tanh'
+  | 'ln'
+  | 'log'
+  | 'exp'
+  | 'sqrt'
+  | 'abs';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number; constant?: string }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: '-'; operand: ExpressionNode }
+  | {
+      type: 'binary';
+      operator: '+' | '-' | '*' | '/' | '^';
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | { type: 'call'; name: FunctionName; args: ExpressionNode[] }
+  | { type: 'factorial'; operand: ExpressionNode };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'function'; value: FunctionName }
+  | { kind: 'operator'; value: '+' | '-' | '*' | '/' | '^' | '!' | '_' }
+  | { kind: 'paren'; value: '(' | ')' }
+  | { kind: 'bar' }
+  | { kind: 'comma' };
+
+const FUNCTION_ALIASES: Record<string, FunctionName> = {
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  sec: 'sec',
+  csc: 'csc',
+  cot: 'cot',
+  arcsin: 'arcsin',
+  asin: 'arcsin',
+  arccos: 'arccos',
+  acos: 'arccos',
+  arctan: 'arctan',
+  atan: 'arctan',
+  sinh: 'sinh',
+  cosh: 'cosh',
+  tanh: 'tanh',
+  ln: 'ln',
+  log: 'log',
+  exp: 'exp',
+  sqrt: 'sqrt',
+  abs: 'abs',
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  inf: Number.POSITIVE_INFINITY,
+  infinity: Number.POSITIVE_INFINITY,
+};
+
+const GREEK_VARIABLES = [
+  'alpha',
+  'beta',
+  'gamma',
+  'delta',
+  'epsilon',
+  'theta',
+  'lambda',
+  'mu',
+  'phi',
+  'rho',
+  'sigma',
+  'tau',
+  'omega',
+];
+
+// Longest names first so "arcsin" wins over "sin" and "sinh" over "sin".
+const NAMED_IDENTIFIERS = [
+  ...Object.keys(FUNCTION_ALIASES),
+  ...Object.keys(CONSTANTS),
+  ...GREEK_VARIABLES,
+].sort((a, b) => b.length - a.length);
+
+const UNICODE_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[−–—]/g, '-'],
+  [/[×∙·⋅]/g, '*'],
+  [/÷/g, '/'],
+  [/π/g, 'pi'],
+  [/∞/g, 'inf'],
+  [/θ/g, 'theta'],
+  [/√/g, 'sqrt'],
+  [/≤/g, '<='],
+  [/≥/g, '>='],
+  [/≠/g, '!='],
+  [/½/g, '(1/2)'],
+  [/¼/g, '(1/4)'],
+  [/¾/g, '(3/4)'],
+  [/⁰/g, '^0'],
+  [/¹/g, '^1'],
+  [/²/g, '^2'],
+  [/³/g, '^3'],
+  [/⁴/g, '^4'],
+];
+
+const LATEX_COMMAND_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/\\(?:left|right|displaystyle|bigl?|bigr?|Bigl?|Bigr?)\b/g, ''],
+  [/\\(?:d|t)frac/g, '\\frac'],
+  [/\\(?:cdot|times|ast)/g, '*'],
+  [/\\div/g, '/'],
+  [/\\(?:infty|infin)/g, 'inf'],
+  [/\\(?:leq?|leqslant)\b/g, '<='],
+  [/\\(?:geq?|geqslant)\b/g, '>='],
+  [/\\(?:neq?)\b/g, '!='],
+  [/\\pm/g, '±'],
+  [/\\mp/g, '∓'],
+  [/\^\s*\{?\s*\\circ\s*\}?|\\circ|\\degree/g, '°'],
+  [/\\%/g, '%'],
+  [/\\\$/g, '$'],
+  [/\\[,;:! ]/g, ' '],
+  [/\\(?:text|mathrm|mathit|mathbf|operatorname)\s*\{([^{}]*)\}/g, '$1'],
+  [/\\cup/g, '∪'],
+];
+
+/**
+ * Finds the index of the brace that closes the group opening at `openIndex`.
+ */
+const findClosingBrace = (input: string, openIndex: number): number => {
+  let depth = 0;
+  for (let i = openIndex; i < input.length; i += 1) {
+    if (input[i] === '{') {
+      depth += 1;
+    } else if (input[i] === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+};
+
+/**
+ * Reads a LaTeX argument starting at `index`: either a braced group or a single character.
+ */
+const readLatexArgument = (input: string, index: number): { value: string; end: number } | null => {
+  let cursor = index;
+  while (input[cursor] === ' ') {
+    cursor += 1;
+  }
+
+  if (cursor >= input.length) {
+    return null;
+  }
+
+  if (input[cursor] === '{') {
+    const close = findClosingBrace(input, cursor);
+    if (close === -1) {
+      return null;
+    }
+    return { value: input.slice(cursor + 1, close), end: close + 1 };
+  }
+
+  return { value: input[cursor], end: cursor + 1 };
+};
+
+const rewriteFractionsAndRoots = (input: string): string => {
+  let output = input;
+  let guard = 0;
+
+  // Rewrite innermost-first by always restarting the scan; bounded to avoid pathological input.
+  while (guard < 50) {
+    guard += 1;
+    const fracIndex = output.indexOf('\\frac');
+    const sqrtIndex = output.indexOf('\\sqrt');
+
+    if (fracIndex === -1 && sqrtIndex === -1) {
+      break;
+    }
+
+    if (fracIndex !== -1 && (sqrtIndex === -1 || fracIndex < sqrtIndex)) {
+      const numerator = readLatexArgument(output, fracIndex + 5);
+      const denominator = numerator ? readLatexArgument(output, numerator.end) : null;
+      if (!numerator || !denominator) {
+        break;
+      }
+      output = `${output.slice(0, fracIndex)}((${numerator.value})/(${denominator.value}))${output.slice(denominator.end)}`;
+      continue;
+    }
+
+    let cursor = sqrtIndex + 5;
+    let degree: string | null = null;
+    if (output[cursor] === '[') {
+      const close = output.indexOf(']', cursor);
+      if (close === -1) {
+        break;
+      }
+      degree = output.slice(cursor + 1, close);
+      cursor = close + 1;
+    }
+    const radicand = readLatexArgument(output, cursor);
+    if (!radicand) {
+      break;
+    }
+    const replacement = degree
+      ? `((${radicand.value})^(1/(${degree})))`
+      : `sqrt(${radicand.value})`;
+    output = `${output.slice(0, sqrtIndex)}${replacement}${output.slice(radicand.end)}`;
+  }
+
+  return output;
+};
+
+/**
+ * Converts LaTeX and unicode math notation into the plain ASCII dialect the tokenizer reads.
+ * Comparison operators, "±" and "∪" are preserved for the verifier to interpret.
+ */
+export const normalizeMathText = (input: string): string => {
+  let output = input.replace(/\\\(|\\\)|\\\[|\\\]/g, ' ').replace(/\$/g, ' ');
+
+  for (const [pattern, replacement] of LATEX_COMMAND_REPLACEMENTS) {
+    output = output.replace(pattern, replacement);
+  }
+
+  output = rewriteFractionsAndRoots(output);
+
+  for (const [pattern, replacement] of UNICODE_REPLACEMENTS) {
+    output = output.replace(pattern, replacement);
+  }
+
+  return (
+    output
+      // Remaining commands such as \sin, \ln or \theta become bare names.
+      .replace(/\\([a-zA-Z]+)/g, '$1')
+      .replace(/[{]/g, '(')
+      .replace(/[}]/g, ')')
+      // Thousands separators: "12,500" -> "12500" (but keep "1, 2" lists intact).
+      .replace(
+        /\b(\d{1,3})((?:,\d{3})+)(?![\d.])/g,
+        (_match, head: string, rest: string) => `${head}${rest.replace(/,/g, '')}`,
+      )
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+};
+
+const splitIdentifier = (word: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  const lower = word.toLowerCase();
+
+  while (index < word.length) {
+    const named = NAMED_IDENTIFIERS.find((name) => lower.startsWith(name, index));
+
+    if (named) {
+      const fn = FUNCTION_ALIASES[named];
+      tokens.push(fn ? { kind: 'function', value: fn } : { kind: 'identifier', value: named });
+      index += named.length;
+      continue;
+    }
+
+    tokens.push({ kind: 'identifier', value: word[index] });
+    index += 1;
+  }
+
+  return tokens;
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (char === ' ') {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = input.slice(index).match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+      if (!match) {
+        throw new Error(`Unexpected "${char}" in expression.`);
+      }
+      tokens.push({ kind: 'number', value: Number.parseFloat(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(char)) {
+      const match = input.slice(index).match(/^[a-zA-Z]+/);
+      const word = match ? match[0] : char;
+      const pieces = splitIdentifier(word);
+      const singleLetters = pieces.filter(
+        (piece) => piece.kind === 'identifier' && piece.value.length === 1,
+      ).length;
+
+      // Runs like "apples" or "the" are prose, not a product of single-letter variables.
+      if (word.length >= 3 && singleLetters === word.length) {
+        throw new Error(`"${word}" is not a recognised math symbol.`);
+      }
+
+      tokens.push(...pieces);
+      index += word.length;
+      continue;
+    }
+
+    if (char === '°') {
+      // Degrees inside an expression (e.g. sin(30°)) convert to radians.
+      tokens.push(
+        { kind: 'operator', value: '*' },
+        { kind: 'paren', value: '(' },
+        { kind: 'number', value: Math.PI },
+        { kind: 'operator', value: '/' },
+        { kind: 'number', value: 180 },
+        { kind: 'paren', value: ')' },
+      );
+      index += 1;
+      continue;
+    }
+
+    if (char === '+' || char === '-' || char === '*' || char === '/' || char === '^') {
+      tokens.push({ kind: 'operator', value: char });
+      index += 1;
+      continue;
+    }
+
+    if (char === '!' || char === '_') {
+      tokens.push({ kind: 'operator', value: char });
+      index += 1;
+      continue;
+    }
+
+    if (char === '(' || char === '[') {
+      tokens.push({ kind: 'paren', value: '(' });
+      index += 1;
+      continue;
+    }
+
+    if (char === ')' || char === ']') {
+      tokens.push({ kind: 'paren', value: ')' });
+      index += 1;
+      continue;
+    }
+
+    if (char === '|') {
+      tokens.push({ kind: 'bar' });
+      index += 1;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ kind: 'comma' });
+      index += 1;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${char}" in expression.`);
+  }
+
+  return tokens;
+};
+
+/**
+ * Bounds on what the parser will attempt. Anything larger is not a real answer, and deep
+ * nesting would otherwise exhaust the call stack.
+ */
+const MAX_TOKENS = 400;
+const MAX_NESTING_DEPTH = 64;
+
+class ExpressionParser {
+  private position = 0;
+
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Expression is empty.');
+    }
+
+    if (this.tokens.length > MAX_TOKENS) {
+      throw new Error('Expression is too long.');
+    }
+
+    const node = this.parseSum();
+
+    if (this.position < this.tokens.length) {
+      throw new Error('Unexpected trailing input in expression.');
+    }
+
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    const token = this.tokens[this.position];
+    this.position += 1;
+    return token;
+  }
+
+  /** Runs one recursive step, refusing to nest deeper than `MAX_NESTING_DEPTH`. */
+  private nested<T>(step: () => T): T {
+    if (this.depth >= MAX_NESTING_DEPTH) {
+      throw new Error('Expression is nested too deeply.');
+    }
+
+    this.depth += 1;
+    try {
+      return step();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private isOperator(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'operator' && token.value === value;
+  }
+
+  private parseSum(): ExpressionNode {
+    let node = this.parseProduct();
+
+    while (this.isOperator(this.peek(), '+') || this.isOperator(this.peek(), '-')) {
+      const operator = (this.next() as { value: '+' | '-' }).value;
+      node = { type: 'binary', operator, left: node, right: this.parseProduct() };
+    }
+
+    return node;
+  }
+
+  private startsImplicitFactor(token: Token | undefined): boolean {
+    if (!token) {
+      return false;
+    }
+
+    return (
+      token.kind === 'identifier' ||
+      token.kind === 'function' ||
+      (token.kind === 'paren' && token.value === '(')
+    );
+  }
+
+  private parseProduct(): ExpressionNode {
+    let node = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+
+      if (this.isOperator(token, '*') || this.isOperator(token, '/')) {
+        const operator = (this.next() as { value: '*' | '/' }).value;
+        node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+        continue;
+      }
+
+      if (this.startsImplicitFactor(token)) {
+        node = { type: 'binary', operator: '*', left: node, right: this.parsePower() };
+        continue;
+      }
+
+      return node;
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    return this.nested(() => {
+      if (this.isOperator(this.peek(), '-')) {
+        this.next();
+        return { type: 'unary', operator: '-', operand: this.parseUnary() };
+      }
+
+      if (this.isOperator(this.peek(), '+')) {
+        this.next();
+        return this.parseUnary();
+      }
+
+      return this.parsePower();
+    });
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePostfix();
+
+    if (this.isOperator(this.peek(), '^')) {
+      this.next();
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+
+    return base;
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (this.isOperator(this.peek(), '!')) {
+      this.next();
+      node = { type: 'factorial', operand: node };
+    }
+
+    return node;
+  }
+
+  private expectClosingParen() {
+    const token = this.next();
+    if (!token || token.kind !== 'paren' || token.value !== ')') {
+      throw new Error('Missing closing parenthesis.');
+    }
+  }
+
+  private parseFunction(name: FunctionName): ExpressionNode {
+    let logBase: ExpressionNode | null = null;
+
+    if (name === 'log' && this.isOperator(this.peek(), '_')) {
+      this.next();
+      logBase = this.parsePrimary();
+    }
+
+    let argument: ExpressionNode;
+    const token = this.peek();
+
+    if (token?.kind === 'paren' && token.value === '(') {
+      this.next();
+      argument = this.parseSum();
+      this.expectClosingParen();
+    } else {
+      // "sin x", "sqrt 2": the function binds to the next power term.
+      argument = this.parsePower();
+    }
+
+    // Allow "sin^2 x" style only via explicit parentheses; keep the grammar small.
+    return logBase
+      ? { type: 'call', name: 'log', args: [argument, logBase] }
+      : { type: 'call', name, args: [argument] };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    return this.nested(() => this.parseAtom());
+  }
+
+  private parseAtom(): ExpressionNode {
+    const token = this.next();
+
+    if (!token) {
+      throw new Error('Unexpected end of expression.');
+    }
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'identifier': {
+        const constant = CONSTANTS[token.value.toLowerCase()];
+        if (constant !== undefined) {
+          return { type: 'number', value: constant, constant: token.value.toLowerCase() };
+        }
+        return { type: 'variable', name: token.value };
+      }
+      case 'function':
+        return this.parseFunction(token.value);
+      case 'paren': {
+        if (token.value !== '(') {
+          throw new Error('Unexpected closing parenthesis.');
+        }
+        const inner = this.parseSum();
+        this.expectClosingParen();
+        return inner;
+      }
+      case 'bar': {
+        const inner = this.parseSum();
+        const closing = this.next();
+        if (!closing || closing.kind !== 'bar') {
+          throw new Error('Missing closing absolute value bar.');
+        }
+        return { type: 'call', name: 'abs', args: [inner] };
+      }
+      default:
+        throw new Error('Unexpected symbol in expression.');
+    }
+  }
+}
+
+/**
+ * Parses already-normalized text into an expression tree. Throws on anything that is not
+ * a single well-formed expression (including prose words and top-level commas).
+ */
+export const parseExpression = (input: string): ExpressionNode =>
+  new ExpressionParser(tokenize(input)).parse();
+
+export const tryParseExpression = (input: string): ExpressionNode | null => {
+  try {
+    return parseExpression(input);
+  } catch {
+    return null;
+  }
+};
+
+const factorial = (value: number): number => {
+  if (!Number.isInteger(value) || value < 0 || value > 170) {
+    return Number.NaN;
+  }
+
+  let result = 1;
+  for (let i = 2; i <= value; i += 1) {
+    result *= i;
+  }
+  return result;
+};
+
+const applyFunction = (name: FunctionName, args: number[]): number => {
+  const [value, base] = args;
+
+  switch (name) {
+    case 'sin':
+      return Math.sin(value);
+    case 'cos':
+      return Math.cos(value);
+    case 'tan':
+      return Math.tan(value);
+    case 'sec':
+      return 1 / Math.cos(value);
+    case 'csc':
+      return 1 / Math.sin(value);
+    case 'cot':
+      return 1 / Math.tan(value);
+    case 'arcsin':
+      return Math.asin(value);
+    case 'arccos':
+      return Math.acos(value);
+    case 'arctan':
+      return Math.atan(value);
+    case 'sinh':
+      return Math.sinh(value);
+    case 'cosh':
+      return Math.cosh(value);
+    case 'tanh':
+      return Math.tanh(value);
+    case 'ln':
+      return Math.log(value);
+    case 'log':
+      return base === undefined ? Math.log10(value) : Math.log(value) / Math.log(base);
+    case 'exp':
+      return Math.exp(value);
+    case 'sqrt':
+      return Math.sqrt(value);
+    case 'abs':
+      return Math.abs(value);
+    default:
+      return Number.NaN;
+  }
+};
+
+/**
+ * Evaluates an expression tree. Unknown variables evaluate to NaN rather than throwing so
+ * callers can treat them as "not comparable at this point".
+ */
+export const evaluateExpression = (
+  node: ExpressionNode,
+  scope: Record<string, number> = {},
+): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return scope[node.name] ?? Number.NaN;
+    case 'unary':
+      return -evaluateExpression(node.operand, scope);
+    case 'factorial':
+      return factorial(evaluateExpression(node.operand, scope));
+    case 'call':
+      return applyFunction(
+        node.name,
+        node.args.map((arg) => evaluateExpression(arg, scope)),
+      );
+    case 'binary': {
+      const left = evaluateExpression(node.left, scope);
+      const right = evaluateExpression(node.right, scope);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '^':
+          return Math.pow(left, right);
+        default:
+          return Number.NaN;
+      }
+    }
+    default:
+      return Number.NaN;
+  }
+};
+
+export const collectVariables = (node: ExpressionNode, into = new Set<string>()): Set<string> => {
+  switch (node.type) {
+    case 'variable':
+      into.add(node.name);
+      break;
+    case 'unary':
+    case 'factorial':
+      collectVariables(node.operand, into);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectVariables(arg, into));
+      break;
+    case 'binary':
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+    default:
+      break;
+  }
+  return into;
+};
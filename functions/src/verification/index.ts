@@ -0,0 +1,9 @@
+export {
+  isAnswerForm,
+  verifyAnswer,
+  type AnswerForm,
+  type VerificationResult,
+  type VerificationVerdict,
+  type VerifyAnswerOptions,
+} from './answerVerifier';
+export { normalizeMathText } from './expression';
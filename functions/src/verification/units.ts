@@ -0,0 +1,234 @@
+/**
+ * Unit lexicon for quantity answers ("12 ft", "3.5 km/h", "45°").
+ *
+ * Every unit is expressed as a scale factor onto a base unit plus a dimension vector, so
+ * "0.5 m" and "50 cm" compare equal and "5 kg" never matches "5 m".
+ */
+
+export type Dimension =
+  | 'length'
+  | 'mass'
+  | 'time'
+  | 'angle'
+  | 'currency'
+  | 'celsius'
+  | 'fahrenheit'
+  | 'kelvin';
+
+export interface Unit {
+  scale: number;
+  dimensions: Partial<Record<Dimension, number>>;
+}
+
+const simple = (scale: number, dimension: Dimension, power = 1): Unit => ({
+  scale,
+  dimensions: { [dimension]: power },
+});
+
+const LITER = 0.001; // cubic metres
+
+const UNIT_LEXICON: Record<string, Unit> = {
+  // Length (base: metre)
+  mm: simple(0.001, 'length'),
+  millimeter: simple(0.001, 'length'),
+  millimetre: simple(0.001, 'length'),
+  cm: simple(0.01, 'length'),
+  centimeter: simple(0.01, 'length'),
+  centimetre: simple(0.01, 'length'),
+  m: simple(1, 'length'),
+  meter: simple(1, 'length'),
+  metre: simple(1, 'length'),
+  km: simple(1000, 'length'),
+  kilometer: simple(1000, 'length'),
+  kilometre: simple(1000, 'length'),
+  in: simple(0.0254, 'length'),
+  inch: simple(0.0254, 'length'),
+  inches: simple(0.0254, 'length'),
+  ft: simple(0.3048, 'length'),
+  foot: simple(0.3048, 'length'),
+  feet: simple(0.3048, 'length'),
+  yd: simple(0.9144, 'length'),
+  yard: simple(0.9144, 'length'),
+  mi: simple(1609.344, 'length'),
+  mile: simple(1609.344, 'length'),
+
+  // Mass (base: kilogram)
+  mg: simple(1e-6, 'mass'),
+  milligram: simple(1e-6, 'mass'),
+  g: simple(0.001, 'mass'),
+  gram: simple(0.001, 'mass'),
+  kg: simple(1, 'mass'),
+  kilogram: simple(1, 'mass'),
+  lb: simple(0.45359237, 'mass'),
+  lbs: simple(0.45359237, 'mass'),
+  pound: simple(0.45359237, 'mass'),
+  oz: simple(0.028349523125, 'mass'),
+  ounce: simple(0.028349523125, 'mass'),
+  ton: simple(907.18474, 'mass'),
+
+  // Time (base: second)
+  ms: simple(0.001, 'time'),
+  s: simple(1, 'time'),
+  sec: simple(1, 'time'),
+  second: simple(1, 'time'),
+  min: simple(60, 'time'),
+  minute: simple(60, 'time'),
+  h: simple(3600, 'time'),
+  hr: simple(3600, 'time'),
+  hour: simple(3600, 'time'),
+  day: simple(86400, 'time'),
+  week: simple(604800, 'time'),
+  year: simple(31557600, 'time'),
+
+  // Volume (base: cubic metre)
+  ml: simple(LITER / 1000, 'length', 3),
+  milliliter: simple(LITER / 1000, 'length', 3),
+  millilitre: simple(LITER / 1000, 'length', 3),
+  l: simple(LITER, 'length', 3),
+  liter: simple(LITER, 'length', 3),
+  litre: simple(LITER, 'length', 3),
+  gal: simple(3.785411784 * LITER, 'length', 3),
+  gallon: simple(3.785411784 * LITER, 'length', 3),
+
+  // Angle (base: degree)
+  '°': simple(1, 'angle'),
+  deg: simple(1, 'angle'),
+  degree: simple(1, 'angle'),
+  rad: simple(180 / Math.PI, 'angle'),
+  radian: simple(180 / Math.PI, 'angle'),
+
+  // Currency (base: dollar)
+  $: simple(1, 'currency'),
+  dollar: simple(1, 'currency'),
+  usd: simple(1, 'currency'),
+  cent: simple(0.01, 'currency'),
+
+  // Temperatures are offset scales, so each is its own dimension and only compares to itself.
+  '°c': simple(1, 'celsius'),
+  celsius: simple(1, 'celsius'),
+  '°f': simple(1, 'fahrenheit'),
+  fahrenheit: simple(1, 'fahrenheit'),
+  k: simple(1, 'kelvin'),
+  kelvin: simple(1, 'kelvin'),
+};
+
+const COMPOUND_ALIASES: Record<string, string> = {
+  mph: 'mi/h',
+  kph: 'km/h',
+  kmh: 'km/h',
+  fps: 'ft/s',
+};
+
+const POWER_WORDS: Record<string, number> = {
+  square: 2,
+  sq: 2,
+  cubic: 3,
+  cu: 3,
+};
+
+const DIMENSIONLESS: Unit = { scale: 1, dimensions: {} };
+
+const lookupUnit = (word: string): Unit | null => {
+  const lower = word.toLowerCase();
+  if (UNIT_LEXICON[lower]) {
+    return UNIT_LEXICON[lower];
+  }
+
+  // Plurals: "meters", "hours", "dollars", "inches" handled above.
+  if (lower.endsWith('s') && UNIT_LEXICON[lower.slice(0, -1)]) {
+    return UNIT_LEXICON[lower.slice(0, -1)];
+  }
+
+  return null;
+};
+
+const multiplyUnits = (left: Unit, right: Unit, power = 1): Unit => {
+  const dimensions: Partial<Record<Dimension, number>> = { ...left.dimensions };
+
+  for (const [dimension, exponent] of Object.entries(right.dimensions) as Array<
+    [Dimension, number]
+  >) {
+    const next = (dimensions[dimension] ?? 0) + exponent * power;
+    if (next === 0) {
+      delete dimensions[dimension];
+    } else {
+      dimensions[dimension] = next;
+    }
+  }
+
+  return { scale: left.scale * Math.pow(right.scale, power), dimensions };
+};
+
+/**
+ * Parses a unit phrase such as "cm^2", "square feet", "km/h", "miles per hour" or "$".
+ * Returns null for anything outside the lexicon so callers can treat it as a plain label.
+ */
+export const parseUnit = (input: string): Unit | null => {
+  let text = input
+    .trim()
+    .toLowerCase()
+    .replace(/[.]$/, '')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/\s+per\s+/g, '/')
+    .replace(/\s*\/\s*/g, '/');
+
+  if (!text) {
+    return null;
+  }
+
+  text = COMPOUND_ALIASES[text] ?? text;
+
+  let result: Unit = DIMENSIONLESS;
+  let sign = 1;
+
+  for (const segment of text.split('/')) {
+    const words = segment.split(/[\s*·]+/).filter(Boolean);
+    if (words.length === 0) {
+      return null;
+    }
+
+    let pendingPower = 1;
+    for (const rawWord of words) {
+      if (POWER_WORDS[rawWord]) {
+        pendingPower = POWER_WORDS[rawWord];
+        continue;
+      }
+
+      const match = rawWord.match(/^([^\s^]+?)(?:\^(-?\d+))?$/);
+      if (!match) {
+        return null;
+      }
+
+      const unit = lookupUnit(match[1]);
+      if (!unit) {
+        return null;
+      }
+
+      const power = (match[2] ? Number.parseInt(match[2], 10) : 1) * pendingPower;
+      pendingPower = 1;
+      result = multiplyUnits(result, unit, power * sign);
+    }
+
+    sign = -1;
+  }
+
+  return result;
+};
+
+export const sameDimensions = (left: Unit, right: Unit): boolean => {
+  const keys = new Set([
+    ...Object.keys(left.dimensions),
+    ...Object.keys(right.dimensions),
+  ]) as Set<Dimension>;
+
+  for (const key of keys) {
+    if ((left.dimensions[key] ?? 0) !== (right.dimensions[key] ?? 0)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+export const isDimensionless = (unit: Unit): boolean => Object.keys(unit.dimensions).length === 0;
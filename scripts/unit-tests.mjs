@@ -0,0 +1,31 @@
+// Bundles src/**/*.test.ts for Node and runs them with node:test. Modules that import
+// src/firebase read import.meta.env, so the bundle gets placeholder config; nothing connects.
+import { spawnSync } from 'node:child_process';
+import { build } from 'esbuild';
+
+const outdir = 'node_modules/.cache/unit-tests';
+
+const testEnv = {
+  MODE: 'test',
+  VITE_FIREBASE_API_KEY: 'test-api-key',
+  VITE_FIREBASE_AUTH_DOMAIN: 'test.firebaseapp.com',
+  VITE_FIREBASE_PROJECT_ID: 'test-project',
+  VITE_FIREBASE_STORAGE_BUCKET: 'test-project.appspot.com',
+  VITE_FIREBASE_MESSAGING_SENDER_ID: '0',
+  VITE_FIREBASE_APP_ID: 'test-app-id',
+};
+
+await build({
+  entryPoints: ['src/**/*.test.ts'],
+  bundle: true,
+  platform: 'node',
+  format: 'esm',
+  packages: 'external',
+  outdir,
+  outExtension: { '.js': '.mjs' },
+  define: { 'import.meta.env': JSON.stringify(testEnv) },
+  logLevel: 'warning',
+});
+
+const result = spawnSync(process.execPath, ['--test', `${outdir}/`], { stdio: 'inherit' });
+process.exit(result.status ?? 1);
@@ -7,8 +7,15 @@ import { PublicRoute } from './components/PublicRoute';
 
 const HomePage = lazy(() => import('./pages/Home'));
 const TutorPage = lazy(() => import('./pages/Tutor'));
+const SessionExportPage = lazy(() => import('./pages/SessionExport'));
+const SharedSessionPage = lazy(() => import('./pages/SharedSession'));
 const DashboardPage = lazy(() => import('./pages/Dashboard'));
 const QuizPage = lazy(() => import('./pages/Quiz'));
+const QuizHistoryPage = lazy(() => import('./pages/QuizHistory'));
+const QuizHistoryDetailPage = lazy(() => import('./pages/QuizHistoryDetail'));
+const QuizWorksheetPage = lazy(() => import('./pages/QuizWorksheet'));
+const ReviewPage = lazy(() => import('./pages/Review'));
+const SearchPage = lazy(() => import('./pages/Search'));
 const LoginPage = lazy(() => import('./pages/Login'));
 const SignupPage = lazy(() => import('./pages/Signup'));
 const ForgotPasswordPage = lazy(() => import('./pages/ForgotPassword'));
@@ -48,6 +55,46 @@ const App = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/quiz/history"
+            element={
+              <ProtectedRoute>
+                <QuizHistoryPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/quiz/history/:quizId"
+            element={
+              <ProtectedRoute>
+                <QuizHistoryDetailPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/quiz/history/:quizId/worksheet"
+            element={
+              <ProtectedRoute>
+                <QuizWorksheetPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/review"
+            element={
+              <ProtectedRoute>
+                <ReviewPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/search"
+            element={
+              <ProtectedRoute>
+                <SearchPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/tutor"
             element={
@@ -56,6 +103,14 @@ const App = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/tutor/sessions/:sessionId/export"
+            element={
+              <ProtectedRoute>
+                <SessionExportPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/profile"
             element={
@@ -96,6 +151,7 @@ const App = () => {
               </PublicRoute>
             }
           />
+          <Route path="/share/:shareId" element={<SharedSessionPage />} />
           <Route path="/about" element={<AboutPage />} />
           <Route path="/privacy" element={<PrivacyPage />} />
           <Route path="/terms" element={<TermsPage />} />
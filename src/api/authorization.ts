@@ -0,0 +1,16 @@
+import { auth } from '../firebase';
+
+/**
+ * Authorization header for Cloud Function calls. The functions reject requests without a
+ * valid Firebase ID token; `getIdToken` refreshes the token when it is close to expiry.
+ */
+export const getAuthorizationHeader = async (): Promise<{ Authorization: string }> => {
+  const user = auth.currentUser;
+
+  if (!user) {
+    throw new Error('You must be signed in to use MathMate.');
+  }
+
+  const token = await user.getIdToken();
+  return { Authorization: `Bearer ${token}` };
+};
@@ -0,0 +1,74 @@
+export type QuotaErrorCode = 'rate_limited' | 'daily_budget_exhausted';
+
+/** Thrown when a Cloud Function answers 429 because the caller is over a rate limit or budget. */
+export class QuotaExceededError extends Error {
+  readonly code: QuotaErrorCode;
+  readonly scope: 'user' | 'global';
+  readonly retryAfterSeconds: number | null;
+
+  constructor(
+    message: string,
+    code: QuotaErrorCode,
+    scope: 'user' | 'global',
+    retryAfterSeconds: number | null,
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.code = code;
+    this.scope = scope;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** Builds the error for a failed Cloud Function response, preserving 429 quota details. */
+export const toFunctionError = async (name: string, response: Response): Promise<Error> => {
+  const details = await response.text().catch(() => 'Unknown error');
+
+  if (response.status === 429) {
+    let payload: { error?: unknown; code?: unknown; scope?: unknown; retryAfterSeconds?: unknown } =
+      {};
+
+    try {
+      payload = JSON.parse(details) as typeof payload;
+    } catch {
+      // Not JSON (e.g. a proxy rejected the call); fall back to the header below.
+    }
+
+    const retryAfter =
+      typeof payload.retryAfterSeconds === 'number'
+        ? payload.retryAfterSeconds
+        : Number.parseInt(response.headers.get('Retry-After') ?? '', 10);
+
+    return new QuotaExceededError(
+      typeof payload.error === 'string' ? payload.error : `${name} was rate limited.`,
+      payload.code === 'daily_budget_exhausted' ? 'daily_budget_exhausted' : 'rate_limited',
+      payload.scope === 'global' ? 'global' : 'user',
+      Number.isFinite(retryAfter) ? retryAfter : null,
+    );
+  }
+
+  return new Error(`${name} failed: ${response.status} ${details}`);
+};
+
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+
+/**
+ * Learner-facing message for quota errors, or null for any other error so callers keep their
+ * own fallback copy.
+ */
+export const describeQuotaError = (error: unknown): string | null => {
+  if (!(error instanceof QuotaExceededError)) {
+    return null;
+  }
+
+  if (error.code === 'daily_budget_exhausted') {
+    return error.scope === 'global'
+      ? 'MathMate has reached its AI usage limit for today. Please come back tomorrow.'
+      : "You've reached today's AI usage limit. It resets at midnight UTC.";
+  }
+
+  return error.retryAfterSeconds
+    ? `You're going a little fast. Please wait about ${formatWait(error.retryAfterSeconds)} and try again.`
+    : "You're going a little fast. Please wait a moment and try again.";
+};
@@ -1,8 +1,52 @@
-import type { ProblemDifficulty } from '../types/problem';
-import type { QuizQuestionEvaluation } from '../types/quiz';
+import type { CanonicalAnswer, ProblemDifficulty } from '../types/problem';
+import type { QuizGradingPath, QuizPartResult, QuizQuestionEvaluation } from '../types/quiz';
+import { getAuthorizationHeader } from './authorization';
+import { toFunctionError } from './errors';
 
 const DEFAULT_REGION = 'us-central1';
 
+const isQuizGradingPath = (value: unknown): value is QuizGradingPath =>
+  value === 'verifier' || value === 'model';
+
+const parseCanonicalAnswer = (value: unknown): CanonicalAnswer | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const record = value as Partial<CanonicalAnswer>;
+
+  if (typeof record.value !== 'string') {
+    return null;
+  }
+
+  return {
+    value: record.value,
+    answerType: typeof record.answerType === 'string' ? record.answerType : null,
+    acceptableForms: Array.isArray(record.acceptableForms)
+      ? record.acceptableForms.filter((form): form is string => typeof form === 'string')
+      : [],
+  };
+};
+
+const parsePartResults = (value: unknown): QuizPartResult[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  return value.flatMap((item): QuizPartResult[] => {
+    const record = (item ?? {}) as Partial<QuizPartResult>;
+    return typeof record.label === 'string'
+      ? [
+          {
+            label: record.label,
+            isCorrect: record.isCorrect === true,
+            correctAnswer: typeof record.correctAnswer === 'string' ? record.correctAnswer : '',
+          },
+        ]
+      : [];
+  });
+};
+
 const resolveFunctionsBaseUrl = () => {
   const explicit = import.meta.env.VITE_FUNCTIONS_BASE_URL;
 
@@ -23,6 +67,9 @@ export interface EvaluateQuizAnswerParams {
   question: string;
   userAnswer: string;
   difficulty: ProblemDifficulty;
+  problemId?: string | null;
+  /** Multi-part questions: one answer per part, graded separately. */
+  partAnswers?: string[];
 }
 
 export interface EvaluateQuizAnswerResponse extends QuizQuestionEvaluation {}
@@ -35,17 +82,19 @@ export const evaluateQuizAnswer = async (
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...(await getAuthorizationHeader()),
     },
     body: JSON.stringify({
       question: params.question,
       userAnswer: params.userAnswer,
       difficulty: params.difficulty,
+      problemId: params.problemId ?? undefined,
+      partAnswers: params.partAnswers ?? undefined,
     }),
   });
 
   if (!response.ok) {
-    const details = await response.text().catch(() => 'Unknown error');
-    throw new Error(`evaluateQuizAnswer failed: ${response.status} ${details}`);
+    throw await toFunctionError('evaluateQuizAnswer', response);
   }
 
   const payload = (await response.json()) as Partial<QuizQuestionEvaluation>;
@@ -55,5 +104,13 @@ export const evaluateQuizAnswer = async (
     correctAnswer: typeof payload?.correctAnswer === 'string' ? payload.correctAnswer : null,
     explanation: typeof payload?.explanation === 'string' ? payload.explanation : null,
     feedback: typeof payload?.feedback === 'string' ? payload.feedback : null,
+    gradedBy: isQuizGradingPath(payload?.gradedBy) ? payload.gradedBy : null,
+    answerForm: typeof payload?.answerForm === 'string' ? payload.answerForm : null,
+    canonicalAnswer: parseCanonicalAnswer(payload?.canonicalAnswer),
+    score:
+      typeof payload?.score === 'number' && Number.isFinite(payload.score)
+        ? Math.min(1, Math.max(0, payload.score))
+        : null,
+    partResults: parsePartResults(payload?.partResults),
   } satisfies QuizQuestionEvaluation;
 };
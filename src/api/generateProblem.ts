@@ -1,10 +1,34 @@
-import type { GeneratedProblem, ProblemGenerationParams } from '../types/problem';
+import type {
+  GeneratedProblem,
+  ProblemGenerationParams,
+  QuestionFormat,
+  QuestionPart,
+} from '../types/problem';
+import { getAuthorizationHeader } from './authorization';
+import { toFunctionError } from './errors';
 
 const DEFAULT_REGION = 'us-central1';
 
 const isSupportedDifficulty = (value: unknown): value is GeneratedProblem['difficulty'] =>
   value === 'beginner' || value === 'intermediate' || value === 'advanced';
 
+const isQuestionFormat = (value: unknown): value is QuestionFormat =>
+  value === 'free' ||
+  value === 'multipleChoice' ||
+  value === 'numeric' ||
+  value === 'expression' ||
+  value === 'multiPart';
+
+const parseParts = (value: unknown): QuestionPart[] =>
+  Array.isArray(value)
+    ? value.flatMap((item): QuestionPart[] => {
+        const record = (item ?? {}) as Partial<QuestionPart>;
+        return typeof record.label === 'string' && typeof record.prompt === 'string'
+          ? [{ label: record.label, prompt: record.prompt }]
+          : [];
+      })
+    : [];
+
 const sanitizeTopicId = (value: string): string =>
   value
     .trim()
@@ -37,18 +61,21 @@ export const callGenerateProblem = async (
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...(await getAuthorizationHeader()),
     },
     body: JSON.stringify({
       topic: params.topicId ?? null,
+      subtopic: params.subtopic ?? null,
+      variantOf: params.variantOf ?? null,
       difficulty: params.difficulty ?? null,
       recentProblems: params.recentProblems ?? null,
       mode: params.mode ?? 'tutor',
+      format: params.format ?? null,
     }),
   });
 
   if (!response.ok) {
-    const details = await response.text().catch(() => 'Unknown error');
-    throw new Error(`generateProblem failed: ${response.status} ${details}`);
+    throw await toFunctionError('generateProblem', response);
   }
 
   const payload = (await response.json()) as Partial<GeneratedProblem>;
@@ -70,9 +97,26 @@ export const callGenerateProblem = async (
       ? params.difficulty
       : 'intermediate';
 
+  const choices = Array.isArray(payload.choices)
+    ? payload.choices.filter((choice): choice is string => typeof choice === 'string')
+    : [];
+  const parts = parseParts(payload.parts);
+  // A format whose options or parts did not come through is answered as free response.
+  let format: QuestionFormat = isQuestionFormat(payload.format) ? payload.format : 'free';
+  if (
+    (format === 'multipleChoice' && choices.length === 0) ||
+    (format === 'multiPart' && parts.length === 0)
+  ) {
+    format = 'free';
+  }
+
   return {
     problemText: payload.problemText.trim(),
     topicId,
+    subtopic:
+      typeof payload.subtopic === 'string' && payload.subtopic.trim()
+        ? payload.subtopic.trim()
+        : null,
     difficulty,
     suggestedHint:
       typeof payload.suggestedHint === 'string' && payload.suggestedHint.trim()
@@ -80,5 +124,12 @@ export const callGenerateProblem = async (
         : undefined,
     title:
       typeof payload.title === 'string' && payload.title.trim() ? payload.title.trim() : undefined,
+    problemId:
+      typeof payload.problemId === 'string' && payload.problemId.trim()
+        ? payload.problemId.trim()
+        : null,
+    format,
+    choices: format === 'multipleChoice' ? choices : undefined,
+    parts: format === 'multiPart' ? parts : undefined,
   } satisfies GeneratedProblem;
 };
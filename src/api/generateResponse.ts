@@ -1,27 +1,97 @@
+import { getAuthorizationHeader } from './authorization';
+import { toFunctionError } from './errors';
+
 export type ChatMessagePayload = {
   role: 'user' | 'assistant';
   content: string;
-  imageUrl?: string | null;
+  imageUrls?: string[];
+  /** The problem in the images as the learner confirmed it after OCR. */
+  imageLatex?: string | null;
 };
 
 export type SocraticStepType = 'hint' | 'check' | 'final';
 
 export type GenerateResponseMode = 'default' | 'hint';
 
+export type AnswerCheckResult = 'correct' | 'incorrect';
+
+/** One step of the solution plan the tutor proposes for the current problem. */
+export type SolutionStepPlan = {
+  title: string;
+  latex: string | null;
+  hint: string | null;
+};
+
+/** The learner's checklist, sent back so the tutor can report progress against it. */
+export type SolutionStepStatus = {
+  order: number;
+  title: string;
+  completed: boolean;
+};
+
 export type GenerateResponseResult = {
   content: string;
   stepType?: SocraticStepType;
+  /** Result of checking the latest learner message against the problem's stored answer key. */
+  answerCheck?: AnswerCheckResult | null;
+  /** Solution plan, only proposed while the session has no steps yet. */
+  plan?: SolutionStepPlan[] | null;
+  /** Orders of the steps the learner has completed so far. */
+  completedSteps?: number[] | null;
+};
+
+export type GenerateResponseOptions = {
+  /** Answer key id of the generated problem the session is working on. */
+  problemId?: string | null;
+  /** Current solution steps of the session, if a plan exists. */
+  steps?: SolutionStepStatus[];
 };
 
 export type StreamingChunk = {
   content: string;
   stepType?: SocraticStepType;
+  answerCheck?: AnswerCheckResult | null;
+  plan?: SolutionStepPlan[] | null;
+  completedSteps?: number[] | null;
   done?: boolean;
   error?: string;
 };
 
 const DEFAULT_REGION = 'us-central1';
 
+const parseStepPlan = (value: unknown): SolutionStepPlan[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const steps = value
+    .filter(
+      (item): item is Record<string, unknown> =>
+        Boolean(item) && typeof item === 'object' && typeof item.title === 'string',
+    )
+    .map((item) => ({
+      title: (item.title as string).trim(),
+      latex: typeof item.latex === 'string' && item.latex.trim() ? item.latex.trim() : null,
+      hint: typeof item.hint === 'string' && item.hint.trim() ? item.hint.trim() : null,
+    }))
+    .filter((item) => item.title.length > 0);
+
+  return steps.length > 0 ? steps : null;
+};
+
+const parseCompletedSteps = (value: unknown): number[] | null =>
+  Array.isArray(value)
+    ? value.filter((item): item is number => typeof item === 'number' && Number.isInteger(item))
+    : null;
+
+const toResult = (data: Partial<GenerateResponseResult>): GenerateResponseResult => ({
+  content: data.content || '',
+  stepType: data.stepType,
+  answerCheck: data.answerCheck ?? null,
+  plan: parseStepPlan(data.plan),
+  completedSteps: parseCompletedSteps(data.completedSteps),
+});
+
 const resolveFunctionsBaseUrl = () => {
   const explicit = import.meta.env.VITE_FUNCTIONS_BASE_URL;
 
@@ -42,6 +112,7 @@ export const callGenerateResponse = async (
   messages: ChatMessagePayload[],
   mode: GenerateResponseMode = 'default',
   stream = false,
+  options: GenerateResponseOptions = {},
 ): Promise<GenerateResponseResult> => {
   if (!Array.isArray(messages) || messages.length === 0) {
     throw new Error('messages array is required.');
@@ -52,39 +123,40 @@ export const callGenerateResponse = async (
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...(await getAuthorizationHeader()),
     },
     body: JSON.stringify({
       messages: messages.map((msg) => ({
         role: msg.role,
         content: msg.content,
-        imageUrl: msg.imageUrl ?? null,
+        imageUrls: msg.imageUrls ?? [],
+        imageLatex: msg.imageLatex ?? null,
       })),
       mode,
       stream,
+      problemId: options.problemId ?? undefined,
+      steps: options.steps ?? undefined,
     }),
   });
 
   if (!response.ok) {
-    const details = await response.text().catch(() => 'Unknown error');
-    throw new Error(`generateResponse failed: ${response.status} ${details}`);
+    throw await toFunctionError('generateResponse', response);
   }
 
-  const data = (await response.json()) as { content?: string; stepType?: SocraticStepType };
+  const data = (await response.json()) as Partial<GenerateResponseResult>;
 
   if (!data || typeof data.content !== 'string') {
     throw new Error('generateResponse returned an invalid payload.');
   }
 
-  return {
-    content: data.content,
-    stepType: data.stepType,
-  };
+  return toResult(data);
 };
 
 export const callGenerateResponseStream = async (
   messages: ChatMessagePayload[],
   mode: GenerateResponseMode = 'default',
   onChunk: (chunk: StreamingChunk) => void,
+  options: GenerateResponseOptions = {},
 ): Promise<GenerateResponseResult> => {
   if (!Array.isArray(messages) || messages.length === 0) {
     throw new Error('messages array is required.');
@@ -95,21 +167,24 @@ export const callGenerateResponseStream = async (
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...(await getAuthorizationHeader()),
     },
     body: JSON.stringify({
       messages: messages.map((msg) => ({
         role: msg.role,
         content: msg.content,
-        imageUrl: msg.imageUrl ?? null,
+        imageUrls: msg.imageUrls ?? [],
+        imageLatex: msg.imageLatex ?? null,
       })),
       mode,
       stream: true,
+      problemId: options.problemId ?? undefined,
+      steps: options.steps ?? undefined,
     }),
   });
 
   if (!response.ok) {
-    const details = await response.text().catch(() => 'Unknown error');
-    throw new Error(`generateResponse failed: ${response.status} ${details}`);
+    throw await toFunctionError('generateResponse', response);
   }
 
   if (!response.body) {
@@ -150,10 +225,7 @@ export const callGenerateResponseStream = async (
             onChunk(chunk);
 
             if (chunk.done) {
-              finalResult = {
-                content: chunk.content || '',
-                stepType: chunk.stepType,
-              };
+              finalResult = toResult(chunk);
             }
 
             if (chunk.error) {
@@ -178,10 +250,7 @@ export const callGenerateResponseStream = async (
               const chunk = JSON.parse(dataStr) as StreamingChunk;
               onChunk(chunk);
               if (chunk.done) {
-                finalResult = {
-                  content: chunk.content || '',
-                  stepType: chunk.stepType,
-                };
+                finalResult = toResult(chunk);
               }
             } catch (parseError) {
               console.error('Failed to parse final SSE chunk:', parseError);
@@ -13,8 +13,11 @@ export const AppLayout = ({ children }: { children: ReactNode }) => {
   const [isProfileMenuOpen, setProfileMenuOpen] = useState(false);
   const profileMenuRef = useRef<HTMLDivElement | null>(null);
   const location = useLocation();
-  const isTutorRoute = location.pathname.startsWith('/tutor');
-  const mainClassName = `flex min-h-0 flex-1 flex-col ${isTutorRoute ? 'overflow-hidden' : 'overflow-y-auto'}`;
+  // The tutor chat manages its own scrolling; the session export page under it is a normal page.
+  const isTutorRoute =
+    location.pathname.startsWith('/tutor') && !location.pathname.endsWith('/export');
+  // Printing lays the page out at full height; a scrolling main would clip it to one screen.
+  const mainClassName = `flex min-h-0 flex-1 flex-col print:block print:overflow-visible ${isTutorRoute ? 'overflow-hidden' : 'overflow-y-auto'}`;
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -40,8 +43,8 @@ export const AppLayout = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <div className="flex h-screen flex-col bg-brand-background text-brand-charcoal">
-      <header className="relative z-50 border-b border-brand-mint/40 bg-white/80 backdrop-blur">
+    <div className="flex h-screen flex-col bg-brand-background text-brand-charcoal print:block print:h-auto print:bg-white">
+      <header className="relative z-50 border-b border-brand-mint/40 bg-white/80 backdrop-blur print:hidden">
         <div className="mx-auto flex w-full max-w-6xl items-center justify-between px-6 py-4">
           <Link
             to={user ? '/dashboard' : '/'}
@@ -67,6 +70,9 @@ export const AppLayout = ({ children }: { children: ReactNode }) => {
                 <NavLink to="/tutor" className={navLinkClassName}>
                   Tutor
                 </NavLink>
+                <NavLink to="/search" className={navLinkClassName}>
+                  Search
+                </NavLink>
                 <div className="relative z-10" ref={profileMenuRef}>
                   <button
                     type="button"
@@ -118,7 +124,7 @@ export const AppLayout = ({ children }: { children: ReactNode }) => {
         </div>
       </header>
       <main className={mainClassName}>{children}</main>
-      <footer className="border-t border-brand-mint/40 bg-white/70 py-6">
+      <footer className="border-t border-brand-mint/40 bg-white/70 py-6 print:hidden">
         <div className="mx-auto flex w-full max-w-6xl flex-col items-start justify-between gap-4 px-6 text-sm text-brand-slate md:flex-row md:items-center">
           <span>
             © {new Date().getFullYear()} MathMate. Guided learning through Socratic dialogue.
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import type { FrontierSkill } from '../types/skill';
+import { getSkill } from '../utils/skillGraph';
+import { getTopicLabel } from '../utils/problemGenerator';
+
+interface FrontierPanelProps {
+  frontier: FrontierSkill[];
+  masteredCount: number;
+  totalSkills: number;
+  loading: boolean;
+  error: Error | null;
+  practicingSkillId: string | null;
+  practiceError: string | null;
+  onPractice: (item: FrontierSkill) => void;
+}
+
+const INITIAL_VISIBLE = 6;
+
+export const FrontierPanel = ({
+  frontier,
+  masteredCount,
+  totalSkills,
+  loading,
+  error,
+  practicingSkillId,
+  practiceError,
+  onPractice,
+}: FrontierPanelProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? frontier : frontier.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div>
+          <h2 className="text-xl font-semibold text-brand-charcoal">Ready to Learn</h2>
+          <p className="mt-2 text-sm text-brand-slate">
+            Skills whose prerequisites you have mastered, based on your quizzes and tutor sessions.
+          </p>
+        </div>
+        <span className="rounded-full bg-brand-mint/40 px-3 py-1 text-xs font-medium text-brand-slate">
+          {masteredCount} of {totalSkills} skills mastered
+        </span>
+      </div>
+
+      {practiceError ? (
+        <div className="mt-4 rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          {practiceError}
+        </div>
+      ) : null}
+
+      {loading ? (
+        <div className="mt-6 space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="rounded-xl border border-brand-mint/60 bg-brand-background p-4">
+              <div className="h-4 w-40 animate-pulse rounded bg-brand-mint/20" />
+              <div className="mt-2 h-3 w-24 animate-pulse rounded bg-brand-mint/10" />
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="mt-6 rounded-xl border border-dashed border-brand-coral/60 bg-brand-background p-6 text-sm text-brand-slate">
+          We could not load your skill progress. Try refreshing the page.
+        </div>
+      ) : frontier.length === 0 ? (
+        <div className="mt-6 rounded-xl border border-dashed border-brand-mint/80 bg-brand-background p-6 text-sm text-brand-slate">
+          You have mastered every skill in the graph. Keep practicing to stay sharp!
+        </div>
+      ) : (
+        <>
+          <ul className="mt-6 grid gap-3 md:grid-cols-2">
+            {visible.map((item) => {
+              const { skill, estimate } = item;
+              const masteryPercent = Math.round(estimate.mastery * 100);
+              const prerequisiteLabels = skill.prerequisites
+                .map((id) => getSkill(id)?.subtopic)
+                .filter((label): label is string => Boolean(label));
+              const isPracticing = practicingSkillId === skill.id;
+
+              return (
+                <li
+                  key={skill.id}
+                  className="flex flex-col gap-3 rounded-xl border border-brand-mint/60 bg-white p-4"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <h3 className="text-sm font-semibold text-brand-charcoal">
+                        {skill.subtopic}
+                      </h3>
+                      <p className="mt-1 text-xs text-brand-slate">
+                        {getTopicLabel(skill.topicId)}
+                      </p>
+                    </div>
+                    <span
+                      className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${
+                        estimate.status === 'learning'
+                          ? 'bg-brand-sky/20 text-brand-sky'
+                          : 'bg-brand-mint/40 text-brand-slate'
+                      }`}
+                    >
+                      {estimate.status === 'learning' ? 'In progress' : 'New'}
+                    </span>
+                  </div>
+
+                  {estimate.attempts > 0 ? (
+                    <div>
+                      <div className="h-2 w-full rounded-full bg-brand-mint/20">
+                        <div
+                          className="h-2 rounded-full bg-brand-sky"
+                          style={{ width: `${masteryPercent}%` }}
+                        />
+                      </div>
+                      <p className="mt-1 text-xs text-brand-slate">
+                        {masteryPercent}% mastery · {estimate.attempts}{' '}
+                        {estimate.attempts === 1 ? 'attempt' : 'attempts'}
+                      </p>
+                    </div>
+                  ) : null}
+
+                  {prerequisiteLabels.length > 0 ? (
+                    <p className="text-xs text-brand-slate">
+                      Builds on {prerequisiteLabels.join(', ')}
+                    </p>
+                  ) : null}
+
+                  <button
+                    type="button"
+                    onClick={() => onPractice(item)}
+                    disabled={practicingSkillId !== null}
+                    className="mt-auto self-start rounded-full bg-brand-sky px-4 py-2 text-xs font-semibold text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isPracticing ? 'Creating problem…' : 'Practice this'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {frontier.length > INITIAL_VISIBLE ? (
+            <button
+              type="button"
+              onClick={() => setShowAll((prev) => !prev)}
+              className="mt-4 text-sm font-medium text-brand-sky hover:underline"
+            >
+              {showAll ? 'Show fewer' : `Show all ${frontier.length} skills`}
+            </button>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+};
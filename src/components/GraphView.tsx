@@ -0,0 +1,345 @@
+import { PointerEvent, useMemo, useRef, useState } from 'react';
+import { evaluateGraphExpression } from '../utils/graphExpression';
+import {
+  evaluatePair,
+  initialViewport,
+  sampleCurve,
+  sampleRegion,
+  sliderValues,
+  summarizeGraph,
+  type GraphSpec,
+  type Point,
+  type Viewport,
+} from '../utils/graphSpec';
+
+const WIDTH = 600;
+const HEIGHT = 400;
+const CURVE_COLORS = ['#4C91F7', '#F87171', '#10B981', '#8B5CF6', '#F59E0B', '#1F2937'];
+const ZOOM_FACTOR = 1.5;
+
+// About eight grid lines per axis, at 1, 2 or 5 times a power of ten.
+const gridStep = (span: number) => {
+  const raw = span / 8;
+  const power = 10 ** Math.floor(Math.log10(raw));
+  const unit = raw / power;
+  return (unit < 1.5 ? 1 : unit < 3.5 ? 2 : unit < 7.5 ? 5 : 10) * power;
+};
+
+const gridValues = (min: number, max: number, step: number) =>
+  Array.from(
+    { length: Math.floor(max / step) - Math.ceil(min / step) + 1 },
+    (_, index) => (Math.ceil(min / step) + index) * step,
+  );
+
+const formatNumber = (value: number, step = 0.01) =>
+  Number(value.toFixed(Math.min(6, Math.max(0, -Math.floor(Math.log10(step)))))).toString();
+
+const toPath = (points: Point[], project: (point: Point) => Point) =>
+  points
+    .map((point, index) => {
+      const [x, y] = project(point);
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const zoomViewport = (viewport: Viewport, factor: number): Viewport => {
+  const xCenter = (viewport.xMin + viewport.xMax) / 2;
+  const yCenter = (viewport.yMin + viewport.yMax) / 2;
+  const xHalf = ((viewport.xMax - viewport.xMin) / 2) * factor;
+  const yHalf = ((viewport.yMax - viewport.yMin) / 2) * factor;
+  return {
+    xMin: xCenter - xHalf,
+    xMax: xCenter + xHalf,
+    yMin: yCenter - yHalf,
+    yMax: yCenter + yHalf,
+  };
+};
+
+const CONTROL_BUTTON_CLASS_NAME =
+  'rounded-full border border-brand-slate/40 bg-white px-3 py-1 text-xs font-medium text-brand-slate transition hover:bg-brand-background';
+
+/** An interactive plot of a graph block: drag to pan, zoom buttons, sliders and a hover trace. */
+export const GraphView = ({ spec }: { spec: GraphSpec }) => {
+  const [values, setValues] = useState(() => sliderValues(spec));
+  const [viewport, setViewport] = useState(() => initialViewport(spec, sliderValues(spec)));
+  const [traceX, setTraceX] = useState<number | null>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number; viewport: Viewport } | null>(null);
+
+  const { xMin, xMax, yMin, yMax } = viewport;
+  const project = ([x, y]: Point): Point => [
+    ((x - xMin) / (xMax - xMin)) * WIDTH,
+    HEIGHT - ((y - yMin) / (yMax - yMin)) * HEIGHT,
+  ];
+
+  const curvePaths = useMemo(
+    () =>
+      spec.curves.map((curve) => {
+        if (curve.vertical) {
+          const x = evaluateGraphExpression(curve.node, values);
+          return Number.isFinite(x)
+            ? [
+                [
+                  [x, viewport.yMin],
+                  [x, viewport.yMax],
+                ] as Point[],
+              ]
+            : [];
+        }
+        return sampleCurve(curve.node, values, viewport);
+      }),
+    [spec, values, viewport],
+  );
+  const regionPolygons = useMemo(
+    () => spec.regions.map((region) => sampleRegion(region, values, viewport)),
+    [spec, values, viewport],
+  );
+
+  const xStep = gridStep(xMax - xMin);
+  const yStep = gridStep(yMax - yMin);
+  const [originX, originY] = project([0, 0]);
+  // Axis labels sit on the axes, or along the nearest edge when an axis is out of view.
+  const xLabelY = Math.min(HEIGHT - 4, Math.max(14, originY + 14));
+  const yLabelX = Math.min(WIDTH - 4, Math.max(30, originX - 4));
+
+  const toDataPoint = (event: PointerEvent<SVGSVGElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      xMin + ((event.clientX - rect.left) / rect.width) * (xMax - xMin),
+      yMax - ((event.clientY - rect.top) / rect.height) * (yMax - yMin),
+    ];
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY, viewport };
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      setTraceX(toDataPoint(event)[0]);
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    const dx = ((event.clientX - drag.clientX) / rect.width) * (xMax - xMin);
+    const dy = ((event.clientY - drag.clientY) / rect.height) * (yMax - yMin);
+    setViewport({
+      xMin: drag.viewport.xMin - dx,
+      xMax: drag.viewport.xMax - dx,
+      yMin: drag.viewport.yMin + dy,
+      yMax: drag.viewport.yMax + dy,
+    });
+  };
+
+  const handleReset = () => {
+    const initialValues = sliderValues(spec);
+    setValues(initialValues);
+    setViewport(initialViewport(spec, initialValues));
+  };
+
+  const traced =
+    traceX === null
+      ? []
+      : spec.curves
+          .map((curve, index) => ({
+            curve,
+            color: CURVE_COLORS[index % CURVE_COLORS.length],
+            y: curve.vertical
+              ? Number.NaN
+              : evaluateGraphExpression(curve.node, { ...values, x: traceX }),
+          }))
+          .filter(({ y }) => Number.isFinite(y));
+
+  return (
+    <div className="flex flex-col gap-3">
+      {spec.title ? <p className="text-sm font-medium text-brand-charcoal">{spec.title}</p> : null}
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="aspect-[3/2] w-full cursor-grab touch-none select-none rounded-lg bg-white active:cursor-grabbing"
+        role="img"
+        aria-label={summarizeGraph(spec)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+        onPointerCancel={() => {
+          dragRef.current = null;
+        }}
+        onPointerLeave={() => setTraceX(null)}
+      >
+        {gridValues(xMin, xMax, xStep).map((x) => {
+          const [sx] = project([x, 0]);
+          return (
+            <g key={`x-${x}`}>
+              <line x1={sx} x2={sx} y1={0} y2={HEIGHT} stroke="#E5E7EB" strokeWidth={1} />
+              {Math.abs(x) > xStep / 2 ? (
+                <text x={sx} y={xLabelY} fontSize={11} fill="#6B7280" textAnchor="middle">
+                  {formatNumber(x, xStep)}
+                </text>
+              ) : null}
+            </g>
+          );
+        })}
+        {gridValues(yMin, yMax, yStep).map((y) => {
+          const [, sy] = project([0, y]);
+          return (
+            <g key={`y-${y}`}>
+              <line x1={0} x2={WIDTH} y1={sy} y2={sy} stroke="#E5E7EB" strokeWidth={1} />
+              {Math.abs(y) > yStep / 2 ? (
+                <text x={yLabelX} y={sy + 4} fontSize={11} fill="#6B7280" textAnchor="end">
+                  {formatNumber(y, yStep)}
+                </text>
+              ) : null}
+            </g>
+          );
+        })}
+        <line x1={originX} x2={originX} y1={0} y2={HEIGHT} stroke="#1F2937" strokeWidth={1.5} />
+        <line x1={0} x2={WIDTH} y1={originY} y2={originY} stroke="#1F2937" strokeWidth={1.5} />
+
+        {regionPolygons.map((polygons, regionIndex) =>
+          polygons.map((polygon, index) => (
+            <path
+              key={`region-${regionIndex}-${index}`}
+              d={`${toPath(polygon, project)} Z`}
+              fill={CURVE_COLORS[regionIndex % CURVE_COLORS.length]}
+              fillOpacity={0.18}
+            />
+          )),
+        )}
+
+        {curvePaths.map((lines, curveIndex) =>
+          lines.map((line, index) => (
+            <path
+              key={`curve-${curveIndex}-${index}`}
+              d={toPath(line, project)}
+              fill="none"
+              stroke={CURVE_COLORS[curveIndex % CURVE_COLORS.length]}
+              strokeWidth={2.5}
+              strokeLinejoin="round"
+            />
+          )),
+        )}
+
+        {spec.segments.map((segment, index) => {
+          const [x1, y1] = project(evaluatePair(segment.from, values));
+          const [x2, y2] = project(evaluatePair(segment.to, values));
+          if (![x1, y1, x2, y2].every(Number.isFinite)) {
+            return null;
+          }
+          return (
+            <g key={`segment-${index}`}>
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#1F2937" strokeWidth={2} />
+              {segment.label ? (
+                <text x={(x1 + x2) / 2 + 6} y={(y1 + y2) / 2 - 6} fontSize={12} fill="#1F2937">
+                  {segment.label}
+                </text>
+              ) : null}
+            </g>
+          );
+        })}
+
+        {spec.points.map((point, index) => {
+          const [x, y] = evaluatePair([point.x, point.y], values);
+          const [sx, sy] = project([x, y]);
+          if (!Number.isFinite(sx) || !Number.isFinite(sy)) {
+            return null;
+          }
+          return (
+            <g key={`point-${index}`}>
+              <circle cx={sx} cy={sy} r={4.5} fill="#1F2937" />
+              {point.label ? (
+                <text x={sx + 7} y={sy - 7} fontSize={12} fill="#1F2937">
+                  {`${point.label} (${formatNumber(x)}, ${formatNumber(y)})`}
+                </text>
+              ) : null}
+            </g>
+          );
+        })}
+
+        {traceX !== null ? (
+          <>
+            <line
+              x1={project([traceX, 0])[0]}
+              x2={project([traceX, 0])[0]}
+              y1={0}
+              y2={HEIGHT}
+              stroke="#6B7280"
+              strokeDasharray="4 4"
+            />
+            {traced.map(({ curve, color, y }) => {
+              const [sx, sy] = project([traceX, y]);
+              return <circle key={curve.equation} cx={sx} cy={sy} r={4} fill={color} />;
+            })}
+          </>
+        ) : null}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-brand-charcoal">
+        {spec.curves.map((curve, index) => (
+          <span key={`${curve.equation}-${index}`} className="flex items-center gap-1.5">
+            <span
+              className="inline-block h-0.5 w-4 rounded"
+              style={{ backgroundColor: CURVE_COLORS[index % CURVE_COLORS.length] }}
+            />
+            {curve.label ?? curve.equation}
+          </span>
+        ))}
+        {traceX !== null ? (
+          <span className="text-brand-slate">
+            x = {formatNumber(traceX)}
+            {traced.map(({ curve, y }) => ` · ${curve.label ?? 'y'} = ${formatNumber(y)}`)}
+          </span>
+        ) : null}
+      </div>
+
+      {spec.sliders.map((slider) => (
+        <label
+          key={slider.name}
+          className="flex items-center gap-3 text-xs font-medium text-brand-charcoal"
+        >
+          <span className="w-16 font-mono">
+            {slider.name} = {formatNumber(values[slider.name] ?? slider.value, slider.step)}
+          </span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={values[slider.name] ?? slider.value}
+            onChange={(event) =>
+              setValues((prev) => ({ ...prev, [slider.name]: Number(event.target.value) }))
+            }
+            className="flex-1 accent-brand-sky"
+          />
+        </label>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => setViewport((prev) => zoomViewport(prev, 1 / ZOOM_FACTOR))}
+          className={CONTROL_BUTTON_CLASS_NAME}
+          aria-label="Zoom in"
+        >
+          ＋
+        </button>
+        <button
+          type="button"
+          onClick={() => setViewport((prev) => zoomViewport(prev, ZOOM_FACTOR))}
+          className={CONTROL_BUTTON_CLASS_NAME}
+          aria-label="Zoom out"
+        >
+          －
+        </button>
+        <button type="button" onClick={handleReset} className={CONTROL_BUTTON_CLASS_NAME}>
+          Reset
+        </button>
+        <span className="self-center text-xs text-brand-slate">Drag the graph to move around.</span>
+      </div>
+    </div>
+  );
+};
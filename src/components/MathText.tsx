@@ -1,11 +1,9 @@
-import { Component, Fragment, ReactNode } from 'react';
+import { Component, Fragment, ReactNode, useMemo, useState } from 'react';
 import { BlockMath, InlineMath } from 'react-katex';
 import 'katex/dist/katex.css';
-
-type Segment =
-  | { type: 'text'; value: string }
-  | { type: 'inline'; value: string }
-  | { type: 'block'; value: string };
+import { graphSpecForExpression, parseGraphSpec, type GraphSpec } from '../utils/graphSpec';
+import { splitMath } from '../utils/mathSegments';
+import { GraphView } from './GraphView';
 
 // Validate basic LaTeX syntax
 const validateLaTeX = (latex: string): { valid: boolean; error?: string } => {
@@ -49,106 +47,6 @@ const sanitizeLaTeX = (latex: string): string => {
   return sanitized;
 };
 
-// Match $$...$$, \[...\], $...$, and \(...\)
-// For \(...\), we need to handle nested parentheses by matching until we find \) that's not escaped
-const parseMathDelimiters = (input: string): Segment[] => {
-  const segments: Segment[] = [];
-  let lastIndex = 0;
-  let i = 0;
-
-  while (i < input.length) {
-    // Check for block math: $$...$$
-    if (input[i] === '$' && input[i + 1] === '$') {
-      const start = i + 2;
-      const end = input.indexOf('$$', start);
-      if (end !== -1) {
-        if (i > lastIndex) {
-          segments.push({ type: 'text', value: input.slice(lastIndex, i) });
-        }
-        segments.push({ type: 'block', value: input.slice(start, end) });
-        i = end + 2;
-        lastIndex = i;
-        continue;
-      }
-    }
-
-    // Check for inline math: $...$
-    if (input[i] === '$' && input[i - 1] !== '$' && input[i + 1] !== '$') {
-      const start = i + 1;
-      const end = input.indexOf('$', start);
-      if (end !== -1) {
-        if (i > lastIndex) {
-          segments.push({ type: 'text', value: input.slice(lastIndex, i) });
-        }
-        segments.push({ type: 'inline', value: input.slice(start, end) });
-        i = end + 1;
-        lastIndex = i;
-        continue;
-      }
-    }
-
-    // Check for block math: \[...\]
-    if (input[i] === '\\' && input[i + 1] === '[') {
-      const start = i + 2;
-      const end = input.indexOf('\\]', start);
-      if (end !== -1) {
-        if (i > lastIndex) {
-          segments.push({ type: 'text', value: input.slice(lastIndex, i) });
-        }
-        segments.push({ type: 'block', value: input.slice(start, end) });
-        i = end + 2;
-        lastIndex = i;
-        continue;
-      }
-    }
-
-    // Check for inline math: \(...\) - handle nested parentheses
-    if (input[i] === '\\' && input[i + 1] === '(') {
-      const start = i + 2;
-      let depth = 1;
-      let j = start;
-
-      while (j < input.length && depth > 0) {
-        if (input[j] === '\\' && input[j + 1] === ')') {
-          depth--;
-          if (depth === 0) {
-            if (i > lastIndex) {
-              segments.push({ type: 'text', value: input.slice(lastIndex, i) });
-            }
-            segments.push({ type: 'inline', value: input.slice(start, j) });
-            i = j + 2;
-            lastIndex = i;
-            break;
-          }
-          j += 2;
-        } else if (input[j] === '\\' && input[j + 1] === '(') {
-          depth++;
-          j += 2;
-        } else {
-          j++;
-        }
-      }
-
-      if (depth === 0) {
-        continue;
-      }
-    }
-
-    i++;
-  }
-
-  if (lastIndex < input.length) {
-    segments.push({ type: 'text', value: input.slice(lastIndex) });
-  }
-
-  return segments.length > 0 ? segments : [{ type: 'text', value: input }];
-};
-
-const parseSegments = (input: string): Segment[] => {
-  // Use the custom parser which handles all delimiter types including nested parentheses in \(...\)
-  return parseMathDelimiters(input);
-};
-
 // Error boundary for LaTeX rendering
 class LaTeXErrorBoundary extends Component<
   { children: ReactNode; math: string; type: 'block' | 'inline' },
@@ -259,27 +157,111 @@ const SafeInlineMath = ({ math }: { math: string }) => {
   );
 };
 
-export const MathText = ({ content }: { content: string }) => {
-  const segments = parseSegments(content);
+const GRAPH_CARD_CLASS_NAME = 'my-4 rounded-xl border border-brand-mint/40 bg-white p-4 shadow-sm';
+
+// Graph block with the same fallback panel as an equation that fails to render
+const GraphBlock = ({ source }: { source: string }) => {
+  const parsed = useMemo((): { spec: GraphSpec } | { error: string } => {
+    try {
+      return { spec: parseGraphSpec(source) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid graph' };
+    }
+  }, [source]);
+
+  if ('error' in parsed) {
+    return (
+      <div className="my-2 rounded-lg border border-brand-coral/40 bg-[#FEE2E2] p-3">
+        <div className="flex items-start gap-2">
+          <span className="text-lg">⚠️</span>
+          <div className="flex-1">
+            <p className="text-xs font-medium text-brand-charcoal">Could not draw this graph</p>
+            <p className="mt-1 text-xs text-brand-slate">{parsed.error}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={GRAPH_CARD_CLASS_NAME}>
+      <GraphView key={source} spec={parsed.spec} />
+    </div>
+  );
+};
+
+interface MathTextProps {
+  content: string;
+  /** Offers "Graph this" on every math expression that is a function of x. */
+  graphable?: boolean;
+}
+
+export const MathText = ({ content, graphable = false }: MathTextProps) => {
+  const segments = useMemo(() => splitMath(content), [content]);
+  // Indexes of the math segments the learner asked to graph, in the order they asked.
+  const [graphedIndexes, setGraphedIndexes] = useState<number[]>([]);
+
+  const graphSpecs = useMemo(
+    () =>
+      segments.map((segment) =>
+        graphable && (segment.type === 'inline' || segment.type === 'block')
+          ? graphSpecForExpression(sanitizeLaTeX(segment.value))
+          : null,
+      ),
+    [graphable, segments],
+  );
+
+  const toggleGraph = (index: number) =>
+    setGraphedIndexes((prev) =>
+      prev.includes(index) ? prev.filter((other) => other !== index) : [...prev, index],
+    );
+
+  const graphButton = (index: number, math: string, compact: boolean) =>
+    graphSpecs[index] ? (
+      <button
+        type="button"
+        onClick={() => toggleGraph(index)}
+        className={
+          compact
+            ? 'mx-0.5 rounded px-0.5 align-middle text-xs text-brand-slate transition hover:bg-brand-sky/10 hover:text-brand-sky'
+            : 'absolute right-2 top-2 rounded-full border border-brand-sky/40 bg-white px-2.5 py-1 text-xs font-medium text-brand-sky transition hover:bg-brand-sky/10'
+        }
+        aria-label={`${graphedIndexes.includes(index) ? 'Hide the graph of' : 'Graph'} ${math}`}
+        aria-pressed={graphedIndexes.includes(index)}
+        title="Graph this"
+      >
+        {compact ? '📈' : '📈 Graph this'}
+      </button>
+    ) : null;
 
   return (
     <div className="text-sm leading-relaxed text-brand-charcoal">
       {segments.map((segment, index) => {
+        if (segment.type === 'graph') {
+          return <GraphBlock key={`graph-${index}`} source={segment.value} />;
+        }
+
         if (segment.type === 'block') {
           return (
             <div
               key={`block-${index}`}
-              className="my-4 overflow-x-auto rounded-xl border border-brand-mint/40 bg-white p-4 shadow-sm"
+              className="relative my-4 overflow-x-auto rounded-xl border border-brand-mint/40 bg-white p-4 shadow-sm"
             >
               <div className="flex justify-center">
                 <SafeBlockMath math={segment.value} />
               </div>
+              {graphButton(index, segment.value, false)}
             </div>
           );
         }
 
         if (segment.type === 'inline') {
-          return <SafeInlineMath key={`inline-${index}`} math={segment.value} />;
+          return (
+            <Fragment key={`inline-${index}`}>
+              <SafeInlineMath math={segment.value} />
+              {graphButton(index, segment.value, true)}
+            </Fragment>
+          );
         }
 
         const lines = segment.value.split(/\r?\n/);
@@ -295,6 +277,22 @@ export const MathText = ({ content }: { content: string }) => {
           </Fragment>
         );
       })}
+      {graphedIndexes.map((index) => {
+        const spec = graphSpecs[index];
+        return spec ? (
+          <div key={`graphed-${index}`} className={`relative ${GRAPH_CARD_CLASS_NAME}`}>
+            <button
+              type="button"
+              onClick={() => toggleGraph(index)}
+              className="absolute right-2 top-2 rounded-full px-2 text-lg text-brand-slate transition hover:bg-brand-background hover:text-brand-charcoal"
+              aria-label="Close graph"
+            >
+              ×
+            </button>
+            <GraphView spec={spec} />
+          </div>
+        ) : null;
+      })}
     </div>
   );
 };
@@ -0,0 +1,93 @@
+import { useId } from 'react';
+import { toDisplayLatex, type MathOcrResult } from '../utils/mathOcr';
+import { MathText } from './MathText';
+
+/** OCR for the image waiting to be sent, and the learner's edits to what it read. */
+export interface PendingOcr {
+  imageUrl: string;
+  status: 'reading' | 'ready' | 'failed';
+  result: MathOcrResult | null;
+  draft: string;
+  confirmed: boolean;
+}
+
+interface OcrPreviewProps {
+  ocr: PendingOcr;
+  onDraftChange: (draft: string) => void;
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+const LOW_CONFIDENCE = 0.6;
+
+/** "Is this your problem?": the OCR reading as editable LaTeX with a rendered preview. */
+export const OcrPreview = ({ ocr, onDraftChange, onConfirmedChange }: OcrPreviewProps) => {
+  const draftId = useId();
+
+  if (ocr.status === 'reading') {
+    return <p className="text-xs text-brand-slate">Reading the problem from your image…</p>;
+  }
+
+  if (ocr.status === 'failed') {
+    return (
+      <p className="text-xs text-brand-slate">
+        We could not read this image, but MathMate will still look at it when you send.
+      </p>
+    );
+  }
+
+  const display = toDisplayLatex(ocr.draft);
+  const isLowConfidence = (ocr.result?.confidence ?? 0) < LOW_CONFIDENCE;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor={draftId} className="text-xs font-medium text-brand-charcoal">
+        Is this your problem?
+        {ocr.draft && isLowConfidence && !ocr.confirmed ? (
+          <span className="ml-2 font-normal text-brand-coral">
+            The image was hard to read, so please check it.
+          </span>
+        ) : null}
+      </label>
+      {ocr.confirmed ? null : (
+        <textarea
+          id={draftId}
+          value={ocr.draft}
+          onChange={(event) => onDraftChange(event.target.value)}
+          placeholder="We found no writing. Type the problem in LaTeX, e.g. x^{2} + 3 = 12"
+          rows={2}
+          className="rounded-lg border border-brand-mint/60 px-3 py-2 font-mono text-xs text-brand-charcoal outline-none transition focus:border-brand-sky"
+        />
+      )}
+      {display ? (
+        <div className="overflow-x-auto rounded-lg bg-brand-background px-3 py-1">
+          <MathText content={`$$${display}$$`} />
+        </div>
+      ) : null}
+      <div className="flex flex-wrap items-center gap-2">
+        {ocr.confirmed ? (
+          <>
+            <span className="text-xs font-medium text-brand-sky">
+              ✓ Saved with the image when you send
+            </span>
+            <button
+              type="button"
+              onClick={() => onConfirmedChange(false)}
+              className="text-xs font-medium text-brand-slate hover:underline"
+            >
+              Edit
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onConfirmedChange(true)}
+            disabled={!ocr.draft.trim()}
+            className="rounded-full border border-brand-sky px-3 py-1 text-xs font-medium text-brand-sky transition hover:bg-brand-sky/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Yes, that’s my problem
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import {
+  MAX_PDF_PAGES,
+  cropProblem,
+  renderPdfPages,
+  type PdfPageImage,
+  type ProblemRegion,
+} from '../utils/pdfImport';
+
+/** A problem cut out of the worksheet, with the title its own session would get. */
+export interface ImportedProblem {
+  file: File;
+  title: string;
+}
+
+interface PdfImportModalProps {
+  file: File;
+  /** How many more images the message being written can take. */
+  remainingAttachments: number;
+  onAttach: (files: File[]) => Promise<void>;
+  onStartSessions: (problems: ImportedProblem[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type DragBox = { startX: number; startY: number; x: number; y: number };
+
+// Drags smaller than this fraction of the page are treated as stray clicks.
+const MIN_REGION_SIZE = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toRegion = (box: DragBox) => ({
+  x: Math.min(box.startX, box.x),
+  y: Math.min(box.startY, box.y),
+  width: Math.abs(box.x - box.startX),
+  height: Math.abs(box.y - box.startY),
+});
+
+const regionStyle = (region: { x: number; y: number; width: number; height: number }) => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`,
+});
+
+const SECONDARY_BUTTON_CLASS_NAME =
+  'rounded-full border border-brand-slate/40 px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background disabled:cursor-not-allowed disabled:opacity-50';
+
+/** Pick problems from a worksheet PDF by boxing them on the page. */
+export const PdfImportModal = ({
+  file,
+  remainingAttachments,
+  onAttach,
+  onStartSessions,
+  onClose,
+}: PdfImportModalProps) => {
+  const [pages, setPages] = useState<PdfPageImage[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [regions, setRegions] = useState<ProblemRegion[]>([]);
+  const [dragBox, setDragBox] = useState<DragBox | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const nextRegionIdRef = useRef(1);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    renderPdfPages(file)
+      .then((rendered) => {
+        if (!cancelled) {
+          setPages(rendered.pages);
+          setPageCount(rendered.pageCount);
+        }
+      })
+      .catch((renderError) => {
+        console.error('Failed to render PDF', renderError);
+        if (!cancelled) {
+          setError('We could not open this PDF. Please try a different file.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const page = pages[pageIndex] ?? null;
+  const pageRegions = regions.filter((region) => region.pageNumber === page?.pageNumber);
+  const fileStem = file.name.replace(/\.pdf$/i, '') || 'worksheet';
+
+  const addRegion = (region: Omit<ProblemRegion, 'id' | 'pageNumber'>) => {
+    if (!page) {
+      return;
+    }
+    const id = `region-${nextRegionIdRef.current}`;
+    nextRegionIdRef.current += 1;
+    setRegions((prev) => [...prev, { ...region, id, pageNumber: page.pageNumber }]);
+  };
+
+  const toPagePoint = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (isWorking || (event.pointerType === 'mouse' && event.button !== 0)) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPagePoint(event);
+    setDragBox({ startX: point.x, startY: point.y, ...point });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragBox) {
+      setDragBox({ ...dragBox, ...toPagePoint(event) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragBox) {
+      return;
+    }
+    const region = toRegion(dragBox);
+    setDragBox(null);
+    if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+      addRegion(region);
+    }
+  };
+
+  // Problems are numbered in the order they appear: by page, then top to bottom.
+  const orderedRegions = [...regions].sort((a, b) => a.pageNumber - b.pageNumber || a.y - b.y);
+
+  const problemLabel = (region: ProblemRegion) => {
+    const onPage = orderedRegions.filter((other) => other.pageNumber === region.pageNumber);
+    return `Page ${region.pageNumber} · Problem ${onPage.indexOf(region) + 1}`;
+  };
+
+  const cropSelected = async (): Promise<ImportedProblem[]> =>
+    Promise.all(
+      orderedRegions.map(async (region, index) => {
+        const regionPage = pages.find((candidate) => candidate.pageNumber === region.pageNumber);
+        if (!regionPage) {
+          throw new Error(`Page ${region.pageNumber} is not rendered`);
+        }
+        const file = await cropProblem(
+          regionPage,
+          region,
+          `${fileStem}-p${region.pageNumber}-${index + 1}.png`,
+        );
+        return { file, title: `${fileStem} – ${problemLabel(region)}` };
+      }),
+    );
+
+  const run = async (action: (problems: ImportedProblem[]) => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action(await cropSelected());
+      onClose();
+    } catch (actionError) {
+      console.error('Failed to import worksheet problems', actionError);
+      setError('We could not import these problems. Please try again.');
+      setIsWorking(false);
+    }
+  };
+
+  const count = regions.length;
+  const canAttach = count > 0 && count <= remainingAttachments;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-full w-full max-w-4xl flex-col gap-4 overflow-y-auto rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
+        <div>
+          <h3 className="text-lg font-semibold text-brand-charcoal">Import from {file.name}</h3>
+          <p className="mt-1 text-sm text-brand-slate">
+            Drag a box around each problem you want to work on, or select the whole page.
+          </p>
+          {pageCount > MAX_PDF_PAGES ? (
+            <p className="mt-1 text-xs text-brand-slate">
+              Showing the first {MAX_PDF_PAGES} of {pageCount} pages.
+            </p>
+          ) : null}
+        </div>
+
+        {isLoading ? (
+          <p className="rounded-xl bg-brand-background p-6 text-sm text-brand-slate">
+            Rendering pages…
+          </p>
+        ) : page ? (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setPageIndex((index) => Math.max(0, index - 1))}
+                disabled={pageIndex === 0 || isWorking}
+                className={SECONDARY_BUTTON_CLASS_NAME}
+              >
+                ← Previous
+              </button>
+              <span className="text-sm text-brand-charcoal">
+                Page {page.pageNumber} of {pages.length}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPageIndex((index) => Math.min(pages.length - 1, index + 1))}
+                disabled={pageIndex === pages.length - 1 || isWorking}
+                className={SECONDARY_BUTTON_CLASS_NAME}
+              >
+                Next →
+              </button>
+              <button
+                type="button"
+                onClick={() => addRegion({ x: 0, y: 0, width: 1, height: 1 })}
+                disabled={isWorking}
+                className={`ml-auto ${SECONDARY_BUTTON_CLASS_NAME}`}
+              >
+                Select whole page
+              </button>
+            </div>
+
+            <div
+              className="relative w-full cursor-crosshair touch-none select-none overflow-hidden rounded-xl border border-brand-mint/60"
+              style={{ aspectRatio: `${page.width} / ${page.height}` }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDragBox(null)}
+            >
+              <img
+                src={page.imageUrl}
+                alt={`Page ${page.pageNumber} of ${file.name}`}
+                className="pointer-events-none size-full"
+                draggable={false}
+              />
+              {pageRegions.map((region) => (
+                <div
+                  key={region.id}
+                  className="absolute border-2 border-brand-sky bg-brand-sky/10"
+                  style={regionStyle(region)}
+                >
+                  <span className="absolute left-0 top-0 bg-brand-sky px-1.5 text-xs font-medium text-white">
+                    {problemLabel(region).replace(/^Page \d+ · /, '')}
+                  </span>
+                </div>
+              ))}
+              {dragBox ? (
+                <div
+                  className="absolute border-2 border-dashed border-brand-sky"
+                  style={regionStyle(toRegion(dragBox))}
+                />
+              ) : null}
+            </div>
+          </>
+        ) : null}
+
+        {orderedRegions.length > 0 ? (
+          <ul className="flex flex-wrap gap-2">
+            {orderedRegions.map((region) => (
+              <li
+                key={region.id}
+                className="flex items-center gap-1 rounded-full bg-brand-sky/10 py-1 pl-3 pr-1 text-xs text-brand-charcoal"
+              >
+                {problemLabel(region)}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRegions((prev) => prev.filter((other) => other.id !== region.id))
+                  }
+                  disabled={isWorking}
+                  className="rounded-full px-1.5 text-brand-slate hover:bg-white"
+                  aria-label={`Remove ${problemLabel(region)}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {count > remainingAttachments && remainingAttachments > 0 ? (
+          <p className="text-xs text-brand-slate">
+            A message can carry {remainingAttachments} more{' '}
+            {remainingAttachments === 1 ? 'image' : 'images'}, so start separate sessions instead or
+            remove some problems.
+          </p>
+        ) : null}
+        {error ? <p className="text-sm text-brand-coral">{error}</p> : null}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isWorking}
+            className={SECONDARY_BUTTON_CLASS_NAME}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void run((problems) => onStartSessions(problems))}
+            disabled={count === 0 || isWorking}
+            className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {count > 1 ? `Start ${count} sessions` : 'Start a new session'}
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              void run((problems) => onAttach(problems.map((problem) => problem.file)))
+            }
+            disabled={!canAttach || isWorking}
+            className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition disabled:cursor-not-allowed disabled:bg-brand-slate"
+          >
+            {isWorking ? 'Importing…' : 'Attach to message'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import type { QuizQuestionResponse } from '../types/quiz';
+import { MathText } from './MathText';
+
+export interface QuizAnswerChange {
+  userAnswer: string;
+  partAnswers?: string[];
+}
+
+interface QuizAnswerInputProps {
+  question: QuizQuestionResponse;
+  disabled?: boolean;
+  onChange: (change: QuizAnswerChange) => void;
+}
+
+const CHOICE_LABELS = ['A', 'B', 'C', 'D'];
+
+const INPUT_CLASS_NAME =
+  'rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky disabled:opacity-70';
+
+// Numeric answers are stored as one string ("12.5 m"); the leading number goes in the value box.
+const splitQuantity = (answer: string) => {
+  const match = /^\s*([-+]?[\d.,/]*)\s*(.*)$/.exec(answer);
+  return { value: match?.[1] ?? '', unit: match?.[2] ?? '' };
+};
+
+// Multi-part answers are also joined into one labelled string for display and the fallback grader.
+const joinPartAnswers = (labels: string[], partAnswers: string[]): string =>
+  labels
+    .flatMap((label, index) => {
+      const answer = partAnswers[index]?.trim();
+      return answer ? [`(${label}) ${answer}`] : [];
+    })
+    .join('; ');
+
+export const QuizAnswerInput = ({ question, disabled = false, onChange }: QuizAnswerInputProps) => {
+  const format = question.format ?? 'free';
+
+  if (format === 'multipleChoice' && question.choices?.length) {
+    return (
+      <fieldset className="flex flex-col gap-2" disabled={disabled}>
+        <legend className="mb-2 text-sm font-medium text-brand-charcoal">Choose one answer</legend>
+        {question.choices.map((choice, index) => {
+          const isSelected = question.userAnswer === choice;
+          return (
+            <label
+              key={choice}
+              className={`flex cursor-pointer items-center gap-3 rounded-xl border px-4 py-3 text-sm transition ${
+                isSelected
+                  ? 'border-brand-sky bg-brand-sky/10'
+                  : 'border-brand-mint/60 bg-white hover:bg-brand-background'
+              }`}
+            >
+              <input
+                type="radio"
+                name={`choice-${question.id}`}
+                value={choice}
+                checked={isSelected}
+                onChange={() => onChange({ userAnswer: choice })}
+                className="sr-only"
+              />
+              <span
+                className={`flex size-7 shrink-0 items-center justify-center rounded-full border text-xs font-semibold ${
+                  isSelected
+                    ? 'border-brand-sky bg-brand-sky text-white'
+                    : 'border-brand-mint text-brand-slate'
+                }`}
+              >
+                {CHOICE_LABELS[index] ?? index + 1}
+              </span>
+              <MathText content={choice} />
+            </label>
+          );
+        })}
+      </fieldset>
+    );
+  }
+
+  if (format === 'numeric') {
+    const { value, unit } = splitQuantity(question.userAnswer);
+    const update = (nextValue: string, nextUnit: string) =>
+      onChange({ userAnswer: `${nextValue.trim()} ${nextUnit.trim()}`.trim() });
+
+    return (
+      <div className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
+        Your answer
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            aria-label="Value"
+            value={value}
+            onChange={(event) => update(event.target.value, unit)}
+            disabled={disabled}
+            className={`flex-1 ${INPUT_CLASS_NAME}`}
+            placeholder="12.5"
+          />
+          <input
+            type="text"
+            aria-label="Unit"
+            value={unit}
+            onChange={(event) => update(value, event.target.value)}
+            disabled={disabled}
+            className={`w-32 ${INPUT_CLASS_NAME}`}
+            placeholder="unit, e.g. m"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (format === 'expression') {
+    return (
+      <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
+        Your expression
+        <input
+          type="text"
+          value={question.userAnswer}
+          onChange={(event) => onChange({ userAnswer: event.target.value })}
+          disabled={disabled}
+          className={`font-mono ${INPUT_CLASS_NAME}`}
+          placeholder="e.g. 3x^2 - 2x + 1"
+          spellCheck={false}
+        />
+        <span className="text-xs font-normal text-brand-slate">
+          Use ^ for powers, / for fractions and sqrt() for roots.
+        </span>
+        {question.userAnswer.trim() ? (
+          <div className="rounded-xl border border-brand-mint/60 bg-brand-background px-3 py-2 font-normal">
+            <MathText content={`$${question.userAnswer}$`} />
+          </div>
+        ) : null}
+      </label>
+    );
+  }
+
+  if (format === 'multiPart' && question.parts?.length) {
+    const parts = question.parts;
+    const partAnswers = parts.map((_, index) => question.partAnswers?.[index] ?? '');
+    const update = (index: number, answer: string) => {
+      const next = partAnswers.map((current, i) => (i === index ? answer : current));
+      onChange({
+        userAnswer: joinPartAnswers(
+          parts.map((part) => part.label),
+          next,
+        ),
+        partAnswers: next,
+      });
+    };
+
+    return (
+      <ol className="flex flex-col gap-3">
+        {parts.map((part, index) => (
+          <li key={part.label} className="flex flex-col gap-2 text-sm text-brand-charcoal">
+            <div className="flex gap-2">
+              <span className="font-semibold">({part.label})</span>
+              <MathText content={part.prompt} />
+            </div>
+            <input
+              type="text"
+              aria-label={`Answer to part ${part.label}`}
+              value={partAnswers[index]}
+              onChange={(event) => update(index, event.target.value)}
+              disabled={disabled}
+              className={INPUT_CLASS_NAME}
+            />
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  return (
+    <label className="flex flex-1 flex-col gap-2 text-sm font-medium text-brand-charcoal">
+      Your answer
+      <textarea
+        value={question.userAnswer}
+        onChange={(event) => onChange({ userAnswer: event.target.value })}
+        disabled={disabled}
+        className="min-h-40 flex-1 rounded-2xl border border-brand-mint/60 bg-white px-4 py-3 text-sm leading-relaxed outline-none transition focus:border-brand-sky disabled:opacity-70"
+        placeholder="Write your solution or final answer here…"
+      />
+    </label>
+  );
+};
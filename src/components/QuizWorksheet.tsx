@@ -0,0 +1,99 @@
+import { forwardRef } from 'react';
+import type { StoredQuizQuestion, StoredQuizRecord } from '../types/quiz';
+import { formatDate } from '../utils/formatters';
+import { worksheetTitle, type WorksheetOptions } from '../utils/worksheetExport';
+import { MathText } from './MathText';
+import '../styles/worksheet.css';
+
+interface QuizWorksheetProps {
+  record: StoredQuizRecord;
+  options: WorksheetOptions;
+}
+
+const CHOICE_LABELS = ['A', 'B', 'C', 'D'];
+
+const answerFor = ({ evaluation }: StoredQuizQuestion): string | null =>
+  evaluation.correctAnswer ?? evaluation.canonicalAnswer?.value ?? null;
+
+/** A blank worksheet for the quiz's questions, with the answer key on its own page. */
+export const QuizWorksheet = forwardRef<HTMLDivElement, QuizWorksheetProps>(
+  ({ record, options }, ref) => {
+    const showKey = options.includeAnswerKey;
+
+    return (
+      <div ref={ref} className="worksheet">
+        <h1>{worksheetTitle(record)}</h1>
+        <p className="worksheet-meta">
+          {record.questions.length} {record.questions.length === 1 ? 'question' : 'questions'} ·{' '}
+          {record.difficulty} · {formatDate(record.completedAt ?? record.createdAt)}
+        </p>
+        <div className="worksheet-fields">
+          <span>Name</span>
+          <span>Date</span>
+        </div>
+
+        <ol className="worksheet-list">
+          {record.questions.map((question) => (
+            <li key={question.id} className="worksheet-question">
+              <MathText content={question.problemText} />
+              {question.format === 'multipleChoice' && question.choices?.length ? (
+                <ul className="worksheet-choices">
+                  {question.choices.map((choice, index) => (
+                    <li key={choice}>
+                      <span className="worksheet-label">{CHOICE_LABELS[index] ?? index + 1}.</span>
+                      <MathText content={choice} />
+                    </li>
+                  ))}
+                </ul>
+              ) : question.format === 'multiPart' && question.parts?.length ? (
+                <ul className="worksheet-parts">
+                  {question.parts.map((part) => (
+                    <li key={part.label}>
+                      <span className="worksheet-label">({part.label})</span>
+                      <MathText content={part.prompt} />
+                      <div className="worksheet-answer-space" />
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="worksheet-answer-space" />
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {showKey ? (
+          <section className="worksheet-key">
+            <h2>{options.includeExplanations ? 'Answers and explanations' : 'Answer key'}</h2>
+            <ol className="worksheet-list">
+              {record.questions.map((question) => {
+                const answer = answerFor(question);
+                const parts = question.evaluation.partResults;
+
+                return (
+                  <li key={question.id} className="worksheet-key-item">
+                    {parts?.length ? (
+                      parts.map((part) => (
+                        <div key={part.label}>
+                          <span className="worksheet-label">({part.label})</span>
+                          <MathText content={part.correctAnswer} />
+                        </div>
+                      ))
+                    ) : (
+                      <MathText content={answer ?? 'No reference answer was recorded.'} />
+                    )}
+                    {options.includeExplanations && question.evaluation.explanation ? (
+                      <p className="worksheet-explanation">{question.evaluation.explanation}</p>
+                    ) : null}
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        ) : null}
+      </div>
+    );
+  },
+);
+
+QuizWorksheet.displayName = 'QuizWorksheet';
@@ -0,0 +1,89 @@
+import { Link } from 'react-router-dom';
+import type { ReviewCard } from '../types/review';
+import { formatDate } from '../utils/formatters';
+import { getTopicLabel } from '../utils/problemGenerator';
+
+interface ReviewQueuePanelProps {
+  cards: ReviewCard[];
+  dueCards: ReviewCard[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const PREVIEW_LENGTH = 140;
+
+const previewText = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH).trimEnd()}…` : text;
+
+export const ReviewQueuePanel = ({ cards, dueCards, loading, error }: ReviewQueuePanelProps) => {
+  const nextUpcoming = cards.find((card) => !dueCards.includes(card)) ?? null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-brand-charcoal">Review Queue</h2>
+          <p className="mt-2 text-sm text-brand-slate">
+            Missed quiz questions come back on a spaced schedule as fresh variants.
+          </p>
+        </div>
+        {dueCards.length > 0 ? (
+          <Link
+            to="/review"
+            className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+          >
+            Start Review ({dueCards.length})
+          </Link>
+        ) : null}
+      </div>
+
+      {loading ? (
+        <div className="mt-6 space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="rounded-xl border border-brand-mint/60 bg-brand-background p-4">
+              <div className="h-4 w-48 animate-pulse rounded bg-brand-mint/20" />
+              <div className="mt-2 h-3 w-24 animate-pulse rounded bg-brand-mint/10" />
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="mt-6 rounded-xl border border-dashed border-brand-coral/60 bg-brand-background p-6 text-sm text-brand-slate">
+          We could not load your review queue. Try refreshing the page.
+        </div>
+      ) : dueCards.length === 0 ? (
+        <div className="mt-6 rounded-xl border border-dashed border-brand-mint/80 bg-brand-background p-6 text-sm text-brand-slate">
+          {nextUpcoming
+            ? `You are all caught up. Next review on ${formatDate(nextUpcoming.dueAt)}.`
+            : 'No reviews yet. Questions you miss in quizzes will be queued here.'}
+        </div>
+      ) : (
+        <ul className="mt-6 space-y-3">
+          {dueCards.map((card) => (
+            <li
+              key={card.id}
+              className="rounded-xl border border-brand-mint/60 bg-white p-4 text-sm text-brand-charcoal"
+            >
+              <p>{previewText(card.problemText)}</p>
+              <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-brand-slate">
+                <span className="rounded-full bg-brand-sky/10 px-2 py-0.5 text-brand-sky">
+                  {card.subtopic ?? getTopicLabel(card.topicId)}
+                </span>
+                <span>
+                  {card.repetitions === 0 && card.lapses === 0
+                    ? 'New'
+                    : `Reviewed ${card.repetitions + card.lapses} times`}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {cards.length > dueCards.length && dueCards.length > 0 ? (
+        <p className="mt-4 text-xs text-brand-slate">
+          {cards.length - dueCards.length} more scheduled for later.
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import type { SessionOrganization } from '../utils/sessionOrganization';
+
+interface SessionBadgesProps {
+  session: SessionOrganization;
+  /** Shows a remove button on each tag. */
+  onRemoveTag?: (tag: string) => void;
+}
+
+/** Pin, archive, folder and tag markers for a session row. */
+export const SessionBadges = ({ session, onRemoveTag }: SessionBadgesProps) => {
+  if (!session.pinned && !session.archived && !session.folder && session.tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-brand-slate">
+      {session.pinned ? (
+        <span className="rounded-full bg-brand-sky/20 px-2 py-0.5 font-medium text-brand-sky">
+          Pinned
+        </span>
+      ) : null}
+      {session.archived ? (
+        <span className="rounded-full bg-brand-slate/10 px-2 py-0.5 font-medium">Archived</span>
+      ) : null}
+      {session.folder ? (
+        <span className="rounded-full border border-brand-mint/60 px-2 py-0.5">
+          📁 {session.folder}
+        </span>
+      ) : null}
+      {session.tags.map((tag) => (
+        <span
+          key={tag}
+          className="flex items-center gap-1 rounded-full bg-brand-mint/40 px-2 py-0.5"
+        >
+          #{tag}
+          {onRemoveTag ? (
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                onRemoveTag(tag);
+              }}
+              aria-label={`Remove tag ${tag}`}
+              className="text-brand-slate hover:text-brand-coral"
+            >
+              ×
+            </button>
+          ) : null}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import { FormEvent, useId, useState } from 'react';
+import {
+  organizeSessionDocs,
+  parseTagInput,
+  type SessionOrganizationAction,
+} from '../utils/sessionOrganization';
+import { deleteSessionWithShare } from '../utils/sessionShares';
+
+interface SessionBulkActionsProps {
+  userId: string;
+  selectedIds: string[];
+  folders: string[];
+  /** Every selected session is archived, so the archive button restores them instead. */
+  allArchived: boolean;
+  onDone: () => void;
+  onDeleted?: (sessionIds: string[]) => void;
+}
+
+type OpenForm = 'folder' | 'tags' | 'delete' | null;
+
+const BUTTON_CLASS_NAME =
+  'rounded-full border border-brand-slate/40 bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background disabled:opacity-50';
+
+const INPUT_CLASS_NAME =
+  'min-w-0 flex-1 rounded-lg border border-brand-mint/60 px-3 py-1.5 text-sm text-brand-charcoal outline-none focus:border-brand-sky';
+
+/** Actions for the sessions ticked in a list: pin, archive, file, tag or delete them together. */
+export const SessionBulkActions = ({
+  userId,
+  selectedIds,
+  folders,
+  allArchived,
+  onDone,
+  onDeleted,
+}: SessionBulkActionsProps) => {
+  const [openForm, setOpenForm] = useState<OpenForm>(null);
+  const [folderInput, setFolderInput] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const folderListId = useId();
+  const count = selectedIds.length;
+
+  const run = async (action: SessionOrganizationAction) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await organizeSessionDocs(userId, selectedIds, action);
+      setOpenForm(null);
+      setFolderInput('');
+      setTagInput('');
+      onDone();
+    } catch (actionError) {
+      console.error('Failed to organize sessions', actionError);
+      setError('We could not update these sessions. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFolderSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (folderInput.trim()) {
+      void run({ type: 'folder', folder: folderInput });
+    }
+  };
+
+  const handleTagSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const tags = parseTagInput(tagInput);
+    if (tags.length > 0) {
+      void run({ type: 'addTags', tags });
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await Promise.all(selectedIds.map((sessionId) => deleteSessionWithShare(userId, sessionId)));
+      onDeleted?.(selectedIds);
+      setOpenForm(null);
+      onDone();
+    } catch (deleteError) {
+      console.error('Failed to delete sessions', deleteError);
+      setError('We could not delete every selected session. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-brand-sky/50 bg-brand-sky/10 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-1 text-xs font-semibold text-brand-charcoal">{count} selected</span>
+        <button
+          type="button"
+          onClick={() => void run({ type: 'pin', pinned: true })}
+          disabled={isWorking}
+          className={BUTTON_CLASS_NAME}
+        >
+          Pin
+        </button>
+        <button
+          type="button"
+          onClick={() => void run({ type: 'pin', pinned: false })}
+          disabled={isWorking}
+          className={BUTTON_CLASS_NAME}
+        >
+          Unpin
+        </button>
+        <button
+          type="button"
+          onClick={() => void run({ type: 'archive', archived: !allArchived })}
+          disabled={isWorking}
+          className={BUTTON_CLASS_NAME}
+        >
+          {allArchived ? 'Unarchive' : 'Archive'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpenForm(openForm === 'folder' ? null : 'folder')}
+          disabled={isWorking}
+          className={BUTTON_CLASS_NAME}
+        >
+          Move to folder
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpenForm(openForm === 'tags' ? null : 'tags')}
+          disabled={isWorking}
+          className={BUTTON_CLASS_NAME}
+        >
+          Add tags
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpenForm(openForm === 'delete' ? null : 'delete')}
+          disabled={isWorking}
+          className="rounded-full border border-brand-coral bg-white px-3 py-1.5 text-xs font-medium text-brand-coral transition hover:bg-brand-coral/10 disabled:opacity-50"
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          disabled={isWorking}
+          className="ml-auto text-xs font-medium text-brand-slate hover:underline"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      {openForm === 'folder' ? (
+        <form onSubmit={handleFolderSubmit} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            list={folderListId}
+            value={folderInput}
+            onChange={(event) => setFolderInput(event.target.value)}
+            placeholder="Folder name"
+            className={INPUT_CLASS_NAME}
+          />
+          <datalist id={folderListId}>
+            {folders.map((folder) => (
+              <option key={folder} value={folder} />
+            ))}
+          </datalist>
+          <button type="submit" disabled={isWorking} className={BUTTON_CLASS_NAME}>
+            Move
+          </button>
+          <button
+            type="button"
+            onClick={() => void run({ type: 'folder', folder: null })}
+            disabled={isWorking}
+            className={BUTTON_CLASS_NAME}
+          >
+            Remove from folder
+          </button>
+        </form>
+      ) : null}
+
+      {openForm === 'tags' ? (
+        <form onSubmit={handleTagSubmit} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(event) => setTagInput(event.target.value)}
+            placeholder="Tags, e.g. exam-prep, geometry"
+            className={INPUT_CLASS_NAME}
+          />
+          <button type="submit" disabled={isWorking} className={BUTTON_CLASS_NAME}>
+            Add
+          </button>
+        </form>
+      ) : null}
+
+      {openForm === 'delete' ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-brand-charcoal">
+          Delete {count} {count === 1 ? 'session' : 'sessions'}? This cannot be undone.
+          <button
+            type="button"
+            onClick={() => void handleDelete()}
+            disabled={isWorking}
+            className="rounded-full bg-brand-coral px-3 py-1.5 text-xs font-medium text-white transition hover:bg-brand-coral/90 disabled:opacity-50"
+          >
+            {isWorking ? 'Deleting…' : 'Delete'}
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-sm text-brand-coral">{error}</p> : null}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import type { ChangeEvent } from 'react';
+import {
+  SESSION_SORT_OPTIONS,
+  SESSION_STATUS_OPTIONS,
+  type SessionListView,
+} from '../utils/sessionOrganization';
+
+interface SessionListControlsProps {
+  view: SessionListView;
+  onChange: (view: SessionListView) => void;
+  folders: string[];
+  tags: string[];
+  /** Stacks the controls for narrow containers such as the Tutor sidebar. */
+  compact?: boolean;
+}
+
+const SELECT_CLASS_NAME =
+  'rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky';
+
+/** Status, folder, tag and sort pickers shared by the Dashboard list and the Tutor sidebar. */
+export const SessionListControls = ({
+  view,
+  onChange,
+  folders,
+  tags,
+  compact = false,
+}: SessionListControlsProps) => {
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    onChange({ ...view, [name]: value });
+  };
+
+  return (
+    <div className={`grid gap-3 ${compact ? 'grid-cols-2' : 'sm:grid-cols-2 lg:grid-cols-4'}`}>
+      <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+        Show
+        <select
+          name="status"
+          value={view.status}
+          onChange={handleChange}
+          className={SELECT_CLASS_NAME}
+        >
+          {SESSION_STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+        Sort by
+        <select name="sort" value={view.sort} onChange={handleChange} className={SELECT_CLASS_NAME}>
+          {SESSION_SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+        Folder
+        <select
+          name="folder"
+          value={view.folder}
+          onChange={handleChange}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="all">All folders</option>
+          <option value="none">Not in a folder</option>
+          {folders.map((folder) => (
+            <option key={folder} value={folder}>
+              {folder}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+        Tag
+        <select name="tag" value={view.tag} onChange={handleChange} className={SELECT_CLASS_NAME}>
+          <option value="all">All tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              #{tag}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
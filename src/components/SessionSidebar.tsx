@@ -0,0 +1,100 @@
+import { useMemo, useState } from 'react';
+import { formatRelativeTime } from '../utils/formatters';
+import {
+  DEFAULT_SESSION_LIST_VIEW,
+  collectFolders,
+  collectTags,
+  organizeSessions,
+  type OrganizableSession,
+  type SessionListView,
+} from '../utils/sessionOrganization';
+import { SessionBadges } from './SessionBadges';
+import { SessionBulkActions } from './SessionBulkActions';
+import { SessionListControls } from './SessionListControls';
+
+interface SessionSidebarProps {
+  userId: string;
+  sessions: OrganizableSession[];
+  activeSessionId: string | null;
+  onSelect: (sessionId: string) => void;
+}
+
+/** The Tutor's session switcher, with the same filters and bulk actions as the Dashboard. */
+export const SessionSidebar = ({
+  userId,
+  sessions,
+  activeSessionId,
+  onSelect,
+}: SessionSidebarProps) => {
+  const [view, setView] = useState<SessionListView>(DEFAULT_SESSION_LIST_VIEW);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const visibleSessions = useMemo(() => organizeSessions(sessions, view), [sessions, view]);
+  const folders = useMemo(() => collectFolders(sessions), [sessions]);
+  const tags = useMemo(() => collectTags(sessions), [sessions]);
+  const selectedSessions = sessions.filter((session) => selectedIds.includes(session.id));
+
+  const toggleSelected = (sessionId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(sessionId) ? prev.filter((id) => id !== sessionId) : [...prev, sessionId],
+    );
+  };
+
+  return (
+    <aside className="flex max-h-96 min-h-0 flex-col gap-3 rounded-2xl border border-brand-mint/60 bg-white p-4 shadow-subtle lg:max-h-none lg:w-72 lg:shrink-0">
+      <h2 className="text-sm font-semibold text-brand-charcoal">Sessions</h2>
+      <SessionListControls view={view} onChange={setView} folders={folders} tags={tags} compact />
+      {selectedSessions.length > 0 ? (
+        <SessionBulkActions
+          userId={userId}
+          selectedIds={selectedSessions.map((session) => session.id)}
+          folders={folders}
+          allArchived={selectedSessions.every((session) => session.archived)}
+          onDone={() => setSelectedIds([])}
+        />
+      ) : null}
+      <ul className="flex min-h-0 flex-1 flex-col gap-2 overflow-y-auto">
+        {visibleSessions.length === 0 ? (
+          <li className="text-xs text-brand-slate">No sessions match these filters.</li>
+        ) : (
+          visibleSessions.map((session) => {
+            const isActive = session.id === activeSessionId;
+            const sessionDate = session.lastUpdated ?? session.createdAt;
+
+            return (
+              <li
+                key={session.id}
+                className={`flex items-start gap-2 rounded-xl border p-2 ${
+                  isActive ? 'border-brand-sky bg-brand-sky/10' : 'border-brand-mint/60'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(session.id)}
+                  onChange={() => toggleSelected(session.id)}
+                  aria-label={`Select ${session.title || 'Untitled Session'}`}
+                  className="mt-1"
+                />
+                <button
+                  type="button"
+                  onClick={() => onSelect(session.id)}
+                  className="flex min-w-0 flex-1 flex-col gap-1 text-left"
+                >
+                  <span className="truncate text-sm font-medium text-brand-charcoal">
+                    {session.title || 'Untitled Session'}
+                  </span>
+                  {sessionDate ? (
+                    <span className="text-xs text-brand-slate">
+                      {formatRelativeTime(sessionDate)}
+                    </span>
+                  ) : null}
+                  <SessionBadges session={session} />
+                </button>
+              </li>
+            );
+          })
+        )}
+      </ul>
+    </aside>
+  );
+};
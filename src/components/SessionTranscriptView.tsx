@@ -0,0 +1,97 @@
+import type { SessionMessage } from '../context/SessionContext';
+import { toDisplayLatex } from '../utils/mathOcr';
+import {
+  messageImageUrls,
+  speakerLabel,
+  splitTranscript,
+  transcriptDetails,
+  transcriptTitle,
+  type SessionTranscript,
+} from '../utils/sessionExport';
+import { MathText } from './MathText';
+
+const TranscriptMessage = ({ message }: { message: SessionMessage }) => (
+  <div className="flex flex-col gap-2">
+    {message.content.trim() ? <MathText content={message.content} /> : null}
+    {messageImageUrls(message).map((url) => (
+      <img
+        key={url}
+        src={url}
+        alt="Uploaded by the student"
+        className="max-h-80 w-fit rounded-lg border border-brand-mint/60 print:max-h-96"
+      />
+    ))}
+    {message.imageLatex ? <MathText content={`$$${toDisplayLatex(message.imageLatex)}$$`} /> : null}
+  </div>
+);
+
+/** Read-only transcript of a tutor session, used by the export page and shared links. */
+export const SessionTranscriptView = ({ transcript }: { transcript: SessionTranscript }) => {
+  const sections = splitTranscript(transcript.messages);
+
+  return (
+    <article className="flex flex-col gap-6 rounded-2xl border border-brand-mint/60 bg-white p-8 text-brand-charcoal shadow-subtle print:rounded-none print:border-0 print:p-0 print:shadow-none">
+      <header>
+        <h1 className="text-2xl font-semibold">{transcriptTitle(transcript)}</h1>
+        <p className="mt-1 text-sm text-brand-slate">{transcriptDetails(transcript)}</p>
+      </header>
+
+      {sections.problem ? (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Problem</h2>
+          <TranscriptMessage message={sections.problem} />
+        </section>
+      ) : null}
+
+      {transcript.steps.length > 0 ? (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Solution steps</h2>
+          <ol className="flex list-decimal flex-col gap-2 pl-6 text-sm">
+            {transcript.steps.map((step) => (
+              <li key={step.id}>
+                <MathText content={step.title} />
+                {step.latex ? <MathText content={`$${step.latex}$`} /> : null}
+                {step.hint ? (
+                  <div className="text-brand-slate">
+                    Hint: <MathText content={step.hint} />
+                  </div>
+                ) : null}
+                {step.completed ? (
+                  <span className="text-xs font-medium text-brand-slate">Completed</span>
+                ) : null}
+              </li>
+            ))}
+          </ol>
+        </section>
+      ) : null}
+
+      {sections.turns.length > 0 ? (
+        <section className="flex flex-col gap-3">
+          <h2 className="text-lg font-semibold">Conversation</h2>
+          {sections.turns.map((message) => (
+            <div
+              key={message.id}
+              className={`flex break-inside-avoid flex-col gap-1 rounded-xl border p-4 text-sm ${
+                message.role === 'user'
+                  ? 'border-brand-sky/40 bg-brand-sky/5'
+                  : 'border-brand-mint/60 bg-brand-background'
+              }`}
+            >
+              <span className="text-xs font-semibold uppercase tracking-wide text-brand-slate">
+                {speakerLabel(message)}
+              </span>
+              <TranscriptMessage message={message} />
+            </div>
+          ))}
+        </section>
+      ) : null}
+
+      {sections.summary ? (
+        <section className="flex break-inside-avoid flex-col gap-2">
+          <h2 className="text-lg font-semibold">Summary</h2>
+          <TranscriptMessage message={sections.summary} />
+        </section>
+      ) : null}
+    </article>
+  );
+};
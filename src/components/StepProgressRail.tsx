@@ -0,0 +1,84 @@
+import type { SessionStep } from '../context/SessionContext';
+import { MathText } from './MathText';
+
+interface StepProgressRailProps {
+  steps: SessionStep[];
+  onToggleUnderstood: (step: SessionStep) => void;
+  disabled?: boolean;
+}
+
+export const StepProgressRail = ({
+  steps,
+  onToggleUnderstood,
+  disabled = false,
+}: StepProgressRailProps) => {
+  const completedCount = steps.filter((step) => step.completed).length;
+  const currentStepId = steps.find((step) => !step.completed)?.id ?? null;
+
+  return (
+    <aside className="flex max-h-64 min-h-0 flex-col rounded-2xl border border-brand-mint/60 bg-white shadow-subtle lg:max-h-none lg:w-72">
+      <header className="flex items-center justify-between border-b border-brand-mint/60 px-4 py-3">
+        <h2 className="text-lg font-semibold text-brand-charcoal">Steps</h2>
+        <span className="rounded-full bg-brand-mint/40 px-3 py-1 text-xs font-medium text-brand-slate">
+          {completedCount} of {steps.length} done
+        </span>
+      </header>
+      <ol className="min-h-0 flex-1 space-y-3 overflow-y-auto p-4">
+        {steps.map((step) => {
+          const isCurrent = step.id === currentStepId;
+          const markerClassName = step.completed
+            ? 'border-brand-sky bg-brand-sky text-white'
+            : isCurrent
+              ? 'border-brand-sky bg-white text-brand-sky'
+              : 'border-brand-mint bg-white text-brand-slate';
+
+          return (
+            <li
+              key={step.id}
+              className={`flex gap-3 rounded-xl p-2 transition ${isCurrent ? 'bg-brand-sky/10' : ''}`}
+            >
+              <span
+                aria-hidden
+                className={`flex size-7 shrink-0 items-center justify-center rounded-full border-2 text-xs font-semibold transition ${markerClassName}`}
+              >
+                {step.completed ? '✓' : step.order}
+              </span>
+              <div className="min-w-0 flex-1 space-y-1">
+                <p
+                  className={`text-sm font-medium ${
+                    step.completed || isCurrent ? 'text-brand-charcoal' : 'text-brand-slate'
+                  }`}
+                >
+                  {step.title}
+                  <span className="sr-only">{step.completed ? ' (completed)' : ''}</span>
+                </p>
+                {step.latex ? <MathText content={`$${step.latex}$`} /> : null}
+                {step.hint && isCurrent ? (
+                  <details className="text-xs text-brand-slate">
+                    <summary className="cursor-pointer font-medium">Hint</summary>
+                    <p className="mt-1">{step.hint}</p>
+                  </details>
+                ) : null}
+                {step.completed ? (
+                  <button
+                    type="button"
+                    onClick={() => onToggleUnderstood(step)}
+                    disabled={disabled}
+                    aria-pressed={Boolean(step.understood)}
+                    className={`rounded-full border px-3 py-1 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-60 ${
+                      step.understood
+                        ? 'border-brand-sky bg-brand-sky/10 text-brand-charcoal'
+                        : 'border-brand-mint/60 text-brand-slate hover:bg-brand-mint/20'
+                    }`}
+                  >
+                    {step.understood ? 'Understood ✓' : 'Mark understood'}
+                  </button>
+                ) : null}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </aside>
+  );
+};
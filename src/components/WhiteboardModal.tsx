@@ -0,0 +1,272 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import {
+  ERASER_WIDTH,
+  PEN_WIDTH,
+  WHITEBOARD_HEIGHT,
+  WHITEBOARD_PAPER_OPTIONS,
+  WHITEBOARD_PEN_COLORS,
+  WHITEBOARD_WIDTH,
+  drawInk,
+  drawPaper,
+  drawStrokeSegment,
+  snapshotWhiteboard,
+  type WhiteboardPaper,
+  type WhiteboardStroke,
+  type WhiteboardTool,
+} from '../utils/whiteboard';
+
+interface WhiteboardModalProps {
+  /** Uploads the snapshot as the message's pending image; the modal closes once it resolves. */
+  onAttach: (file: File) => Promise<void>;
+  onClose: () => void;
+}
+
+const TOOL_BUTTON_CLASS_NAME =
+  'rounded-full border px-3 py-1.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50';
+
+const toolButtonClassName = (isActive: boolean) =>
+  `${TOOL_BUTTON_CLASS_NAME} ${
+    isActive
+      ? 'border-brand-sky bg-brand-sky text-white'
+      : 'border-brand-slate/40 bg-white text-brand-slate hover:bg-brand-background'
+  }`;
+
+/** A drawing canvas for showing handwritten work; the snapshot is sent like an uploaded photo. */
+export const WhiteboardModal = ({ onAttach, onClose }: WhiteboardModalProps) => {
+  const [tool, setTool] = useState<WhiteboardTool>('pen');
+  const [color, setColor] = useState(WHITEBOARD_PEN_COLORS[0].value);
+  const [paper, setPaper] = useState<WhiteboardPaper>('grid');
+  const [strokes, setStrokes] = useState<WhiteboardStroke[]>([]);
+  // Each entry is the stroke list before an edit, so undo also brings back a cleared board.
+  const [history, setHistory] = useState<WhiteboardStroke[][]>([]);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const paperCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const inkCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const currentStrokeRef = useRef<WhiteboardStroke | null>(null);
+
+  useEffect(() => {
+    const context = paperCanvasRef.current?.getContext('2d');
+    if (context) {
+      drawPaper(context, paper);
+    }
+  }, [paper]);
+
+  useEffect(() => {
+    const context = inkCanvasRef.current?.getContext('2d');
+    if (context) {
+      drawInk(context, strokes);
+    }
+  }, [strokes]);
+
+  const toCanvasPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * WHITEBOARD_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * WHITEBOARD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (isAttaching || (event.pointerType === 'mouse' && event.button !== 0)) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const stroke: WhiteboardStroke = {
+      tool,
+      color: tool === 'eraser' ? '#000000' : color,
+      width: tool === 'eraser' ? ERASER_WIDTH : PEN_WIDTH,
+      points: [toCanvasPoint(event)],
+    };
+    currentStrokeRef.current = stroke;
+    const context = event.currentTarget.getContext('2d');
+    if (context) {
+      drawStrokeSegment(context, stroke);
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) {
+      return;
+    }
+    stroke.points.push(toCanvasPoint(event));
+    const context = event.currentTarget.getContext('2d');
+    if (context) {
+      drawStrokeSegment(context, stroke);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) {
+      return;
+    }
+    currentStrokeRef.current = null;
+    setHistory((prev) => [...prev, strokes]);
+    setStrokes((prev) => [...prev, stroke]);
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) {
+      return;
+    }
+    setHistory(history.slice(0, -1));
+    setStrokes(previous);
+  };
+
+  const handleClear = () => {
+    if (strokes.length === 0) {
+      return;
+    }
+    setHistory((prev) => [...prev, strokes]);
+    setStrokes([]);
+  };
+
+  const handleAttach = async () => {
+    const ink = inkCanvasRef.current;
+    if (!ink) {
+      return;
+    }
+    setIsAttaching(true);
+    setError(null);
+    try {
+      const file = await snapshotWhiteboard(ink, paper);
+      await onAttach(file);
+      onClose();
+    } catch (attachError) {
+      console.error('Failed to attach whiteboard', attachError);
+      setError('We could not attach your drawing. Please try again.');
+      setIsAttaching(false);
+    }
+  };
+
+  const hasInk = strokes.some((stroke) => stroke.tool === 'pen');
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-full w-full max-w-4xl flex-col gap-4 overflow-y-auto rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
+        <div>
+          <h3 className="text-lg font-semibold text-brand-charcoal">Whiteboard</h3>
+          <p className="mt-1 text-sm text-brand-slate">
+            Write out your steps by hand. MathMate reviews the drawing like an uploaded photo.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setTool('pen')}
+            className={toolButtonClassName(tool === 'pen')}
+            aria-pressed={tool === 'pen'}
+          >
+            ✏️ Pen
+          </button>
+          <button
+            type="button"
+            onClick={() => setTool('eraser')}
+            className={toolButtonClassName(tool === 'eraser')}
+            aria-pressed={tool === 'eraser'}
+          >
+            🧽 Eraser
+          </button>
+          {WHITEBOARD_PEN_COLORS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => {
+                setColor(option.value);
+                setTool('pen');
+              }}
+              className={`size-7 rounded-full border-2 transition ${
+                tool === 'pen' && color === option.value
+                  ? 'border-brand-sky ring-2 ring-brand-sky/40'
+                  : 'border-white'
+              }`}
+              style={{ backgroundColor: option.value }}
+              aria-label={`${option.label} pen`}
+              aria-pressed={tool === 'pen' && color === option.value}
+            />
+          ))}
+          <span className="mx-1 h-6 w-px bg-brand-mint/80" aria-hidden />
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={history.length === 0 || isAttaching}
+            className={toolButtonClassName(false)}
+          >
+            ↶ Undo
+          </button>
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={strokes.length === 0 || isAttaching}
+            className={toolButtonClassName(false)}
+          >
+            Clear
+          </button>
+          <label className="ml-auto flex items-center gap-2 text-xs font-medium text-brand-slate">
+            Paper
+            <select
+              value={paper}
+              onChange={(event) => setPaper(event.target.value as WhiteboardPaper)}
+              className="rounded-xl border border-brand-mint/60 bg-white px-3 py-1.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky"
+            >
+              {WHITEBOARD_PAPER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="relative aspect-[3/2] w-full overflow-hidden rounded-xl border border-brand-mint/60">
+          <canvas
+            ref={paperCanvasRef}
+            width={WHITEBOARD_WIDTH}
+            height={WHITEBOARD_HEIGHT}
+            className="absolute inset-0 size-full"
+            aria-hidden
+          />
+          <canvas
+            ref={inkCanvasRef}
+            width={WHITEBOARD_WIDTH}
+            height={WHITEBOARD_HEIGHT}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute inset-0 size-full touch-none ${
+              tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'
+            }`}
+            aria-label="Whiteboard drawing area"
+          />
+        </div>
+
+        {error ? <p className="text-sm text-brand-coral">{error}</p> : null}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isAttaching}
+            className="rounded-full border border-brand-slate/40 px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleAttach()}
+            disabled={!hasInk || isAttaching}
+            className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition disabled:cursor-not-allowed disabled:bg-brand-slate"
+          >
+            {isAttaching ? 'Attaching…' : 'Attach to message'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -9,6 +9,10 @@ export interface SessionMessage {
   role: SessionRole;
   content: string;
   imageUrl?: string | null;
+  /** Every attached image. Messages saved before multi-image attachments only have `imageUrl`. */
+  imageUrls?: string[];
+  /** The problem in the attached images as LaTeX, confirmed by the learner from the OCR preview. */
+  imageLatex?: string | null;
   topicId: string | null;
   difficulty?: string | null;
   createdAt: Date | null;
@@ -23,6 +27,9 @@ export interface SessionStep {
   title: string;
   latex?: string;
   hint?: string | null;
+  /** The tutor confirmed the learner worked through this step. */
+  completed?: boolean;
+  /** The learner marked the step as understood. */
   understood?: boolean;
 }
 
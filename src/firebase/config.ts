@@ -1,5 +1,5 @@
 import { getApp, getApps, initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
 
@@ -30,6 +30,16 @@ const firebaseConfig = {
 const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
 
 export const auth = getAuth(app);
+
+// Point Auth at the local emulator so its ID tokens are accepted by the Functions emulator.
+const authEmulatorHost = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST;
+
+if (authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost.replace(/^https?:\/\//, '')}`, {
+    disableWarnings: true,
+  });
+}
+
 export const firestore = getFirestore(app);
 export const storage = getStorage(app);
 export { app };
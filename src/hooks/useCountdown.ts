@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 250;
+
+/**
+ * Whole seconds left until `deadline` (epoch milliseconds), refreshed a few times a second.
+ * Returns null when there is no deadline and 0 once it has passed.
+ */
+export const useCountdown = (deadline: number | null): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline === null) {
+      return;
+    }
+
+    setNow(Date.now());
+    const intervalId = window.setInterval(() => setNow(Date.now()), TICK_MS);
+
+    return () => window.clearInterval(intervalId);
+  }, [deadline]);
+
+  if (deadline === null) {
+    return null;
+  }
+
+  return Math.max(0, Math.ceil((deadline - now) / 1000));
+};
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { useAuth } from '../context/AuthContext';
+import { firestore } from '../firebase';
+import { parseQuizDraft, pickLatestDraft, readCachedQuizDraft } from '../utils/quizDrafts';
+import type { QuizDraft } from '../types/quiz';
+
+interface QuizDraftState {
+  draft: QuizDraft | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: QuizDraftState = {
+  draft: null,
+  loading: true,
+  error: null,
+};
+
+/** The most recently saved in-progress quiz, if any. */
+export const useQuizDraft = () => {
+  const { user } = useAuth();
+  const [state, setState] = useState<QuizDraftState>(initialState);
+
+  useEffect(() => {
+    if (!user) {
+      setState(initialState);
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    // Filtering on status alone avoids a composite index; there is rarely more than one draft.
+    const draftQuery = query(
+      collection(firestore, 'users', user.uid, 'quizzes'),
+      where('status', '==', 'inProgress'),
+    );
+
+    const unsubscribe = onSnapshot(
+      draftQuery,
+      (snapshot) => {
+        const remote = snapshot.docs
+          .flatMap((docSnapshot) => {
+            const draft = parseQuizDraft(docSnapshot.data(), docSnapshot.id);
+            return draft ? [draft] : [];
+          })
+          .reduce<QuizDraft | null>(
+            (latest, draft) => (!latest || draft.savedAt > latest.savedAt ? draft : latest),
+            null,
+          );
+
+        setState({
+          draft: pickLatestDraft(remote, readCachedQuizDraft(user.uid)),
+          loading: false,
+          error: null,
+        });
+      },
+      (error) => {
+        console.error('Failed to subscribe to quiz drafts', error);
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: error as Error,
+        }));
+      },
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  return state;
+};
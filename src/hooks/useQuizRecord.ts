@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot, Timestamp } from 'firebase/firestore';
+import { useAuth } from '../context/AuthContext';
+import { firestore } from '../firebase';
+import { parseRetakeSource } from '../utils/quizRetakes';
+import type { ProblemDifficulty } from '../types/problem';
+import type { QuizQuestionEvaluation, StoredQuizQuestion, StoredQuizRecord } from '../types/quiz';
+
+interface QuizRecordState {
+  record: StoredQuizRecord | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: QuizRecordState = {
+  record: null,
+  loading: true,
+  error: null,
+};
+
+const isDifficulty = (value: unknown): value is ProblemDifficulty =>
+  value === 'beginner' || value === 'intermediate' || value === 'advanced';
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const toStoredQuestion = (value: unknown): StoredQuizQuestion | null => {
+  const record = (value ?? {}) as Partial<StoredQuizQuestion>;
+
+  if (typeof record.id !== 'string' || typeof record.problemText !== 'string') {
+    return null;
+  }
+
+  // Quizzes are only stored once graded, but old records may lack newer evaluation fields.
+  const evaluation: QuizQuestionEvaluation =
+    record.evaluation && typeof record.evaluation === 'object'
+      ? { ...record.evaluation, isCorrect: record.evaluation.isCorrect === true }
+      : { isCorrect: false };
+
+  return {
+    ...record,
+    id: record.id,
+    problemText: record.problemText,
+    topicId: typeof record.topicId === 'string' ? record.topicId : 'general',
+    difficulty: isDifficulty(record.difficulty) ? record.difficulty : 'intermediate',
+    userAnswer: typeof record.userAnswer === 'string' ? record.userAnswer : '',
+    // Firestore keeps the nulls written for absent optional fields.
+    choices: Array.isArray(record.choices) ? record.choices : undefined,
+    parts: Array.isArray(record.parts) ? record.parts : undefined,
+    partAnswers: Array.isArray(record.partAnswers) ? record.partAnswers : undefined,
+    evaluation,
+    timeSpentSeconds: toNumber(record.timeSpentSeconds, 0),
+    flagged: record.flagged === true,
+    timedOut: record.timedOut === true,
+  };
+};
+
+/** One completed quiz with every question, for the history detail view. */
+export const useQuizRecord = (quizId: string | undefined) => {
+  const { user } = useAuth();
+  const [state, setState] = useState<QuizRecordState>(initialState);
+
+  useEffect(() => {
+    if (!user || !quizId) {
+      setState({ ...initialState, loading: false });
+      return;
+    }
+
+    setState(initialState);
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'users', user.uid, 'quizzes', quizId),
+      (snapshot) => {
+        const data = snapshot.data() as
+          | (Omit<StoredQuizRecord, 'createdAt' | 'completedAt' | 'questions'> & {
+              status?: unknown;
+              questions?: unknown;
+              createdAt?: Timestamp | null;
+              completedAt?: Timestamp | null;
+            })
+          | undefined;
+
+        // Drafts share the collection but are not part of the history.
+        if (!data || data.status === 'inProgress') {
+          setState({ record: null, loading: false, error: null });
+          return;
+        }
+
+        const questions = Array.isArray(data.questions)
+          ? data.questions.flatMap((item: unknown) => {
+              const question = toStoredQuestion(item);
+              return question ? [question] : [];
+            })
+          : [];
+
+        setState({
+          record: {
+            topicId: typeof data.topicId === 'string' ? data.topicId : null,
+            difficulty: isDifficulty(data.difficulty) ? data.difficulty : 'intermediate',
+            mode: data.mode === 'adaptive' ? 'adaptive' : 'fixed',
+            skillEstimate: typeof data.skillEstimate === 'number' ? data.skillEstimate : null,
+            timerMode:
+              data.timerMode === 'overall' || data.timerMode === 'perQuestion'
+                ? data.timerMode
+                : 'untimed',
+            timeLimitSeconds:
+              typeof data.timeLimitSeconds === 'number' ? data.timeLimitSeconds : null,
+            timedOut: data.timedOut === true,
+            retakeOf: parseRetakeSource(data.retakeOf),
+            totalQuestions: toNumber(data.totalQuestions, questions.length),
+            correctCount: toNumber(data.correctCount, 0),
+            scorePercent: toNumber(data.scorePercent, 0),
+            createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
+            completedAt: data.completedAt instanceof Timestamp ? data.completedAt.toDate() : null,
+            questions,
+          },
+          loading: false,
+          error: null,
+        });
+      },
+      (error) => {
+        console.error('Failed to load quiz record', error);
+        setState({ record: null, loading: false, error: error as Error });
+      },
+    );
+
+    return () => unsubscribe();
+  }, [user, quizId]);
+
+  return state;
+};
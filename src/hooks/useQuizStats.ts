@@ -3,14 +3,19 @@ import { collection, onSnapshot, orderBy, query, Timestamp } from 'firebase/fire
 import { useAuth } from '../context/AuthContext';
 import { firestore } from '../firebase';
 import { aggregateQuizStats } from '../utils/quizStatsAggregator';
+import type { ProblemDifficulty } from '../types/problem';
 import type { QuizAggregatedStats, QuizResultRecord, QuizStatsState } from '../types/quiz';
 
 const initialStats: QuizAggregatedStats = {
   totalQuizzes: 0,
   averageScore: 0,
   recentScore: null,
+  averageSecondsPerQuestion: null,
 };
 
+const isDifficulty = (value: unknown): value is ProblemDifficulty =>
+  value === 'beginner' || value === 'intermediate' || value === 'advanced';
+
 const initialState: QuizStatsState = {
   summaries: [],
   stats: initialStats,
@@ -31,6 +36,7 @@ export const useQuizStats = () => {
     setState((prev) => ({ ...prev, loading: true, error: null }));
 
     const quizzesCollection = collection(firestore, 'users', user.uid, 'quizzes');
+    // Ordering on completedAt also leaves out in-progress drafts, which have no completedAt yet.
     const quizzesQuery = query(quizzesCollection, orderBy('completedAt', 'desc'));
 
     const unsubscribe = onSnapshot(
@@ -50,6 +56,10 @@ export const useQuizStats = () => {
           const data = docSnapshot.data() as {
             topicId?: unknown;
             difficulty?: unknown;
+            mode?: unknown;
+            timerMode?: unknown;
+            skillEstimate?: unknown;
+            questions?: unknown;
             totalQuestions?: unknown;
             correctCount?: unknown;
             scorePercent?: unknown;
@@ -69,16 +79,45 @@ export const useQuizStats = () => {
             typeof data.scorePercent === 'number' && Number.isFinite(data.scorePercent)
               ? data.scorePercent
               : 0;
+          const questions = Array.isArray(data.questions)
+            ? data.questions.map(
+                (question: unknown) =>
+                  (question ?? {}) as { difficulty?: unknown; timeSpentSeconds?: unknown },
+              )
+            : [];
+          const difficultyTrajectory = questions.flatMap((question): ProblemDifficulty[] =>
+            isDifficulty(question.difficulty) ? [question.difficulty] : [],
+          );
+          const questionTimes = questions.flatMap((question) =>
+            typeof question.timeSpentSeconds === 'number' &&
+            Number.isFinite(question.timeSpentSeconds)
+              ? [question.timeSpentSeconds]
+              : [],
+          );
+          const totalTimeSeconds =
+            questionTimes.length > 0
+              ? questionTimes.reduce((total, seconds) => total + seconds, 0)
+              : null;
 
           return {
             id: docSnapshot.id,
             topicId: typeof data.topicId === 'string' ? data.topicId : null,
-            difficulty:
-              data.difficulty === 'beginner' ||
-              data.difficulty === 'intermediate' ||
-              data.difficulty === 'advanced'
-                ? data.difficulty
-                : 'intermediate',
+            difficulty: isDifficulty(data.difficulty) ? data.difficulty : 'intermediate',
+            mode: data.mode === 'adaptive' ? 'adaptive' : 'fixed',
+            skillEstimate:
+              typeof data.skillEstimate === 'number' && Number.isFinite(data.skillEstimate)
+                ? data.skillEstimate
+                : null,
+            difficultyTrajectory,
+            timerMode:
+              data.timerMode === 'overall' || data.timerMode === 'perQuestion'
+                ? data.timerMode
+                : 'untimed',
+            totalTimeSeconds,
+            averageSecondsPerQuestion:
+              totalTimeSeconds !== null && questionTimes.length > 0
+                ? totalTimeSeconds / questionTimes.length
+                : null,
             totalQuestions,
             correctCount,
             scorePercent,
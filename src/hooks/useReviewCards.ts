@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
+import { useAuth } from '../context/AuthContext';
+import { firestore } from '../firebase';
+import { isReviewDue } from '../utils/reviewScheduler';
+import type { ProblemDifficulty } from '../types/problem';
+import type { ReviewCard } from '../types/review';
+
+interface ReviewCardsState {
+  cards: ReviewCard[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: ReviewCardsState = {
+  cards: [],
+  loading: true,
+  error: null,
+};
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+export const useReviewCards = () => {
+  const { user } = useAuth();
+  const [state, setState] = useState<ReviewCardsState>(initialState);
+
+  useEffect(() => {
+    if (!user) {
+      setState(initialState);
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    const cardsQuery = query(
+      collection(firestore, 'users', user.uid, 'reviewCards'),
+      orderBy('dueAt', 'asc'),
+    );
+
+    const unsubscribe = onSnapshot(
+      cardsQuery,
+      (snapshot) => {
+        const cards = snapshot.docs.flatMap((docSnapshot): ReviewCard[] => {
+          // Cards written a moment ago still have a pending server timestamp for dueAt.
+          const data = docSnapshot.data({ serverTimestamps: 'estimate' }) as {
+            problemText?: unknown;
+            topicId?: unknown;
+            subtopic?: unknown;
+            difficulty?: unknown;
+            sourceQuizId?: unknown;
+            sourceQuestionId?: unknown;
+            easeFactor?: unknown;
+            intervalDays?: unknown;
+            repetitions?: unknown;
+            lapses?: unknown;
+            dueAt?: Timestamp | null;
+            lastReviewedAt?: Timestamp | null;
+          };
+
+          if (typeof data.problemText !== 'string' || !data.problemText.trim()) {
+            return [];
+          }
+
+          const difficulty: ProblemDifficulty =
+            data.difficulty === 'beginner' || data.difficulty === 'advanced'
+              ? data.difficulty
+              : 'intermediate';
+
+          return [
+            {
+              id: docSnapshot.id,
+              problemText: data.problemText,
+              topicId: typeof data.topicId === 'string' ? data.topicId : 'general',
+              subtopic: typeof data.subtopic === 'string' ? data.subtopic : null,
+              difficulty,
+              sourceQuizId: typeof data.sourceQuizId === 'string' ? data.sourceQuizId : '',
+              sourceQuestionId:
+                typeof data.sourceQuestionId === 'string' ? data.sourceQuestionId : '',
+              easeFactor: toNumber(data.easeFactor, 2.5),
+              intervalDays: toNumber(data.intervalDays, 0),
+              repetitions: toNumber(data.repetitions, 0),
+              lapses: toNumber(data.lapses, 0),
+              dueAt: data.dueAt instanceof Timestamp ? data.dueAt.toDate() : new Date(),
+              lastReviewedAt:
+                data.lastReviewedAt instanceof Timestamp ? data.lastReviewedAt.toDate() : null,
+            },
+          ];
+        });
+
+        setState({ cards, loading: false, error: null });
+      },
+      (error) => {
+        console.error('Failed to subscribe to review cards', error);
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: error as Error,
+        }));
+      },
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  const dueCards = useMemo(() => {
+    const now = new Date();
+    return state.cards.filter((card) => isReviewDue(card, now));
+  }, [state.cards]);
+
+  return useMemo(
+    () => ({
+      cards: state.cards,
+      dueCards,
+      loading: state.loading,
+      error: state.error,
+    }),
+    [dueCards, state],
+  );
+};
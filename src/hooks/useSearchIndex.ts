@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { collection, getDocs, type DocumentData } from 'firebase/firestore';
+import { useAuth } from '../context/AuthContext';
+import { firestore } from '../firebase';
+import { getTopicLabel } from '../utils/problemGenerator';
+import { fullQuestionText } from '../utils/questionText';
+import { buildSearchIndex, type SearchDocument, type SearchIndex } from '../utils/searchIndex';
+import { toOptionalDate, toOptionalText } from '../utils/sessionExport';
+import type { QuizQuestion } from '../types/quiz';
+
+interface SearchIndexState {
+  index: SearchIndex | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: SearchIndexState = {
+  index: null,
+  loading: true,
+  error: null,
+};
+
+const loadSessionDocuments = async (userId: string): Promise<SearchDocument[]> => {
+  const sessionsSnapshot = await getDocs(collection(firestore, 'users', userId, 'sessions'));
+
+  const perSession = await Promise.all(
+    sessionsSnapshot.docs.map(async (sessionSnapshot) => {
+      const session = sessionSnapshot.data();
+      const sessionId = sessionSnapshot.id;
+      const title = toOptionalText(session.title) ?? 'Untitled Session';
+      const base = {
+        title,
+        topicId: toOptionalText(session.topicId),
+        difficulty: toOptionalText(session.difficulty),
+        target: { type: 'session', sessionId } as const,
+      };
+      const [messagesSnapshot, ocrSnapshot] = await Promise.all([
+        getDocs(collection(sessionSnapshot.ref, 'messages')),
+        getDocs(collection(sessionSnapshot.ref, 'ocrLogs')),
+      ]);
+
+      const documents: SearchDocument[] = [
+        {
+          ...base,
+          id: sessionId,
+          kind: 'session',
+          text: [title, toOptionalText(session.subtopic)].filter(Boolean).join(' · '),
+          date: toOptionalDate(session.lastUpdated) ?? toOptionalDate(session.createdAt),
+        },
+      ];
+
+      messagesSnapshot.docs.forEach((messageSnapshot) => {
+        const content = toOptionalText(messageSnapshot.get('content'));
+        if (content) {
+          documents.push({
+            ...base,
+            id: `${sessionId}/${messageSnapshot.id}`,
+            kind: 'message',
+            text: content,
+            date: toOptionalDate(messageSnapshot.get('createdAt')),
+          });
+        }
+      });
+
+      ocrSnapshot.docs.forEach((ocrLog) => {
+        const text = toOptionalText(ocrLog.get('text'));
+        if (text) {
+          documents.push({
+            ...base,
+            id: `${sessionId}/ocr/${ocrLog.id}`,
+            kind: 'ocr',
+            text,
+            date: toOptionalDate(ocrLog.get('createdAt')),
+          });
+        }
+      });
+
+      return documents;
+    }),
+  );
+
+  return perSession.flat();
+};
+
+const toQuizDocuments = (quizId: string, quiz: DocumentData): SearchDocument[] => {
+  // Drafts are still being taken; only graded quizzes are part of the history.
+  if (quiz.status === 'inProgress' || !Array.isArray(quiz.questions)) {
+    return [];
+  }
+
+  const title = `${getTopicLabel(toOptionalText(quiz.topicId)) ?? 'Mixed topics'} quiz`;
+  const date = toOptionalDate(quiz.completedAt) ?? toOptionalDate(quiz.createdAt);
+
+  return (quiz.questions as unknown[]).flatMap((value, index) => {
+    const question = (value ?? {}) as Partial<QuizQuestion> & {
+      evaluation?: { explanation?: unknown };
+    };
+    if (typeof question.problemText !== 'string') {
+      return [];
+    }
+
+    return [
+      {
+        id: `${quizId}/${question.id ?? index}`,
+        kind: 'quiz',
+        title,
+        text: [
+          fullQuestionText({
+            problemText: question.problemText,
+            format: question.format,
+            choices: Array.isArray(question.choices) ? question.choices : undefined,
+            parts: Array.isArray(question.parts) ? question.parts : undefined,
+          }),
+          toOptionalText(question.evaluation?.explanation),
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+        topicId: toOptionalText(question.topicId),
+        difficulty: toOptionalText(question.difficulty),
+        date,
+        target: { type: 'quiz', quizId },
+      },
+    ];
+  });
+};
+
+/**
+ * Reads every session (with its messages and OCR logs) and every graded quiz once, and indexes
+ * them for `/search`. The index lives only in memory for the visit to the page.
+ */
+export const useSearchIndex = () => {
+  const { user } = useAuth();
+  const [state, setState] = useState<SearchIndexState>(initialState);
+
+  useEffect(() => {
+    if (!user) {
+      setState({ ...initialState, loading: false });
+      return;
+    }
+
+    let cancelled = false;
+    setState(initialState);
+
+    const load = async () => {
+      const [sessionDocuments, quizzesSnapshot] = await Promise.all([
+        loadSessionDocuments(user.uid),
+        getDocs(collection(firestore, 'users', user.uid, 'quizzes')),
+      ]);
+      const quizDocuments = quizzesSnapshot.docs.flatMap((quizSnapshot) =>
+        toQuizDocuments(quizSnapshot.id, quizSnapshot.data()),
+      );
+      return buildSearchIndex([...sessionDocuments, ...quizDocuments]);
+    };
+
+    load()
+      .then((index) => {
+        if (!cancelled) {
+          setState({ index, loading: false, error: null });
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to build search index', error);
+        if (!cancelled) {
+          setState({ index: null, loading: false, error: error as Error });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return state;
+};
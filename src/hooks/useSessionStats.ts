@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { collection, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
 import { useAuth } from '../context/AuthContext';
 import { firestore } from '../firebase';
+import { parseSessionOrganization } from '../utils/sessionOrganization';
 import {
   aggregateStats,
   calculateStreaks,
@@ -117,6 +118,7 @@ export const useSessionStats = () => {
             difficulty: rawDifficulty || null,
             stats: normalizedStats,
             completed,
+            ...parseSessionOrganization(docSnapshot.data()),
           } satisfies SessionSummary;
         });
 
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { collection, doc, getDoc, getDocs, orderBy, query } from 'firebase/firestore';
+import { useAuth } from '../context/AuthContext';
+import { firestore } from '../firebase';
+import {
+  parseTranscriptMessage,
+  parseTranscriptStep,
+  toOptionalDate,
+  toOptionalText,
+  type SessionTranscript,
+} from '../utils/sessionExport';
+
+interface SessionTranscriptState {
+  transcript: SessionTranscript | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: SessionTranscriptState = {
+  transcript: null,
+  loading: true,
+  error: null,
+};
+
+/**
+ * A tutor session with its messages and solution steps, read once for exporting. Unlike the
+ * Tutor page this does not follow live updates, so an export matches what was on screen.
+ */
+export const useSessionTranscript = (sessionId: string | undefined) => {
+  const { user } = useAuth();
+  const [state, setState] = useState<SessionTranscriptState>(initialState);
+
+  useEffect(() => {
+    if (!user || !sessionId) {
+      setState({ ...initialState, loading: false });
+      return;
+    }
+
+    let cancelled = false;
+    setState(initialState);
+
+    const load = async () => {
+      const sessionRef = doc(firestore, 'users', user.uid, 'sessions', sessionId);
+      const [sessionSnapshot, messagesSnapshot, stepsSnapshot] = await Promise.all([
+        getDoc(sessionRef),
+        getDocs(query(collection(sessionRef, 'messages'), orderBy('createdAt', 'asc'))),
+        getDocs(query(collection(sessionRef, 'steps'), orderBy('order', 'asc'))),
+      ]);
+
+      if (!sessionSnapshot.exists()) {
+        return null;
+      }
+
+      const data = sessionSnapshot.data();
+      return {
+        id: sessionSnapshot.id,
+        title: toOptionalText(data.title),
+        topicId: toOptionalText(data.topicId),
+        subtopic: toOptionalText(data.subtopic),
+        difficulty: toOptionalText(data.difficulty),
+        createdAt: toOptionalDate(data.createdAt),
+        messages: messagesSnapshot.docs.map((message) =>
+          parseTranscriptMessage(message.id, message.data()),
+        ),
+        steps: stepsSnapshot.docs.flatMap((step) => {
+          const parsed = parseTranscriptStep(step.id, step.data());
+          return parsed ? [parsed] : [];
+        }),
+        shareId: toOptionalText(data.shareId),
+      } satisfies SessionTranscript;
+    };
+
+    load()
+      .then((transcript) => {
+        if (!cancelled) {
+          setState({ transcript, loading: false, error: null });
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load session transcript', error);
+        if (!cancelled) {
+          setState({ transcript: null, loading: false, error: error as Error });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, sessionId]);
+
+  return state;
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { firestore } from '../firebase';
+import type { SessionTranscript } from '../utils/sessionExport';
+import { parseSharedTranscript } from '../utils/sessionShares';
+
+interface SharedSessionState {
+  transcript: SessionTranscript | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: SharedSessionState = {
+  transcript: null,
+  loading: true,
+  error: null,
+};
+
+/** A shared session snapshot; needs no sign-in and disappears as soon as the share is revoked. */
+export const useSharedSession = (shareId: string | undefined) => {
+  const [state, setState] = useState<SharedSessionState>(initialState);
+
+  useEffect(() => {
+    if (!shareId) {
+      setState({ ...initialState, loading: false });
+      return;
+    }
+
+    setState(initialState);
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'shares', shareId),
+      (snapshot) => {
+        const data = snapshot.data();
+        setState({
+          transcript: data ? parseSharedTranscript(snapshot.id, data) : null,
+          loading: false,
+          error: null,
+        });
+      },
+      (error) => {
+        console.error('Failed to load shared session', error);
+        setState({ transcript: null, loading: false, error: error as Error });
+      },
+    );
+
+    return () => unsubscribe();
+  }, [shareId]);
+
+  return state;
+};
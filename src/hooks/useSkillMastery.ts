@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, Timestamp } from 'firebase/firestore';
+import { useAuth } from '../context/AuthContext';
+import { firestore } from '../firebase';
+import { computeFrontier } from '../utils/skillMastery';
+import type { SkillMasteryRecord } from '../types/skill';
+
+interface SkillMasteryState {
+  records: Record<string, SkillMasteryRecord>;
+  loading: boolean;
+  error: Error | null;
+}
+
+const initialState: SkillMasteryState = {
+  records: {},
+  loading: true,
+  error: null,
+};
+
+const toCount = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+export const useSkillMastery = () => {
+  const { user } = useAuth();
+  const [state, setState] = useState<SkillMasteryState>(initialState);
+
+  useEffect(() => {
+    if (!user) {
+      setState(initialState);
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    const masteryCollection = collection(firestore, 'users', user.uid, 'skillMastery');
+
+    const unsubscribe = onSnapshot(
+      masteryCollection,
+      (snapshot) => {
+        const records: Record<string, SkillMasteryRecord> = {};
+
+        snapshot.forEach((docSnapshot) => {
+          const data = docSnapshot.data() as {
+            attempts?: unknown;
+            correct?: unknown;
+            lastPracticedAt?: Timestamp | null;
+          };
+
+          records[docSnapshot.id] = {
+            skillId: docSnapshot.id,
+            attempts: toCount(data.attempts),
+            correct: toCount(data.correct),
+            lastPracticedAt:
+              data.lastPracticedAt instanceof Timestamp ? data.lastPracticedAt.toDate() : null,
+          };
+        });
+
+        setState({ records, loading: false, error: null });
+      },
+      (error) => {
+        console.error('Failed to subscribe to skill mastery', error);
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: error as Error,
+        }));
+      },
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  const frontier = useMemo(() => computeFrontier(state.records), [state.records]);
+
+  return useMemo(
+    () => ({
+      records: state.records,
+      frontier,
+      loading: state.loading,
+      error: state.error,
+    }),
+    [frontier, state],
+  );
+};
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// The Web Speech API's recognition half is not in TypeScript's DOM lib, so describe the parts we use.
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionErrorEventLike {
+  error: string;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+const describeRecognitionError = (error: string) => {
+  switch (error) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return 'Microphone access is blocked. Allow it in your browser settings to dictate.';
+    case 'no-speech':
+      return 'We did not hear anything. Hold the button while you speak.';
+    case 'audio-capture':
+      return 'No microphone was found.';
+    case 'network':
+      return 'Speech recognition needs a network connection.';
+    default:
+      return 'Speech recognition stopped unexpectedly. Please try again.';
+  }
+};
+
+/**
+ * Push-to-talk dictation: `start` while the learner holds the button, `stop` when they let go.
+ * `onTranscript` receives everything said in between once recognition has finished.
+ */
+export const useSpeechRecognition = (onTranscript: (transcript: string) => void) => {
+  const [isListening, setIsListening] = useState(false);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const finalTranscriptRef = useRef('');
+  const onTranscriptRef = useRef(onTranscript);
+  const isSupported = getSpeechRecognition() !== null;
+
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+  }, [onTranscript]);
+
+  useEffect(
+    () => () => {
+      recognitionRef.current?.abort();
+    },
+    [],
+  );
+
+  const start = useCallback(() => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition || recognitionRef.current) {
+      return;
+    }
+
+    const recognition = new Recognition();
+    recognition.lang = navigator.language || 'en-US';
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    finalTranscriptRef.current = '';
+
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let index = event.resultIndex; index < event.results.length; index += 1) {
+        const result = event.results[index];
+        if (result.isFinal) {
+          finalTranscriptRef.current += ` ${result[0].transcript}`;
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      setInterimTranscript(interim);
+    };
+
+    recognition.onerror = (event) => {
+      // Releasing the button before speaking aborts recognition; that is not worth a message.
+      if (event.error !== 'aborted') {
+        setError(describeRecognitionError(event.error));
+      }
+    };
+
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setIsListening(false);
+      setInterimTranscript('');
+      const transcript = finalTranscriptRef.current.trim();
+      finalTranscriptRef.current = '';
+      if (transcript) {
+        onTranscriptRef.current(transcript);
+      }
+    };
+
+    try {
+      recognition.start();
+      recognitionRef.current = recognition;
+      setError(null);
+      setIsListening(true);
+    } catch (startError) {
+      console.error('Failed to start speech recognition', startError);
+      setError(describeRecognitionError('start'));
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  return { isSupported, isListening, interimTranscript, error, start, stop };
+};
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const isSpeechSynthesisSupported = () =>
+  typeof window !== 'undefined' &&
+  'speechSynthesis' in window &&
+  typeof window.SpeechSynthesisUtterance === 'function';
+
+// Some browsers cut a single long utterance off after about 15 seconds, so queue one per sentence.
+const splitSentences = (text: string) =>
+  (text.match(/[^.!?]+[.!?]*/g) ?? [text]).map((sentence) => sentence.trim()).filter(Boolean);
+
+/** Reads text aloud, one message at a time; `speakingId` is the message being read. */
+export const useSpeechSynthesis = () => {
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const speakingIdRef = useRef<string | null>(null);
+  const isSupported = isSpeechSynthesisSupported();
+
+  const stop = useCallback(() => {
+    if (!isSpeechSynthesisSupported()) {
+      return;
+    }
+    speakingIdRef.current = null;
+    setSpeakingId(null);
+    window.speechSynthesis.cancel();
+  }, []);
+
+  const speak = useCallback((id: string, text: string) => {
+    if (!isSpeechSynthesisSupported() || !text.trim()) {
+      return;
+    }
+
+    window.speechSynthesis.cancel();
+    speakingIdRef.current = id;
+    setSpeakingId(id);
+
+    const sentences = splitSentences(text);
+    sentences.forEach((sentence, index) => {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.lang = navigator.language || 'en-US';
+      if (index === sentences.length - 1) {
+        utterance.onend = () => {
+          // A newer message may have started reading since this one was queued.
+          if (speakingIdRef.current === id) {
+            speakingIdRef.current = null;
+            setSpeakingId(null);
+          }
+        };
+      }
+      utterance.onerror = (event) => {
+        if (event.error !== 'canceled' && event.error !== 'interrupted') {
+          console.error('Failed to read message aloud', event.error);
+        }
+        if (speakingIdRef.current === id) {
+          speakingIdRef.current = null;
+          setSpeakingId(null);
+        }
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return { isSupported, speakingId, speak, stop };
+};
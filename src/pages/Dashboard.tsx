@@ -1,6 +1,5 @@
 import {
   collection,
-  deleteDoc,
   doc,
   getDocs,
   limit,
@@ -11,17 +10,52 @@ import {
   updateDoc,
 } from 'firebase/firestore';
 import { useMemo, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useSessionStore } from '../context/SessionContext';
+import { useUIStore, type WorkspaceTab } from '../context/UIContext';
 import { firestore } from '../firebase';
+import { FrontierPanel } from '../components/FrontierPanel';
 import { ProtectedRoute } from '../components/ProtectedRoute';
+import { ReviewQueuePanel } from '../components/ReviewQueuePanel';
+import { SessionBadges } from '../components/SessionBadges';
+import { SessionBulkActions } from '../components/SessionBulkActions';
+import { SessionListControls } from '../components/SessionListControls';
 import { useUserDoc } from '../hooks/useUserDoc';
 import { useSessionStats } from '../hooks/useSessionStats';
 import { useQuizStats } from '../hooks/useQuizStats';
+import { useQuizDraft } from '../hooks/useQuizDraft';
+import { useSkillMastery } from '../hooks/useSkillMastery';
+import { useReviewCards } from '../hooks/useReviewCards';
 import { useUserStatsSync } from '../hooks/useUserStatsSync';
 import { formatDuration, formatRelativeTime } from '../utils/formatters';
 import type { SessionSummary } from '../utils/statsAggregator';
+import { describeQuotaError } from '../api/errors';
+import { generateProblem } from '../utils/problemGenerator';
+import { createPracticeSession } from '../utils/practiceSessions';
+import {
+  DEFAULT_SESSION_LIST_VIEW,
+  collectFolders,
+  collectTags,
+  organizeSessionDocs,
+  organizeSessions,
+  type SessionListView,
+  type SessionOrganizationAction,
+} from '../utils/sessionOrganization';
+import { deleteSessionWithShare } from '../utils/sessionShares';
+import { describeSkillEstimate } from '../utils/adaptiveDifficulty';
+import { describeQuizDraft } from '../utils/quizDrafts';
+import { SKILL_GRAPH } from '../utils/skillGraph';
+import { estimateSkillMastery } from '../utils/skillMastery';
+import type { FrontierSkill } from '../types/skill';
+
+const COLLAPSED_SESSION_COUNT = 5;
+
+const WORKSPACE_TABS: Array<{ id: WorkspaceTab; label: string }> = [
+  { id: 'sessions', label: 'Recent Sessions' },
+  { id: 'frontier', label: 'Frontier' },
+  { id: 'review', label: 'Review' },
+];
 
 const ensureSessionExists = async (userId: string) => {
   const sessionsCollection = collection(firestore, 'users', userId, 'sessions');
@@ -49,6 +83,13 @@ const DashboardContent = () => {
   const [deletingSessionId, setDeletingSessionId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [listView, setListView] = useState<SessionListView>(DEFAULT_SESSION_LIST_VIEW);
+  const [showAllSessions, setShowAllSessions] = useState(false);
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [practicingSkillId, setPracticingSkillId] = useState<string | null>(null);
+  const [practiceError, setPracticeError] = useState<string | null>(null);
+  const activeWorkspaceTab = useUIStore((state) => state.workspaceTab);
+  const setWorkspaceTab = useUIStore((state) => state.setWorkspaceTab);
 
   // Fetch and aggregate session statistics
   const {
@@ -60,7 +101,36 @@ const DashboardContent = () => {
     error: statsError,
   } = useSessionStats();
 
-  const { stats: quizStats, loading: quizLoading, error: quizError } = useQuizStats();
+  const {
+    summaries: quizSummaries,
+    stats: quizStats,
+    loading: quizLoading,
+    error: quizError,
+  } = useQuizStats();
+  const lastQuiz = quizSummaries[0] ?? null;
+  const { draft: quizDraft } = useQuizDraft();
+
+  const {
+    records: masteryRecords,
+    frontier,
+    loading: masteryLoading,
+    error: masteryError,
+  } = useSkillMastery();
+
+  const {
+    cards: reviewCards,
+    dueCards: dueReviewCards,
+    loading: reviewLoading,
+    error: reviewError,
+  } = useReviewCards();
+
+  const masteredSkillCount = useMemo(
+    () =>
+      SKILL_GRAPH.filter(
+        (skill) => estimateSkillMastery(masteryRecords[skill.id]).status === 'mastered',
+      ).length,
+    [masteryRecords],
+  );
 
   // Sync aggregated stats to user document
   useUserStatsSync();
@@ -90,10 +160,14 @@ const DashboardContent = () => {
     [stats.totalSessions, streaks],
   );
 
-  // Get recent sessions (last 5)
-  const recentSessions = useMemo(() => {
-    return sessions.slice(0, 5);
-  }, [sessions]);
+  // Filtered and sorted for the session list; only the first few show until expanded
+  const listedSessions = useMemo(() => organizeSessions(sessions, listView), [sessions, listView]);
+  const visibleSessions = showAllSessions
+    ? listedSessions
+    : listedSessions.slice(0, COLLAPSED_SESSION_COUNT);
+  const sessionFolders = useMemo(() => collectFolders(sessions), [sessions]);
+  const sessionTags = useMemo(() => collectTags(sessions), [sessions]);
+  const selectedSessions = sessions.filter((session) => selectedSessionIds.includes(session.id));
 
   // Get the most recently used session ID (the one that would open with "Continue Last Session")
   const mostRecentSessionId = useMemo(() => {
@@ -149,6 +223,32 @@ const DashboardContent = () => {
     }
   };
 
+  const handleOrganize = async (sessionIds: string[], action: SessionOrganizationAction) => {
+    if (!user) return;
+
+    try {
+      await organizeSessionDocs(user.uid, sessionIds, action);
+    } catch (error) {
+      console.error('Failed to organize session', error);
+      alert('Failed to update session. Please try again.');
+    }
+  };
+
+  const toggleSessionSelected = (sessionId: string) => {
+    setSelectedSessionIds((prev) =>
+      prev.includes(sessionId) ? prev.filter((id) => id !== sessionId) : [...prev, sessionId],
+    );
+  };
+
+  const handleSessionsDeleted = (sessionIds: string[]) => {
+    if (
+      (activeSessionId && sessionIds.includes(activeSessionId)) ||
+      (mostRecentSessionId && sessionIds.includes(mostRecentSessionId))
+    ) {
+      setActiveSessionId(null);
+    }
+  };
+
   // Handle delete session
   const handleDeleteStart = (sessionId: string) => {
     setDeletingSessionId(sessionId);
@@ -164,8 +264,7 @@ const DashboardContent = () => {
     setIsDeleting(true);
 
     try {
-      const sessionRef = doc(firestore, 'users', user.uid, 'sessions', sessionId);
-      await deleteDoc(sessionRef);
+      await deleteSessionWithShare(user.uid, sessionId);
 
       // If the deleted session was active or was the most recent session, clear it
       if (activeSessionId === sessionId || mostRecentSessionId === sessionId) {
@@ -199,6 +298,36 @@ const DashboardContent = () => {
     }
   };
 
+  const handlePracticeSkill = async ({ skill, suggestedDifficulty }: FrontierSkill) => {
+    if (!user || practicingSkillId) {
+      return;
+    }
+
+    setPracticingSkillId(skill.id);
+    setPracticeError(null);
+    try {
+      const problem = await generateProblem({
+        topicId: skill.topicId,
+        subtopic: skill.subtopic,
+        difficulty: suggestedDifficulty,
+      });
+      const sessionId = await createPracticeSession(user.uid, {
+        ...problem,
+        subtopic: problem.subtopic ?? skill.subtopic,
+      });
+      setActiveSessionId(sessionId);
+      navigate('/tutor');
+    } catch (error) {
+      console.error('Failed to start skill practice', error);
+      setPracticeError(
+        describeQuotaError(error) ??
+          'We could not create a practice problem right now. Please try again.',
+      );
+    } finally {
+      setPracticingSkillId(null);
+    }
+  };
+
   const handleContinueLastSession = async () => {
     if (!user || isLoadingLastSession) {
       return;
@@ -278,6 +407,25 @@ const DashboardContent = () => {
         </div>
       )}
 
+      {quizDraft ? (
+        <section className="mt-6 flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-sky/40 bg-brand-sky/10 p-5 shadow-subtle">
+          <div>
+            <p className="text-sm font-semibold text-brand-charcoal">Quiz in progress</p>
+            <p className="mt-1 text-sm text-brand-slate">{describeQuizDraft(quizDraft)}</p>
+            <p className="mt-1 text-xs text-brand-slate">
+              Last saved: {formatRelativeTime(new Date(quizDraft.savedAt))}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => navigate(`/quiz?resume=${quizDraft.id}`)}
+            className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+          >
+            Resume quiz
+          </button>
+        </section>
+      ) : null}
+
       <section className="mt-10 grid gap-6 md:grid-cols-3">
         <div className="rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
           <p className="text-sm text-brand-slate">Total Sessions</p>
@@ -352,6 +500,9 @@ const DashboardContent = () => {
           )}
           <p className="mt-4 text-xs uppercase tracking-wide text-brand-slate">
             Across All Quizzes
+            {quizStats.averageSecondsPerQuestion !== null
+              ? ` · ${formatDuration(quizStats.averageSecondsPerQuestion)} per question`
+              : ''}
           </p>
         </div>
         <div className="rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
@@ -365,9 +516,26 @@ const DashboardContent = () => {
                 : '—'}
             </p>
           )}
-          <p className="mt-4 text-xs uppercase tracking-wide text-brand-slate">
-            Most Recent Result
-          </p>
+          {lastQuiz?.mode === 'adaptive' && lastQuiz.skillEstimate !== null ? (
+            <div className="mt-4 space-y-1 text-xs text-brand-slate">
+              <p className="uppercase tracking-wide">
+                Adaptive · {describeSkillEstimate(lastQuiz.skillEstimate)}
+              </p>
+              <p>{lastQuiz.difficultyTrajectory.join(' → ')}</p>
+            </div>
+          ) : (
+            <p className="mt-4 text-xs uppercase tracking-wide text-brand-slate">
+              Most Recent Result
+            </p>
+          )}
+          {quizStats.totalQuizzes > 0 ? (
+            <Link
+              to="/quiz/history"
+              className="mt-2 inline-block text-xs font-medium text-brand-sky hover:underline"
+            >
+              View quiz history
+            </Link>
+          ) : null}
         </div>
       </section>
 
@@ -463,155 +631,301 @@ const DashboardContent = () => {
       </section>
 
       <section className="mt-10 rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
-        <div>
-          <h2 className="text-xl font-semibold text-brand-charcoal">Recent Sessions</h2>
-          <p className="mt-2 text-sm text-brand-slate">
-            Your last few tutoring sessions will appear here once you start practicing.
-          </p>
+        <div role="tablist" className="mb-6 flex gap-2 border-b border-brand-mint/60 pb-3">
+          {WORKSPACE_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={activeWorkspaceTab === tab.id}
+              onClick={() => setWorkspaceTab(tab.id)}
+              className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                activeWorkspaceTab === tab.id
+                  ? 'bg-brand-sky text-white shadow-subtle'
+                  : 'text-brand-charcoal hover:bg-brand-background'
+              }`}
+            >
+              {tab.label}
+              {tab.id === 'review' && dueReviewCards.length > 0
+                ? ` (${dueReviewCards.length})`
+                : ''}
+            </button>
+          ))}
         </div>
 
-        {statsLoading ? (
-          <div className="mt-6 space-y-3">
-            {Array.from({ length: 3 }).map((_, i) => (
-              <div
-                key={i}
-                className="rounded-xl border border-brand-mint/60 bg-brand-background p-4"
+        {activeWorkspaceTab === 'frontier' ? (
+          <FrontierPanel
+            frontier={frontier}
+            masteredCount={masteredSkillCount}
+            totalSkills={SKILL_GRAPH.length}
+            loading={masteryLoading}
+            error={masteryError}
+            practicingSkillId={practicingSkillId}
+            practiceError={practiceError}
+            onPractice={handlePracticeSkill}
+          />
+        ) : activeWorkspaceTab === 'review' ? (
+          <ReviewQueuePanel
+            cards={reviewCards}
+            dueCards={dueReviewCards}
+            loading={reviewLoading}
+            error={reviewError}
+          />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold text-brand-charcoal">Sessions</h2>
+                <p className="mt-2 text-sm text-brand-slate">
+                  Pin, file, tag or archive your tutoring sessions. Archived sessions still count
+                  toward your stats.
+                </p>
+              </div>
+              <Link
+                to="/search"
+                className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
               >
-                <div className="h-4 w-32 animate-pulse rounded bg-brand-mint/20" />
-                <div className="mt-2 h-3 w-24 animate-pulse rounded bg-brand-mint/10" />
+                Search all sessions
+              </Link>
+            </div>
+
+            {sessions.length > 0 ? (
+              <div className="mt-4 flex flex-col gap-3">
+                <SessionListControls
+                  view={listView}
+                  onChange={setListView}
+                  folders={sessionFolders}
+                  tags={sessionTags}
+                />
+                {user && selectedSessions.length > 0 ? (
+                  <SessionBulkActions
+                    userId={user.uid}
+                    selectedIds={selectedSessions.map((session) => session.id)}
+                    folders={sessionFolders}
+                    allArchived={selectedSessions.every((session) => session.archived)}
+                    onDone={() => setSelectedSessionIds([])}
+                    onDeleted={handleSessionsDeleted}
+                  />
+                ) : null}
               </div>
-            ))}
-          </div>
-        ) : recentSessions.length === 0 ? (
-          <div className="mt-6 rounded-xl border border-dashed border-brand-mint/80 bg-brand-background p-6 text-sm text-brand-slate">
-            No sessions to display yet. Start a new session to see your progress history.
-          </div>
-        ) : (
-          <div className="mt-6 space-y-3">
-            {recentSessions.map((session) => {
-              const handleSessionClick = () => {
-                setActiveSessionId(session.id);
-                navigate('/tutor');
-              };
-
-              const sessionDate = session.lastUpdated || session.createdAt;
-              const isCompleted = session.completed === true;
-              const isEditing = editingSessionId === session.id;
-              const isActive =
-                mostRecentSessionId !== null && session.id === mostRecentSessionId && !isCompleted;
-
-              return (
-                <div
-                  key={session.id}
-                  className="flex items-center gap-3 rounded-xl border border-brand-mint/60 bg-white p-4 transition hover:border-brand-sky hover:bg-brand-background"
-                >
-                  <button
-                    type="button"
-                    onClick={isEditing ? undefined : handleSessionClick}
-                    className="flex-1 text-left"
+            ) : null}
+
+            {statsLoading ? (
+              <div className="mt-6 space-y-3">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <div
+                    key={i}
+                    className="rounded-xl border border-brand-mint/60 bg-brand-background p-4"
                   >
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2">
+                    <div className="h-4 w-32 animate-pulse rounded bg-brand-mint/20" />
+                    <div className="mt-2 h-3 w-24 animate-pulse rounded bg-brand-mint/10" />
+                  </div>
+                ))}
+              </div>
+            ) : sessions.length === 0 ? (
+              <div className="mt-6 rounded-xl border border-dashed border-brand-mint/80 bg-brand-background p-6 text-sm text-brand-slate">
+                No sessions to display yet. Start a new session to see your progress history.
+              </div>
+            ) : listedSessions.length === 0 ? (
+              <div className="mt-6 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-dashed border-brand-mint/80 bg-brand-background p-6 text-sm text-brand-slate">
+                No sessions match these filters.
+                <button
+                  type="button"
+                  onClick={() => setListView(DEFAULT_SESSION_LIST_VIEW)}
+                  className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-white"
+                >
+                  Clear filters
+                </button>
+              </div>
+            ) : (
+              <div className="mt-6 space-y-3">
+                {visibleSessions.map((session) => {
+                  const handleSessionClick = () => {
+                    setActiveSessionId(session.id);
+                    navigate('/tutor');
+                  };
+
+                  const sessionDate = session.lastUpdated || session.createdAt;
+                  const isCompleted = session.completed === true;
+                  const isEditing = editingSessionId === session.id;
+                  const isActive =
+                    mostRecentSessionId !== null &&
+                    session.id === mostRecentSessionId &&
+                    !isCompleted;
+
+                  return (
+                    <div
+                      key={session.id}
+                      className="flex items-center gap-3 rounded-xl border border-brand-mint/60 bg-white p-4 transition hover:border-brand-sky hover:bg-brand-background"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedSessionIds.includes(session.id)}
+                        onChange={() => toggleSessionSelected(session.id)}
+                        aria-label={`Select ${session.title || 'Untitled Session'}`}
+                      />
+                      <div className="flex flex-1 flex-col gap-2">
+                        <button
+                          type="button"
+                          onClick={isEditing ? undefined : handleSessionClick}
+                          className="flex-1 text-left"
+                        >
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              {isEditing ? (
+                                <input
+                                  type="text"
+                                  value={editingTitle}
+                                  onChange={(e) => setEditingTitle(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    e.stopPropagation();
+                                    if (e.key === 'Enter') {
+                                      e.preventDefault();
+                                      handleRenameSave(session.id);
+                                    } else if (e.key === 'Escape') {
+                                      handleRenameCancel();
+                                    }
+                                  }}
+                                  onClick={(e) => e.stopPropagation()}
+                                  onKeyUp={(e) => e.stopPropagation()}
+                                  className="flex-1 rounded border border-brand-sky px-2 py-1 text-sm font-semibold text-brand-charcoal focus:outline-none focus:ring-2 focus:ring-brand-sky"
+                                />
+                              ) : (
+                                <h3 className="text-sm font-semibold text-brand-charcoal">
+                                  {session.title || 'Untitled Session'}
+                                </h3>
+                              )}
+                              {isActive && (
+                                <span className="rounded-full bg-brand-sky/20 px-2 py-0.5 text-xs font-medium text-brand-sky">
+                                  Active
+                                </span>
+                              )}
+                            </div>
+                            <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-brand-slate">
+                              {sessionDate && <span>{formatRelativeTime(sessionDate)}</span>}
+                              {session.topicId && (
+                                <span className="rounded-full bg-brand-sky/10 px-2 py-0.5 text-brand-sky">
+                                  {session.topicId}
+                                </span>
+                              )}
+                              {session.stats && (
+                                <>
+                                  {session.stats.hintsUsed !== undefined &&
+                                    session.stats.hintsUsed > 0 && (
+                                      <span>💡 {session.stats.hintsUsed} hints</span>
+                                    )}
+                                  {session.stats.durationSec !== undefined &&
+                                    session.stats.durationSec > 0 && (
+                                      <span>⏱️ {formatDuration(session.stats.durationSec)}</span>
+                                    )}
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        </button>
+                        <SessionBadges
+                          session={session}
+                          onRemoveTag={(tag) =>
+                            void handleOrganize([session.id], { type: 'removeTag', tag })
+                          }
+                        />
+                      </div>
+                      <div className="flex flex-wrap items-center justify-end gap-2">
                         {isEditing ? (
-                          <input
-                            type="text"
-                            value={editingTitle}
-                            onChange={(e) => setEditingTitle(e.target.value)}
-                            onKeyDown={(e) => {
-                              e.stopPropagation();
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                handleRenameSave(session.id);
-                              } else if (e.key === 'Escape') {
-                                handleRenameCancel();
-                              }
-                            }}
-                            onClick={(e) => e.stopPropagation()}
-                            onKeyUp={(e) => e.stopPropagation()}
-                            className="flex-1 rounded border border-brand-sky px-2 py-1 text-sm font-semibold text-brand-charcoal focus:outline-none focus:ring-2 focus:ring-brand-sky"
-                          />
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => handleRenameSave(session.id)}
+                              disabled={isSaving}
+                              className="rounded-full border border-brand-sky bg-white px-3 py-1.5 text-xs font-medium text-brand-sky transition hover:bg-brand-sky/10 disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={handleRenameCancel}
+                              disabled={isSaving}
+                              className="rounded-full border border-brand-slate bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          </>
                         ) : (
-                          <h3 className="text-sm font-semibold text-brand-charcoal">
-                            {session.title || 'Untitled Session'}
-                          </h3>
-                        )}
-                        {isActive && (
-                          <span className="rounded-full bg-brand-sky/20 px-2 py-0.5 text-xs font-medium text-brand-sky">
-                            Active
-                          </span>
-                        )}
-                      </div>
-                      <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-brand-slate">
-                        {sessionDate && <span>{formatRelativeTime(sessionDate)}</span>}
-                        {session.topicId && (
-                          <span className="rounded-full bg-brand-sky/10 px-2 py-0.5 text-brand-sky">
-                            {session.topicId}
-                          </span>
-                        )}
-                        {session.stats && (
                           <>
-                            {session.stats.hintsUsed !== undefined &&
-                              session.stats.hintsUsed > 0 && (
-                                <span>💡 {session.stats.hintsUsed} hints</span>
-                              )}
-                            {session.stats.durationSec !== undefined &&
-                              session.stats.durationSec > 0 && (
-                                <span>⏱️ {formatDuration(session.stats.durationSec)}</span>
-                              )}
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRenameStart(session);
+                              }}
+                              className="rounded-full border border-brand-slate bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                void handleOrganize([session.id], {
+                                  type: 'pin',
+                                  pinned: !session.pinned,
+                                });
+                              }}
+                              className="rounded-full border border-brand-slate bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background"
+                            >
+                              {session.pinned ? 'Unpin' : 'Pin'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                void handleOrganize([session.id], {
+                                  type: 'archive',
+                                  archived: !session.archived,
+                                });
+                              }}
+                              className="rounded-full border border-brand-slate bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background"
+                            >
+                              {session.archived ? 'Unarchive' : 'Archive'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                navigate(`/tutor/sessions/${session.id}/export`);
+                              }}
+                              className="rounded-full border border-brand-sky bg-white px-3 py-1.5 text-xs font-medium text-brand-sky transition hover:bg-brand-sky/10"
+                            >
+                              Share
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteStart(session.id);
+                              }}
+                              className="rounded-full border border-brand-coral bg-white px-3 py-1.5 text-xs font-medium text-brand-coral transition hover:bg-brand-coral/10"
+                            >
+                              Delete
+                            </button>
                           </>
                         )}
                       </div>
                     </div>
+                  );
+                })}
+                {listedSessions.length > COLLAPSED_SESSION_COUNT ? (
+                  <button
+                    type="button"
+                    onClick={() => setShowAllSessions((show) => !show)}
+                    className="text-sm font-medium text-brand-sky hover:underline"
+                  >
+                    {showAllSessions ? 'Show fewer' : `Show all ${listedSessions.length} sessions`}
                   </button>
-                  <div className="flex items-center gap-2">
-                    {isEditing ? (
-                      <>
-                        <button
-                          type="button"
-                          onClick={() => handleRenameSave(session.id)}
-                          disabled={isSaving}
-                          className="rounded-full border border-brand-sky bg-white px-3 py-1.5 text-xs font-medium text-brand-sky transition hover:bg-brand-sky/10 disabled:opacity-50"
-                        >
-                          Save
-                        </button>
-                        <button
-                          type="button"
-                          onClick={handleRenameCancel}
-                          disabled={isSaving}
-                          className="rounded-full border border-brand-slate bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background disabled:opacity-50"
-                        >
-                          Cancel
-                        </button>
-                      </>
-                    ) : (
-                      <>
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleRenameStart(session);
-                          }}
-                          className="rounded-full border border-brand-slate bg-white px-3 py-1.5 text-xs font-medium text-brand-slate transition hover:bg-brand-background"
-                        >
-                          Rename
-                        </button>
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteStart(session.id);
-                          }}
-                          className="rounded-full border border-brand-coral bg-white px-3 py-1.5 text-xs font-medium text-brand-coral transition hover:bg-brand-coral/10"
-                        >
-                          Delete
-                        </button>
-                      </>
-                    )}
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+                ) : null}
+              </div>
+            )}
+          </>
         )}
       </section>
 
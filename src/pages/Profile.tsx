@@ -156,14 +156,14 @@ const ProfileContent = () => {
             <div className="rounded-2xl border border-brand-mint/60 p-5">
               <h3 className="text-sm font-semibold text-brand-charcoal">Voice mode</h3>
               <p className="mt-1 text-sm text-brand-slate">
-                Enable speech-assisted tutoring (coming soon).
+                Hold the microphone button in the Tutor to dictate, and hear replies read aloud.
               </p>
 
               <div className="mt-4 flex items-center justify-between rounded-2xl bg-brand-background px-4 py-3">
                 <div>
                   <p className="text-sm font-medium text-brand-charcoal">Voice mode</p>
                   <p className="text-xs text-brand-slate">
-                    When available, speak with MathMate out loud.
+                    Spoken math like “x squared” is typed as x^2. Needs browser speech support.
                   </p>
                 </div>
                 <button
@@ -1,18 +1,54 @@
 import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from 'react';
 import { collection, doc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { firestore } from '../firebase';
 import { MathText } from '../components/MathText';
 import { LoadingScreen } from '../components/LoadingScreen';
+import { QuizAnswerInput, type QuizAnswerChange } from '../components/QuizAnswerInput';
 import { PROBLEM_TOPICS, DIFFICULTY_OPTIONS, generateProblem } from '../utils/problemGenerator';
-import type { ProblemDifficulty } from '../types/problem';
+import type { GeneratedProblem, QuestionFormat } from '../types/problem';
 import type {
+  QuizAnswerFormatSetting,
+  QuizDraft,
+  QuizGradingPath,
   QuizPhase,
   QuizQuestion,
   QuizQuestionEvaluation,
   QuizQuestionResponse,
+  QuizRetakeKind,
+  QuizRetakeSource,
+  QuizSetup,
 } from '../types/quiz';
+import { findSkillForSubtopic } from '../utils/skillGraph';
+import { recordSkillEvidence, type SkillEvidence } from '../utils/skillMastery';
+import { createReviewCards } from '../utils/reviewScheduler';
+import { fullQuestionText } from '../utils/questionText';
+import {
+  describeSkillEstimate,
+  difficultyForEstimate,
+  difficultyLevel,
+  updateSkillEstimate,
+} from '../utils/adaptiveDifficulty';
+import { formatCountdown, formatDuration, formatRelativeTime } from '../utils/formatters';
+import { useCountdown } from '../hooks/useCountdown';
+import { useQuizDraft } from '../hooks/useQuizDraft';
+import { useQuizRecord } from '../hooks/useQuizRecord';
+import {
+  cacheQuizDraft,
+  clearCachedQuizDraft,
+  describeQuizDraft,
+  discardQuizDraft,
+  saveQuizDraft,
+} from '../utils/quizDrafts';
+import {
+  describeWeakestSubtopics,
+  isMissedQuestion,
+  isRetakeKind,
+  planRetake,
+} from '../utils/quizRetakes';
 import { evaluateQuizAnswer } from '../api/evaluateQuizAnswer';
+import { describeQuotaError } from '../api/errors';
 import {
   callGenerateResponseStream,
   type ChatMessagePayload,
@@ -32,20 +68,61 @@ type ReviewChatState = {
   error: string | null;
 };
 
-interface SetupFormState {
-  topicId: string;
-  difficulty: ProblemDifficulty;
-  questionCount: number;
+interface GradeQuizOptions {
+  source?: QuizQuestionResponse[];
+  finalEstimate?: number | null;
+  /** Set when the overall exam countdown submitted the quiz. */
+  expired?: boolean;
 }
 
-const DEFAULT_SETUP_STATE: SetupFormState = {
+const DEFAULT_SETUP_STATE: QuizSetup = {
   topicId: '',
   difficulty: 'intermediate',
+  answerFormat: 'free',
   questionCount: 10,
+  mode: 'fixed',
+  timerMode: 'untimed',
+  examMinutes: 15,
+  secondsPerQuestion: 90,
 };
 
 const MIN_QUESTIONS = 5;
 const MAX_QUESTIONS = 15;
+const EXAM_MINUTE_OPTIONS = [5, 10, 15, 20, 30, 45];
+const SECONDS_PER_QUESTION_OPTIONS = [30, 60, 90, 120, 180];
+const LOW_TIME_SECONDS = 30;
+const DRAFT_SAVE_DELAY_MS = 1500;
+
+const ANSWER_FORMAT_OPTIONS: Array<{ value: QuizAnswerFormatSetting; label: string }> = [
+  { value: 'free', label: 'Free response' },
+  { value: 'mixed', label: 'Mixed formats' },
+  { value: 'multipleChoice', label: 'Multiple choice' },
+  { value: 'numeric', label: 'Numeric with units' },
+  { value: 'expression', label: 'Symbolic expression' },
+  { value: 'multiPart', label: 'Multi-part' },
+];
+const MIXED_FORMAT_ROTATION: QuestionFormat[] = [
+  'multipleChoice',
+  'numeric',
+  'free',
+  'expression',
+  'multiPart',
+];
+
+const formatForQuestion = (setting: QuizAnswerFormatSetting, index: number): QuestionFormat =>
+  setting === 'mixed' ? MIXED_FORMAT_ROTATION[index % MIXED_FORMAT_ROTATION.length] : setting;
+
+/** Multi-part answers earn partial credit; everything else is all or nothing. */
+const creditFor = (evaluation: QuizQuestionEvaluation): number =>
+  evaluation.score ?? (evaluation.isCorrect ? 1 : 0);
+
+const formatPoints = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+const GRADED_BY_LABELS: Record<QuizGradingPath, string> = {
+  verifier: 'Checked automatically',
+  model: 'Reviewed by the AI tutor',
+};
 
 const clampQuestionCount = (value: number): number => {
   if (!Number.isFinite(value)) {
@@ -63,10 +140,43 @@ const createQuestionId = () => {
 
 const formatPercentage = (value: number) => `${value.toFixed(1)}%`;
 
+const toQuizQuestion = (generated: GeneratedProblem): QuizQuestion => ({
+  id: createQuestionId(),
+  problemText: generated.problemText,
+  topicId: generated.topicId,
+  subtopic: generated.subtopic ?? null,
+  difficulty: generated.difficulty,
+  suggestedHint: generated.suggestedHint ?? null,
+  problemId: generated.problemId ?? null,
+  format: generated.format ?? 'free',
+  choices: generated.choices,
+  parts: generated.parts,
+});
+
+const addTimeSpent = (
+  list: QuizQuestionResponse[],
+  index: number,
+  seconds: number,
+): QuizQuestionResponse[] =>
+  list.map((response, i) =>
+    i === index
+      ? { ...response, timeSpentSeconds: (response.timeSpentSeconds ?? 0) + seconds }
+      : response,
+  );
+
+const timeLimitSeconds = (setup: QuizSetup): number | null => {
+  if (setup.timerMode === 'overall') {
+    return setup.examMinutes * 60;
+  }
+  return setup.timerMode === 'perQuestion' ? setup.secondsPerQuestion : null;
+};
+
 const QuizPage = () => {
   const { user } = useAuth();
+  const { draft: savedDraft } = useQuizDraft();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [phase, setPhase] = useState<QuizPhase>('setup');
-  const [setupState, setSetupState] = useState<SetupFormState>(DEFAULT_SETUP_STATE);
+  const [setupState, setSetupState] = useState<QuizSetup>(DEFAULT_SETUP_STATE);
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [responses, setResponses] = useState<QuizQuestionResponse[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -77,6 +187,18 @@ const QuizPage = () => {
   const [correctCount, setCorrectCount] = useState(0);
   const [quizScore, setQuizScore] = useState(0);
   const [quizDocId, setQuizDocId] = useState<string | null>(null);
+  // The quiz document id, fixed when the quiz starts so drafts and the final record share it.
+  const [activeQuizId, setActiveQuizId] = useState<string | null>(null);
+  const [retakeOf, setRetakeOf] = useState<QuizRetakeSource | null>(null);
+  const [queuedReviewCount, setQueuedReviewCount] = useState(0);
+  const [skillEstimate, setSkillEstimate] = useState<number | null>(null);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  // When the learner arrived at the current question; time is charged on every move.
+  const questionClockRef = useRef(Date.now());
+  // The draft id already written to Firestore, so only a quiz's first save skips the delay.
+  const savedDraftIdRef = useRef<string | null>(null);
   const [reviewIndex, setReviewIndex] = useState(0);
   const [reviewChats, setReviewChats] = useState<Record<string, ReviewChatState>>({});
   const initialReviewRequestedRef = useRef<Set<string>>(new Set());
@@ -88,17 +210,25 @@ const QuizPage = () => {
       setResponses([]);
       setCurrentIndex(0);
       setQuizDocId(null);
+      setActiveQuizId(null);
     }
   }, [user]);
 
-  const totalQuestions = questions.length;
+  const isAdaptive = setupState.mode === 'adaptive';
+  // Adaptive quizzes generate questions one at a time, so count against the planned length.
+  const totalQuestions = isAdaptive ? setupState.questionCount : questions.length;
 
-  const incorrectQuestions = useMemo(
-    () => responses.filter((response) => response.evaluation && !response.evaluation.isCorrect),
-    [responses],
-  );
+  const incorrectQuestions = useMemo(() => responses.filter(isMissedQuestion), [responses]);
 
   const currentQuestion = responses[currentIndex];
+  const remainingSeconds = useCountdown(phase === 'inProgress' ? deadline : null);
+  const totalTimeSeconds = responses.reduce(
+    (total, response) => total + (response.timeSpentSeconds ?? 0),
+    0,
+  );
+  const flaggedCount = responses.filter((response) => response.flagged).length;
+  // A per-question clock would restart on revisits, so that mode only moves forward.
+  const canRevisit = !isAdaptive && setupState.timerMode !== 'perQuestion';
   const currentReviewQuestion = incorrectQuestions[reviewIndex] ?? null;
 
   useEffect(() => {
@@ -122,12 +252,34 @@ const QuizPage = () => {
       if (name === 'topicId') {
         return { ...prev, topicId: value };
       }
+      if (name === 'mode' && (value === 'fixed' || value === 'adaptive')) {
+        // Adaptive quizzes grade as they go, so they are never timed exams.
+        return {
+          ...prev,
+          mode: value,
+          timerMode: value === 'adaptive' ? 'untimed' : prev.timerMode,
+        };
+      }
+      if (
+        name === 'timerMode' &&
+        (value === 'untimed' || value === 'overall' || value === 'perQuestion')
+      ) {
+        return { ...prev, timerMode: value };
+      }
+      if (name === 'examMinutes' || name === 'secondsPerQuestion') {
+        const parsed = Number.parseInt(value, 10);
+        return Number.isFinite(parsed) ? { ...prev, [name]: parsed } : prev;
+      }
       if (
         name === 'difficulty' &&
         (value === 'beginner' || value === 'intermediate' || value === 'advanced')
       ) {
         return { ...prev, difficulty: value };
       }
+      if (name === 'answerFormat') {
+        const option = ANSWER_FORMAT_OPTIONS.find((item) => item.value === value);
+        return option ? { ...prev, answerFormat: option.value } : prev;
+      }
       if (name === 'questionCount') {
         const parsed = Number.parseInt(value, 10);
         return { ...prev, questionCount: clampQuestionCount(parsed) };
@@ -136,37 +288,87 @@ const QuizPage = () => {
     });
   };
 
+  const startClock = () => {
+    const now = Date.now();
+    const limit = timeLimitSeconds(setupState);
+    questionClockRef.current = now;
+    setTimedOut(false);
+    setDeadline(limit === null ? null : now + limit * 1000);
+  };
+
+  const takeElapsedSeconds = () => {
+    const now = Date.now();
+    const elapsed = (now - questionClockRef.current) / 1000;
+    questionClockRef.current = now;
+    return elapsed;
+  };
+
+  // Only one quiz is kept in progress, so starting another asks before replacing the saved one.
+  const confirmReplaceDraft = () =>
+    !savedDraft ||
+    window.confirm(
+      `Start a new quiz? Your quiz in progress (${describeQuizDraft(savedDraft)}) will be discarded.`,
+    );
+
+  const claimQuizId = (userId: string) => {
+    if (savedDraft) {
+      discardQuizDraft(userId, savedDraft.id).catch((discardError) => {
+        console.error('Failed to discard quiz draft', discardError);
+      });
+    }
+    return doc(collection(firestore, 'users', userId, 'quizzes')).id;
+  };
+
   const handleSetupSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
-    if (!user || isGenerating) {
+    if (!user || isGenerating || !confirmReplaceDraft()) {
       return;
     }
 
     setError(null);
     setIsGenerating(true);
     setPhase('generating');
+    setRetakeOf(null);
+    const quizId = claimQuizId(user.uid);
 
     try {
+      if (setupState.mode === 'adaptive') {
+        // Adaptive mode starts at the chosen difficulty; later questions follow the estimate.
+        const firstQuestion = toQuizQuestion(
+          await generateProblem({
+            topicId: setupState.topicId || undefined,
+            difficulty: setupState.difficulty,
+            recentProblems: [],
+            mode: 'quiz',
+            format: formatForQuestion(setupState.answerFormat, 0),
+          }),
+        );
+
+        setQuestions([firstQuestion]);
+        setResponses([{ ...firstQuestion, userAnswer: '' }]);
+        setSkillEstimate(difficultyLevel(setupState.difficulty));
+        setCurrentIndex(0);
+        setActiveQuizId(quizId);
+        startClock();
+        setPhase('inProgress');
+        return;
+      }
+
       // Generate all questions in parallel for faster loading
-      const questionPromises = Array.from({ length: setupState.questionCount }, () =>
+      const questionPromises = Array.from({ length: setupState.questionCount }, (_, index) =>
         generateProblem({
           topicId: setupState.topicId || undefined,
           difficulty: setupState.difficulty,
           recentProblems: [],
           mode: 'quiz',
+          format: formatForQuestion(setupState.answerFormat, index),
         }),
       );
 
       const generatedResults = await Promise.all(questionPromises);
 
-      const generatedQuestions: QuizQuestion[] = generatedResults.map((generated) => ({
-        id: createQuestionId(),
-        problemText: generated.problemText,
-        topicId: generated.topicId,
-        difficulty: generated.difficulty,
-        suggestedHint: generated.suggestedHint ?? null,
-      }));
+      const generatedQuestions: QuizQuestion[] = generatedResults.map(toQuizQuestion);
 
       setQuestions(generatedQuestions);
       setResponses(
@@ -176,43 +378,374 @@ const QuizPage = () => {
         })),
       );
       setCurrentIndex(0);
+      setActiveQuizId(quizId);
+      startClock();
       setPhase('inProgress');
     } catch (generationError) {
       console.error('Failed to generate quiz questions', generationError);
-      setError('We could not generate quiz questions right now. Please try again.');
+      setError(
+        describeQuotaError(generationError) ??
+          'We could not generate quiz questions right now. Please try again.',
+      );
+      setPhase('setup');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Retakes are always fixed quizzes, built from the quiz just graded or one from history.
+  const startRetake = async (
+    kind: QuizRetakeKind,
+    source: QuizQuestionResponse[],
+    sourceQuizId: string | null,
+  ) => {
+    if (!user || isGenerating) {
+      return;
+    }
+
+    const plan = planRetake(kind, source, clampQuestionCount(setupState.questionCount));
+    if (plan.length === 0 || !confirmReplaceDraft()) {
+      return;
+    }
+
+    resetQuiz();
+    setSetupState((prev) => ({ ...prev, mode: 'fixed' }));
+    setError(null);
+    setIsGenerating(true);
+    setPhase('generating');
+    const quizId = claimQuizId(user.uid);
+
+    try {
+      const retakeQuestions = await Promise.all(
+        plan.map(async (item) =>
+          item.source === 'reuse'
+            ? { ...item.question, id: createQuestionId() }
+            : toQuizQuestion(await generateProblem(item.params)),
+        ),
+      );
+
+      setQuestions(retakeQuestions);
+      setResponses(retakeQuestions.map((question) => ({ ...question, userAnswer: '' })));
+      setCurrentIndex(0);
+      setActiveQuizId(quizId);
+      setRetakeOf({ kind, quizId: sourceQuizId });
+      startClock();
+      setPhase('inProgress');
+    } catch (generationError) {
+      console.error('Failed to build retake quiz', generationError);
+      setError(
+        describeQuotaError(generationError) ??
+          'We could not generate quiz questions right now. Please try again.',
+      );
       setPhase('setup');
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const handleAnswerChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
-    const value = event.target.value;
+  const handleAnswerChange = (change: QuizAnswerChange) => {
     setResponses((prev) =>
       prev.map((response, index) =>
         index === currentIndex
           ? {
               ...response,
-              userAnswer: value,
+              ...change,
             }
           : response,
       ),
     );
   };
 
-  const goToNextQuestion = () => {
-    setCurrentIndex((prev) => Math.min(prev + 1, totalQuestions - 1));
+  const goToQuestion = (index: number) => {
+    const target = Math.min(Math.max(index, 0), totalQuestions - 1);
+    if (target === currentIndex) {
+      return;
+    }
+
+    const elapsed = takeElapsedSeconds();
+    setResponses((prev) => addTimeSpent(prev, currentIndex, elapsed));
+    setCurrentIndex(target);
+
+    if (setupState.timerMode === 'perQuestion') {
+      setDeadline(Date.now() + setupState.secondsPerQuestion * 1000);
+    }
+  };
+
+  const toggleFlag = () => {
+    setResponses((prev) =>
+      prev.map((response, index) =>
+        index === currentIndex ? { ...response, flagged: !response.flagged } : response,
+      ),
+    );
+  };
+
+  const handleTimeExpired = () => {
+    if (setupState.timerMode === 'overall') {
+      setTimedOut(true);
+      void gradeQuiz({ expired: true });
+      return;
+    }
+
+    const marked = responses.map((response, index) =>
+      index === currentIndex ? { ...response, timedOut: true } : response,
+    );
+
+    if (currentIndex >= totalQuestions - 1) {
+      void gradeQuiz({ source: marked });
+      return;
+    }
+
+    setResponses(marked);
+    goToQuestion(currentIndex + 1);
+  };
+
+  useEffect(() => {
+    if (phase === 'inProgress' && remainingSeconds === 0) {
+      handleTimeExpired();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, remainingSeconds]);
+
+  // Every change is cached locally at once; Firestore gets the first save immediately and
+  // later ones once answering pauses.
+  useEffect(() => {
+    if (!user || phase !== 'inProgress' || !activeQuizId) {
+      return;
+    }
+
+    const draft: QuizDraft = {
+      id: activeQuizId,
+      setup: setupState,
+      responses,
+      currentIndex,
+      skillEstimate,
+      retakeOf,
+      deadlineAt: deadline,
+      savedAt: Date.now(),
+    };
+    cacheQuizDraft(user.uid, draft);
+
+    const isFirstSave = savedDraftIdRef.current !== activeQuizId;
+    savedDraftIdRef.current = activeQuizId;
+    const timeoutId = window.setTimeout(
+      () => {
+        saveQuizDraft(user.uid, draft).catch((saveError) => {
+          console.error('Failed to save quiz draft', saveError);
+        });
+      },
+      isFirstSave ? 0 : DRAFT_SAVE_DELAY_MS,
+    );
+
+    return () => window.clearTimeout(timeoutId);
+  }, [
+    user,
+    phase,
+    activeQuizId,
+    setupState,
+    responses,
+    currentIndex,
+    skillEstimate,
+    retakeOf,
+    deadline,
+  ]);
+
+  const resumeDraft = (draft: QuizDraft) => {
+    setError(null);
+    setSetupState({ ...DEFAULT_SETUP_STATE, ...draft.setup });
+    setQuestions(draft.responses);
+    setResponses(draft.responses);
+    setCurrentIndex(draft.currentIndex);
+    setSkillEstimate(draft.skillEstimate);
+    setActiveQuizId(draft.id);
+    setRetakeOf(draft.retakeOf);
+    savedDraftIdRef.current = draft.id;
+    // Time away is not charged to the question, but an exam countdown kept running.
+    questionClockRef.current = Date.now();
+    setTimedOut(false);
+    setDeadline(draft.deadlineAt);
+    setPhase('inProgress');
+  };
+
+  const handleDiscardDraft = (draft: QuizDraft) => {
+    if (!user) {
+      return;
+    }
+
+    discardQuizDraft(user.uid, draft.id).catch((discardError) => {
+      console.error('Failed to discard quiz draft', discardError);
+      setError('We could not discard the saved quiz. Please try again.');
+    });
+  };
+
+  // The dashboard links here with ?resume=<quizId>.
+  const resumeId = searchParams.get('resume');
+  useEffect(() => {
+    if (!resumeId || phase !== 'setup' || !savedDraft) {
+      return;
+    }
+
+    if (savedDraft.id === resumeId) {
+      resumeDraft(savedDraft);
+    }
+    setSearchParams({}, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resumeId, phase, savedDraft]);
+
+  // Quiz history links here with ?retake=<kind>&from=<quizId>.
+  const retakeParam = searchParams.get('retake');
+  const retakeKind = isRetakeKind(retakeParam) ? retakeParam : null;
+  const retakeFromId = retakeKind ? searchParams.get('from') : null;
+  const { record: retakeRecord, loading: retakeRecordLoading } = useQuizRecord(
+    retakeFromId ?? undefined,
+  );
+  useEffect(() => {
+    if (!retakeKind || !retakeFromId || retakeRecordLoading || phase !== 'setup') {
+      return;
+    }
+
+    if (retakeRecord) {
+      setSetupState((prev) => ({
+        ...prev,
+        topicId: retakeRecord.topicId ?? '',
+        difficulty: retakeRecord.difficulty,
+      }));
+      void startRetake(retakeKind, retakeRecord.questions, retakeFromId);
+    }
+    setSearchParams({}, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [retakeKind, retakeFromId, retakeRecord, retakeRecordLoading, phase]);
+
+  // Returns null when the answer could not be checked (quota, network), after saying so; callers
+  // keep the quiz open so the learner can submit again rather than recording a guess.
+  const evaluateResponse = async (
+    response: QuizQuestionResponse,
+  ): Promise<QuizQuestionEvaluation | null> => {
+    try {
+      return await evaluateQuizAnswer({
+        question: fullQuestionText(response),
+        userAnswer: response.userAnswer,
+        difficulty: response.difficulty,
+        problemId: response.problemId ?? null,
+        partAnswers: response.format === 'multiPart' ? response.partAnswers : undefined,
+      });
+    } catch (evaluationError) {
+      console.error('Failed to evaluate quiz answer', evaluationError);
+      setError(
+        describeQuotaError(evaluationError) ??
+          'We could not check your answers right now. They are still here, so submit again in a moment.',
+      );
+      return null;
+    }
+  };
+
+  const submitAdaptiveAnswer = async () => {
+    if (!user || !currentQuestion || isAdvancing || isGrading || skillEstimate === null) {
+      return;
+    }
+
+    setIsAdvancing(true);
+    setError(null);
+
+    // A retry after a failed generation reuses the evaluation instead of grading twice.
+    let gradedResponses = responses;
+    let nextEstimate = skillEstimate;
+    if (!currentQuestion.evaluation) {
+      const elapsed = takeElapsedSeconds();
+      const evaluation = await evaluateResponse(currentQuestion);
+      if (!evaluation) {
+        setResponses(addTimeSpent(responses, currentIndex, elapsed));
+        questionClockRef.current = Date.now();
+        setIsAdvancing(false);
+        return;
+      }
+      // Ungraded answers (gradedBy is null) leave the estimate where it was.
+      if (evaluation.gradedBy) {
+        nextEstimate = updateSkillEstimate(
+          skillEstimate,
+          currentQuestion.difficulty,
+          evaluation.isCorrect,
+          currentIndex,
+        );
+      }
+      gradedResponses = addTimeSpent(responses, currentIndex, elapsed).map((response, index) =>
+        index === currentIndex
+          ? { ...response, evaluation, skillEstimateAfter: nextEstimate }
+          : response,
+      );
+      setResponses(gradedResponses);
+      setSkillEstimate(nextEstimate);
+    }
+
+    // Waiting on grading or the next question does not count toward answer time.
+    questionClockRef.current = Date.now();
+
+    if (currentIndex + 1 >= setupState.questionCount) {
+      setIsAdvancing(false);
+      await gradeQuiz({ source: gradedResponses, finalEstimate: nextEstimate });
+      return;
+    }
+
+    const lastEvaluation = gradedResponses[currentIndex].evaluation;
+    // After a miss on a chosen topic, stay on the same subtopic so the easier question targets it.
+    const retrySubtopic =
+      setupState.topicId && lastEvaluation && !lastEvaluation.isCorrect
+        ? currentQuestion.subtopic
+        : null;
+
+    try {
+      const nextQuestion = toQuizQuestion(
+        await generateProblem({
+          topicId: setupState.topicId || undefined,
+          subtopic: retrySubtopic ?? undefined,
+          difficulty: difficultyForEstimate(nextEstimate),
+          recentProblems: gradedResponses.map((response) => ({
+            topicId: response.topicId,
+            problemText: response.problemText,
+            timestamp: Date.now(),
+          })),
+          mode: 'quiz',
+          format: formatForQuestion(setupState.answerFormat, currentIndex + 1),
+        }),
+      );
+
+      setQuestions((prev) => [...prev, nextQuestion]);
+      setResponses([...gradedResponses, { ...nextQuestion, userAnswer: '' }]);
+      setCurrentIndex((prev) => prev + 1);
+      questionClockRef.current = Date.now();
+    } catch (generationError) {
+      console.error('Failed to generate the next adaptive question', generationError);
+      setError(
+        describeQuotaError(generationError) ??
+          'We could not generate the next question. Try again, or finish now to see your results.',
+      );
+    } finally {
+      setIsAdvancing(false);
+    }
   };
 
-  const goToPreviousQuestion = () => {
-    setCurrentIndex((prev) => Math.max(prev - 1, 0));
+  const finishAdaptiveEarly = () => {
+    const answered = responses.filter((response) => response.evaluation);
+    // The unanswered current question is dropped, and so is the time spent on it.
+    questionClockRef.current = Date.now();
+    void gradeQuiz({ source: answered });
   };
 
-  const gradeQuiz = async () => {
-    if (!user || responses.length === 0 || isGrading) {
+  // Answers graded during an adaptive quiz keep their evaluation; the rest are graded here.
+  const gradeQuiz = async ({
+    source = responses,
+    finalEstimate = skillEstimate,
+    expired = false,
+  }: GradeQuizOptions = {}) => {
+    if (!user || source.length === 0 || isGrading) {
       return;
     }
 
+    const timedSource = addTimeSpent(source, currentIndex, takeElapsedSeconds());
+    const previousDeadline = deadline;
+    // A retry after a failed grading pass still counts as finishing when time ran out.
+    const finishedByTimer = expired || timedOut;
+    setDeadline(null);
+
     setPhase('grading');
     setIsGrading(true);
     setGradingProgress(0);
@@ -221,54 +754,51 @@ const QuizPage = () => {
     const updatedResponses: QuizQuestionResponse[] = [];
     let nextCorrectCount = 0;
 
-    const quizId = doc(collection(firestore, 'users', user.uid, 'quizzes')).id;
+    const quizId = activeQuizId ?? doc(collection(firestore, 'users', user.uid, 'quizzes')).id;
     const startedAt = new Date();
 
-    for (let i = 0; i < responses.length; i += 1) {
-      const response = responses[i];
-      try {
-        const evaluation = await evaluateQuizAnswer({
-          question: response.problemText,
-          userAnswer: response.userAnswer || '(no answer provided)',
-          difficulty: response.difficulty,
-        });
+    for (let i = 0; i < timedSource.length; i += 1) {
+      const response = timedSource[i];
+      const evaluation = response.evaluation ?? (await evaluateResponse(response));
+
+      if (!evaluation) {
+        // Keep what was graded and reopen the quiz; submitting again grades the rest.
+        setResponses([...updatedResponses, ...timedSource.slice(i)]);
+        setDeadline(finishedByTimer ? null : previousDeadline);
+        setPhase('inProgress');
+        setIsGrading(false);
+        questionClockRef.current = Date.now();
+        return;
+      }
 
-        if (evaluation.isCorrect) {
-          nextCorrectCount += 1;
-        }
+      nextCorrectCount += creditFor(evaluation);
 
-        updatedResponses.push({
-          ...response,
-          evaluation,
-        });
-      } catch (evaluationError) {
-        console.error('Failed to evaluate quiz answer', evaluationError);
-        const fallbackEvaluation: QuizQuestionEvaluation = {
-          isCorrect: false,
-          explanation:
-            'We had trouble checking this answer automatically. Review the problem and try walking through it again.',
-          feedback: null,
-          correctAnswer: null,
-        };
-        updatedResponses.push({
-          ...response,
-          evaluation: fallbackEvaluation,
-        });
-      }
+      updatedResponses.push({
+        ...response,
+        evaluation,
+      });
 
-      setGradingProgress((i + 1) / responses.length);
+      setGradingProgress((i + 1) / timedSource.length);
     }
 
+    clearCachedQuizDraft(user.uid);
     setResponses(updatedResponses);
     setCorrectCount(nextCorrectCount);
 
-    const scorePercent = responses.length > 0 ? (nextCorrectCount / responses.length) * 100 : 0;
+    const scorePercent = timedSource.length > 0 ? (nextCorrectCount / timedSource.length) * 100 : 0;
     setQuizScore(scorePercent);
 
     const quizRecord = {
+      status: 'completed',
       topicId: setupState.topicId || null,
       difficulty: setupState.difficulty,
-      totalQuestions: responses.length,
+      mode: setupState.mode,
+      skillEstimate: setupState.mode === 'adaptive' ? finalEstimate : null,
+      timerMode: setupState.timerMode,
+      timeLimitSeconds: timeLimitSeconds(setupState),
+      timedOut: finishedByTimer,
+      retakeOf,
+      totalQuestions: timedSource.length,
       correctCount: nextCorrectCount,
       scorePercent,
       createdAt: startedAt,
@@ -277,10 +807,20 @@ const QuizPage = () => {
         id: item.id,
         problemText: item.problemText,
         topicId: item.topicId,
+        subtopic: item.subtopic ?? null,
         difficulty: item.difficulty,
         suggestedHint: item.suggestedHint ?? null,
+        problemId: item.problemId ?? null,
+        format: item.format ?? 'free',
+        choices: item.choices ?? null,
+        parts: item.parts ?? null,
         userAnswer: item.userAnswer,
+        partAnswers: item.partAnswers ?? null,
         evaluation: item.evaluation as QuizQuestionEvaluation,
+        skillEstimateAfter: item.skillEstimateAfter ?? null,
+        timeSpentSeconds: Math.round(item.timeSpentSeconds ?? 0),
+        flagged: item.flagged ?? false,
+        timedOut: item.timedOut ?? false,
       })),
     };
 
@@ -292,6 +832,27 @@ const QuizPage = () => {
         completedAt: serverTimestamp(),
       });
       setQuizDocId(quizId);
+
+      // Answers that could not be graded (gradedBy is null) say nothing about mastery.
+      const skillEvidence = updatedResponses.flatMap((item): SkillEvidence[] => {
+        const skill = findSkillForSubtopic(item.topicId, item.subtopic);
+        return skill && item.evaluation?.gradedBy
+          ? [{ skillId: skill.id, correct: item.evaluation.isCorrect }]
+          : [];
+      });
+      recordSkillEvidence(user.uid, skillEvidence).catch((masteryError) => {
+        console.error('Failed to record skill evidence', masteryError);
+      });
+
+      const missedQuestions = updatedResponses.filter(
+        (item) => item.evaluation?.gradedBy && !item.evaluation.isCorrect,
+      );
+      try {
+        await createReviewCards(user.uid, quizId, missedQuestions);
+        setQueuedReviewCount(missedQuestions.length);
+      } catch (reviewError) {
+        console.error('Failed to queue missed questions for review', reviewError);
+      }
     } catch (writeError) {
       console.error('Failed to store quiz results', writeError);
       setError(
@@ -312,6 +873,13 @@ const QuizPage = () => {
     setCorrectCount(0);
     setQuizScore(0);
     setQuizDocId(null);
+    setActiveQuizId(null);
+    setRetakeOf(null);
+    setQueuedReviewCount(0);
+    setSkillEstimate(null);
+    setIsAdvancing(false);
+    setDeadline(null);
+    setTimedOut(false);
     setReviewIndex(0);
     setReviewChats({});
     initialReviewRequestedRef.current.clear();
@@ -327,7 +895,7 @@ const QuizPage = () => {
       ? `I took a quiz and this question was marked as incorrect. Please guide me step by step, using questions when possible, so I can understand the correct approach.
 
 Question:
-${question.problemText}
+${fullQuestionText(question)}
 
 My answer:
 ${question.userAnswer || '(no answer provided)'}
@@ -424,7 +992,9 @@ Please help me understand where I went wrong and guide me to the correct solutio
             ...current,
             isStreaming: false,
             pendingContent: '',
-            error: 'We ran into an issue continuing the explanation. Try again.',
+            error:
+              describeQuotaError(streamError) ??
+              'We ran into an issue continuing the explanation. Try again.',
           },
         };
       });
@@ -474,7 +1044,12 @@ Please help me understand where I went wrong and guide me to the correct solutio
   return (
     <div className="mx-auto flex min-h-0 w-full max-w-5xl flex-1 flex-col gap-6 px-4 py-6 md:px-6">
       <header className="flex flex-col gap-2">
-        <h1 className="text-2xl font-semibold text-brand-charcoal">Quiz Mode</h1>
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h1 className="text-2xl font-semibold text-brand-charcoal">Quiz Mode</h1>
+          <Link to="/quiz/history" className="text-sm font-medium text-brand-sky hover:underline">
+            Past quizzes
+          </Link>
+        </div>
         <p className="text-sm text-brand-slate">
           Take a timed set of questions and review anything you miss with the AI tutor.
         </p>
@@ -486,6 +1061,37 @@ Please help me understand where I went wrong and guide me to the correct solutio
         </div>
       ) : null}
 
+      {phase === 'setup' && savedDraft ? (
+        <section className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-sky/40 bg-brand-sky/10 p-5 shadow-subtle">
+          <div>
+            <h2 className="text-base font-semibold text-brand-charcoal">Quiz in progress</h2>
+            <p className="mt-1 text-sm text-brand-slate">{describeQuizDraft(savedDraft)}</p>
+            <p className="mt-1 text-xs text-brand-slate">
+              Last saved: {formatRelativeTime(new Date(savedDraft.savedAt))}
+              {savedDraft.deadlineAt !== null
+                ? '. The timer kept running while you were away.'
+                : ''}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleDiscardDraft(savedDraft)}
+              className="rounded-full border border-brand-slate/40 px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-white"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={() => resumeDraft(savedDraft)}
+              className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+            >
+              Resume quiz
+            </button>
+          </div>
+        </section>
+      ) : null}
+
       {phase === 'setup' ? (
         <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
           <form className="space-y-5" onSubmit={handleSetupSubmit}>
@@ -521,7 +1127,7 @@ Please help me understand where I went wrong and guide me to the correct solutio
               </label>
 
               <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
-                Difficulty
+                {isAdaptive ? 'Starting difficulty' : 'Difficulty'}
                 <select
                   name="difficulty"
                   value={setupState.difficulty}
@@ -542,6 +1148,29 @@ Please help me understand where I went wrong and guide me to the correct solutio
                 </span>
               </label>
 
+              <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
+                Answer format
+                <select
+                  name="answerFormat"
+                  value={setupState.answerFormat}
+                  onChange={handleSetupChange}
+                  className="rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky"
+                >
+                  {ANSWER_FORMAT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-xs font-normal text-brand-slate">
+                  {setupState.answerFormat === 'mixed'
+                    ? 'Rotates through every format. Multi-part questions earn partial credit.'
+                    : setupState.answerFormat === 'multiPart'
+                      ? 'Each part is graded separately for partial credit.'
+                      : 'How you enter each answer.'}
+                </span>
+              </label>
+
               <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
                 Number of questions
                 <input
@@ -557,6 +1186,80 @@ Please help me understand where I went wrong and guide me to the correct solutio
                   Between {MIN_QUESTIONS} and {MAX_QUESTIONS} questions
                 </span>
               </label>
+
+              <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
+                Quiz mode
+                <select
+                  name="mode"
+                  value={setupState.mode}
+                  onChange={handleSetupChange}
+                  className="rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky"
+                >
+                  <option value="fixed">Fixed difficulty</option>
+                  <option value="adaptive">Adaptive</option>
+                </select>
+                <span className="text-xs font-normal text-brand-slate">
+                  {isAdaptive
+                    ? 'Each answer is checked right away, and the next question gets harder or easier to match.'
+                    : 'Every question uses the difficulty you pick.'}
+                </span>
+              </label>
+
+              <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
+                Exam timer
+                <div className="flex gap-2">
+                  <select
+                    name="timerMode"
+                    value={setupState.timerMode}
+                    onChange={handleSetupChange}
+                    disabled={isAdaptive}
+                    className="flex-1 rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky disabled:opacity-60"
+                  >
+                    <option value="untimed">No time limit</option>
+                    <option value="overall">Whole quiz</option>
+                    <option value="perQuestion">Per question</option>
+                  </select>
+                  {setupState.timerMode === 'overall' ? (
+                    <select
+                      name="examMinutes"
+                      value={setupState.examMinutes}
+                      onChange={handleSetupChange}
+                      aria-label="Minutes for the whole quiz"
+                      className="rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky"
+                    >
+                      {EXAM_MINUTE_OPTIONS.map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {minutes} min
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                  {setupState.timerMode === 'perQuestion' ? (
+                    <select
+                      name="secondsPerQuestion"
+                      value={setupState.secondsPerQuestion}
+                      onChange={handleSetupChange}
+                      aria-label="Seconds per question"
+                      className="rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky"
+                    >
+                      {SECONDS_PER_QUESTION_OPTIONS.map((seconds) => (
+                        <option key={seconds} value={seconds}>
+                          {formatDuration(seconds)}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                </div>
+                <span className="text-xs font-normal text-brand-slate">
+                  {isAdaptive
+                    ? 'Adaptive quizzes are untimed.'
+                    : setupState.timerMode === 'overall'
+                      ? 'The quiz submits itself when time runs out.'
+                      : setupState.timerMode === 'perQuestion'
+                        ? 'Each question moves on when its time runs out. You cannot go back.'
+                        : 'Time per question is still recorded so you can check your pacing.'}
+                </span>
+              </label>
             </div>
 
             <div className="flex flex-wrap justify-between gap-3">
@@ -579,23 +1282,86 @@ Please help me understand where I went wrong and guide me to the correct solutio
       {phase === 'inProgress' && currentQuestion ? (
         <section className="flex flex-1 flex-col gap-5 rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <span className="text-sm font-medium text-brand-slate">
-              Question {currentIndex + 1} of {totalQuestions}
-            </span>
-            <div className="flex gap-2 text-xs text-brand-slate">
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-medium text-brand-slate">
+                Question {currentIndex + 1} of {totalQuestions}
+              </span>
+              {remainingSeconds !== null ? (
+                <span
+                  role="timer"
+                  aria-label={
+                    setupState.timerMode === 'overall'
+                      ? 'Time left in quiz'
+                      : 'Time left on question'
+                  }
+                  className={`rounded-full px-3 py-1 font-mono text-sm font-semibold ${
+                    remainingSeconds <= LOW_TIME_SECONDS
+                      ? 'bg-[#FEE2E2] text-brand-coral'
+                      : 'bg-brand-background text-brand-charcoal'
+                  }`}
+                >
+                  {formatCountdown(remainingSeconds)}
+                </span>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs text-brand-slate">
               <span className="rounded-full bg-brand-mint/40 px-3 py-1">
                 Difficulty: {currentQuestion.difficulty}
               </span>
+              {isAdaptive && responses[currentIndex - 1]?.evaluation ? (
+                <span className="rounded-full bg-brand-background px-3 py-1">
+                  Last answer:{' '}
+                  {responses[currentIndex - 1].evaluation?.isCorrect ? 'correct' : 'missed'}
+                </span>
+              ) : null}
               {currentQuestion.topicId ? (
                 <span className="rounded-full bg-brand-sky/20 px-3 py-1">
                   Topic: {currentQuestion.topicId}
                 </span>
               ) : null}
+              {!isAdaptive ? (
+                <button
+                  type="button"
+                  onClick={toggleFlag}
+                  aria-pressed={Boolean(currentQuestion.flagged)}
+                  className={`rounded-full border px-3 py-1 font-medium transition ${
+                    currentQuestion.flagged
+                      ? 'border-brand-coral bg-brand-coral/10 text-brand-coral'
+                      : 'border-brand-slate/40 hover:bg-brand-background'
+                  }`}
+                >
+                  {currentQuestion.flagged ? 'Flagged' : 'Flag for later'}
+                </button>
+              ) : null}
             </div>
           </div>
 
+          {canRevisit && totalQuestions > 1 ? (
+            <nav aria-label="Questions" className="flex flex-wrap gap-2">
+              {responses.map((response, index) => (
+                <button
+                  key={response.id}
+                  type="button"
+                  onClick={() => goToQuestion(index)}
+                  aria-current={index === currentIndex ? 'step' : undefined}
+                  className={`size-8 rounded-full border text-xs font-medium transition ${
+                    index === currentIndex
+                      ? 'border-brand-sky bg-brand-sky text-white'
+                      : response.flagged
+                        ? 'border-brand-coral bg-brand-coral/10 text-brand-coral'
+                        : response.userAnswer.trim()
+                          ? 'border-brand-mint bg-brand-mint/30 text-brand-charcoal'
+                          : 'border-brand-mint/60 bg-white text-brand-slate hover:bg-brand-background'
+                  }`}
+                >
+                  {index + 1}
+                </button>
+              ))}
+            </nav>
+          ) : null}
+
           <article className="space-y-4 rounded-xl border border-brand-mint/60 bg-brand-background p-4">
-            <MathText content={currentQuestion.problemText} />
+            <MathText content={currentQuestion.problemText} graphable />
             {currentQuestion.suggestedHint ? (
               <div className="rounded-xl border border-brand-sky/40 bg-brand-sky/10 px-3 py-2 text-sm text-brand-charcoal">
                 <strong className="font-semibold">Hint:</strong> {currentQuestion.suggestedHint}
@@ -603,46 +1369,79 @@ Please help me understand where I went wrong and guide me to the correct solutio
             ) : null}
           </article>
 
-          <label className="flex flex-1 flex-col gap-2 text-sm font-medium text-brand-charcoal">
-            Your answer
-            <textarea
-              value={currentQuestion.userAnswer}
-              onChange={handleAnswerChange}
-              className="min-h-40 flex-1 rounded-2xl border border-brand-mint/60 bg-white px-4 py-3 text-sm leading-relaxed outline-none transition focus:border-brand-sky"
-              placeholder="Write your solution or final answer here…"
-            />
-          </label>
+          <QuizAnswerInput
+            key={currentQuestion.id}
+            question={currentQuestion}
+            disabled={isAdvancing || Boolean(currentQuestion.evaluation)}
+            onChange={handleAnswerChange}
+          />
 
-          <div className="flex flex-wrap justify-between gap-3">
-            <button
-              type="button"
-              onClick={goToPreviousQuestion}
-              className="rounded-full border border-brand-slate px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background disabled:cursor-not-allowed disabled:opacity-60"
-              disabled={currentIndex === 0}
-            >
-              Previous
-            </button>
-            <div className="flex gap-3">
-              {currentIndex < totalQuestions - 1 ? (
+          {isAdaptive ? (
+            <div className="flex flex-wrap justify-between gap-3">
+              <button
+                type="button"
+                onClick={finishAdaptiveEarly}
+                className="rounded-full border border-brand-slate px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={isAdvancing || isGrading || !responses.some((item) => item.evaluation)}
+              >
+                Finish early
+              </button>
+              <button
+                type="button"
+                onClick={() => void submitAdaptiveAnswer()}
+                className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={isAdvancing || isGrading || !currentQuestion.userAnswer.trim()}
+              >
+                {isAdvancing
+                  ? 'Checking…'
+                  : currentQuestion.evaluation
+                    ? 'Load next question'
+                    : currentIndex + 1 >= totalQuestions
+                      ? 'Finish Quiz'
+                      : 'Submit answer'}
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap justify-between gap-3">
+              {canRevisit ? (
                 <button
                   type="button"
-                  onClick={goToNextQuestion}
-                  className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-background"
+                  onClick={() => goToQuestion(currentIndex - 1)}
+                  className="rounded-full border border-brand-slate px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={currentIndex === 0}
                 >
-                  Next
+                  Previous
                 </button>
               ) : (
-                <button
-                  type="button"
-                  onClick={gradeQuiz}
-                  className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
-                  disabled={isGrading}
-                >
-                  Finish Quiz
-                </button>
+                <span />
               )}
+              <div className="flex items-center gap-3">
+                {flaggedCount > 0 ? (
+                  <span className="text-xs text-brand-coral">
+                    {flaggedCount} flagged {flaggedCount === 1 ? 'question' : 'questions'}
+                  </span>
+                ) : null}
+                {currentIndex < totalQuestions - 1 ? (
+                  <button
+                    type="button"
+                    onClick={() => goToQuestion(currentIndex + 1)}
+                    className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-background"
+                  >
+                    Next
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => void gradeQuiz()}
+                    className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
+                    disabled={isGrading}
+                  >
+                    Finish Quiz
+                  </button>
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </section>
       ) : null}
 
@@ -667,17 +1466,86 @@ Please help me understand where I went wrong and guide me to the correct solutio
             <div>
               <h2 className="text-xl font-semibold text-brand-charcoal">Quiz Summary</h2>
               <p className="mt-1 text-sm text-brand-slate">
-                You answered {correctCount} out of {responses.length} questions correctly.
+                {Number.isInteger(correctCount)
+                  ? `You answered ${correctCount} out of ${responses.length} questions correctly.`
+                  : `You earned ${formatPoints(correctCount)} out of ${responses.length} points, with partial credit on multi-part questions.`}
               </p>
             </div>
-            <div className="rounded-2xl border border-brand-sky/50 bg-brand-sky/10 px-5 py-3 text-right">
-              <p className="text-xs uppercase tracking-wide text-brand-slate">Score</p>
-              <p className="text-2xl font-semibold text-brand-charcoal">
-                {formatPercentage(quizScore)}
-              </p>
+            <div className="flex flex-wrap gap-3">
+              {isAdaptive && skillEstimate !== null ? (
+                <div className="rounded-2xl border border-brand-mint/60 bg-brand-background px-5 py-3 text-right">
+                  <p className="text-xs uppercase tracking-wide text-brand-slate">Skill estimate</p>
+                  <p className="text-lg font-semibold text-brand-charcoal">
+                    {describeSkillEstimate(skillEstimate)}
+                  </p>
+                </div>
+              ) : null}
+              <div className="rounded-2xl border border-brand-sky/50 bg-brand-sky/10 px-5 py-3 text-right">
+                <p className="text-xs uppercase tracking-wide text-brand-slate">Score</p>
+                <p className="text-2xl font-semibold text-brand-charcoal">
+                  {formatPercentage(quizScore)}
+                </p>
+              </div>
             </div>
           </div>
 
+          {isAdaptive && responses.length > 0 ? (
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-brand-slate">
+                Difficulty path
+              </p>
+              <ol className="mt-2 flex flex-wrap gap-2 text-xs">
+                {responses.map((response, index) => (
+                  <li
+                    key={response.id}
+                    className={`rounded-full px-3 py-1 ${
+                      response.evaluation?.isCorrect
+                        ? 'bg-brand-mint/40 text-brand-charcoal'
+                        : 'bg-[#FEE2E2] text-brand-charcoal'
+                    }`}
+                  >
+                    {index + 1}. {response.difficulty}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : null}
+
+          {responses.length > 0 ? (
+            <div>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-xs font-semibold uppercase tracking-wide text-brand-slate">
+                  Pacing
+                </p>
+                <p className="text-xs text-brand-slate">
+                  {formatDuration(totalTimeSeconds)} total ·{' '}
+                  {formatDuration(totalTimeSeconds / responses.length)} per question
+                  {timedOut ? ' · time ran out before you submitted' : ''}
+                </p>
+              </div>
+              <ol className="mt-2 grid gap-2 text-xs sm:grid-cols-3 lg:grid-cols-5">
+                {responses.map((response, index) => (
+                  <li
+                    key={response.id}
+                    className={`flex items-center justify-between gap-2 rounded-xl px-3 py-2 ${
+                      response.evaluation?.isCorrect
+                        ? 'bg-brand-mint/40 text-brand-charcoal'
+                        : 'bg-[#FEE2E2] text-brand-charcoal'
+                    }`}
+                  >
+                    <span className="font-medium">
+                      {index + 1}. {response.evaluation?.isCorrect ? 'Correct' : 'Missed'}
+                    </span>
+                    <span className="text-brand-slate">
+                      {response.flagged ? 'Flagged · ' : ''}
+                      {response.timedOut ? 'Timed out' : formatDuration(response.timeSpentSeconds)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : null}
+
           {incorrectQuestions.length === 0 ? (
             <div className="rounded-xl border border-brand-mint/60 bg-brand-background px-4 py-3 text-sm text-brand-charcoal">
               Incredible work! You got everything correct. You can restart the quiz for a fresh set
@@ -703,6 +1571,10 @@ Please help me understand where I went wrong and guide me to the correct solutio
                         >
                           Question{' '}
                           {responses.findIndex((response) => response.id === question.id) + 1}
+                          <span className="ml-2 text-xs text-brand-slate">
+                            {question.flagged ? 'Flagged · ' : ''}
+                            {formatDuration(question.timeSpentSeconds)}
+                          </span>
                         </button>
                       </li>
                     );
@@ -715,16 +1587,39 @@ Please help me understand where I went wrong and guide me to the correct solutio
                   <div className="space-y-4">
                     <article className="space-y-3 rounded-xl border border-brand-mint/60 bg-brand-background p-4">
                       <h3 className="text-sm font-semibold text-brand-charcoal">Problem</h3>
-                      <MathText content={currentReviewQuestion.problemText} />
+                      <MathText content={fullQuestionText(currentReviewQuestion)} graphable />
                     </article>
 
                     <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] p-4 text-sm">
-                      <h4 className="font-semibold text-brand-charcoal">Your answer</h4>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <h4 className="font-semibold text-brand-charcoal">Your answer</h4>
+                        {currentReviewQuestion.evaluation?.gradedBy ? (
+                          <span className="text-xs text-brand-slate">
+                            {GRADED_BY_LABELS[currentReviewQuestion.evaluation.gradedBy]}
+                          </span>
+                        ) : null}
+                      </div>
                       <p className="mt-1 whitespace-pre-line text-brand-charcoal">
                         {currentReviewQuestion.userAnswer.trim()
                           ? currentReviewQuestion.userAnswer
                           : 'No answer provided.'}
                       </p>
+                      {currentReviewQuestion.evaluation?.partResults?.length ? (
+                        <ul className="mt-3 space-y-1">
+                          {currentReviewQuestion.evaluation.partResults.map((part) => (
+                            <li key={part.label} className="flex flex-wrap gap-2">
+                              <span className="font-semibold">({part.label})</span>
+                              <span
+                                className={
+                                  part.isCorrect ? 'text-brand-charcoal' : 'text-brand-coral'
+                                }
+                              >
+                                {part.isCorrect ? 'Correct' : `Expected ${part.correctAnswer}`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : null}
                     </div>
 
                     {currentReviewQuestion.evaluation?.explanation ? (
@@ -762,16 +1657,78 @@ Please help me understand where I went wrong and guide me to the correct solutio
           )}
 
           <div className="flex flex-wrap justify-between gap-3 border-t border-brand-mint/60 pt-4">
-            <div className="text-xs text-brand-slate">
-              {quizDocId ? `Quiz saved as #${quizDocId}.` : 'Quiz results were not saved.'}
+            <div className="space-y-1 text-xs text-brand-slate">
+              <p>
+                {quizDocId ? (
+                  <>
+                    Quiz saved.{' '}
+                    <Link
+                      to={`/quiz/history/${quizDocId}`}
+                      className="font-medium text-brand-sky hover:underline"
+                    >
+                      View it in your history
+                    </Link>{' '}
+                    or{' '}
+                    <Link
+                      to={`/quiz/history/${quizDocId}/worksheet`}
+                      className="font-medium text-brand-sky hover:underline"
+                    >
+                      print it as a worksheet
+                    </Link>
+                    .
+                  </>
+                ) : (
+                  'Quiz results were not saved.'
+                )}
+              </p>
+              {queuedReviewCount > 0 ? (
+                <p>
+                  {queuedReviewCount === 1
+                    ? '1 missed question was'
+                    : `${queuedReviewCount} missed questions were`}{' '}
+                  added to your{' '}
+                  <Link to="/review" className="font-medium text-brand-sky hover:underline">
+                    review queue
+                  </Link>
+                  .
+                </p>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {incorrectQuestions.length > 0 ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => void startRetake('missed', responses, quizDocId)}
+                    className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+                  >
+                    Retake missed questions
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void startRetake('variants', responses, quizDocId)}
+                    className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+                  >
+                    Retake with fresh variants
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void startRetake('weakest', responses, quizDocId)}
+                    title={`Focus: ${describeWeakestSubtopics(responses)}`}
+                    className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+                  >
+                    New quiz on my weakest subtopics
+                  </button>
+                </>
+              ) : null}
+              <button
+                type="button"
+                onClick={resetQuiz}
+                className="rounded-full border border-brand-slate px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background"
+              >
+                Start New Quiz
+              </button>
             </div>
-            <button
-              type="button"
-              onClick={resetQuiz}
-              className="rounded-full border border-brand-slate px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-brand-background"
-            >
-              Start New Quiz
-            </button>
           </div>
         </section>
       ) : null}
@@ -826,7 +1783,7 @@ const ReviewChatSection = ({ question, chatState, onSend, onStart }: ReviewChatS
                 : 'bg-[#E6F0FF] text-brand-charcoal'
             }`}
           >
-            <MathText content={message.content} />
+            <MathText content={message.content} graphable />
           </div>
         ))}
         {pendingContent ? (
@@ -0,0 +1,223 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LoadingScreen } from '../components/LoadingScreen';
+import { useQuizStats } from '../hooks/useQuizStats';
+import { describeSkillEstimate } from '../utils/adaptiveDifficulty';
+import { formatDateTime, formatDuration } from '../utils/formatters';
+import { DIFFICULTY_OPTIONS, PROBLEM_TOPICS, getTopicLabel } from '../utils/problemGenerator';
+import type { QuizResultRecord } from '../types/quiz';
+
+interface HistoryFilters {
+  /** `all`, `mixed` (quizzes without a topic focus) or a topic id. */
+  topic: string;
+  difficulty: string;
+  /** `YYYY-MM-DD` from the date inputs; empty means unbounded. */
+  from: string;
+  to: string;
+}
+
+const DEFAULT_FILTERS: HistoryFilters = {
+  topic: 'all',
+  difficulty: 'all',
+  from: '',
+  to: '',
+};
+
+const SELECT_CLASS_NAME =
+  'rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky';
+
+const matchesFilters = (quiz: QuizResultRecord, filters: HistoryFilters): boolean => {
+  if (filters.topic === 'mixed' && quiz.topicId) {
+    return false;
+  }
+  if (filters.topic !== 'all' && filters.topic !== 'mixed' && quiz.topicId !== filters.topic) {
+    return false;
+  }
+
+  if (filters.difficulty !== 'all' && quiz.difficulty !== filters.difficulty) {
+    return false;
+  }
+
+  const takenAt = quiz.completedAt ?? quiz.createdAt;
+  // Date inputs are local calendar days, so compare against local midnight.
+  if (filters.from && (!takenAt || takenAt < new Date(`${filters.from}T00:00:00`))) {
+    return false;
+  }
+  if (filters.to && (!takenAt || takenAt > new Date(`${filters.to}T23:59:59.999`))) {
+    return false;
+  }
+
+  return true;
+};
+
+const QuizHistoryPage = () => {
+  const { summaries, loading, error } = useQuizStats();
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_FILTERS);
+
+  const filteredQuizzes = useMemo(
+    () => summaries.filter((quiz) => matchesFilters(quiz, filters)),
+    [summaries, filters],
+  );
+
+  const handleFilterChange = (event: ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const hasFilters =
+    filters.topic !== DEFAULT_FILTERS.topic ||
+    filters.difficulty !== DEFAULT_FILTERS.difficulty ||
+    Boolean(filters.from) ||
+    Boolean(filters.to);
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-5xl flex-1 flex-col gap-6 px-4 py-6 md:px-6">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-semibold text-brand-charcoal">Quiz History</h1>
+          <p className="text-sm text-brand-slate">
+            Look back at past quizzes and open any question to see how it was graded.
+          </p>
+        </div>
+        <Link
+          to="/quiz"
+          className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+        >
+          Take a quiz
+        </Link>
+      </header>
+
+      {error ? (
+        <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          We could not load your quiz history. Please refresh the page.
+        </div>
+      ) : null}
+
+      <section className="grid gap-4 rounded-2xl border border-brand-mint/60 bg-white p-4 shadow-subtle sm:grid-cols-2 lg:grid-cols-4">
+        <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+          Topic
+          <select
+            name="topic"
+            value={filters.topic}
+            onChange={handleFilterChange}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="all">All topics</option>
+            <option value="mixed">Mixed topics</option>
+            {PROBLEM_TOPICS.map((topic) => (
+              <option key={topic.id} value={topic.id}>
+                {topic.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+          Difficulty
+          <select
+            name="difficulty"
+            value={filters.difficulty}
+            onChange={handleFilterChange}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="all">All difficulties</option>
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+          From
+          <input
+            name="from"
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={handleFilterChange}
+            className={SELECT_CLASS_NAME}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+          To
+          <input
+            name="to"
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={handleFilterChange}
+            className={SELECT_CLASS_NAME}
+          />
+        </label>
+      </section>
+
+      {summaries.length === 0 ? (
+        <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+          You have not finished a quiz yet. Completed quizzes show up here.
+        </section>
+      ) : filteredQuizzes.length === 0 ? (
+        <section className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+          No quizzes match these filters.
+          {hasFilters ? (
+            <button
+              type="button"
+              onClick={() => setFilters(DEFAULT_FILTERS)}
+              className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-background"
+            >
+              Clear filters
+            </button>
+          ) : null}
+        </section>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {filteredQuizzes.map((quiz) => (
+            <li key={quiz.id}>
+              <Link
+                to={`/quiz/history/${quiz.id}`}
+                className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-mint/60 bg-white p-5 shadow-subtle transition hover:border-brand-sky"
+              >
+                <div className="flex flex-col gap-1">
+                  <p className="text-sm font-semibold text-brand-charcoal">
+                    {getTopicLabel(quiz.topicId) ?? 'Mixed topics'}
+                  </p>
+                  <p className="text-xs text-brand-slate">
+                    {formatDateTime(quiz.completedAt ?? quiz.createdAt)}
+                  </p>
+                  <div className="mt-1 flex flex-wrap gap-2 text-xs text-brand-slate">
+                    <span className="rounded-full bg-brand-mint/40 px-3 py-1">
+                      {quiz.mode === 'adaptive' ? 'Adaptive from ' : ''}
+                      {quiz.difficulty}
+                    </span>
+                    <span className="rounded-full bg-brand-background px-3 py-1">
+                      {quiz.totalQuestions} {quiz.totalQuestions === 1 ? 'question' : 'questions'}
+                    </span>
+                    {quiz.totalTimeSeconds !== null ? (
+                      <span className="rounded-full bg-brand-background px-3 py-1">
+                        {formatDuration(quiz.totalTimeSeconds)}
+                        {quiz.timerMode !== 'untimed' ? ' · timed' : ''}
+                      </span>
+                    ) : null}
+                    {quiz.skillEstimate !== null ? (
+                      <span className="rounded-full bg-brand-sky/20 px-3 py-1">
+                        Skill estimate: {describeSkillEstimate(quiz.skillEstimate)}
+                      </span>
+                    ) : null}
+                  </div>
+                </div>
+                <p className="text-2xl font-semibold text-brand-charcoal">
+                  {quiz.scorePercent.toFixed(0)}%
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default QuizHistoryPage;
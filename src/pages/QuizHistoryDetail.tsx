@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { LoadingScreen } from '../components/LoadingScreen';
+import { MathText } from '../components/MathText';
+import { useAuth } from '../context/AuthContext';
+import { useSessionStore } from '../context/SessionContext';
+import { useQuizRecord } from '../hooks/useQuizRecord';
+import { describeSkillEstimate } from '../utils/adaptiveDifficulty';
+import { formatDateTime, formatDuration } from '../utils/formatters';
+import { createPracticeSession } from '../utils/practiceSessions';
+import { getTopicLabel } from '../utils/problemGenerator';
+import { fullQuestionText } from '../utils/questionText';
+import { describeWeakestSubtopics, isMissedQuestion } from '../utils/quizRetakes';
+import type { QuizRetakeKind, StoredQuizQuestion } from '../types/quiz';
+
+type QuestionOutcome = 'correct' | 'partial' | 'missed';
+
+const RETAKE_LABELS: Record<QuizRetakeKind, string> = {
+  missed: 'Retake missed questions',
+  variants: 'Retake with fresh variants',
+  weakest: 'New quiz on my weakest subtopics',
+};
+
+const OUTCOME_STYLES: Record<QuestionOutcome, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'bg-brand-mint/40 text-brand-charcoal' },
+  partial: { label: 'Partial credit', className: 'bg-brand-sky/20 text-brand-charcoal' },
+  missed: { label: 'Missed', className: 'bg-[#FEE2E2] text-brand-charcoal' },
+};
+
+const outcomeFor = ({ evaluation }: StoredQuizQuestion): QuestionOutcome => {
+  if (evaluation.isCorrect) {
+    return 'correct';
+  }
+  return evaluation.score && evaluation.score > 0 ? 'partial' : 'missed';
+};
+
+const QuizHistoryDetailPage = () => {
+  const { quizId } = useParams<{ quizId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const setActiveSessionId = useSessionStore((state) => state.setActiveSessionId);
+  const { record, loading, error } = useQuizRecord(quizId);
+  const [openingQuestionId, setOpeningQuestionId] = useState<string | null>(null);
+  const [tutorError, setTutorError] = useState<string | null>(null);
+
+  // The tutor session opens with the question as its first message, like frontier practice.
+  const handleOpenInTutor = async (question: StoredQuizQuestion) => {
+    if (!user || openingQuestionId) {
+      return;
+    }
+
+    setOpeningQuestionId(question.id);
+    setTutorError(null);
+    try {
+      const sessionId = await createPracticeSession(user.uid, {
+        problemText: fullQuestionText(question),
+        topicId: question.topicId,
+        subtopic: question.subtopic ?? null,
+        difficulty: question.difficulty,
+        problemId: question.problemId ?? null,
+        title: `Quiz review — ${question.subtopic ?? getTopicLabel(question.topicId) ?? 'Practice'}`,
+      });
+      setActiveSessionId(sessionId);
+      navigate('/tutor');
+    } catch (sessionError) {
+      console.error('Failed to open quiz question in tutor', sessionError);
+      setTutorError('We could not open a tutor session right now. Please try again.');
+    } finally {
+      setOpeningQuestionId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-4xl flex-1 flex-col gap-6 px-4 py-6 md:px-6">
+      <Link to="/quiz/history" className="text-sm font-medium text-brand-sky hover:underline">
+        ← All quizzes
+      </Link>
+
+      {error ? (
+        <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          We could not load this quiz. Please refresh the page.
+        </div>
+      ) : null}
+
+      {tutorError ? (
+        <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          {tutorError}
+        </div>
+      ) : null}
+
+      {!record ? (
+        error ? null : (
+          <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+            This quiz could not be found. It may still be in progress or may have been removed.
+          </section>
+        )
+      ) : (
+        <>
+          <header className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-col gap-1">
+              <h1 className="text-2xl font-semibold text-brand-charcoal">
+                {getTopicLabel(record.topicId) ?? 'Mixed topics'}
+              </h1>
+              <p className="text-sm text-brand-slate">
+                {formatDateTime(record.completedAt ?? record.createdAt)} ·{' '}
+                {record.mode === 'adaptive' ? 'Adaptive from ' : ''}
+                {record.difficulty}
+                {record.timerMode !== 'untimed' && record.timeLimitSeconds
+                  ? ` · ${formatDuration(record.timeLimitSeconds)} ${
+                      record.timerMode === 'overall' ? 'exam' : 'per question'
+                    }`
+                  : ''}
+                {record.timedOut ? ' · time ran out' : ''}
+              </p>
+              {record.retakeOf ? (
+                <p className="text-sm text-brand-slate">
+                  {RETAKE_LABELS[record.retakeOf.kind]}
+                  {record.retakeOf.quizId ? (
+                    <>
+                      {' '}
+                      from{' '}
+                      <Link
+                        to={`/quiz/history/${record.retakeOf.quizId}`}
+                        className="font-medium text-brand-sky hover:underline"
+                      >
+                        an earlier quiz
+                      </Link>
+                    </>
+                  ) : null}
+                </p>
+              ) : null}
+              {record.skillEstimate !== null && record.skillEstimate !== undefined ? (
+                <p className="text-sm text-brand-slate">
+                  Skill estimate: {describeSkillEstimate(record.skillEstimate)}
+                </p>
+              ) : null}
+            </div>
+            <div className="rounded-2xl border border-brand-sky/50 bg-brand-sky/10 px-5 py-3 text-right">
+              <p className="text-xs uppercase tracking-wide text-brand-slate">Score</p>
+              <p className="text-2xl font-semibold text-brand-charcoal">
+                {record.scorePercent.toFixed(1)}%
+              </p>
+            </div>
+          </header>
+
+          {quizId ? (
+            <nav aria-label="Practice from this quiz" className="flex flex-wrap gap-2">
+              <Link
+                to={`/quiz/history/${quizId}/worksheet`}
+                className="rounded-full border border-brand-slate/40 px-4 py-2 text-sm font-medium text-brand-slate transition hover:bg-white"
+              >
+                Printable worksheet
+              </Link>
+              {(record.questions.some(isMissedQuestion)
+                ? (Object.keys(RETAKE_LABELS) as QuizRetakeKind[])
+                : []
+              ).map((kind) => (
+                <Link
+                  key={kind}
+                  to={`/quiz?retake=${kind}&from=${quizId}`}
+                  title={
+                    kind === 'weakest'
+                      ? `Focus: ${describeWeakestSubtopics(record.questions)}`
+                      : undefined
+                  }
+                  className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+                >
+                  {RETAKE_LABELS[kind]}
+                </Link>
+              ))}
+            </nav>
+          ) : null}
+
+          <ol className="flex flex-col gap-4">
+            {record.questions.map((question, index) => {
+              const outcome = OUTCOME_STYLES[outcomeFor(question)];
+              const { evaluation } = question;
+
+              return (
+                <li
+                  key={question.id}
+                  className="flex flex-col gap-4 rounded-2xl border border-brand-mint/60 bg-white p-5 shadow-subtle"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <span className="text-sm font-medium text-brand-slate">
+                      Question {index + 1}
+                    </span>
+                    <div className="flex flex-wrap gap-2 text-xs text-brand-slate">
+                      <span className={`rounded-full px-3 py-1 ${outcome.className}`}>
+                        {outcome.label}
+                      </span>
+                      <span className="rounded-full bg-brand-background px-3 py-1">
+                        {question.difficulty}
+                      </span>
+                      <span className="rounded-full bg-brand-background px-3 py-1">
+                        {question.flagged ? 'Flagged · ' : ''}
+                        {question.timedOut
+                          ? 'Timed out'
+                          : formatDuration(question.timeSpentSeconds)}
+                      </span>
+                    </div>
+                  </div>
+
+                  <article className="rounded-xl border border-brand-mint/60 bg-brand-background p-4">
+                    <MathText content={fullQuestionText(question)} graphable />
+                  </article>
+
+                  <div className="text-sm text-brand-charcoal">
+                    <h3 className="font-semibold">Your answer</h3>
+                    <p className="mt-1 whitespace-pre-line">
+                      {question.userAnswer.trim() ? question.userAnswer : 'No answer provided.'}
+                    </p>
+                    {evaluation.partResults?.length ? (
+                      <ul className="mt-2 space-y-1">
+                        {evaluation.partResults.map((part) => (
+                          <li key={part.label} className="flex flex-wrap gap-2">
+                            <span className="font-semibold">({part.label})</span>
+                            <span
+                              className={
+                                part.isCorrect ? 'text-brand-charcoal' : 'text-brand-coral'
+                              }
+                            >
+                              {part.isCorrect ? 'Correct' : `Expected ${part.correctAnswer}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+
+                  {evaluation.explanation ? (
+                    <div className="rounded-xl border border-brand-sky/50 bg-brand-sky/10 p-4 text-sm text-brand-charcoal">
+                      <h3 className="font-semibold">Explanation</h3>
+                      <p className="mt-1 whitespace-pre-line">{evaluation.explanation}</p>
+                    </div>
+                  ) : null}
+
+                  {!evaluation.isCorrect && evaluation.correctAnswer ? (
+                    <p className="text-sm text-brand-charcoal">
+                      <span className="font-semibold">Answer:</span> {evaluation.correctAnswer}
+                    </p>
+                  ) : null}
+
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => void handleOpenInTutor(question)}
+                      disabled={openingQuestionId !== null}
+                      className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {openingQuestionId === question.id ? 'Opening…' : 'Open in Tutor'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuizHistoryDetailPage;
@@ -0,0 +1,145 @@
+import { useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { LoadingScreen } from '../components/LoadingScreen';
+import { QuizWorksheet } from '../components/QuizWorksheet';
+import { useQuizRecord } from '../hooks/useQuizRecord';
+import { downloadFile } from '../utils/fileDownload';
+import { downloadElementPdf } from '../utils/pdfDownload';
+import {
+  buildWorksheetDocument,
+  worksheetFileName,
+  worksheetTitle,
+  type WorksheetOptions,
+} from '../utils/worksheetExport';
+
+const DEFAULT_OPTIONS: WorksheetOptions = {
+  includeAnswerKey: true,
+  includeExplanations: false,
+};
+
+const QuizWorksheetPage = () => {
+  const { quizId } = useParams<{ quizId: string }>();
+  const { record, loading, error } = useQuizRecord(quizId);
+  const [options, setOptions] = useState<WorksheetOptions>(DEFAULT_OPTIONS);
+  const worksheetRef = useRef<HTMLDivElement | null>(null);
+  const [isSavingPdf, setIsSavingPdf] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+
+  const handleDownloadHtml = () => {
+    if (!record || !worksheetRef.current) {
+      return;
+    }
+
+    // The rendered markup already holds the typeset KaTeX, so the file needs no scripts.
+    downloadFile(
+      worksheetFileName(record),
+      buildWorksheetDocument(worksheetTitle(record), worksheetRef.current.outerHTML),
+      'text/html',
+    );
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!record || !worksheetRef.current || isSavingPdf) {
+      return;
+    }
+
+    setIsSavingPdf(true);
+    setPdfError(null);
+    try {
+      await downloadElementPdf(worksheetFileName(record, 'pdf'), worksheetRef.current);
+    } catch (pdfDownloadError) {
+      console.error('Failed to create worksheet PDF', pdfDownloadError);
+      setPdfError('We could not create the PDF. Print the worksheet and save it as a PDF instead.');
+    } finally {
+      setIsSavingPdf(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-4xl flex-1 flex-col gap-6 px-4 py-6 md:px-6 print:max-w-none print:p-0">
+      <div className="flex flex-col gap-4 print:hidden">
+        <Link
+          to={quizId ? `/quiz/history/${quizId}` : '/quiz/history'}
+          className="text-sm font-medium text-brand-sky hover:underline"
+        >
+          ← Back to quiz
+        </Link>
+
+        {error ? (
+          <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+            We could not load this quiz. Please refresh the page.
+          </div>
+        ) : null}
+
+        {record ? (
+          <section className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-mint/60 bg-white p-4 shadow-subtle">
+            <div className="flex flex-wrap gap-4 text-sm text-brand-charcoal">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.includeAnswerKey}
+                  onChange={(event) =>
+                    setOptions((prev) => ({ ...prev, includeAnswerKey: event.target.checked }))
+                  }
+                />
+                Answer key
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.includeAnswerKey && options.includeExplanations}
+                  disabled={!options.includeAnswerKey}
+                  onChange={(event) =>
+                    setOptions((prev) => ({ ...prev, includeExplanations: event.target.checked }))
+                  }
+                />
+                Worked explanations
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={handleDownloadHtml}
+                className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+              >
+                Download HTML
+              </button>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+              >
+                Print
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleDownloadPdf()}
+                disabled={isSavingPdf}
+                className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSavingPdf ? 'Preparing PDF…' : 'Download PDF'}
+              </button>
+            </div>
+            {pdfError ? <p className="w-full text-sm text-brand-coral">{pdfError}</p> : null}
+          </section>
+        ) : error ? null : (
+          <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+            This quiz could not be found. It may still be in progress or may have been removed.
+          </section>
+        )}
+      </div>
+
+      {record ? (
+        <div className="rounded-2xl border border-brand-mint/60 bg-white p-10 shadow-subtle print:rounded-none print:border-0 print:p-0 print:shadow-none">
+          <QuizWorksheet ref={worksheetRef} record={record} options={options} />
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default QuizWorksheetPage;
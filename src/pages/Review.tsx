@@ -0,0 +1,292 @@
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { evaluateQuizAnswer } from '../api/evaluateQuizAnswer';
+import { describeQuotaError } from '../api/errors';
+import { LoadingScreen } from '../components/LoadingScreen';
+import { MathText } from '../components/MathText';
+import { useAuth } from '../context/AuthContext';
+import { useReviewCards } from '../hooks/useReviewCards';
+import { generateProblem, getTopicLabel } from '../utils/problemGenerator';
+import { saveReviewResult } from '../utils/reviewScheduler';
+import { findSkillForSubtopic } from '../utils/skillGraph';
+import { recordSkillEvidence } from '../utils/skillMastery';
+import type { GeneratedProblem } from '../types/problem';
+import type { QuizQuestionEvaluation } from '../types/quiz';
+import type { ReviewCard, ReviewSchedule } from '../types/review';
+
+type ReviewOutcome = {
+  evaluation: QuizQuestionEvaluation;
+  schedule: ReviewSchedule | null;
+};
+
+const formatInterval = (days: number) => (days === 1 ? 'tomorrow' : `in ${days} days`);
+
+const ReviewPage = () => {
+  const { user } = useAuth();
+  const { dueCards, loading, error: cardsError } = useReviewCards();
+  // The queue is fixed when the session starts so rescheduled cards do not reshuffle it.
+  const [queue, setQueue] = useState<ReviewCard[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [variant, setVariant] = useState<GeneratedProblem | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const requestedCardIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && queue === null) {
+      setQueue(dueCards);
+    }
+  }, [dueCards, loading, queue]);
+
+  const currentCard = queue?.[currentIndex] ?? null;
+
+  const loadVariant = async (card: ReviewCard) => {
+    requestedCardIdRef.current = card.id;
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const generated = await generateProblem({
+        topicId: card.topicId,
+        subtopic: card.subtopic ?? undefined,
+        difficulty: card.difficulty,
+        variantOf: card.problemText,
+        mode: 'quiz',
+      });
+
+      if (requestedCardIdRef.current === card.id) {
+        setVariant(generated);
+      }
+    } catch (generationError) {
+      console.error('Failed to generate review variant', generationError);
+      setError(
+        describeQuotaError(generationError) ??
+          'We could not create a practice variant right now. Please try again.',
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (currentCard && requestedCardIdRef.current !== currentCard.id) {
+      void loadVariant(currentCard);
+    }
+  }, [currentCard]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!user || !currentCard || !variant || isChecking || !answer.trim()) {
+      return;
+    }
+
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      const evaluation = await evaluateQuizAnswer({
+        question: variant.problemText,
+        userAnswer: answer,
+        difficulty: variant.difficulty,
+        problemId: variant.problemId ?? null,
+      });
+
+      let schedule: ReviewSchedule | null = null;
+      try {
+        schedule = await saveReviewResult(user.uid, currentCard, evaluation.isCorrect);
+      } catch (scheduleError) {
+        console.error('Failed to reschedule review card', scheduleError);
+      }
+
+      const skill = findSkillForSubtopic(currentCard.topicId, currentCard.subtopic);
+      if (skill) {
+        recordSkillEvidence(user.uid, [{ skillId: skill.id, correct: evaluation.isCorrect }]).catch(
+          (masteryError) => {
+            console.error('Failed to record skill evidence', masteryError);
+          },
+        );
+      }
+
+      if (evaluation.isCorrect) {
+        setCorrectCount((prev) => prev + 1);
+      }
+      setOutcome({ evaluation, schedule });
+    } catch (evaluationError) {
+      console.error('Failed to check review answer', evaluationError);
+      setError(
+        describeQuotaError(evaluationError) ??
+          'We could not check this answer right now. Please try again.',
+      );
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleNext = () => {
+    setVariant(null);
+    setAnswer('');
+    setOutcome(null);
+    setError(null);
+    setCurrentIndex((prev) => prev + 1);
+  };
+
+  if (!user || loading || queue === null) {
+    return <LoadingScreen />;
+  }
+
+  const isFinished = queue.length > 0 && currentIndex >= queue.length;
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-3xl flex-1 flex-col gap-6 px-4 py-6 md:px-6">
+      <header className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold text-brand-charcoal">Review</h1>
+        <p className="text-sm text-brand-slate">
+          Practice fresh variants of questions you missed. Each card comes back on a spaced schedule
+          until it sticks.
+        </p>
+      </header>
+
+      {cardsError ? (
+        <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          We could not load your review queue. Please refresh the page.
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          {error}
+        </div>
+      ) : null}
+
+      {queue.length === 0 ? (
+        <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+          Nothing is due for review right now. Missed quiz questions show up here when it is time to
+          practice them again.{' '}
+          <Link to="/quiz" className="font-medium text-brand-sky hover:underline">
+            Take a quiz
+          </Link>
+        </section>
+      ) : isFinished ? (
+        <section className="flex flex-col gap-4 rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
+          <h2 className="text-xl font-semibold text-brand-charcoal">Review complete</h2>
+          <p className="text-sm text-brand-slate">
+            You answered {correctCount} of {queue.length} variants correctly. Missed cards come back
+            tomorrow; the rest are spaced further out.
+          </p>
+          <Link
+            to="/dashboard"
+            className="self-start rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+          >
+            Back to Dashboard
+          </Link>
+        </section>
+      ) : currentCard ? (
+        <section className="flex flex-col gap-5 rounded-2xl border border-brand-mint/60 bg-white p-6 shadow-subtle">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <span className="text-sm font-medium text-brand-slate">
+              Card {currentIndex + 1} of {queue.length}
+            </span>
+            <div className="flex gap-2 text-xs text-brand-slate">
+              <span className="rounded-full bg-brand-sky/20 px-3 py-1">
+                {currentCard.subtopic ?? getTopicLabel(currentCard.topicId)}
+              </span>
+              {currentCard.lapses > 0 ? (
+                <span className="rounded-full bg-brand-mint/40 px-3 py-1">
+                  Missed {currentCard.lapses + 1} times
+                </span>
+              ) : null}
+            </div>
+          </div>
+
+          {isGenerating || !variant ? (
+            <div className="rounded-xl border border-brand-mint/60 bg-brand-background p-4">
+              {isGenerating ? (
+                <>
+                  <div className="h-4 w-3/4 animate-pulse rounded bg-brand-mint/20" />
+                  <div className="mt-2 h-4 w-1/2 animate-pulse rounded bg-brand-mint/10" />
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => void loadVariant(currentCard)}
+                  className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-white"
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          ) : (
+            <form className="flex flex-col gap-4" onSubmit={handleSubmit}>
+              <article className="rounded-xl border border-brand-mint/60 bg-brand-background p-4">
+                <MathText content={variant.problemText} />
+              </article>
+
+              <label className="flex flex-col gap-2 text-sm font-medium text-brand-charcoal">
+                Your answer
+                <textarea
+                  value={answer}
+                  onChange={(event) => setAnswer(event.target.value)}
+                  disabled={outcome !== null}
+                  className="min-h-28 rounded-2xl border border-brand-mint/60 bg-white px-4 py-3 text-sm leading-relaxed outline-none transition focus:border-brand-sky disabled:opacity-70"
+                  placeholder="Write your final answer here…"
+                />
+              </label>
+
+              {outcome ? (
+                <div
+                  className={`rounded-xl border p-4 text-sm text-brand-charcoal ${
+                    outcome.evaluation.isCorrect
+                      ? 'border-brand-mint bg-brand-mint/20'
+                      : 'border-brand-coral/40 bg-[#FEE2E2]'
+                  }`}
+                >
+                  <p className="font-semibold">
+                    {outcome.evaluation.isCorrect ? 'Correct!' : 'Not quite.'}
+                  </p>
+                  {outcome.evaluation.explanation ? (
+                    <p className="mt-1 whitespace-pre-line">{outcome.evaluation.explanation}</p>
+                  ) : null}
+                  {!outcome.evaluation.isCorrect && outcome.evaluation.correctAnswer ? (
+                    <p className="mt-1">Answer: {outcome.evaluation.correctAnswer}</p>
+                  ) : null}
+                  {outcome.schedule ? (
+                    <p className="mt-2 text-xs text-brand-slate">
+                      Next review {formatInterval(outcome.schedule.intervalDays)}.
+                    </p>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <div className="flex justify-end">
+                {outcome ? (
+                  <button
+                    type="button"
+                    onClick={handleNext}
+                    className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+                  >
+                    {currentIndex < queue.length - 1 ? 'Next card' : 'Finish review'}
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={isChecking || !answer.trim()}
+                    className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isChecking ? 'Checking…' : 'Check answer'}
+                  </button>
+                )}
+              </div>
+            </form>
+          )}
+        </section>
+      ) : null}
+    </div>
+  );
+};
+
+export default ReviewPage;
@@ -0,0 +1,251 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useSessionStore } from '../context/SessionContext';
+import { useSearchIndex } from '../hooks/useSearchIndex';
+import { formatDateTime } from '../utils/formatters';
+import { DIFFICULTY_OPTIONS, PROBLEM_TOPICS, getTopicLabel } from '../utils/problemGenerator';
+import {
+  DEFAULT_SEARCH_FILTERS,
+  searchDocuments,
+  tokenize,
+  type SearchDocumentKind,
+  type SearchFilters,
+  type SearchResult,
+} from '../utils/searchIndex';
+
+const KIND_LABELS: Record<SearchDocumentKind, string> = {
+  session: 'Session',
+  message: 'Tutor chat',
+  ocr: 'Uploaded image',
+  quiz: 'Quiz question',
+};
+
+const SELECT_CLASS_NAME =
+  'rounded-xl border border-brand-mint/60 bg-white px-3 py-2 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The snippet with each occurrence of a query term highlighted. */
+const HighlightedSnippet = ({ snippet, query }: { snippet: string; query: string }) => {
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return <>{snippet}</>;
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {snippet.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded bg-brand-mint/60 text-brand-charcoal">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+};
+
+const ResultMeta = ({ result }: { result: SearchResult }) => (
+  <div className="flex flex-wrap gap-2 text-xs text-brand-slate">
+    <span className="rounded-full bg-brand-sky/20 px-3 py-1">
+      {KIND_LABELS[result.document.kind]}
+    </span>
+    {result.document.topicId ? (
+      <span className="rounded-full bg-brand-background px-3 py-1">
+        {getTopicLabel(result.document.topicId) ?? result.document.topicId}
+      </span>
+    ) : null}
+    {result.document.difficulty ? (
+      <span className="rounded-full bg-brand-background px-3 py-1">
+        {result.document.difficulty}
+      </span>
+    ) : null}
+    {result.document.date ? (
+      <span className="py-1">{formatDateTime(result.document.date)}</span>
+    ) : null}
+  </div>
+);
+
+const SearchPage = () => {
+  const navigate = useNavigate();
+  const setActiveSessionId = useSessionStore((state) => state.setActiveSessionId);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { index, loading, error } = useSearchIndex();
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const query = searchParams.get('q') ?? '';
+
+  const results = useMemo(
+    () => (index ? searchDocuments(index, query, filters) : []),
+    [index, query, filters],
+  );
+
+  const hasFilters =
+    filters.topic !== DEFAULT_SEARCH_FILTERS.topic ||
+    filters.difficulty !== DEFAULT_SEARCH_FILTERS.difficulty ||
+    Boolean(filters.from) ||
+    Boolean(filters.to);
+
+  const handleQueryChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { value } = event.target;
+    // Replace rather than push, so typing does not fill the history with one entry per letter.
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  const handleFilterChange = (event: ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleOpenSession = (sessionId: string) => {
+    setActiveSessionId(sessionId);
+    navigate('/tutor');
+  };
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-5xl flex-1 flex-col gap-6 px-4 py-6 md:px-6">
+      <header className="flex flex-col gap-2">
+        <h1 className="text-2xl font-semibold text-brand-charcoal">Search</h1>
+        <p className="text-sm text-brand-slate">
+          Find a past problem in your tutor sessions, uploaded images and quiz questions.
+        </p>
+      </header>
+
+      <section className="flex flex-col gap-4 rounded-2xl border border-brand-mint/60 bg-white p-4 shadow-subtle">
+        <input
+          type="search"
+          value={query}
+          onChange={handleQueryChange}
+          placeholder="Search for a word or number, e.g. ladder"
+          className="rounded-xl border border-brand-mint/60 px-4 py-3 text-sm text-brand-charcoal outline-none transition focus:border-brand-sky"
+        />
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+            Topic
+            <select
+              name="topic"
+              value={filters.topic}
+              onChange={handleFilterChange}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="all">All topics</option>
+              {PROBLEM_TOPICS.map((topic) => (
+                <option key={topic.id} value={topic.id}>
+                  {topic.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+            Difficulty
+            <select
+              name="difficulty"
+              value={filters.difficulty}
+              onChange={handleFilterChange}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="all">All difficulties</option>
+              {DIFFICULTY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+            From
+            <input
+              name="from"
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={handleFilterChange}
+              className={SELECT_CLASS_NAME}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-brand-slate">
+            To
+            <input
+              name="to"
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={handleFilterChange}
+              className={SELECT_CLASS_NAME}
+            />
+          </label>
+        </div>
+      </section>
+
+      {error ? (
+        <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+          We could not load your history for searching. Please refresh the page.
+        </div>
+      ) : null}
+
+      {loading ? (
+        <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+          Indexing your sessions and quizzes…
+        </section>
+      ) : !query.trim() ? (
+        <section className="rounded-2xl border border-dashed border-brand-mint/80 bg-brand-background p-6 text-sm text-brand-slate">
+          {index
+            ? `${index.documents.length} session titles, messages, image texts and quiz questions to search.`
+            : 'Type to search your history.'}
+        </section>
+      ) : results.length === 0 ? (
+        <section className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+          Nothing matches “{query.trim()}”{hasFilters ? ' with these filters.' : '.'}
+          {hasFilters ? (
+            <button
+              type="button"
+              onClick={() => setFilters(DEFAULT_SEARCH_FILTERS)}
+              className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-background"
+            >
+              Clear filters
+            </button>
+          ) : null}
+        </section>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {results.map((result) => {
+            const { id, title, target } = result.document;
+            const content = (
+              <>
+                <p className="text-sm font-semibold text-brand-charcoal">{title}</p>
+                <p className="text-sm text-brand-slate">
+                  <HighlightedSnippet snippet={result.snippet} query={query} />
+                </p>
+                <ResultMeta result={result} />
+              </>
+            );
+            const className =
+              'flex w-full flex-col gap-2 rounded-2xl border border-brand-mint/60 bg-white p-5 text-left shadow-subtle transition hover:border-brand-sky';
+
+            return (
+              <li key={id}>
+                {target.type === 'quiz' ? (
+                  <Link to={`/quiz/history/${target.quizId}`} className={className}>
+                    {content}
+                  </Link>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleOpenSession(target.sessionId)}
+                    className={className}
+                  >
+                    {content}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchPage;
@@ -0,0 +1,231 @@
+import { useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { LoadingScreen } from '../components/LoadingScreen';
+import { SessionTranscriptView } from '../components/SessionTranscriptView';
+import { useAuth } from '../context/AuthContext';
+import { useSessionTranscript } from '../hooks/useSessionTranscript';
+import { downloadFile, fileNameStem } from '../utils/fileDownload';
+import { downloadElementPdf } from '../utils/pdfDownload';
+import { transcriptTitle, transcriptToLatex, transcriptToMarkdown } from '../utils/sessionExport';
+import { revokeSessionShare, shareSession, shareUrl } from '../utils/sessionShares';
+
+const SessionExportPage = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const { user } = useAuth();
+  const { transcript, loading, error } = useSessionTranscript(sessionId);
+  // Undefined until the student shares or revokes here; the loaded session says which link is live.
+  const [sharedId, setSharedId] = useState<string | null | undefined>(undefined);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isSavingPdf, setIsSavingPdf] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const transcriptRef = useRef<HTMLDivElement | null>(null);
+
+  const shareId = sharedId === undefined ? (transcript?.shareId ?? null) : sharedId;
+
+  const handleShare = async () => {
+    if (!user || !transcript || isSharing) {
+      return;
+    }
+
+    setIsSharing(true);
+    setShareError(null);
+    try {
+      setSharedId(await shareSession(user.uid, { ...transcript, shareId }));
+    } catch (shareSessionError) {
+      console.error('Failed to share session', shareSessionError);
+      setShareError('We could not create the share link. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!user || !transcript || !shareId || isSharing) {
+      return;
+    }
+
+    setIsSharing(true);
+    setShareError(null);
+    try {
+      await revokeSessionShare(user.uid, transcript.id, shareId);
+      setSharedId(null);
+      setCopied(false);
+    } catch (revokeError) {
+      console.error('Failed to revoke session share', revokeError);
+      setShareError('We could not turn off the share link. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareId) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(shareUrl(shareId));
+      setCopied(true);
+    } catch (copyError) {
+      console.error('Failed to copy share link', copyError);
+      setShareError('Copying is blocked in this browser. Select the link and copy it instead.');
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  const fileStem = transcript
+    ? fileNameStem(transcriptTitle(transcript), transcript.createdAt)
+    : 'session';
+
+  const handleDownloadPdf = async () => {
+    if (!transcriptRef.current || isSavingPdf) {
+      return;
+    }
+
+    setIsSavingPdf(true);
+    setPdfError(null);
+    try {
+      await downloadElementPdf(`${fileStem}.pdf`, transcriptRef.current);
+    } catch (pdfDownloadError) {
+      console.error('Failed to create session PDF', pdfDownloadError);
+      setPdfError('We could not create the PDF. Print the page and save it as a PDF instead.');
+    } finally {
+      setIsSavingPdf(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-4xl flex-1 flex-col gap-6 px-4 py-6 md:px-6 print:max-w-none print:p-0">
+      <div className="flex flex-col gap-4 print:hidden">
+        <Link to="/dashboard" className="text-sm font-medium text-brand-sky hover:underline">
+          ← Back to dashboard
+        </Link>
+
+        {error ? (
+          <div className="rounded-xl border border-brand-coral/40 bg-[#FEE2E2] px-4 py-3 text-sm text-brand-charcoal">
+            We could not load this session. Please refresh the page.
+          </div>
+        ) : null}
+
+        {transcript ? (
+          <section className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-brand-mint/60 bg-white p-4 shadow-subtle">
+            <p className="text-sm text-brand-slate">
+              Export the full transcript with its math, steps and uploaded images.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() =>
+                  downloadFile(`${fileStem}.md`, transcriptToMarkdown(transcript), 'text/markdown')
+                }
+                className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+              >
+                Markdown
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  downloadFile(
+                    `${fileStem}.tex`,
+                    transcriptToLatex(transcript),
+                    'application/x-tex',
+                  )
+                }
+                className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+              >
+                LaTeX
+              </button>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10"
+              >
+                Print
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleDownloadPdf()}
+                disabled={isSavingPdf}
+                className="rounded-full bg-brand-sky px-5 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSavingPdf ? 'Preparing PDF…' : 'PDF'}
+              </button>
+            </div>
+            {pdfError ? <p className="w-full text-sm text-brand-coral">{pdfError}</p> : null}
+          </section>
+        ) : null}
+
+        {transcript ? (
+          <section className="flex flex-col gap-3 rounded-2xl border border-brand-mint/60 bg-white p-4 shadow-subtle">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-sm font-semibold text-brand-charcoal">Share link</h2>
+                <p className="text-sm text-brand-slate">
+                  {shareId
+                    ? 'Anyone with this link can read the transcript as it was when you last shared it.'
+                    : 'Create a read-only link for a teacher or parent. They do not need an account.'}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => void handleShare()}
+                  disabled={isSharing}
+                  className="rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-sky transition hover:bg-brand-sky/10 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {shareId ? 'Update shared copy' : isSharing ? 'Sharing…' : 'Share'}
+                </button>
+                {shareId ? (
+                  <button
+                    type="button"
+                    onClick={() => void handleRevoke()}
+                    disabled={isSharing}
+                    className="rounded-full border border-brand-coral px-4 py-2 text-sm font-medium text-brand-coral transition hover:bg-brand-coral/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Stop sharing
+                  </button>
+                ) : null}
+              </div>
+            </div>
+            {shareId ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={shareUrl(shareId)}
+                  onFocus={(event) => event.target.select()}
+                  className="min-w-0 flex-1 rounded-lg border border-brand-mint/60 bg-brand-background px-3 py-2 text-sm text-brand-charcoal"
+                />
+                <button
+                  type="button"
+                  onClick={() => void handleCopy()}
+                  className="rounded-full bg-brand-sky px-4 py-2 text-sm font-medium text-white shadow-subtle transition hover:bg-brand-sky/90"
+                >
+                  {copied ? 'Copied' : 'Copy link'}
+                </button>
+              </div>
+            ) : null}
+            {shareError ? <p className="text-sm text-brand-coral">{shareError}</p> : null}
+          </section>
+        ) : error ? null : (
+          <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+            This session could not be found. It may have been deleted.
+          </section>
+        )}
+      </div>
+
+      {transcript ? (
+        <div ref={transcriptRef}>
+          <SessionTranscriptView transcript={transcript} />
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default SessionExportPage;
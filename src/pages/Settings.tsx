@@ -91,7 +91,14 @@ const SettingsContent = () => {
       batch.delete(documentSnapshot.ref);
       counter += 1;
 
-      if (counter === 450) {
+      // Shared session copies live outside the user's document, so remove them alongside.
+      const shareId = documentSnapshot.get('shareId') as unknown;
+      if (typeof shareId === 'string') {
+        batch.delete(doc(firestore, 'shares', shareId));
+        counter += 1;
+      }
+
+      if (counter >= 450) {
         commits.push(batch.commit());
         batch = writeBatch(firestore);
         counter = 0;
@@ -0,0 +1,34 @@
+import { useParams } from 'react-router-dom';
+import { LoadingScreen } from '../components/LoadingScreen';
+import { SessionTranscriptView } from '../components/SessionTranscriptView';
+import { useSharedSession } from '../hooks/useSharedSession';
+
+const SharedSessionPage = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const { transcript, loading, error } = useSharedSession(shareId);
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  return (
+    <div className="mx-auto flex min-h-0 w-full max-w-4xl flex-1 flex-col gap-6 px-4 py-6 md:px-6 print:max-w-none print:p-0">
+      {transcript ? (
+        <>
+          <p className="text-sm text-brand-slate print:hidden">
+            A read-only copy of a MathMate tutoring session, shared by the student.
+          </p>
+          <SessionTranscriptView transcript={transcript} />
+        </>
+      ) : (
+        <section className="rounded-2xl border border-brand-mint/60 bg-white p-6 text-sm text-brand-slate shadow-subtle">
+          {error
+            ? 'We could not load this shared session. Please refresh the page.'
+            : 'This link is no longer available. The student may have stopped sharing the session.'}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SharedSessionPage;
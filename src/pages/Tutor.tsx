@@ -12,25 +12,37 @@ import {
   setDoc,
   Timestamp,
   updateDoc,
+  writeBatch,
 } from 'firebase/firestore';
 import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
 import { ChangeEvent, FormEvent, KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   callGenerateResponseStream,
   type ChatMessagePayload,
   type GenerateResponseMode,
+  type GenerateResponseResult,
   type SocraticStepType,
   type StreamingChunk,
 } from '../api/generateResponse';
+import { describeQuotaError } from '../api/errors';
 import { LoadingScreen } from '../components/LoadingScreen';
 import { MathText } from '../components/MathText';
+import { OcrPreview, type PendingOcr } from '../components/OcrPreview';
+import { PdfImportModal, type ImportedProblem } from '../components/PdfImportModal';
+import { SessionSidebar } from '../components/SessionSidebar';
+import { StepProgressRail } from '../components/StepProgressRail';
+import { WhiteboardModal } from '../components/WhiteboardModal';
 import { useAuth } from '../context/AuthContext';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
 import { useUserDoc } from '../hooks/useUserDoc';
 import {
   useSessionStore,
   useSessionStoreApi,
   type SessionMessage,
   type SessionRole,
+  type SessionStep,
 } from '../context/SessionContext';
 import { useUIStore } from '../context/UIContext';
 import { firestore, storage } from '../firebase';
@@ -40,6 +52,13 @@ import {
   DIFFICULTY_OPTIONS,
   getTopicLabel,
 } from '../utils/problemGenerator';
+import { parseSessionOrganization, type SessionOrganization } from '../utils/sessionOrganization';
+import { recognizeMath, toDisplayLatex, type MathOcrResult } from '../utils/mathOcr';
+import { isPdfFile } from '../utils/pdfImport';
+import { messageImageUrls } from '../utils/sessionExport';
+import { findSkillForSubtopic } from '../utils/skillGraph';
+import { recordSkillEvidence } from '../utils/skillMastery';
+import { normalizeSpokenMath, toSpeechText } from '../utils/spokenMath';
 import type { GeneratedProblem, ProblemDifficulty } from '../types/problem';
 
 type SessionSummary = {
@@ -53,9 +72,12 @@ type SessionSummary = {
     totalTurns?: number;
     hintsUsed?: number;
     durationSec?: number;
+    stepsTotal?: number;
+    stepsCompleted?: number;
+    stepsUnderstood?: number;
   } | null;
   completed?: boolean;
-};
+} & SessionOrganization;
 
 type PendingGeneratedProblemState = {
   sessionId: string;
@@ -64,7 +86,9 @@ type PendingGeneratedProblemState = {
 
 type SendMessageOptions = {
   content: string;
-  imageUrl?: string | null;
+  imageUrls?: string[];
+  /** The problems in the images as the learner confirmed them. */
+  imageLatex?: string | null;
   mode?: GenerateResponseMode;
   skipEvaluation?: boolean;
   topicId?: string | null;
@@ -147,6 +171,69 @@ Title:`;
   }
 };
 
+// Stores the first step plan the tutor proposes for a session, then marks steps completed as the
+// tutor confirms them (all of them once the answer key confirms the final answer). `ownsPlan` is
+// checked just before writing a plan, so only one of several overlapping replies stores one.
+const saveStepProgress = async (
+  sessionRef: DocumentReference,
+  steps: SessionStep[],
+  result: GenerateResponseResult,
+  problemSolved: boolean,
+  ownsPlan: () => boolean,
+): Promise<void> => {
+  const stepsCollection = collection(sessionRef, 'steps');
+  const batch = writeBatch(firestore);
+
+  if (steps.length === 0) {
+    if (!result.plan || !ownsPlan()) {
+      return;
+    }
+
+    result.plan.forEach((step, index) => {
+      batch.set(doc(stepsCollection), {
+        order: index + 1,
+        title: step.title,
+        latex: step.latex,
+        hint: step.hint,
+        completed: false,
+        understood: false,
+        createdAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+    return;
+  }
+
+  const confirmedOrders = new Set(result.completedSteps ?? []);
+  const newlyCompleted = steps.filter(
+    (step) => !step.completed && (problemSolved || confirmedOrders.has(step.order)),
+  );
+
+  if (newlyCompleted.length === 0) {
+    return;
+  }
+
+  newlyCompleted.forEach((step) => {
+    batch.update(doc(stepsCollection, step.id), {
+      completed: true,
+      completedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+};
+
+// Deletes a session's step plan so the next tutor reply proposes one for the current problem.
+const clearSessionSteps = async (sessionRef: DocumentReference): Promise<void> => {
+  const snapshot = await getDocs(collection(sessionRef, 'steps'));
+  if (snapshot.empty) {
+    return;
+  }
+
+  const batch = writeBatch(firestore);
+  snapshot.forEach((stepDoc) => batch.delete(stepDoc.ref));
+  await batch.commit();
+};
+
 type FormattedMessage = SessionMessage & {
   timestamp: string;
   evaluation: EvaluationRecord | null;
@@ -175,6 +262,7 @@ const evaluationFeedback: Record<EvaluationResult, { text: string; className: st
 };
 
 const SUPPORTED_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/jpg', 'image/webp']);
+const MAX_IMAGES_PER_MESSAGE = 4;
 
 const normalizeFileName = (value: string) =>
   value
@@ -189,32 +277,33 @@ const buildUploadPath = (uid: string, sessionId: string, originalName: string) =
   return `uploads/${uid}/${sessionId}/${Date.now()}-${normalized}`;
 };
 
-// Background OCR function (doesn't block UI)
-const runOcrInBackground = async (
-  file: File,
+const uploadImage = async (uid: string, sessionId: string, file: File) => {
+  const storageRef = ref(storage, buildUploadPath(uid, sessionId, file.name));
+  await uploadBytes(storageRef, file, { contentType: file.type });
+  return getDownloadURL(storageRef);
+};
+
+// Logs what OCR read from a sent image, with the LaTeX the learner confirmed if they did.
+const saveOcrLog = async (
+  ocr: Promise<MathOcrResult | null>,
   imageUrl: string,
+  confirmedLatex: string | null,
   userId: string,
   sessionId: string,
 ) => {
   try {
-    const { default: Tesseract } = await import('tesseract.js');
-    const result = await Tesseract.recognize(file, 'eng');
-    const rawText = (result?.data?.text ?? '').replace(/\r\n/g, '\n');
-    const sanitizedText = rawText.replace(/\n{3,}/g, '\n\n').trim();
-    const rawConfidence = result?.data?.confidence ?? 0;
-    const confidence = Number.isFinite(rawConfidence) ? (rawConfidence as number) / 100 : 0;
-
-    // Log to Firestore (even if low confidence or no text)
+    const result = await ocr;
     const sessionRef = doc(firestore, 'users', userId, 'sessions', sessionId);
     await addDoc(collection(sessionRef, 'ocrLogs'), {
       imageUrl,
-      text: sanitizedText || '',
-      confidence,
+      text: result?.text ?? '',
+      latex: confirmedLatex ?? result?.latex ?? '',
+      confirmed: confirmedLatex !== null,
+      confidence: result?.confidence ?? 0,
       createdAt: serverTimestamp(),
     });
   } catch (error) {
-    // Silent fail - OCR is just for logging
-    console.error('Background OCR failed:', error);
+    console.error('Failed to save OCR log', error);
   }
 };
 
@@ -366,12 +455,15 @@ const TutorPage = () => {
   const [isSending, setIsSending] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isSessionListOpen, setIsSessionListOpen] = useState(false);
   const [sessionError, setSessionError] = useState<string | null>(null);
   const [evaluations, setEvaluations] = useState<Record<string, EvaluationRecord>>({});
   const [ocrError, setOcrError] = useState<string | null>(null);
-  const [pendingImageUrl, setPendingImageUrl] = useState<string | null>(null);
-  const [pendingImageFile, setPendingImageFile] = useState<File | null>(null);
+  const [pendingImageUrls, setPendingImageUrls] = useState<string[]>([]);
+  const [pendingOcrs, setPendingOcrs] = useState<PendingOcr[]>([]);
+  const [pdfToImport, setPdfToImport] = useState<File | null>(null);
   const [isProblemModalOpen, setProblemModalOpen] = useState(false);
+  const [isWhiteboardOpen, setWhiteboardOpen] = useState(false);
   const [isGeneratingProblem, setIsGeneratingProblem] = useState(false);
   const [problemGeneratorError, setProblemGeneratorError] = useState<string | null>(null);
   const [selectedProblemTopic, setSelectedProblemTopic] = useState<string>('');
@@ -384,14 +476,29 @@ const TutorPage = () => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const isStreamingRef = useRef(false);
   const pendingMessageIdRef = useRef<string | null>(null);
+  // The reply allowed to store the session's step plan; cleared when the problem changes.
+  const planRequestRef = useRef<symbol | null>(null);
   const sendMessageRef = useRef<((options: SendMessageOptions) => Promise<void>) | null>(null);
   const previousSessionIdRef = useRef<string | null>(null);
+  // OCR still running for a pending image, keyed by its URL.
+  const pendingOcrRef = useRef(new Map<string, Promise<MathOcrResult | null>>());
+  const readReplyAloudRef = useRef<((messageId: string, content: string) => void) | null>(null);
+
+  const voiceMode = userDoc?.settings?.voiceMode === true;
+  const dictation = useSpeechRecognition((transcript) => {
+    const spoken = normalizeSpokenMath(transcript);
+    setInputValue((prev) => (prev.trim() ? `${prev.trimEnd()} ${spoken}` : spoken));
+  });
+  const readAloud = useSpeechSynthesis();
+  const { isSupported: canReadAloud, speak: speakText, stop: stopReading } = readAloud;
 
   const activeSessionId = useSessionStore((state) => state.activeSessionId);
   const setActiveSessionId = useSessionStore((state) => state.setActiveSessionId);
   const messages = useSessionStore((state) => state.messages);
   const setMessages = useSessionStore((state) => state.setMessages);
   const clearMessages = useSessionStore((state) => state.clearMessages);
+  const steps = useSessionStore((state) => state.steps);
+  const setSteps = useSessionStore((state) => state.setSteps);
   const sessionStoreApi = useSessionStoreApi();
 
   const isUploading = useUIStore((state) => state.isUploading);
@@ -406,11 +513,29 @@ const TutorPage = () => {
     };
   }, []);
 
+  // Replies are read aloud as they finish while voice mode is on; sendMessage reads this ref
+  // because it outlives the render that started it.
+  useEffect(() => {
+    readReplyAloudRef.current =
+      voiceMode && canReadAloud
+        ? (messageId, content) => speakText(messageId, toSpeechText(content))
+        : null;
+  }, [voiceMode, canReadAloud, speakText]);
+
+  // Stop reading when voice mode is turned off or the learner switches sessions.
+  useEffect(() => {
+    if (!voiceMode) {
+      stopReading();
+    }
+  }, [voiceMode, stopReading]);
+
+  useEffect(() => stopReading, [activeSessionId, stopReading]);
+
   // Load draft from localStorage on mount or when session changes
   useEffect(() => {
     if (!activeSessionId) {
       setInputValue('');
-      setPendingImageUrl(null);
+      setPendingImageUrls([]);
       return;
     }
 
@@ -422,13 +547,17 @@ const TutorPage = () => {
       if (savedDraft) {
         const draft = JSON.parse(savedDraft) as {
           inputValue?: string;
+          pendingImageUrls?: string[];
           pendingImageUrl?: string | null;
         };
         if (draft.inputValue !== undefined) {
           setInputValue(draft.inputValue);
         }
-        if (draft.pendingImageUrl !== undefined) {
-          setPendingImageUrl(draft.pendingImageUrl);
+        if (Array.isArray(draft.pendingImageUrls)) {
+          setPendingImageUrls(draft.pendingImageUrls);
+        } else if (draft.pendingImageUrl !== undefined) {
+          // Drafts saved before multi-image attachments held a single image.
+          setPendingImageUrls(draft.pendingImageUrl ? [draft.pendingImageUrl] : []);
         }
       }
     } catch (error) {
@@ -436,7 +565,7 @@ const TutorPage = () => {
     }
   }, [activeSessionId]);
 
-  // Save draft to localStorage when inputValue or pendingImageUrl changes
+  // Save draft to localStorage when inputValue or pendingImageUrls changes
   useEffect(() => {
     if (!activeSessionId) return;
 
@@ -446,13 +575,13 @@ const TutorPage = () => {
     try {
       const draft = {
         inputValue,
-        pendingImageUrl,
+        pendingImageUrls,
       };
       localStorage.setItem(storageKey, JSON.stringify(draft));
     } catch (error) {
       console.error('Failed to save draft to localStorage', error);
     }
-  }, [activeSessionId, inputValue, pendingImageUrl]);
+  }, [activeSessionId, inputValue, pendingImageUrls]);
 
   useEffect(() => {
     if (!user) {
@@ -513,6 +642,16 @@ const TutorPage = () => {
                 typeof statsRecord.hintsUsed === 'number' ? statsRecord.hintsUsed : undefined,
               durationSec:
                 typeof statsRecord.durationSec === 'number' ? statsRecord.durationSec : undefined,
+              stepsTotal:
+                typeof statsRecord.stepsTotal === 'number' ? statsRecord.stepsTotal : undefined,
+              stepsCompleted:
+                typeof statsRecord.stepsCompleted === 'number'
+                  ? statsRecord.stepsCompleted
+                  : undefined,
+              stepsUnderstood:
+                typeof statsRecord.stepsUnderstood === 'number'
+                  ? statsRecord.stepsUnderstood
+                  : undefined,
             };
           }
 
@@ -531,13 +670,16 @@ const TutorPage = () => {
             difficulty: rawDifficulty || null,
             stats: normalizedStats,
             completed,
+            ...parseSessionOrganization(docSnapshot.data()),
           } satisfies SessionSummary;
         });
 
         setSessions(summaries);
 
         if (!activeSessionId || !summaries.some((session) => session.id === activeSessionId)) {
-          setActiveSessionId(summaries[0]?.id ?? null);
+          setActiveSessionId(
+            (summaries.find((session) => !session.archived) ?? summaries[0])?.id ?? null,
+          );
         }
 
         setIsLoading(false);
@@ -585,6 +727,8 @@ const TutorPage = () => {
             role?: string;
             content?: string;
             imageUrl?: string | null;
+            imageUrls?: string[];
+            imageLatex?: string | null;
             topicId?: string | null;
             difficulty?: string | null;
             createdAt?: Timestamp | null;
@@ -596,6 +740,8 @@ const TutorPage = () => {
             role: (data.role === 'assistant' ? 'assistant' : 'user') as SessionRole,
             content: data.content ?? '',
             imageUrl: data.imageUrl ?? null,
+            imageUrls: Array.isArray(data.imageUrls) ? data.imageUrls : [],
+            imageLatex: data.imageLatex ?? null,
             topicId: data.topicId ?? null,
             difficulty: data.difficulty ?? null,
             createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
@@ -812,13 +958,14 @@ const TutorPage = () => {
       // Clear messages and pending state when switching sessions
       clearMessages();
       setEvaluations({});
+      setSteps([]);
       // Clear pending message refs to prevent messages from old session appearing
       pendingMessageIdRef.current = null;
       isStreamingRef.current = false;
     }
 
     previousSessionIdRef.current = activeSessionId;
-  }, [activeSessionId, clearMessages, setEvaluations]);
+  }, [activeSessionId, clearMessages, setEvaluations, setSteps]);
 
   useEffect(() => {
     if (!user || !activeSessionId) {
@@ -868,6 +1015,57 @@ const TutorPage = () => {
     return () => unsubscribe();
   }, [activeSessionId, user]);
 
+  useEffect(() => {
+    if (!user || !activeSessionId) {
+      setSteps([]);
+      return;
+    }
+
+    const stepsQuery = query(
+      collection(firestore, 'users', user.uid, 'sessions', activeSessionId, 'steps'),
+      orderBy('order', 'asc'),
+    );
+
+    const unsubscribe = onSnapshot(
+      stepsQuery,
+      (snapshot) => {
+        const next: SessionStep[] = [];
+
+        snapshot.forEach((docSnapshot) => {
+          const data = docSnapshot.data() as {
+            order?: unknown;
+            title?: unknown;
+            latex?: unknown;
+            hint?: unknown;
+            completed?: unknown;
+            understood?: unknown;
+          };
+
+          if (typeof data.order !== 'number' || typeof data.title !== 'string') {
+            return;
+          }
+
+          next.push({
+            id: docSnapshot.id,
+            order: data.order,
+            title: data.title,
+            latex: typeof data.latex === 'string' ? data.latex : undefined,
+            hint: typeof data.hint === 'string' ? data.hint : null,
+            completed: data.completed === true,
+            understood: data.understood === true,
+          });
+        });
+
+        setSteps(next);
+      },
+      (error) => {
+        console.error('Failed to subscribe to solution steps', error);
+      },
+    );
+
+    return () => unsubscribe();
+  }, [activeSessionId, setSteps, user]);
+
   useEffect(() => {
     if (messagesContainerRef.current && messages.length > 0) {
       // Use requestAnimationFrame to ensure DOM is ready, then scroll to bottom
@@ -967,8 +1165,11 @@ const TutorPage = () => {
       assistantTurns,
       hintCount,
       durationMs,
+      stepsTotal: steps.length,
+      stepsCompleted: steps.filter((step) => step.completed).length,
+      stepsUnderstood: steps.filter((step) => step.understood).length,
     };
-  }, [currentSession, evaluations, messages]);
+  }, [currentSession, evaluations, messages, steps]);
 
   // Sync session stats to Firestore when messages or evaluations change
   useEffect(() => {
@@ -996,7 +1197,12 @@ const TutorPage = () => {
     const durationChanged =
       durationSec !== undefined ? currentStats?.durationSec !== durationSec : false;
 
-    const statsChanged = turnsChanged || hintsChanged || durationChanged;
+    const stepsChanged =
+      (currentStats?.stepsTotal ?? 0) !== sessionStats.stepsTotal ||
+      (currentStats?.stepsCompleted ?? 0) !== sessionStats.stepsCompleted ||
+      (currentStats?.stepsUnderstood ?? 0) !== sessionStats.stepsUnderstood;
+
+    const statsChanged = turnsChanged || hintsChanged || durationChanged || stepsChanged;
 
     // Only update if stats have changed
     if (statsChanged) {
@@ -1004,9 +1210,15 @@ const TutorPage = () => {
         totalTurns: number;
         hintsUsed: number;
         durationSec?: number;
+        stepsTotal: number;
+        stepsCompleted: number;
+        stepsUnderstood: number;
       } = {
         totalTurns: sessionStats.userTurns,
         hintsUsed: sessionStats.hintCount,
+        stepsTotal: sessionStats.stepsTotal,
+        stepsCompleted: sessionStats.stepsCompleted,
+        stepsUnderstood: sessionStats.stepsUnderstood,
       };
 
       if (durationSec !== undefined) {
@@ -1066,7 +1278,8 @@ const TutorPage = () => {
 
   const sendMessage = async ({
     content,
-    imageUrl,
+    imageUrls = [],
+    imageLatex,
     mode = 'default',
     skipEvaluation,
     topicId,
@@ -1079,7 +1292,7 @@ const TutorPage = () => {
     const trimmed = content.trim();
 
     // Allow empty content if there's an image
-    if (!trimmed && !imageUrl) {
+    if (!trimmed && imageUrls.length === 0) {
       return;
     }
 
@@ -1097,11 +1310,22 @@ const TutorPage = () => {
       const isFirstUserMessage = existingMessages.length === 0;
       const sessionDoc = await getDoc(sessionRef);
       const sessionHasTitle = sessionDoc.exists() && sessionDoc.data()?.title;
+      // Sessions started from a generated problem are checked against its stored answer key.
+      const sessionProblemId =
+        sessionDoc.exists() && typeof sessionDoc.data()?.problemId === 'string'
+          ? (sessionDoc.data()?.problemId as string)
+          : null;
+      // Evaluations in sessions about a known subtopic count toward that skill's mastery.
+      const sessionSkill = sessionDoc.exists()
+        ? findSkillForSubtopic(sessionDoc.data()?.topicId, sessionDoc.data()?.subtopic)
+        : null;
 
       const userMessageRef = await addDoc(messagesCollection, {
         role: 'user',
         content: trimmed || '',
-        imageUrl: imageUrl ?? null,
+        imageUrl: imageUrls[0] ?? null,
+        imageUrls,
+        imageLatex: imageLatex ?? null,
         topicId: topicId ?? null,
         difficulty: difficulty ?? null,
         stepType: null,
@@ -1118,26 +1342,38 @@ const TutorPage = () => {
         void generateSessionTitle(trimmed, user.uid, activeSessionId);
       }
 
+      const recordEvaluation = async (result: 'correct' | 'incorrect') => {
+        try {
+          await addDoc(evaluationsCollection, {
+            messageId: userMessageRef.id,
+            result,
+            timestamp: serverTimestamp(),
+          });
+        } catch (evaluationError) {
+          console.error('Failed to record evaluation result', evaluationError);
+        }
+
+        if (sessionSkill) {
+          recordSkillEvidence(user.uid, [
+            { skillId: sessionSkill.id, correct: result === 'correct' },
+          ]).catch((masteryError) => {
+            console.error('Failed to record skill evidence', masteryError);
+          });
+        }
+      };
+
+      let heuristicEvaluation: 'correct' | 'incorrect' | null = null;
+
       if (!shouldSkipEvaluation && trimmed) {
         const lastAssistantMessage = [...existingMessages]
           .reverse()
           .find((message) => message.role === 'assistant');
 
-        const evaluationResult = evaluateStudentInput(
-          trimmed,
-          lastAssistantMessage?.content ?? null,
-        );
+        heuristicEvaluation = evaluateStudentInput(trimmed, lastAssistantMessage?.content ?? null);
 
-        if (evaluationResult) {
-          try {
-            await addDoc(evaluationsCollection, {
-              messageId: userMessageRef.id,
-              result: evaluationResult,
-              timestamp: serverTimestamp(),
-            });
-          } catch (evaluationError) {
-            console.error('Failed to record evaluation result', evaluationError);
-          }
+        // With an answer key, wait for the server-side check before recording anything.
+        if (heuristicEvaluation && !sessionProblemId) {
+          await recordEvaluation(heuristicEvaluation);
         }
       }
 
@@ -1145,9 +1381,10 @@ const TutorPage = () => {
         ...existingMessages.map((message) => ({
           role: message.role,
           content: message.content,
-          imageUrl: message.imageUrl ?? null,
+          imageUrls: messageImageUrls(message),
+          imageLatex: message.imageLatex ?? null,
         })),
-        { role: 'user', content: trimmed || '', imageUrl: imageUrl ?? null },
+        { role: 'user', content: trimmed || '', imageUrls, imageLatex: imageLatex ?? null },
       ];
 
       // Context retention: Log context size for monitoring
@@ -1158,6 +1395,12 @@ const TutorPage = () => {
       let streamingContent = '';
       let streamingStepType: SocraticStepType | null = null;
       let pendingMessageId: string | null = null;
+      let planRequest: symbol | null = null;
+      const releasePlanRequest = () => {
+        if (planRequest && planRequestRef.current === planRequest) {
+          planRequestRef.current = null;
+        }
+      };
 
       try {
         // Create a temporary pending message in local state for real-time updates
@@ -1168,6 +1411,12 @@ const TutorPage = () => {
         isStreamingRef.current = true;
         pendingMessageIdRef.current = tempMessageId;
 
+        const currentSteps = sessionStoreApi.getState().steps;
+        if (currentSteps.length === 0 && !planRequestRef.current) {
+          planRequest = Symbol('plan');
+          planRequestRef.current = planRequest;
+        }
+
         // Start streaming - don't create pending message until we have actual content
         const assistantResult = await callGenerateResponseStream(
           payload,
@@ -1218,6 +1467,14 @@ const TutorPage = () => {
               }
             }
           },
+          {
+            problemId: sessionProblemId,
+            steps: currentSteps.map((step) => ({
+              order: step.order,
+              title: step.title,
+              completed: Boolean(step.completed),
+            })),
+          },
         );
 
         // Finalize: use the final result from streaming
@@ -1225,6 +1482,28 @@ const TutorPage = () => {
         const finalStepType: SocraticStepType | null =
           assistantResult.stepType ?? streamingStepType ?? (mode === 'hint' ? 'hint' : null);
 
+        if (sessionProblemId && !shouldSkipEvaluation && trimmed) {
+          // A mismatch with the final answer may still be a correct intermediate step, so only a
+          // confirmed match overrides the heuristic.
+          const checkedEvaluation =
+            assistantResult.answerCheck === 'correct' ? 'correct' : heuristicEvaluation;
+          if (checkedEvaluation) {
+            void recordEvaluation(checkedEvaluation);
+          }
+        }
+
+        saveStepProgress(
+          sessionRef,
+          currentSteps,
+          assistantResult,
+          Boolean(sessionProblemId) && assistantResult.answerCheck === 'correct',
+          () => planRequest !== null && planRequestRef.current === planRequest,
+        )
+          .catch((stepError) => {
+            console.error('Failed to save solution step progress', stepError);
+          })
+          .finally(releasePlanRequest);
+
         // Only save to Firestore if we have content
         if (!finalContent.trim()) {
           console.warn('Assistant response is empty, not saving to Firestore');
@@ -1255,6 +1534,7 @@ const TutorPage = () => {
           stepType: finalStepType,
           createdAt: serverTimestamp(),
         });
+        readReplyAloudRef.current?.(finalAssistantDocRef.id, finalContent.trim());
 
         // Wait for React to render the pending message update before allowing Firestore subscription
         // This prevents flicker by ensuring the final content is visible before Firestore processes
@@ -1294,9 +1574,11 @@ const TutorPage = () => {
         // Mark streaming as complete
         isStreamingRef.current = false;
         pendingMessageIdRef.current = null;
+        releasePlanRequest();
         console.error('Failed to generate assistant response', error);
 
         const fallbackMessage =
+          describeQuotaError(error) ??
           "I ran into a hiccup reaching my reasoning engine. Let's retry that step after a moment.";
 
         await addDoc(messagesCollection, {
@@ -1400,6 +1682,25 @@ const TutorPage = () => {
     setProblemModalOpen(false);
   };
 
+  const handleToggleStepUnderstood = (step: SessionStep) => {
+    if (!user || !activeSessionId) {
+      return;
+    }
+
+    const stepRef = doc(
+      firestore,
+      'users',
+      user.uid,
+      'sessions',
+      activeSessionId,
+      'steps',
+      step.id,
+    );
+    updateDoc(stepRef, { understood: !step.understood }).catch((error) => {
+      console.error('Failed to update step understanding', error);
+    });
+  };
+
   const handleOpenProblemModal = () => {
     setProblemGeneratorError(null);
     setSelectedProblemTopic(activeTopicId ?? '');
@@ -1453,10 +1754,16 @@ const TutorPage = () => {
         // Use existing session
         sessionIdToUse = activeSessionId;
         sessionRef = doc(firestore, 'users', user.uid, 'sessions', activeSessionId);
+        // The old problem's steps (and any plan still on its way for it) don't apply to the new one.
+        planRequestRef.current = null;
+        setSteps([]);
+        await clearSessionSteps(sessionRef);
         // Update session metadata if needed
         await updateDoc(sessionRef, {
           topicId: generated.topicId ?? null,
+          subtopic: generated.subtopic ?? null,
           difficulty: generated.difficulty ?? null,
+          problemId: generated.problemId ?? null,
           lastUpdated: serverTimestamp(),
         });
       } else {
@@ -1468,7 +1775,9 @@ const TutorPage = () => {
           createdAt: serverTimestamp(),
           lastUpdated: serverTimestamp(),
           topicId: generated.topicId ?? null,
+          subtopic: generated.subtopic ?? null,
           difficulty: generated.difficulty ?? null,
+          problemId: generated.problemId ?? null,
           title: buildGeneratedSessionTitle(generated),
         });
 
@@ -1509,7 +1818,9 @@ const TutorPage = () => {
       setProblemModalOpen(false);
     } catch (error) {
       console.error('Failed to generate AI problem', error);
-      setProblemGeneratorError('We could not generate a problem right now. Please try again.');
+      setProblemGeneratorError(
+        describeQuotaError(error) ?? 'We could not generate a problem right now. Please try again.',
+      );
     } finally {
       setIsGeneratingProblem(false);
     }
@@ -1525,16 +1836,30 @@ const TutorPage = () => {
     const trimmed = inputValue.trim();
 
     // Allow sending if there's text OR a pending image
-    if (!trimmed && !pendingImageUrl) {
+    if (!trimmed && pendingImageUrls.length === 0) {
       return;
     }
 
-    const imageUrlToSend = pendingImageUrl;
-    const fileForOcr = pendingImageFile;
+    const imageUrlsToSend = pendingImageUrls;
+    const ocrLogs = imageUrlsToSend.flatMap((imageUrl) => {
+      const result = pendingOcrRef.current.get(imageUrl);
+      if (!result) {
+        return [];
+      }
+      const ocr = pendingOcrs.find((candidate) => candidate.imageUrl === imageUrl);
+      const confirmedLatex = ocr?.confirmed ? ocr.draft.trim() || null : null;
+      return [{ imageUrl, result, confirmedLatex }];
+    });
+    const imageLatex =
+      ocrLogs
+        .map((log) => log.confirmedLatex)
+        .filter(Boolean)
+        .join('\n') || null;
 
     // Clear pending state before sending
-    setPendingImageUrl(null);
-    setPendingImageFile(null);
+    setPendingImageUrls([]);
+    setPendingOcrs([]);
+    pendingOcrRef.current.clear();
     setInputValue('');
 
     // Clear draft from localStorage after sending
@@ -1552,12 +1877,15 @@ const TutorPage = () => {
     // Send message with image if available
     void sendMessage({
       content: trimmed,
-      imageUrl: imageUrlToSend,
+      imageUrls: imageUrlsToSend,
+      imageLatex,
       mode: 'default',
     }).then(() => {
-      // Run OCR in background after sending (don't wait for it)
-      if (fileForOcr && imageUrlToSend && user && activeSessionId) {
-        void runOcrInBackground(fileForOcr, imageUrlToSend, user.uid, activeSessionId);
+      // OCR may still be running if the learner sent without waiting for the preview
+      if (user && activeSessionId) {
+        ocrLogs.forEach(({ imageUrl, result, confirmedLatex }) => {
+          void saveOcrLog(result, imageUrl, confirmedLatex, user.uid, activeSessionId);
+        });
       }
     });
   };
@@ -1605,64 +1933,156 @@ const TutorPage = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  // Reads the problem from the image while the learner finishes their message.
+  const updatePendingOcr = (imageUrl: string, update: Partial<PendingOcr>) => {
+    setPendingOcrs((prev) =>
+      prev.map((ocr) => (ocr.imageUrl === imageUrl ? { ...ocr, ...update } : ocr)),
+    );
+  };
 
-    if (!file) {
-      return;
+  const startOcr = (file: File, imageUrl: string) => {
+    setPendingOcrs((prev) => [
+      ...prev,
+      { imageUrl, status: 'reading', result: null, draft: '', confirmed: false },
+    ]);
+    const result = recognizeMath(file)
+      .then((ocr) => {
+        updatePendingOcr(imageUrl, { status: 'ready', result: ocr, draft: ocr.latex });
+        return ocr;
+      })
+      .catch((error) => {
+        console.error('Failed to read the problem from the image', error);
+        updatePendingOcr(imageUrl, { status: 'failed' });
+        return null;
+      });
+    pendingOcrRef.current.set(imageUrl, result);
+  };
+
+  // Stores the image and holds it as the pending attachment until the learner presses Send.
+  const uploadPendingImage = async (file: File) => {
+    if (!user || !activeSessionId) {
+      throw new Error('An active session is required to upload images');
     }
 
-    setOcrError(null);
+    setUploading(true);
+    try {
+      const imageUrl = await uploadImage(user.uid, activeSessionId, file);
+      setPendingImageUrls((prev) => [...prev, imageUrl]);
+      startOcr(file, imageUrl);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleAttachImportedProblems = async (files: File[]) => {
+    for (const file of files) {
+      await uploadPendingImage(file);
+    }
+  };
+
+  // Each chosen worksheet problem gets its own session with the problem waiting as a draft.
+  const handleStartImportedSessions = async (problems: ImportedProblem[]) => {
+    if (!user) {
+      throw new Error('Sign in to start sessions');
+    }
+
+    const sessionsCollection = collection(firestore, 'users', user.uid, 'sessions');
+    const sessionIds: string[] = [];
+    for (const problem of problems) {
+      const sessionRef = doc(sessionsCollection);
+      await setDoc(sessionRef, {
+        createdAt: serverTimestamp(),
+        lastUpdated: serverTimestamp(),
+        title: problem.title,
+      });
+      const imageUrl = await uploadImage(user.uid, sessionRef.id, problem.file);
+      const storageKey = getDraftStorageKey(sessionRef.id);
+      if (storageKey) {
+        try {
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify({ inputValue: '', pendingImageUrls: [imageUrl] }),
+          );
+        } catch (error) {
+          console.error('Failed to save draft to localStorage', error);
+        }
+      }
+      sessionIds.push(sessionRef.id);
+    }
+
+    setActiveSessionId(sessionIds[0] ?? activeSessionId);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
 
-    if (!SUPPORTED_IMAGE_TYPES.has(file.type)) {
-      setOcrError('Unsupported file type. Please upload a PNG, JPG, or WEBP image.');
-      event.target.value = '';
+    if (files.length === 0) {
       return;
     }
 
+    setOcrError(null);
+
     if (!user) {
       setOcrError('Please sign in before uploading images.');
-      event.target.value = '';
       return;
     }
 
     if (!activeSessionId) {
       setOcrError('Select or create a session before uploading an image.');
-      event.target.value = '';
       return;
     }
 
-    setUploading(true);
-
-    try {
-      // Upload to Storage
-      const uploadPath = buildUploadPath(user.uid, activeSessionId, file.name);
-      const storageRef = ref(storage, uploadPath);
+    // A PDF opens the worksheet importer; images are attached straight away.
+    const pdf = files.find(isPdfFile);
+    const images = files.filter((file) => !isPdfFile(file));
+    const supportedImages = images.filter((file) => SUPPORTED_IMAGE_TYPES.has(file.type));
+    const acceptedImages = supportedImages.slice(
+      0,
+      MAX_IMAGES_PER_MESSAGE - pendingImageUrls.length,
+    );
 
-      await uploadBytes(storageRef, file, { contentType: file.type });
-      const imageUrl = await getDownloadURL(storageRef);
+    if (supportedImages.length < images.length) {
+      setOcrError('Unsupported file type. Please upload PNG, JPG, or WEBP images or a PDF.');
+    } else if (acceptedImages.length < supportedImages.length) {
+      setOcrError(`A message can include up to ${MAX_IMAGES_PER_MESSAGE} images.`);
+    }
 
-      // Set pending image (don't send yet - user needs to press Send)
-      setPendingImageUrl(imageUrl);
-      setPendingImageFile(file);
+    try {
+      for (const file of acceptedImages) {
+        await uploadPendingImage(file);
+      }
     } catch (error) {
       console.error('Failed to upload image:', error);
       setOcrError('Failed to upload image. Please try again.');
-    } finally {
-      setUploading(false);
-      if (event.target) {
-        event.target.value = '';
-      }
     }
+
+    if (pdf) {
+      setPdfToImport(pdf);
+    }
+  };
+
+  const handleOpenWhiteboard = () => {
+    setOcrError(null);
+    if (!activeSessionId) {
+      setOcrError('Select or create a session before drawing on the whiteboard.');
+      return;
+    }
+    if (pendingImageUrls.length >= MAX_IMAGES_PER_MESSAGE) {
+      setOcrError(`A message can include up to ${MAX_IMAGES_PER_MESSAGE} images.`);
+      return;
+    }
+    setWhiteboardOpen(true);
   };
 
-  const handleRemoveImage = () => {
-    setPendingImageUrl(null);
-    setPendingImageFile(null);
+  const handleRemoveImage = (imageUrl: string) => {
+    setPendingImageUrls((prev) => prev.filter((url) => url !== imageUrl));
+    setPendingOcrs((prev) => prev.filter((ocr) => ocr.imageUrl !== imageUrl));
+    pendingOcrRef.current.delete(imageUrl);
     setOcrError(null);
 
     // Update draft in localStorage (image is removed, but text remains)
-    // This will be handled by the useEffect that saves draft on pendingImageUrl change
+    // This will be handled by the useEffect that saves draft on pendingImageUrls change
   };
 
   if (isLoading) {
@@ -1678,16 +2098,26 @@ const TutorPage = () => {
             Guided Socratic dialogue to help you learn math step by step.
           </p>
         </div>
-        <button
-          type="button"
-          onClick={handleOpenProblemModal}
-          disabled={isSending || isUploading || isGeneratingProblem}
-          className="flex items-center gap-2 rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-charcoal transition hover:bg-brand-sky/10 disabled:cursor-not-allowed disabled:opacity-60"
-        >
-          <span aria-hidden>✨</span>
-          <span className="hidden sm:inline">New AI Problem</span>
-          <span className="sm:hidden">AI Problem</span>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setIsSessionListOpen((open) => !open)}
+            aria-expanded={isSessionListOpen}
+            className="rounded-full border border-brand-slate/40 px-4 py-2 text-sm font-medium text-brand-charcoal transition hover:bg-white"
+          >
+            {isSessionListOpen ? 'Hide sessions' : 'Sessions'}
+          </button>
+          <button
+            type="button"
+            onClick={handleOpenProblemModal}
+            disabled={isSending || isUploading || isGeneratingProblem}
+            className="flex items-center gap-2 rounded-full border border-brand-sky px-4 py-2 text-sm font-medium text-brand-charcoal transition hover:bg-brand-sky/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <span aria-hidden>✨</span>
+            <span className="hidden sm:inline">New AI Problem</span>
+            <span className="sm:hidden">AI Problem</span>
+          </button>
+        </div>
       </div>
 
       {sessionError ? (
@@ -1696,7 +2126,18 @@ const TutorPage = () => {
         </div>
       ) : null}
 
-      <div className="flex min-h-0 flex-1">
+      <div className="flex min-h-0 flex-1 flex-col gap-4 lg:flex-row">
+        {isSessionListOpen && user ? (
+          <SessionSidebar
+            userId={user.uid}
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            onSelect={setActiveSessionId}
+          />
+        ) : null}
+        {steps.length > 0 ? (
+          <StepProgressRail steps={steps} onToggleUnderstood={handleToggleStepUnderstood} />
+        ) : null}
         <section className="flex min-h-0 flex-1 flex-col rounded-2xl border border-brand-mint/60 bg-white shadow-subtle">
           <header className="flex items-center justify-between border-b border-brand-mint/60 px-4 py-3">
             <h2 className="text-lg font-semibold text-brand-charcoal">Chat</h2>
@@ -1714,6 +2155,14 @@ const TutorPage = () => {
                   Difficulty: {activeDifficultyLabel}
                 </span>
               ) : null}
+              {activeSessionId && messages.length > 0 ? (
+                <Link
+                  to={`/tutor/sessions/${activeSessionId}/export`}
+                  className="rounded-full border border-brand-sky px-3 py-1 text-xs font-medium text-brand-sky transition hover:bg-brand-sky/10"
+                >
+                  Share &amp; export
+                </Link>
+              ) : null}
             </div>
           </header>
           <div className="flex min-h-0 flex-1 flex-col">
@@ -1748,25 +2197,41 @@ const TutorPage = () => {
                           {stepLabel}
                         </span>
                       ) : null}
-                      {message.imageUrl ? (
-                        <div className="mb-3 overflow-hidden rounded-xl border border-brand-mint/60 bg-white">
-                          <img
-                            src={message.imageUrl}
-                            alt="Math problem"
-                            className="h-auto max-h-96 w-full object-contain"
-                            loading="lazy"
-                            onLoad={() => {
-                              // Scroll to bottom when image loads to account for height change
-                              if (messagesContainerRef.current) {
-                                messagesContainerRef.current.scrollTop =
-                                  messagesContainerRef.current.scrollHeight;
-                              }
-                            }}
-                          />
+                      {messageImageUrls(message).length > 0 ? (
+                        <div
+                          className={`mb-3 grid gap-2 ${
+                            messageImageUrls(message).length > 1 ? 'grid-cols-2' : ''
+                          }`}
+                        >
+                          {messageImageUrls(message).map((imageUrl, index) => (
+                            <div
+                              key={imageUrl}
+                              className="overflow-hidden rounded-xl border border-brand-mint/60 bg-white"
+                            >
+                              <img
+                                src={imageUrl}
+                                alt={`Math problem ${index + 1}`}
+                                className="h-auto max-h-96 w-full object-contain"
+                                loading="lazy"
+                                onLoad={() => {
+                                  // Scroll to bottom when image loads to account for height change
+                                  if (messagesContainerRef.current) {
+                                    messagesContainerRef.current.scrollTop =
+                                      messagesContainerRef.current.scrollHeight;
+                                  }
+                                }}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
+                      {message.imageLatex ? (
+                        <div className="mb-3 overflow-x-auto rounded-xl bg-white/70 px-3 py-1">
+                          <MathText content={`$$${toDisplayLatex(message.imageLatex)}$$`} />
                         </div>
                       ) : null}
                       {message.content && message.content.trim() && message.content !== '...' ? (
-                        <MathText content={message.content} />
+                        <MathText content={message.content} graphable />
                       ) : null}
                       {evaluationDetails ? (
                         <span
@@ -1775,9 +2240,25 @@ const TutorPage = () => {
                           {evaluationDetails.text}
                         </span>
                       ) : null}
-                      <span className="mt-3 block text-right text-xs text-brand-slate">
-                        {message.timestamp}
-                      </span>
+                      <div className="mt-3 flex items-center justify-end gap-3 text-xs text-brand-slate">
+                        {voiceMode && readAloud.isSupported && message.role === 'assistant' ? (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              readAloud.speakingId === message.id
+                                ? readAloud.stop()
+                                : readAloud.speak(message.id, toSpeechText(message.content))
+                            }
+                            className="mr-auto rounded-full border border-brand-sky/60 px-3 py-1 font-medium text-brand-sky transition hover:bg-white"
+                            aria-pressed={readAloud.speakingId === message.id}
+                          >
+                            {readAloud.speakingId === message.id
+                              ? '■ Stop reading'
+                              : '🔊 Read aloud'}
+                          </button>
+                        ) : null}
+                        <span>{message.timestamp}</span>
+                      </div>
                     </article>
                   );
                 })
@@ -1798,7 +2279,8 @@ const TutorPage = () => {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".png,.jpg,.jpeg,.webp"
+                accept=".png,.jpg,.jpeg,.webp,.pdf"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
               />
@@ -1815,6 +2297,48 @@ const TutorPage = () => {
                     {isUploading ? 'Processing…' : 'Upload'}
                   </span>
                 </button>
+                <button
+                  type="button"
+                  onClick={handleOpenWhiteboard}
+                  disabled={isSending || isUploading}
+                  className="flex items-center rounded-full bg-brand-background px-3 py-2 text-sm font-medium text-brand-charcoal shadow-inner transition hover:bg-brand-mint/40 disabled:cursor-not-allowed disabled:opacity-70"
+                >
+                  <span aria-hidden>✍️</span>
+                  <span className="ml-2 hidden text-xs text-brand-slate sm:inline">Draw</span>
+                </button>
+                {voiceMode && dictation.isSupported ? (
+                  <button
+                    type="button"
+                    onPointerDown={dictation.start}
+                    onPointerUp={dictation.stop}
+                    onPointerLeave={dictation.stop}
+                    onKeyDown={(event) => {
+                      if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+                        event.preventDefault();
+                        dictation.start();
+                      }
+                    }}
+                    onKeyUp={(event) => {
+                      if (event.key === ' ' || event.key === 'Enter') {
+                        event.preventDefault();
+                        dictation.stop();
+                      }
+                    }}
+                    disabled={isSending || isUploading}
+                    className={`flex touch-none select-none items-center rounded-full px-3 py-2 text-sm font-medium shadow-inner transition disabled:cursor-not-allowed disabled:opacity-70 ${
+                      dictation.isListening
+                        ? 'bg-brand-coral text-white'
+                        : 'bg-brand-background text-brand-charcoal hover:bg-brand-mint/40'
+                    }`}
+                    aria-pressed={dictation.isListening}
+                    aria-label="Hold to dictate"
+                  >
+                    <span aria-hidden>🎙️</span>
+                    <span className="ml-2 hidden text-xs sm:inline">
+                      {dictation.isListening ? 'Listening…' : 'Hold to talk'}
+                    </span>
+                  </button>
+                ) : null}
                 <textarea
                   value={inputValue}
                   onChange={(event) => setInputValue(event.target.value)}
@@ -1834,36 +2358,62 @@ const TutorPage = () => {
                 <button
                   type="submit"
                   className="rounded-full bg-brand-sky px-5 py-3 text-sm font-medium text-white shadow-subtle transition disabled:cursor-not-allowed disabled:bg-brand-slate"
-                  disabled={(!inputValue.trim() && !pendingImageUrl) || isSending || isUploading}
+                  disabled={
+                    (!inputValue.trim() && pendingImageUrls.length === 0) ||
+                    isSending ||
+                    isUploading
+                  }
                 >
                   {isSending ? '…' : isUploading ? 'Uploading…' : 'Send'}
                 </button>
               </div>
-              {pendingImageUrl ? (
-                <div className="relative rounded-xl border border-brand-mint/60 bg-white p-3">
-                  <div className="flex items-start gap-3">
-                    <img
-                      src={pendingImageUrl}
-                      alt="Math problem preview"
-                      className="size-20 rounded-lg border border-brand-mint/60 object-cover"
-                    />
-                    <div className="flex-1">
-                      <p className="text-xs font-medium text-brand-charcoal">Image ready to send</p>
-                      <p className="mt-1 text-xs text-brand-slate">
-                        Press Send to include this image with your message
-                      </p>
+              {pendingImageUrls.map((imageUrl, index) => {
+                const ocr = pendingOcrs.find((candidate) => candidate.imageUrl === imageUrl);
+
+                return (
+                  <div
+                    key={imageUrl}
+                    className="relative rounded-xl border border-brand-mint/60 bg-white p-3"
+                  >
+                    <div className="flex items-start gap-3">
+                      <img
+                        src={imageUrl}
+                        alt={`Math problem preview ${index + 1}`}
+                        className="size-20 rounded-lg border border-brand-mint/60 object-cover"
+                      />
+                      <div className="flex min-w-0 flex-1 flex-col gap-2">
+                        <div>
+                          <p className="text-xs font-medium text-brand-charcoal">
+                            {pendingImageUrls.length > 1
+                              ? `Image ${index + 1} of ${pendingImageUrls.length} ready to send`
+                              : 'Image ready to send'}
+                          </p>
+                          <p className="mt-1 text-xs text-brand-slate">
+                            Press Send to include this image with your message
+                          </p>
+                        </div>
+                        {ocr ? (
+                          <OcrPreview
+                            ocr={ocr}
+                            onDraftChange={(draft) => updatePendingOcr(imageUrl, { draft })}
+                            onConfirmedChange={(confirmed) =>
+                              updatePendingOcr(imageUrl, { confirmed })
+                            }
+                          />
+                        ) : null}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveImage(imageUrl)}
+                        className="rounded-full p-1 text-brand-slate transition hover:bg-brand-background hover:text-brand-charcoal"
+                        aria-label={`Remove image ${index + 1}`}
+                      >
+                        <span className="text-lg">×</span>
+                      </button>
                     </div>
-                    <button
-                      type="button"
-                      onClick={handleRemoveImage}
-                      className="rounded-full p-1 text-brand-slate transition hover:bg-brand-background hover:text-brand-charcoal"
-                      aria-label="Remove image"
-                    >
-                      <span className="text-lg">×</span>
-                    </button>
                   </div>
-                </div>
-              ) : null}
+                );
+              })}
               {ocrError ? (
                 <div className="rounded-xl border border-brand-coral/50 bg-[#FEE2E2] px-3 py-2 text-xs text-brand-charcoal">
                   {ocrError}
@@ -1871,9 +2421,22 @@ const TutorPage = () => {
               ) : null}
               <div className="text-xs text-brand-slate" aria-live="polite">
                 {isUploading ? <p className="text-brand-sky">Uploading image…</p> : null}
+                {dictation.isListening && dictation.interimTranscript ? (
+                  <p className="text-brand-sky">Heard: {dictation.interimTranscript}</p>
+                ) : null}
+                {voiceMode && dictation.error ? (
+                  <p className="text-brand-coral">{dictation.error}</p>
+                ) : null}
+                {voiceMode && !dictation.isSupported ? (
+                  <p>Voice input is not available in this browser, so type your answer instead.</p>
+                ) : null}
+                {voiceMode && !readAloud.isSupported ? (
+                  <p>This browser cannot read replies aloud.</p>
+                ) : null}
                 <p>
                   Hint button offers a gentle nudge • Enter to send • Shift + Enter for newline •
-                  Use the clip icon to upload a math photo.
+                  Use the clip icon to upload math photos or a worksheet PDF, or Draw to write your
+                  work by hand.
                 </p>
               </div>
             </form>
@@ -1881,6 +2444,20 @@ const TutorPage = () => {
         </section>
       </div>
 
+      {pdfToImport ? (
+        <PdfImportModal
+          file={pdfToImport}
+          remainingAttachments={MAX_IMAGES_PER_MESSAGE - pendingImageUrls.length}
+          onAttach={handleAttachImportedProblems}
+          onStartSessions={handleStartImportedSessions}
+          onClose={() => setPdfToImport(null)}
+        />
+      ) : null}
+
+      {isWhiteboardOpen ? (
+        <WhiteboardModal onAttach={uploadPendingImage} onClose={() => setWhiteboardOpen(false)} />
+      ) : null}
+
       {isProblemModalOpen ? (
         <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/50 p-4">
           <form
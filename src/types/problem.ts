@@ -1,18 +1,61 @@
 export type ProblemDifficulty = 'beginner' | 'intermediate' | 'advanced';
 
+/**
+ * How a quiz question is answered: one free-text answer, one of four options, a number with
+ * units, a symbolic expression, or several labelled parts graded separately.
+ */
+export type QuestionFormat = 'free' | 'multipleChoice' | 'numeric' | 'expression' | 'multiPart';
+
+export interface QuestionPart {
+  /** "a", "b", … */
+  label: string;
+  prompt: string;
+}
+
 export interface ProblemGenerationParams {
   topicId?: string;
+  /** Subtopic from the topic's list to focus on, e.g. "Systems of Equations". */
+  subtopic?: string;
+  /** Problem text to write an isomorphic variant of (same structure, new numbers/context). */
+  variantOf?: string;
   difficulty?: ProblemDifficulty;
   recentProblems?: Array<{ topicId: string; problemText: string; timestamp: number }>;
   mode?: 'quiz' | 'tutor';
+  /** Quiz mode only; tutor problems are always free response. */
+  format?: QuestionFormat;
+}
+
+export type CanonicalAnswerType =
+  | 'number'
+  | 'quantity'
+  | 'expression'
+  | 'equation'
+  | 'interval'
+  | 'set'
+  | 'tuple'
+  | 'boolean';
+
+export interface CanonicalAnswer {
+  value: string;
+  answerType: CanonicalAnswerType | null;
+  acceptableForms: string[];
 }
 
 export interface GeneratedProblem {
   problemText: string;
   topicId: string;
+  /** Subtopic the problem practices, when the server could match it to the topic's list. */
+  subtopic?: string | null;
   difficulty: ProblemDifficulty;
   suggestedHint?: string | null;
   title?: string | null;
+  /** Id of the server-side answer key recorded when the problem was generated. */
+  problemId?: string | null;
+  format?: QuestionFormat;
+  /** Multiple choice only: the options, without which one is right. */
+  choices?: string[];
+  /** Multi-part only: the part questions, without their answers. */
+  parts?: QuestionPart[];
 }
 
 export interface ProblemTopic {
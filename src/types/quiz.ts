@@ -1,18 +1,74 @@
-import type { ProblemDifficulty } from './problem';
+import type { CanonicalAnswer, ProblemDifficulty, QuestionFormat, QuestionPart } from './problem';
 
 export type QuizPhase = 'setup' | 'generating' | 'inProgress' | 'grading' | 'review';
 
+/** `fixed` generates every question up front; `adaptive` picks each difficulty from the last answer. */
+export type QuizMode = 'fixed' | 'adaptive';
+
+/** Exam clock: none, one countdown for the whole quiz, or a fresh countdown per question. */
+export type QuizTimerMode = 'untimed' | 'overall' | 'perQuestion';
+
+export type QuizAnswerFormatSetting = QuestionFormat | 'mixed';
+
+/**
+ * Quizzes built from an earlier result: the missed questions as they were, fresh variants of
+ * them, or new questions on the weakest subtopics.
+ */
+export type QuizRetakeKind = 'missed' | 'variants' | 'weakest';
+
+export interface QuizRetakeSource {
+  kind: QuizRetakeKind;
+  /** The graded quiz the retake was built from; null when that quiz was never saved. */
+  quizId: string | null;
+}
+
+/** Everything chosen on the setup screen; saved with drafts so a resumed quiz keeps its rules. */
+export interface QuizSetup {
+  topicId: string;
+  difficulty: ProblemDifficulty;
+  answerFormat: QuizAnswerFormatSetting;
+  questionCount: number;
+  mode: QuizMode;
+  timerMode: QuizTimerMode;
+  examMinutes: number;
+  secondsPerQuestion: number;
+}
+
 export interface QuizQuestion {
   id: string;
   problemText: string;
   topicId: string;
+  subtopic?: string | null;
   difficulty: ProblemDifficulty;
   suggestedHint?: string | null;
+  problemId?: string | null;
+  format?: QuestionFormat;
+  choices?: string[];
+  parts?: QuestionPart[];
 }
 
 export interface QuizQuestionResponse extends QuizQuestion {
+  /** Multi-part questions: the part answers joined with their labels, kept for display. */
   userAnswer: string;
+  /** Multi-part only: one answer per part, in order. */
+  partAnswers?: string[];
   evaluation?: QuizQuestionEvaluation;
+  /** Adaptive mode only: the skill estimate (1-3 scale) after this answer was graded. */
+  skillEstimateAfter?: number | null;
+  /** Seconds spent on this question, summed across visits. */
+  timeSpentSeconds?: number;
+  /** Marked by the learner to revisit before submitting. */
+  flagged?: boolean;
+  /** Per-question timer only: the question's countdown ran out. */
+  timedOut?: boolean;
+}
+
+export type QuizGradingPath = 'verifier' | 'model';
+
+export interface QuizPartResult {
+  label: string;
+  isCorrect: boolean;
+  correctAnswer: string;
 }
 
 export interface QuizQuestionEvaluation {
@@ -20,6 +76,15 @@ export interface QuizQuestionEvaluation {
   correctAnswer?: string | null;
   explanation?: string | null;
   feedback?: string | null;
+  /** Which path graded the answer: the deterministic checker or the model fallback. */
+  gradedBy?: QuizGradingPath | null;
+  /** Answer shape the checker compared against, e.g. "number", "interval" or "set". */
+  answerForm?: string | null;
+  /** Answer key stored when the problem was generated, revealed once the answer is graded. */
+  canonicalAnswer?: CanonicalAnswer | null;
+  /** Credit earned, 0-1. Multi-part answers earn a share per correct part. */
+  score?: number | null;
+  partResults?: QuizPartResult[] | null;
 }
 
 export interface QuizResultRecord {
@@ -31,15 +96,36 @@ export interface QuizResultRecord {
   scorePercent: number;
   createdAt: Date | null;
   completedAt: Date | null;
+  mode: QuizMode;
+  /** Final skill estimate on the 1-3 difficulty scale; adaptive quizzes only. */
+  skillEstimate: number | null;
+  /** Difficulty of each question in order, so dashboards can chart the path. */
+  difficultyTrajectory: ProblemDifficulty[];
+  timerMode: QuizTimerMode;
+  /** Sum of recorded per-question times; null for quizzes saved before times were tracked. */
+  totalTimeSeconds: number | null;
+  averageSecondsPerQuestion: number | null;
 }
 
 export interface StoredQuizQuestion extends QuizQuestionResponse {
   evaluation: QuizQuestionEvaluation;
+  timeSpentSeconds: number;
+  flagged: boolean;
+  timedOut: boolean;
 }
 
 export interface StoredQuizRecord {
   topicId?: string | null;
+  /** Fixed mode: the difficulty of every question. Adaptive mode: the starting difficulty. */
   difficulty: ProblemDifficulty;
+  mode?: QuizMode;
+  skillEstimate?: number | null;
+  timerMode?: QuizTimerMode;
+  /** Whole-quiz limit for `overall`, per-question limit for `perQuestion`. */
+  timeLimitSeconds?: number | null;
+  /** True when the overall countdown submitted the quiz. */
+  timedOut?: boolean;
+  retakeOf?: QuizRetakeSource | null;
   totalQuestions: number;
   correctCount: number;
   scorePercent: number;
@@ -48,10 +134,29 @@ export interface StoredQuizRecord {
   questions: StoredQuizQuestion[];
 }
 
+/**
+ * A quiz that has been started but not graded. Stored in the quiz's own document under
+ * `users/{uid}/quizzes` with `status: 'inProgress'`, and mirrored in localStorage.
+ */
+export interface QuizDraft {
+  id: string;
+  setup: QuizSetup;
+  responses: QuizQuestionResponse[];
+  currentIndex: number;
+  skillEstimate: number | null;
+  retakeOf: QuizRetakeSource | null;
+  /** Epoch milliseconds when the running countdown ends; the clock keeps running while away. */
+  deadlineAt: number | null;
+  /** Epoch milliseconds when this copy was written, to pick the newer of the two copies. */
+  savedAt: number;
+}
+
 export interface QuizAggregatedStats {
   totalQuizzes: number;
   averageScore: number;
   recentScore: number | null;
+  /** Mean seconds per question across quizzes with recorded times. */
+  averageSecondsPerQuestion: number | null;
 }
 
 export interface QuizStatsState {
@@ -0,0 +1,26 @@
+import type { ProblemDifficulty } from './problem';
+
+/** A missed quiz question scheduled for spaced review, stored at `users/{uid}/reviewCards/{id}`. */
+export interface ReviewCard {
+  id: string;
+  /** The original problem; reviews practice generated variants of it, never this exact text. */
+  problemText: string;
+  topicId: string;
+  subtopic: string | null;
+  difficulty: ProblemDifficulty;
+  sourceQuizId: string;
+  sourceQuestionId: string;
+  /** SM-2 ease factor, never below 1.3. */
+  easeFactor: number;
+  intervalDays: number;
+  /** Consecutive successful reviews; resets to 0 after a miss. */
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+}
+
+export type ReviewSchedule = Pick<
+  ReviewCard,
+  'easeFactor' | 'intervalDays' | 'repetitions' | 'lapses' | 'dueAt'
+>;
@@ -0,0 +1,34 @@
+import type { ProblemDifficulty } from './problem';
+
+export interface SkillNode {
+  id: string;
+  topicId: string;
+  /** Exact subtopic name used by the problem generator for this topic. */
+  subtopic: string;
+  /** Skills that should be mastered before this one is worth practicing. */
+  prerequisites: string[];
+}
+
+/** Evidence counters stored at `users/{uid}/skillMastery/{skillId}`. */
+export interface SkillMasteryRecord {
+  skillId: string;
+  attempts: number;
+  correct: number;
+  lastPracticedAt: Date | null;
+}
+
+export type SkillStatus = 'new' | 'learning' | 'mastered';
+
+export interface SkillMasteryEstimate {
+  /** Smoothed share of correct attempts, between 0 and 1. */
+  mastery: number;
+  attempts: number;
+  status: SkillStatus;
+}
+
+export interface FrontierSkill {
+  skill: SkillNode;
+  estimate: SkillMasteryEstimate;
+  /** Difficulty to request when practicing this skill next. */
+  suggestedDifficulty: ProblemDifficulty;
+}
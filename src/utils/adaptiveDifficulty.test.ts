@@ -0,0 +1,64 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  describeSkillEstimate,
+  difficultyForEstimate,
+  difficultyLevel,
+  updateSkillEstimate,
+} from './adaptiveDifficulty';
+
+const assertClose = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+describe('updateSkillEstimate', () => {
+  it('moves by half the first step on an evenly matched question', () => {
+    assertClose(updateSkillEstimate(2, 'intermediate', true, 0), 2.6);
+    assertClose(updateSkillEstimate(2, 'intermediate', false, 0), 1.4);
+  });
+
+  it('moves less for the expected result than for a surprise', () => {
+    const easyRight = updateSkillEstimate(2, 'beginner', true, 0) - 2;
+    const hardRight = updateSkillEstimate(2, 'advanced', true, 0) - 2;
+    const easyWrong = 2 - updateSkillEstimate(2, 'beginner', false, 0);
+
+    assert.ok(easyRight < hardRight);
+    assert.ok(easyRight < easyWrong);
+  });
+
+  it('shrinks the step as answers come in, down to a floor', () => {
+    assertClose(updateSkillEstimate(2, 'intermediate', true, 3), 2.3);
+    assertClose(updateSkillEstimate(2, 'intermediate', true, 100), 2.175);
+  });
+
+  it('keeps the estimate between 0.5 and 3.5', () => {
+    assert.equal(updateSkillEstimate(3.4, 'advanced', true, 0), 3.5);
+    assert.equal(updateSkillEstimate(0.6, 'beginner', false, 0), 0.5);
+  });
+});
+
+describe('difficultyForEstimate', () => {
+  it('rounds the estimate to the nearest level', () => {
+    assert.equal(difficultyForEstimate(1.4), 'beginner');
+    assert.equal(difficultyForEstimate(1.5), 'intermediate');
+    assert.equal(difficultyForEstimate(2.6), 'advanced');
+  });
+
+  it('clamps estimates outside the levels', () => {
+    assert.equal(difficultyForEstimate(0.5), 'beginner');
+    assert.equal(difficultyForEstimate(3.5), 'advanced');
+  });
+
+  it('round-trips every level', () => {
+    for (const difficulty of ['beginner', 'intermediate', 'advanced'] as const) {
+      assert.equal(difficultyForEstimate(difficultyLevel(difficulty)), difficulty);
+    }
+  });
+});
+
+describe('describeSkillEstimate', () => {
+  it('names the level and shows the estimate', () => {
+    assert.equal(describeSkillEstimate(2.26), 'Intermediate (2.3 / 3)');
+    assert.equal(describeSkillEstimate(0.5), 'Beginner (0.5 / 3)');
+  });
+});
@@ -0,0 +1,46 @@
+import type { ProblemDifficulty } from '../types/problem';
+import { DIFFICULTY_OPTIONS } from './problemGenerator';
+
+/**
+ * Running skill estimate for adaptive quizzes, on a 1-3 scale where beginner, intermediate
+ * and advanced questions sit at 1, 2 and 3. After each answer the estimate moves toward the
+ * evidence by the gap between the result and the chance of answering correctly at that gap
+ * (a logistic curve), with steps shrinking as more answers come in.
+ */
+
+const DIFFICULTY_LEVELS: ProblemDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+const MIN_ESTIMATE = 0.5;
+const MAX_ESTIMATE = 3.5;
+const SLOPE = 1.5;
+const INITIAL_STEP = 1.2;
+const MIN_STEP = 0.35;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const difficultyLevel = (difficulty: ProblemDifficulty): number =>
+  DIFFICULTY_LEVELS.indexOf(difficulty) + 1;
+
+/**
+ * @param answeredBefore - Number of answers already folded into `estimate`.
+ */
+export const updateSkillEstimate = (
+  estimate: number,
+  difficulty: ProblemDifficulty,
+  correct: boolean,
+  answeredBefore: number,
+): number => {
+  const expected = 1 / (1 + Math.exp(-SLOPE * (estimate - difficultyLevel(difficulty))));
+  const step = Math.max(MIN_STEP, INITIAL_STEP / Math.sqrt(answeredBefore + 1));
+
+  return clamp(estimate + step * ((correct ? 1 : 0) - expected), MIN_ESTIMATE, MAX_ESTIMATE);
+};
+
+export const difficultyForEstimate = (estimate: number): ProblemDifficulty =>
+  DIFFICULTY_LEVELS[clamp(Math.round(estimate), 1, DIFFICULTY_LEVELS.length) - 1];
+
+export const describeSkillEstimate = (estimate: number): string => {
+  const difficulty = difficultyForEstimate(estimate);
+  const label =
+    DIFFICULTY_OPTIONS.find((option) => option.value === difficulty)?.label ?? difficulty;
+  return `${label} (${estimate.toFixed(1)} / 3)`;
+};
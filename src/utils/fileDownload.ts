@@ -0,0 +1,19 @@
+/** Saves generated text (an HTML worksheet, a session transcript) as a file download. */
+export const downloadFile = (fileName: string, contents: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Lower-case, hyphenated file name stem with an optional ISO date suffix. */
+export const fileNameStem = (title: string, date: Date | null): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const day = date?.toISOString().slice(0, 10);
+  return `${slug || 'export'}${day ? `-${day}` : ''}`;
+};
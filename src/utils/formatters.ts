@@ -28,6 +28,24 @@ export const formatDuration = (seconds: number | undefined | null): string => {
   return `${secs}s`;
 };
 
+/**
+ * Formats a countdown in seconds as a clock
+ * @param seconds - Remaining seconds
+ * @returns Formatted string like "4:05" or "1:02:30"
+ */
+export const formatCountdown = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = String(totalSeconds % 60).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+
+  return `${minutes}:${secs}`;
+};
+
 /**
  * Formats a date to a readable string
  * @param date - Date object or null
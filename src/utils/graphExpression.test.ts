@@ -0,0 +1,76 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  evaluateGraphExpression,
+  graphExpressionVariables,
+  normalizeGraphExpression,
+  parseGraphExpression,
+} from './graphExpression';
+
+const valueOf = (input: string, scope: Record<string, number> = {}) =>
+  evaluateGraphExpression(parseGraphExpression(input), scope);
+
+const assertClose = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+describe('parseGraphExpression', () => {
+  it('follows operator precedence and right-associative powers', () => {
+    assert.equal(valueOf('1 + 2 * 3'), 7);
+    assert.equal(valueOf('2^3^2'), 512);
+    assert.equal(valueOf('-x^2', { x: 3 }), -9);
+    assert.equal(valueOf('(1 + 2) * 3'), 9);
+  });
+
+  it('reads implicit multiplication', () => {
+    assert.equal(valueOf('2x', { x: 4 }), 8);
+    assert.equal(valueOf('3(x + 1)', { x: 1 }), 6);
+    assert.equal(valueOf('ax^2', { a: 2, x: 3 }), 18);
+  });
+
+  it('reads functions, constants and absolute value bars', () => {
+    assertClose(valueOf('sin(pi / 2)'), 1);
+    assertClose(valueOf('ln(e)'), 1);
+    assertClose(valueOf('log(1000)'), 3);
+    assert.equal(valueOf('|x - 5|', { x: 2 }), 3);
+  });
+
+  it('reads the LaTeX and unicode tutors write', () => {
+    assertClose(valueOf('\\frac{1}{2}x', { x: 4 }), 2);
+    assertClose(valueOf('\\sqrt{x}', { x: 9 }), 3);
+    assertClose(valueOf('\\sqrt[3]{x}', { x: 27 }), 3);
+    assertClose(valueOf('2\\cdot\\pi'), 2 * Math.PI);
+    assertClose(valueOf('x² − 1', { x: 3 }), 8);
+    assertClose(valueOf('\\left(x + 1\\right)^{2}', { x: 1 }), 4);
+  });
+
+  it('rejects malformed input with a message', () => {
+    assert.throws(() => parseGraphExpression(''));
+    assert.throws(() => parseGraphExpression('(x + 1'));
+    assert.throws(() => parseGraphExpression('x +'));
+    assert.throws(() => parseGraphExpression('x ? 2'));
+  });
+});
+
+describe('evaluateGraphExpression', () => {
+  it('gives NaN for unknown variables and values outside a domain', () => {
+    assert.ok(Number.isNaN(valueOf('x + a', { x: 1 })));
+    assert.ok(Number.isNaN(valueOf('sqrt(x)', { x: -1 })));
+    assert.equal(valueOf('1 / x', { x: 0 }), Infinity);
+  });
+});
+
+describe('graphExpressionVariables', () => {
+  it('lists every variable once, without constants or functions', () => {
+    assert.deepEqual(
+      [...graphExpressionVariables(parseGraphExpression('a sin(bx) + a + pi'))].sort(),
+      ['a', 'b', 'x'],
+    );
+  });
+});
+
+describe('normalizeGraphExpression', () => {
+  it('turns LaTeX into the plain dialect', () => {
+    assert.equal(normalizeGraphExpression('\\frac{a}{b}'), '((a)/(b))');
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Expression parser for the graphing view. Reads plain text ("a*sin(2x) + 1"), the LaTeX subset
+ * tutors write inside math delimiters (\frac, \sqrt, \cdot, \pi) and common unicode symbols, and
+ * evaluates the tree for a given `x` and slider values. A trimmed-down client copy of the
+ * verifier's parser in `functions/src/verification/expression.ts`.
+ */
+
+export type GraphFunctionName =
+  | 'sin'
+  | 'cos'
+  | 'tan'
+  | 'sec'
+  | 'csc'
+  | 'cot'
+  | 'arcsin'
+  | 'arccos'
+  | 'arctan'
+  | 'ln'
+  | 'log'
+  | 'exp'
+  | 'sqrt'
+  | 'abs';
+
+export type GraphExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'negate'; operand: GraphExpressionNode }
+  | {
+      type: 'binary';
+      operator: '+' | '-' | '*' | '/' | '^';
+      left: GraphExpressionNode;
+      right: GraphExpressionNode;
+    }
+  | { type: 'call'; name: GraphFunctionName; argument: GraphExpressionNode };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; value: string }
+  | { kind: 'function'; value: GraphFunctionName }
+  | { kind: 'operator'; value: '+' | '-' | '*' | '/' | '^' }
+  | { kind: 'paren'; value: '(' | ')' }
+  | { kind: 'bar' };
+
+const FUNCTION_ALIASES: Record<string, GraphFunctionName> = {
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  sec: 'sec',
+  csc: 'csc',
+  cot: 'cot',
+  arcsin: 'arcsin',
+  asin: 'arcsin',
+  arccos: 'arccos',
+  acos: 'arccos',
+  arctan: 'arctan',
+  atan: 'arctan',
+  ln: 'ln',
+  log: 'log',
+  exp: 'exp',
+  sqrt: 'sqrt',
+  abs: 'abs',
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// Longest names first so "arcsin" wins over "sin".
+const NAMED_IDENTIFIERS = [
+  ...Object.keys(FUNCTION_ALIASES),
+  ...Object.keys(CONSTANTS),
+  'theta',
+].sort((a, b) => b.length - a.length);
+
+const REPLACEMENTS: Array<[RegExp, string]> = [
+  [/\\(?:left|right|displaystyle)\b/g, ''],
+  [/\\(?:d|t)frac/g, '\\frac'],
+  [/\\(?:cdot|times|ast)/g, '*'],
+  [/\\div/g, '/'],
+  [/\\[,;:! ]/g, ' '],
+  [/\\(?:operatorname|mathrm)\s*\{([^{}]*)\}/g, '$1'],
+  [/[−–—]/g, '-'],
+  [/[×∙·⋅]/g, '*'],
+  [/÷/g, '/'],
+  [/π/g, 'pi'],
+  [/θ/g, 'theta'],
+  [/√/g, 'sqrt'],
+  [/²/g, '^2'],
+  [/³/g, '^3'],
+];
+
+/** Reads a braced LaTeX argument (or a single character) starting at `index`. */
+const readLatexArgument = (input: string, index: number): { value: string; end: number } | null => {
+  let cursor = index;
+  while (input[cursor] === ' ') {
+    cursor += 1;
+  }
+  if (cursor >= input.length) {
+    return null;
+  }
+  if (input[cursor] !== '{') {
+    return { value: input[cursor], end: cursor + 1 };
+  }
+
+  let depth = 0;
+  for (let i = cursor; i < input.length; i += 1) {
+    if (input[i] === '{') {
+      depth += 1;
+    } else if (input[i] === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        return { value: input.slice(cursor + 1, i), end: i + 1 };
+      }
+    }
+  }
+  return null;
+};
+
+// Rewrites \frac{a}{b} and \sqrt[n]{a} innermost-first; bounded to avoid pathological input.
+const rewriteFractionsAndRoots = (input: string): string => {
+  let output = input;
+
+  for (let guard = 0; guard < 50; guard += 1) {
+    const fracIndex = output.indexOf('\\frac');
+    const sqrtIndex = output.indexOf('\\sqrt');
+    if (fracIndex === -1 && sqrtIndex === -1) {
+      break;
+    }
+
+    if (fracIndex !== -1 && (sqrtIndex === -1 || fracIndex < sqrtIndex)) {
+      const numerator = readLatexArgument(output, fracIndex + 5);
+      const denominator = numerator ? readLatexArgument(output, numerator.end) : null;
+      if (!numerator || !denominator) {
+        break;
+      }
+      output = `${output.slice(0, fracIndex)}((${numerator.value})/(${denominator.value}))${output.slice(denominator.end)}`;
+      continue;
+    }
+
+    let cursor = sqrtIndex + 5;
+    let degree: string | null = null;
+    if (output[cursor] === '[') {
+      const close = output.indexOf(']', cursor);
+      if (close === -1) {
+        break;
+      }
+      degree = output.slice(cursor + 1, close);
+      cursor = close + 1;
+    }
+    const radicand = readLatexArgument(output, cursor);
+    if (!radicand) {
+      break;
+    }
+    const replacement = degree
+      ? `((${radicand.value})^(1/(${degree})))`
+      : `sqrt(${radicand.value})`;
+    output = `${output.slice(0, sqrtIndex)}${replacement}${output.slice(radicand.end)}`;
+  }
+
+  return output;
+};
+
+/** Converts LaTeX and unicode notation into the plain dialect the tokenizer reads. */
+export const normalizeGraphExpression = (input: string): string => {
+  let output = input;
+  for (const [pattern, replacement] of REPLACEMENTS) {
+    output = output.replace(pattern, replacement);
+  }
+
+  return rewriteFractionsAndRoots(output)
+    .replace(/\\([a-zA-Z]+)/g, '$1')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (char === ' ') {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = input.slice(index).match(/^(?:\d+\.?\d*|\.\d+)/);
+      if (!match) {
+        throw new Error(`Unexpected "${char}" in expression.`);
+      }
+      tokens.push({ kind: 'number', value: Number.parseFloat(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(char)) {
+      const word = input.slice(index).match(/^[a-zA-Z]+/)?.[0] ?? char;
+      const lower = word.toLowerCase();
+      let cursor = 0;
+      while (cursor < word.length) {
+        const named = NAMED_IDENTIFIERS.find((name) => lower.startsWith(name, cursor));
+        if (named) {
+          const fn = FUNCTION_ALIASES[named];
+          tokens.push(fn ? { kind: 'function', value: fn } : { kind: 'variable', value: named });
+          cursor += named.length;
+        } else {
+          // Anything else is a product of single-letter variables: "ax" is a times x.
+          tokens.push({ kind: 'variable', value: word[cursor] });
+          cursor += 1;
+        }
+      }
+      index += word.length;
+      continue;
+    }
+
+    if (char === '+' || char === '-' || char === '*' || char === '/' || char === '^') {
+      tokens.push({ kind: 'operator', value: char });
+      index += 1;
+      continue;
+    }
+
+    if (char === '(' || char === '[') {
+      tokens.push({ kind: 'paren', value: '(' });
+      index += 1;
+      continue;
+    }
+
+    if (char === ')' || char === ']') {
+      tokens.push({ kind: 'paren', value: ')' });
+      index += 1;
+      continue;
+    }
+
+    if (char === '|') {
+      tokens.push({ kind: 'bar' });
+      index += 1;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${char}" in expression.`);
+  }
+
+  return tokens;
+};
+
+class GraphExpressionParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): GraphExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Expression is empty.');
+    }
+    const node = this.parseSum();
+    if (this.position < this.tokens.length) {
+      throw new Error('Unexpected trailing input in expression.');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    const token = this.tokens[this.position];
+    this.position += 1;
+    return token;
+  }
+
+  private isOperator(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'operator' && token.value === value;
+  }
+
+  private parseSum(): GraphExpressionNode {
+    let node = this.parseProduct();
+    while (this.isOperator(this.peek(), '+') || this.isOperator(this.peek(), '-')) {
+      const operator = (this.next() as { value: '+' | '-' }).value;
+      node = { type: 'binary', operator, left: node, right: this.parseProduct() };
+    }
+    return node;
+  }
+
+  private parseProduct(): GraphExpressionNode {
+    let node = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+
+      if (this.isOperator(token, '*') || this.isOperator(token, '/')) {
+        const operator = (this.next() as { value: '*' | '/' }).value;
+        node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+        continue;
+      }
+
+      // Implicit multiplication: "2x", "3sin(x)", "(x+1)(x-1)".
+      if (
+        token &&
+        (token.kind === 'variable' ||
+          token.kind === 'function' ||
+          token.kind === 'number' ||
+          (token.kind === 'paren' && token.value === '('))
+      ) {
+        node = { type: 'binary', operator: '*', left: node, right: this.parsePower() };
+        continue;
+      }
+
+      return node;
+    }
+  }
+
+  private parseUnary(): GraphExpressionNode {
+    if (this.isOperator(this.peek(), '-')) {
+      this.next();
+      return { type: 'negate', operand: this.parseUnary() };
+    }
+    if (this.isOperator(this.peek(), '+')) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): GraphExpressionNode {
+    const base = this.parsePrimary();
+    if (this.isOperator(this.peek(), '^')) {
+      this.next();
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private expectClosing(kind: 'paren' | 'bar') {
+    const token = this.next();
+    if (!token || token.kind !== kind || (token.kind === 'paren' && token.value !== ')')) {
+      throw new Error(kind === 'bar' ? 'Missing closing |.' : 'Missing closing parenthesis.');
+    }
+  }
+
+  private parsePrimary(): GraphExpressionNode {
+    const token = this.next();
+    if (!token) {
+      throw new Error('Unexpected end of expression.');
+    }
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'variable': {
+        const constant = CONSTANTS[token.value.toLowerCase()];
+        return constant === undefined
+          ? { type: 'variable', name: token.value }
+          : { type: 'number', value: constant };
+      }
+      case 'function': {
+        // "sin(x)^2" squares the sine; "sin x^2" takes the sine of the next power term.
+        const next = this.peek();
+        const argument =
+          next?.kind === 'paren' && next.value === '(' ? this.parsePrimary() : this.parsePower();
+        return { type: 'call', name: token.value, argument };
+      }
+      case 'paren': {
+        if (token.value !== '(') {
+          throw new Error('Unexpected closing parenthesis.');
+        }
+        const inner = this.parseSum();
+        this.expectClosing('paren');
+        return inner;
+      }
+      case 'bar': {
+        const inner = this.parseSum();
+        this.expectClosing('bar');
+        return { type: 'call', name: 'abs', argument: inner };
+      }
+      default:
+        throw new Error('Unexpected symbol in expression.');
+    }
+  }
+}
+
+/** Parses an expression (LaTeX or plain text). Throws with a readable message when it can't. */
+export const parseGraphExpression = (input: string): GraphExpressionNode =>
+  new GraphExpressionParser(tokenize(normalizeGraphExpression(input))).parse();
+
+const applyFunction = (name: GraphFunctionName, value: number): number => {
+  switch (name) {
+    case 'sin':
+      return Math.sin(value);
+    case 'cos':
+      return Math.cos(value);
+    case 'tan':
+      return Math.tan(value);
+    case 'sec':
+      return 1 / Math.cos(value);
+    case 'csc':
+      return 1 / Math.sin(value);
+    case 'cot':
+      return 1 / Math.tan(value);
+    case 'arcsin':
+      return Math.asin(value);
+    case 'arccos':
+      return Math.acos(value);
+    case 'arctan':
+      return Math.atan(value);
+    case 'ln':
+      return Math.log(value);
+    case 'log':
+      return Math.log10(value);
+    case 'exp':
+      return Math.exp(value);
+    case 'sqrt':
+      return Math.sqrt(value);
+    case 'abs':
+      return Math.abs(value);
+    default:
+      return Number.NaN;
+  }
+};
+
+/** Evaluates a tree; unknown variables give NaN so the point is simply not drawn. */
+export const evaluateGraphExpression = (
+  node: GraphExpressionNode,
+  scope: Record<string, number>,
+): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return scope[node.name] ?? Number.NaN;
+    case 'negate':
+      return -evaluateGraphExpression(node.operand, scope);
+    case 'call':
+      return applyFunction(node.name, evaluateGraphExpression(node.argument, scope));
+    case 'binary': {
+      const left = evaluateGraphExpression(node.left, scope);
+      const right = evaluateGraphExpression(node.right, scope);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '^':
+          return Math.pow(left, right);
+        default:
+          return Number.NaN;
+      }
+    }
+    default:
+      return Number.NaN;
+  }
+};
+
+export const graphExpressionVariables = (
+  node: GraphExpressionNode,
+  into = new Set<string>(),
+): Set<string> => {
+  switch (node.type) {
+    case 'variable':
+      into.add(node.name);
+      break;
+    case 'negate':
+      graphExpressionVariables(node.operand, into);
+      break;
+    case 'call':
+      graphExpressionVariables(node.argument, into);
+      break;
+    case 'binary':
+      graphExpressionVariables(node.left, into);
+      graphExpressionVariables(node.right, into);
+      break;
+    default:
+      break;
+  }
+  return into;
+};
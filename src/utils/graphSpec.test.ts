@@ -0,0 +1,218 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  describeGraph,
+  evaluatePair,
+  graphSpecForExpression,
+  initialViewport,
+  parseCurve,
+  parseGraphSpec,
+  sampleCurve,
+  sampleRegion,
+  sliderValues,
+} from './graphSpec';
+
+const spec = (value: unknown) => parseGraphSpec(JSON.stringify(value));
+
+describe('parseGraphSpec', () => {
+  it('reads functions, points, segments, regions and sliders', () => {
+    const parsed = spec({
+      title: ' Parabola ',
+      x: [-5, 5],
+      functions: ['y = a*x^2', { expression: 'f(x) = 2x + 1', label: 'tangent' }, 'x = 2'],
+      points: [{ x: 0, y: 0, label: 'O' }, ['a', '2a']],
+      segments: [{ from: [0, 0], to: { x: 1, y: 'a' } }],
+      regions: [{ above: 'a*x^2', below: '2x + 1', from: 0, to: 1 }],
+      sliders: [{ name: 'a', min: 0, max: 3, value: 2 }],
+    });
+
+    assert.equal(parsed.title, 'Parabola');
+    assert.deepEqual(parsed.xRange, [-5, 5]);
+    assert.equal(parsed.yRange, null);
+    assert.deepEqual(
+      parsed.curves.map((curve) => [curve.equation, curve.label, curve.vertical]),
+      [
+        ['y = a*x^2', null, false],
+        ['f(x) = 2x + 1', 'tangent', false],
+        ['x = 2', null, true],
+      ],
+    );
+    assert.deepEqual(parsed.sliders, [{ name: 'a', min: 0, max: 3, step: 0.03, value: 2 }]);
+    assert.deepEqual(
+      evaluatePair([parsed.points[1].x, parsed.points[1].y], sliderValues(parsed)),
+      [2, 4],
+    );
+  });
+
+  it('fills slider defaults and clamps the starting value', () => {
+    const [open, high] = spec({
+      functions: ['y = k*x + m'],
+      sliders: [{ name: 'k' }, { name: 'm', min: 2, max: 4, value: 9 }],
+    }).sliders;
+
+    assert.deepEqual(open, { name: 'k', min: -5, max: 5, step: 0.1, value: 1 });
+    assert.equal(high.value, 4);
+  });
+
+  it('rejects text that is not a JSON object', () => {
+    assert.throws(() => parseGraphSpec('{ functions: [y = x] }'), /not valid JSON/);
+    assert.throws(() => parseGraphSpec('["y = x"]'), /must be a JSON object/);
+    assert.throws(() => parseGraphSpec(''), /not valid JSON/);
+  });
+
+  it('rejects a graph with nothing to draw', () => {
+    assert.throws(() => spec({}), /nothing to draw/);
+    assert.throws(() => spec({ title: 'Empty', functions: [] }), /nothing to draw/);
+  });
+
+  it('rejects malformed fields with a message for the error panel', () => {
+    assert.throws(() => spec({ functions: 'y = x' }), /"functions" must be a list/);
+    assert.throws(() => spec({ functions: [42] }), /Each function must be a string/);
+    assert.throws(() => spec({ functions: ['y = x'], x: [5, 1] }), /"x" must be \[min, max\]/);
+    assert.throws(() => spec({ functions: ['y = x'], y: [0] }), /"y" must be \[min, max\]/);
+    assert.throws(() => spec({ points: [[1, 2, 3]] }), /"points" must be a point/);
+    assert.throws(() => spec({ points: [{ x: true, y: 1 }] }), /number or an expression/);
+    assert.throws(() => spec({ segments: [[0, 1]] }), /needs "from" and "to"/);
+    assert.throws(() => spec({ regions: [{ from: 0 }] }), /"above" or "below"/);
+    assert.throws(() => spec({ regions: [{ above: 'x = 1' }] }), /functions of x/);
+  });
+
+  it('rejects bad sliders', () => {
+    assert.throws(
+      () => spec({ functions: ['y = x'], sliders: [{ name: 'x' }] }),
+      /one-letter "name"/,
+    );
+    assert.throws(
+      () => spec({ functions: ['y = x'], sliders: [{ name: 'e' }] }),
+      /one-letter "name"/,
+    );
+    assert.throws(
+      () => spec({ functions: ['y = x'], sliders: [{ name: 'a', min: 3, max: 1 }] }),
+      /min below max/,
+    );
+  });
+
+  it('requires a slider for every other variable', () => {
+    assert.throws(() => spec({ functions: ['y = a*x'] }), /Unknown variable "a" in a function/);
+    assert.throws(() => spec({ points: [['x', 1]] }), /Unknown variable "x" in a coordinate/);
+    assert.throws(() => spec({ functions: ['x = b'] }), /Unknown variable "b"/);
+  });
+
+  it('caps how much one block can draw', () => {
+    assert.throws(
+      () => spec({ functions: Array.from({ length: 7 }, (_, index) => `y = x + ${index}`) }),
+      /at most 6 functions/,
+    );
+  });
+
+  it('rejects equations that are not functions of x', () => {
+    assert.throws(() => spec({ functions: ['x^2 + y^2 = 1'] }), /Only "y = …" and "x = …"/);
+    assert.throws(() => spec({ functions: ['y = (x'] }));
+  });
+});
+
+describe('parseCurve', () => {
+  it('writes bare expressions as equations', () => {
+    assert.equal(parseCurve('x^2').equation, 'y = x^2');
+    assert.equal(parseCurve('g\\left(x\\right) = x').equation, 'g\\left(x\\right) = x');
+  });
+});
+
+describe('graphSpecForExpression', () => {
+  it('offers a graph for functions of x, with sliders for other letters', () => {
+    const quadratic = graphSpecForExpression('ax^2 + bx + c');
+
+    assert.deepEqual(
+      quadratic?.sliders.map((slider) => slider.name),
+      ['a', 'b', 'c'],
+    );
+  });
+
+  it('skips numbers, bare variables, equations and unparseable math', () => {
+    assert.equal(graphSpecForExpression('42'), null);
+    assert.equal(graphSpecForExpression('x'), null);
+    assert.equal(graphSpecForExpression('x = 3'), null);
+    assert.equal(graphSpecForExpression('2x + 3 = 11'), null);
+    assert.equal(graphSpecForExpression('\\begin{pmatrix}'), null);
+  });
+});
+
+describe('initialViewport', () => {
+  it('uses the block ranges when given', () => {
+    const parsed = spec({ functions: ['y = x'], x: [0, 4], y: [-1, 1] });
+
+    assert.deepEqual(initialViewport(parsed, {}), { xMin: 0, xMax: 4, yMin: -1, yMax: 1 });
+  });
+
+  it('fits points and keeps the origin in view', () => {
+    const viewport = initialViewport(spec({ points: [[10, 20]] }), {});
+
+    assert.deepEqual(viewport, { xMin: -1, xMax: 11, yMin: -2, yMax: 22 });
+  });
+
+  it('ignores the tails of a curve near an asymptote', () => {
+    const viewport = initialViewport(spec({ functions: ['y = 1/x'] }), {});
+
+    assert.ok(viewport.yMax < 20 && viewport.yMin > -20);
+  });
+});
+
+describe('sampleCurve', () => {
+  const viewport = { xMin: -2, xMax: 2, yMin: -2, yMax: 2 };
+
+  it('draws a continuous function as one line', () => {
+    const lines = sampleCurve(parseCurve('x').node, {}, viewport, 4);
+
+    assert.deepEqual(lines, [
+      [
+        [-2, -2],
+        [-1, -1],
+        [0, 0],
+        [1, 1],
+        [2, 2],
+      ],
+    ]);
+  });
+
+  it('breaks where the function is undefined', () => {
+    assert.equal(sampleCurve(parseCurve('1/x').node, {}, viewport, 4).length, 2);
+    assert.equal(sampleCurve(parseCurve('sqrt(x)').node, {}, viewport, 4).length, 1);
+  });
+});
+
+describe('sampleRegion', () => {
+  it('shades between the curves inside the bounds', () => {
+    const [region] = spec({ regions: [{ above: '0', below: 'x', from: 0, to: 1 }] }).regions;
+    const polygons = sampleRegion(region, {}, { xMin: -2, xMax: 2, yMin: -2, yMax: 2 }, 2);
+
+    assert.deepEqual(polygons, [
+      [
+        [0.5, 0],
+        [1, 0],
+        [1, 1],
+        [0.5, 0.5],
+      ],
+    ]);
+  });
+
+  it('is empty when the bounds are reversed', () => {
+    const [region] = spec({ regions: [{ above: '0', from: 1, to: -1 }] }).regions;
+
+    assert.deepEqual(sampleRegion(region, {}, { xMin: -2, xMax: 2, yMin: -2, yMax: 2 }), []);
+  });
+});
+
+describe('describeGraph', () => {
+  it('summarizes a graph in one line, and stays quiet about broken ones', () => {
+    assert.equal(
+      describeGraph('{"functions": ["y = x^2", {"expression": "y = 1", "label": "floor"}]}'),
+      'Graph of y = x^2, floor',
+    );
+    assert.equal(
+      describeGraph('{"title": "Unit circle", "points": [[1, 0]]}'),
+      'Graph: Unit circle',
+    );
+    assert.equal(describeGraph('{"functions": ['), 'Graph');
+  });
+});
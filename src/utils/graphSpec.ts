@@ -0,0 +1,507 @@
+import {
+  evaluateGraphExpression,
+  graphExpressionVariables,
+  parseGraphExpression,
+  type GraphExpressionNode,
+} from './graphExpression';
+
+/**
+ * Graph blocks: the tutor and the problem generator embed plots in message text as a fenced
+ * block holding JSON, which `MathText` renders as an interactive plot (`GraphView`):
+ *
+ *   ```graph
+ *   { "functions": ["y = a*sin(x)"], "points": [{ "x": 0, "y": 0, "label": "O" }],
+ *     "sliders": [{ "name": "a", "min": 0, "max": 3, "value": 1 }] }
+ *   ```
+ *
+ * Coordinates may be numbers or expressions in the slider names, so points move with sliders.
+ */
+
+export const GRAPH_BLOCK_OPEN = '```graph';
+export const GRAPH_BLOCK_CLOSE = '```';
+
+export type Point = [number, number];
+
+export interface Viewport {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface GraphCurve {
+  /** The curve as written, always as an equation ("y = x^2", "x = 3"). */
+  equation: string;
+  label: string | null;
+  node: GraphExpressionNode;
+  /** `x = c` lines, where `node` gives c. */
+  vertical: boolean;
+}
+
+export interface GraphPoint {
+  x: GraphExpressionNode;
+  y: GraphExpressionNode;
+  label: string | null;
+}
+
+export interface GraphSegment {
+  from: [GraphExpressionNode, GraphExpressionNode];
+  to: [GraphExpressionNode, GraphExpressionNode];
+  label: string | null;
+}
+
+/** Shading between two curves: above `above` and below `below`, each open when omitted. */
+export interface GraphRegion {
+  above: GraphExpressionNode | null;
+  below: GraphExpressionNode | null;
+  from: GraphExpressionNode | null;
+  to: GraphExpressionNode | null;
+}
+
+export interface GraphSlider {
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+}
+
+export interface GraphSpec {
+  title: string | null;
+  xRange: [number, number] | null;
+  yRange: [number, number] | null;
+  curves: GraphCurve[];
+  points: GraphPoint[];
+  segments: GraphSegment[];
+  regions: GraphRegion[];
+  sliders: GraphSlider[];
+}
+
+const MAX_CURVES = 6;
+const MAX_POINTS = 40;
+const MAX_SEGMENTS = 20;
+const MAX_REGIONS = 4;
+const MAX_SLIDERS = 4;
+const DEFAULT_RANGE: [number, number] = [-10, 10];
+
+// Sliders are single letters; x and y are the axes and e is Euler's number.
+const isParameterName = (name: string) => /^[a-wzA-WZ]$/.test(name) && name.toLowerCase() !== 'e';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toLabel = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const toFiniteNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const toRange = (value: unknown, field: string): [number, number] | null => {
+  if (value === undefined) {
+    return null;
+  }
+  const [min, max] = Array.isArray(value) ? value.map(toFiniteNumber) : [];
+  if (min === null || max === null || min === undefined || max === undefined || min >= max) {
+    throw new Error(`"${field}" must be [min, max] with min below max.`);
+  }
+  return [min, max];
+};
+
+const toList = (value: unknown, field: string, limit: number): unknown[] => {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`"${field}" must be a list.`);
+  }
+  if (value.length > limit) {
+    throw new Error(`A graph can have at most ${limit} ${field}.`);
+  }
+  return value;
+};
+
+/** Parses "y = …", "f(x) = …" or a bare expression as a function of x, and "x = …" as a vertical line. */
+export const parseCurve = (source: string, label: string | null = null): GraphCurve => {
+  const trimmed = source.trim();
+  const vertical = trimmed.match(/^x\s*=(.+)$/);
+  if (vertical) {
+    return {
+      equation: trimmed,
+      label,
+      node: parseGraphExpression(vertical[1]),
+      vertical: true,
+    };
+  }
+
+  const body = trimmed.replace(/^(?:y|[a-zA-Z]\s*(?:\\left)?\(\s*x\s*(?:\\right)?\))\s*=/, '');
+  if (body.includes('=')) {
+    throw new Error(`Only "y = …" and "x = …" equations can be graphed: ${trimmed}`);
+  }
+  return {
+    equation: body === trimmed ? `y = ${trimmed}` : trimmed,
+    label,
+    node: parseGraphExpression(body),
+    vertical: false,
+  };
+};
+
+const toCoordinate = (value: unknown, field: string): GraphExpressionNode => {
+  const number = toFiniteNumber(value);
+  if (number !== null) {
+    return { type: 'number', value: number };
+  }
+  if (typeof value === 'string') {
+    return parseGraphExpression(value);
+  }
+  throw new Error(`"${field}" must be a number or an expression.`);
+};
+
+const toPair = (value: unknown, field: string): [GraphExpressionNode, GraphExpressionNode] => {
+  if (Array.isArray(value) && value.length === 2) {
+    return [toCoordinate(value[0], field), toCoordinate(value[1], field)];
+  }
+  if (isRecord(value)) {
+    return [toCoordinate(value.x, field), toCoordinate(value.y, field)];
+  }
+  throw new Error(`"${field}" must be a point such as [1, 2].`);
+};
+
+const toSlider = (value: unknown): GraphSlider => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !isParameterName(value.name)) {
+    throw new Error('Each slider needs a one-letter "name" other than x or y.');
+  }
+  const min = toFiniteNumber(value.min) ?? -5;
+  const max = toFiniteNumber(value.max) ?? 5;
+  if (min >= max) {
+    throw new Error(`Slider "${value.name}" needs min below max.`);
+  }
+  const initial = toFiniteNumber(value.value) ?? (min <= 1 && max >= 1 ? 1 : min);
+  const step = toFiniteNumber(value.step);
+  return {
+    name: value.name,
+    min,
+    max,
+    step: step !== null && step > 0 ? step : (max - min) / 100,
+    value: Math.min(max, Math.max(min, initial)),
+  };
+};
+
+const checkVariables = (
+  nodes: Array<GraphExpressionNode | null>,
+  allowed: Set<string>,
+  where: string,
+) => {
+  for (const node of nodes) {
+    for (const name of node ? graphExpressionVariables(node) : []) {
+      if (!allowed.has(name)) {
+        throw new Error(`Unknown variable "${name}" in ${where}; add a slider for it.`);
+      }
+    }
+  }
+};
+
+/** Parses a graph block's JSON body. Throws with a message the error panel can show. */
+export const parseGraphSpec = (source: string): GraphSpec => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    throw new Error('The graph description is not valid JSON.');
+  }
+  if (!isRecord(raw)) {
+    throw new Error('The graph description must be a JSON object.');
+  }
+
+  const sliders = toList(raw.sliders, 'sliders', MAX_SLIDERS).map(toSlider);
+  const curves = toList(raw.functions, 'functions', MAX_CURVES).map((item) => {
+    if (typeof item === 'string') {
+      return parseCurve(item);
+    }
+    if (isRecord(item) && typeof item.expression === 'string') {
+      return parseCurve(item.expression, toLabel(item.label));
+    }
+    throw new Error('Each function must be a string such as "y = x^2".');
+  });
+  const points = toList(raw.points, 'points', MAX_POINTS).map((item) => {
+    const [x, y] = toPair(item, 'points');
+    return { x, y, label: isRecord(item) ? toLabel(item.label) : null };
+  });
+  const segments = toList(raw.segments, 'segments', MAX_SEGMENTS).map((item) => {
+    if (!isRecord(item)) {
+      throw new Error('Each segment needs "from" and "to" points.');
+    }
+    return {
+      from: toPair(item.from, 'segments'),
+      to: toPair(item.to, 'segments'),
+      label: toLabel(item.label),
+    };
+  });
+  const regions = toList(raw.regions, 'regions', MAX_REGIONS).map((item) => {
+    if (!isRecord(item) || (item.above === undefined && item.below === undefined)) {
+      throw new Error('Each region needs an "above" or "below" curve.');
+    }
+    const bound = (value: unknown) => {
+      if (value === undefined) {
+        return null;
+      }
+      const curve = parseCurve(String(value));
+      if (curve.vertical) {
+        throw new Error('Region bounds must be functions of x.');
+      }
+      return curve.node;
+    };
+    return {
+      above: bound(item.above),
+      below: bound(item.below),
+      from: item.from === undefined ? null : toCoordinate(item.from, 'regions'),
+      to: item.to === undefined ? null : toCoordinate(item.to, 'regions'),
+    };
+  });
+
+  if (curves.length + points.length + segments.length + regions.length === 0) {
+    throw new Error('The graph has nothing to draw.');
+  }
+
+  const parameters = new Set(sliders.map((slider) => slider.name));
+  const withX = new Set([...parameters, 'x']);
+  checkVariables(
+    curves.map((curve) => curve.node),
+    withX,
+    'a function',
+  );
+  checkVariables(
+    regions.flatMap((region) => [region.above, region.below]),
+    withX,
+    'a region',
+  );
+  checkVariables(
+    [
+      ...curves.filter((curve) => curve.vertical).map((curve) => curve.node),
+      ...points.flatMap((point) => [point.x, point.y]),
+      ...segments.flatMap((segment) => [...segment.from, ...segment.to]),
+      ...regions.flatMap((region) => [region.from, region.to]),
+    ],
+    parameters,
+    'a coordinate',
+  );
+
+  return {
+    title: toLabel(raw.title),
+    xRange: toRange(raw.x, 'x'),
+    yRange: toRange(raw.y, 'y'),
+    curves,
+    points,
+    segments,
+    regions,
+    sliders,
+  };
+};
+
+/**
+ * The "graph this" action: a one-curve spec for a math expression in x, or null when the
+ * expression is not something to plot (numbers, bare variables, equations to solve).
+ * Other letters become sliders, so "ax^2 + bx + c" graphs with a, b and c adjustable.
+ */
+export const graphSpecForExpression = (latex: string): GraphSpec | null => {
+  let curve: GraphCurve;
+  try {
+    curve = parseCurve(latex);
+  } catch {
+    return null;
+  }
+
+  const variables = graphExpressionVariables(curve.node);
+  if (curve.vertical || !variables.has('x') || curve.node.type === 'variable') {
+    return null;
+  }
+  const parameters = [...variables].filter((name) => name !== 'x');
+  if (parameters.length > MAX_SLIDERS || !parameters.every(isParameterName)) {
+    return null;
+  }
+
+  return {
+    title: null,
+    xRange: null,
+    yRange: null,
+    curves: [curve],
+    points: [],
+    segments: [],
+    regions: [],
+    sliders: parameters.map((name) => ({ name, min: -5, max: 5, step: 0.1, value: 1 })),
+  };
+};
+
+export const sliderValues = (spec: GraphSpec): Record<string, number> =>
+  Object.fromEntries(spec.sliders.map((slider) => [slider.name, slider.value]));
+
+const evaluateAt = (node: GraphExpressionNode, scope: Record<string, number>, x?: number) =>
+  evaluateGraphExpression(node, x === undefined ? scope : { ...scope, x });
+
+export const evaluatePair = (
+  pair: [GraphExpressionNode, GraphExpressionNode],
+  scope: Record<string, number>,
+): Point => [evaluateAt(pair[0], scope), evaluateAt(pair[1], scope)];
+
+const padRange = (min: number, max: number): [number, number] => {
+  if (max - min < 1e-6) {
+    return [min - 5, max + 5];
+  }
+  const padding = (max - min) * 0.1;
+  return [min - padding, max + padding];
+};
+
+/**
+ * The first view of a graph: the block's own ranges, otherwise fitted to its points and to the
+ * middle 90% of each curve's values, so an asymptote does not flatten the rest of the plot.
+ */
+export const initialViewport = (spec: GraphSpec, scope: Record<string, number>): Viewport => {
+  const fixed = [
+    ...spec.points.map((point) => evaluatePair([point.x, point.y], scope)),
+    ...spec.segments.flatMap((segment) => [
+      evaluatePair(segment.from, scope),
+      evaluatePair(segment.to, scope),
+    ]),
+  ].filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+
+  let [xMin, xMax] = spec.xRange ?? DEFAULT_RANGE;
+  if (!spec.xRange && fixed.length > 0) {
+    [xMin, xMax] = padRange(
+      Math.min(0, ...fixed.map(([x]) => x)),
+      Math.max(0, ...fixed.map(([x]) => x)),
+    );
+    if (spec.curves.length > 0) {
+      xMin = Math.min(xMin, DEFAULT_RANGE[0]);
+      xMax = Math.max(xMax, DEFAULT_RANGE[1]);
+    }
+  }
+  if (spec.yRange) {
+    return { xMin, xMax, yMin: spec.yRange[0], yMax: spec.yRange[1] };
+  }
+
+  const values = spec.curves
+    .filter((curve) => !curve.vertical)
+    .flatMap((curve) =>
+      Array.from({ length: 101 }, (_, index) =>
+        evaluateAt(curve.node, scope, xMin + ((xMax - xMin) * index) / 100),
+      ),
+    )
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+  const curveValues =
+    values.length > 0
+      ? [values[Math.floor(values.length * 0.05)], values[Math.floor(values.length * 0.95)]]
+      : [];
+  const ys = [...curveValues, ...fixed.map(([, y]) => y)];
+  if (ys.length === 0) {
+    return { xMin, xMax, yMin: DEFAULT_RANGE[0], yMax: DEFAULT_RANGE[1] };
+  }
+  const [yMin, yMax] = padRange(Math.min(0, ...ys), Math.max(0, ...ys));
+  return { xMin, xMax, yMin, yMax };
+};
+
+/**
+ * Samples y = f(x) across the view as polylines, split wherever the function is undefined or
+ * jumps across the view (as tan does at its asymptotes).
+ */
+export const sampleCurve = (
+  node: GraphExpressionNode,
+  scope: Record<string, number>,
+  viewport: Viewport,
+  samples = 400,
+): Point[][] => {
+  const ySpan = viewport.yMax - viewport.yMin;
+  const lines: Point[][] = [];
+  let current: Point[] = [];
+
+  for (let index = 0; index <= samples; index += 1) {
+    const x = viewport.xMin + ((viewport.xMax - viewport.xMin) * index) / samples;
+    const y = evaluateAt(node, scope, x);
+    const previous = current[current.length - 1];
+    const jumps = previous && Math.abs(y - previous[1]) > ySpan * 2;
+
+    if (!Number.isFinite(y) || jumps) {
+      if (current.length > 1) {
+        lines.push(current);
+      }
+      current = [];
+    }
+    if (Number.isFinite(y)) {
+      // Clamp far-off values so the SVG path stays within sane coordinates.
+      current.push([x, Math.min(viewport.yMax + ySpan, Math.max(viewport.yMin - ySpan, y))]);
+    }
+  }
+  if (current.length > 1) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+/** The shaded area of a region as closed polygons, one per stretch where it is non-empty. */
+export const sampleRegion = (
+  region: GraphRegion,
+  scope: Record<string, number>,
+  viewport: Viewport,
+  samples = 200,
+): Point[][] => {
+  const from = Math.max(viewport.xMin, region.from ? evaluateAt(region.from, scope) : -Infinity);
+  const to = Math.min(viewport.xMax, region.to ? evaluateAt(region.to, scope) : Infinity);
+  if (!(from < to)) {
+    return [];
+  }
+
+  const polygons: Point[][] = [];
+  let lower: Point[] = [];
+  let upper: Point[] = [];
+  const close = () => {
+    if (lower.length > 1) {
+      polygons.push([...lower, ...upper.reverse()]);
+    }
+    lower = [];
+    upper = [];
+  };
+
+  for (let index = 0; index <= samples; index += 1) {
+    const x = from + ((to - from) * index) / samples;
+    const bottom = Math.max(
+      viewport.yMin,
+      region.above ? evaluateAt(region.above, scope, x) : -Infinity,
+    );
+    const top = Math.min(
+      viewport.yMax,
+      region.below ? evaluateAt(region.below, scope, x) : Infinity,
+    );
+    if (Number.isFinite(bottom) && Number.isFinite(top) && bottom < top) {
+      lower.push([x, bottom]);
+      upper.push([x, top]);
+    } else {
+      close();
+    }
+  }
+  close();
+  return polygons;
+};
+
+/** A one-line summary of a graph, e.g. "Graph of y = x^2, y = 2x + 1". */
+export const summarizeGraph = (
+  spec: GraphSpec,
+  formatEquation: (equation: string) => string = (equation) => equation,
+): string => {
+  if (spec.title) {
+    return `Graph: ${spec.title}`;
+  }
+  return spec.curves.length > 0
+    ? `Graph of ${spec.curves.map((curve) => curve.label ?? formatEquation(curve.equation)).join(', ')}`
+    : 'Graph';
+};
+
+/** `summarizeGraph` for a block's raw source, as exports and read-aloud see it. */
+export const describeGraph = (
+  source: string,
+  formatEquation?: (equation: string) => string,
+): string => {
+  try {
+    return summarizeGraph(parseGraphSpec(source), formatEquation);
+  } catch {
+    return 'Graph';
+  }
+};
@@ -0,0 +1,124 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  estimateSkewAngle,
+  findInkBounds,
+  ocrTextToLatex,
+  otsuThreshold,
+  toDisplayLatex,
+} from './mathOcr';
+
+const inkImage = (width: number, height: number, isInk: (x: number, y: number) => boolean) => {
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      ink[y * width + x] = isInk(x, y) ? 1 : 0;
+    }
+  }
+  return ink;
+};
+
+describe('otsuThreshold', () => {
+  it('splits dark ink from light paper', () => {
+    const gray = Uint8Array.from([...Array(80).fill(230), ...Array(20).fill(40)]);
+    const threshold = otsuThreshold(gray);
+
+    assert.ok(threshold >= 40 && threshold < 230, `threshold ${threshold}`);
+  });
+
+  it('keeps the default for a blank page', () => {
+    assert.equal(otsuThreshold(new Uint8Array(50).fill(255)), 127);
+  });
+});
+
+describe('findInkBounds', () => {
+  it('boxes the ink and ignores isolated specks', () => {
+    const ink = inkImage(
+      100,
+      60,
+      (x, y) => (x >= 20 && x <= 70 && y >= 10 && y <= 30) || (x === 95 && y === 55),
+    );
+
+    assert.deepEqual(findInkBounds(ink, 100, 60), { left: 20, top: 10, right: 70, bottom: 30 });
+  });
+
+  it('is null for an empty page', () => {
+    assert.equal(findInkBounds(new Uint8Array(100 * 60), 100, 60), null);
+  });
+});
+
+describe('estimateSkewAngle', () => {
+  it('finds the slope of tilted lines of writing', () => {
+    const slope = Math.tan((4 * Math.PI) / 180);
+    const ink = inkImage(400, 200, (x, y) =>
+      [40, 90, 140].some((row) => Math.round(row + x * slope) === y),
+    );
+
+    assert.equal(estimateSkewAngle(ink, 400, 200), 4);
+  });
+
+  it('leaves level writing and sparse ink unrotated', () => {
+    assert.equal(
+      estimateSkewAngle(
+        inkImage(400, 200, (_x, y) => y === 50 || y === 120),
+        400,
+        200,
+      ),
+      0,
+    );
+    assert.equal(
+      estimateSkewAngle(
+        inkImage(40, 40, (x, y) => x === y && x < 10),
+        40,
+        40,
+      ),
+      0,
+    );
+  });
+});
+
+describe('ocrTextToLatex', () => {
+  it('raises inline exponents and converts superscripts', () => {
+    assert.equal(ocrTextToLatex('x2 + 3x = 10'), 'x^{2} + 3x = 10');
+    assert.equal(ocrTextToLatex('(x+1)3'), '(x+1)^{3}');
+    assert.equal(ocrTextToLatex('x² − 4 ≥ 0'), 'x^{2} - 4 \\ge 0');
+  });
+
+  it('turns symbols, roots and slashes into commands', () => {
+    assert.equal(ocrTextToLatex('90° × 2'), '90^{\\circ} \\times 2');
+    assert.equal(ocrTextToLatex('√(x + 1) = 4'), '\\sqrt{x + 1} = 4');
+    assert.equal(ocrTextToLatex('3/4 + x/2'), '\\frac{3}{4} + \\frac{x}{2}');
+    assert.equal(ocrTextToLatex('3 * 4'), '3 \\cdot 4');
+  });
+
+  it('fixes letters misread as digits between digits', () => {
+    assert.equal(ocrTextToLatex('1O5 + 2l0'), '105 + 210');
+  });
+
+  it('keeps words upright as text', () => {
+    assert.equal(ocrTextToLatex('Solve for x: 2x + 5 = 11'), '\\text{Solve for } x: 2x + 5 = 11');
+  });
+
+  it('stacks a numerator, bar and denominator into a fraction', () => {
+    assert.equal(ocrTextToLatex('x + 1\n-----\n2'), '\\frac{x + 1}{2}');
+  });
+
+  it('keeps one line per line of writing and drops blank ones', () => {
+    assert.equal(
+      ocrTextToLatex('Find the area.\r\n\r\n3 * 4'),
+      '\\text{Find the area. }\n3 \\cdot 4',
+    );
+  });
+
+  it('returns nothing for blank text', () => {
+    assert.equal(ocrTextToLatex(' \n \n'), '');
+  });
+});
+
+describe('toDisplayLatex', () => {
+  it('gathers several lines into one formula', () => {
+    assert.equal(toDisplayLatex('a\n b \n'), '\\begin{gathered}a \\\\ b\\end{gathered}');
+    assert.equal(toDisplayLatex('x^{2}'), 'x^{2}');
+  });
+});
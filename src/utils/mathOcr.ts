@@ -0,0 +1,382 @@
+/**
+ * OCR for photographed and drawn math problems. Tesseract reads prose well but mangles math, so
+ * the image is cleaned up first (binarized, deskewed, cropped to the ink) and the text it returns
+ * is corrected into LaTeX: unicode symbols become commands, "x2" becomes `x^{2}`, stacked
+ * fractions become `\frac`. The learner confirms or edits the result before it is stored.
+ */
+
+export interface MathOcrResult {
+  /** Tesseract's text as read. */
+  text: string;
+  /** The text corrected into LaTeX, without `$` delimiters. */
+  latex: string;
+  /** 0–1. */
+  confidence: number;
+}
+
+const MIN_LONG_SIDE = 1000;
+const MAX_LONG_SIDE = 2000;
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+const MAX_SKEW_SAMPLES = 20000;
+const CROP_PADDING = 16;
+
+/** The gray level that best separates ink from paper (Otsu's method). */
+export const otsuThreshold = (gray: Uint8ClampedArray | Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((value) => {
+    histogram[value] += 1;
+  });
+
+  const total = gray.length;
+  let sumAll = 0;
+  histogram.forEach((count, level) => {
+    sumAll += count * level;
+  });
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+
+  for (let level = 0; level < 256; level += 1) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+
+  return threshold;
+};
+
+/**
+ * The angle (degrees) the ink is rotated by: the one whose horizontal projection has the sharpest
+ * peaks, since lines of writing pile up into few rows when they are level.
+ */
+export const estimateSkewAngle = (ink: Uint8Array, width: number, height: number): number => {
+  const points: Array<[number, number]> = [];
+  const inkCount = ink.reduce((count, value) => count + value, 0);
+  const stride = Math.max(1, Math.ceil(inkCount / MAX_SKEW_SAMPLES));
+  let seen = 0;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (ink[y * width + x]) {
+        if (seen % stride === 0) {
+          points.push([x, y]);
+        }
+        seen += 1;
+      }
+    }
+  }
+  if (points.length < 50) {
+    return 0;
+  }
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  const diagonal = Math.ceil(Math.hypot(width, height));
+
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+    points.forEach(([x, y]) => {
+      const row = Math.round(y * cos - x * sin) + diagonal;
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    });
+    let score = 0;
+    rows.forEach((count) => {
+      score += count * count;
+    });
+    // Prefer no rotation when angles tie.
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+/**
+ * The box around the ink, ignoring rows and columns with only a speck or two of noise.
+ * Null when there is no ink at all.
+ */
+export const findInkBounds = (
+  ink: Uint8Array,
+  width: number,
+  height: number,
+): { left: number; top: number; right: number; bottom: number } | null => {
+  const rowCounts = new Array<number>(height).fill(0);
+  const columnCounts = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (ink[y * width + x]) {
+        rowCounts[y] += 1;
+        columnCounts[x] += 1;
+      }
+    }
+  }
+
+  const rowMinimum = Math.max(2, Math.round(width * 0.002));
+  const columnMinimum = Math.max(2, Math.round(height * 0.002));
+  const top = rowCounts.findIndex((count) => count >= rowMinimum);
+  const left = columnCounts.findIndex((count) => count >= columnMinimum);
+  if (top === -1 || left === -1) {
+    return null;
+  }
+  const bottom = height - 1 - [...rowCounts].reverse().findIndex((count) => count >= rowMinimum);
+  const right =
+    width - 1 - [...columnCounts].reverse().findIndex((count) => count >= columnMinimum);
+
+  return { left, top, right, bottom };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+  return { canvas, context };
+};
+
+/** Black ink on white paper at a size Tesseract reads well, level and cropped to the problem. */
+export const preprocessForOcr = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file);
+  const longSide = Math.max(bitmap.width, bitmap.height);
+  const scale =
+    longSide < MIN_LONG_SIDE
+      ? Math.min(3, MIN_LONG_SIDE / longSide)
+      : Math.min(1, MAX_LONG_SIDE / longSide);
+
+  const { canvas: source, context: sourceContext } = createCanvas(
+    bitmap.width * scale,
+    bitmap.height * scale,
+  );
+  sourceContext.fillStyle = '#FFFFFF';
+  sourceContext.fillRect(0, 0, source.width, source.height);
+  sourceContext.drawImage(bitmap, 0, 0, source.width, source.height);
+  bitmap.close();
+
+  const { width, height } = source;
+  const image = sourceContext.getImageData(0, 0, width, height);
+  const gray = new Uint8Array(width * height);
+  for (let index = 0; index < gray.length; index += 1) {
+    const offset = index * 4;
+    gray[index] = Math.round(
+      image.data[offset] * 0.299 + image.data[offset + 1] * 0.587 + image.data[offset + 2] * 0.114,
+    );
+  }
+
+  const threshold = otsuThreshold(gray);
+  let ink = gray.map((value) => (value <= threshold ? 1 : 0));
+  // Light writing on a dark board: treat the minority as ink.
+  if (ink.reduce((count, value) => count + value, 0) > ink.length / 2) {
+    ink = ink.map((value) => 1 - value);
+  }
+
+  ink.forEach((value, index) => {
+    const shade = value ? 0 : 255;
+    const offset = index * 4;
+    image.data[offset] = shade;
+    image.data[offset + 1] = shade;
+    image.data[offset + 2] = shade;
+    image.data[offset + 3] = 255;
+  });
+  sourceContext.putImageData(image, 0, 0);
+
+  const angle = estimateSkewAngle(ink, width, height);
+  let leveled = source;
+  if (Math.abs(angle) >= SKEW_STEP_DEGREES) {
+    const { canvas, context } = createCanvas(width, height);
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, width, height);
+    context.translate(width / 2, height / 2);
+    context.rotate((-angle * Math.PI) / 180);
+    context.drawImage(source, -width / 2, -height / 2);
+    leveled = canvas;
+  }
+
+  const leveledContext = leveled.getContext('2d');
+  if (!leveledContext) {
+    return leveled;
+  }
+  const leveledData = leveledContext.getImageData(0, 0, width, height).data;
+  const leveledInk = new Uint8Array(width * height);
+  for (let index = 0; index < leveledInk.length; index += 1) {
+    leveledInk[index] = leveledData[index * 4] < 128 ? 1 : 0;
+  }
+
+  const bounds = findInkBounds(leveledInk, width, height);
+  if (!bounds) {
+    return leveled;
+  }
+  const cropWidth = bounds.right - bounds.left + 1 + CROP_PADDING * 2;
+  const cropHeight = bounds.bottom - bounds.top + 1 + CROP_PADDING * 2;
+  const { canvas: cropped, context: croppedContext } = createCanvas(cropWidth, cropHeight);
+  croppedContext.fillStyle = '#FFFFFF';
+  croppedContext.fillRect(0, 0, cropWidth, cropHeight);
+  croppedContext.drawImage(
+    leveled,
+    bounds.left - CROP_PADDING,
+    bounds.top - CROP_PADDING,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    cropWidth,
+    cropHeight,
+  );
+  return cropped;
+};
+
+const SYMBOL_COMMANDS: Array<[RegExp, string]> = [
+  [/[−–—]/g, '-'],
+  [/×/g, ' \\times '],
+  [/÷/g, ' \\div '],
+  [/·/g, ' \\cdot '],
+  [/≤/g, ' \\le '],
+  [/≥/g, ' \\ge '],
+  [/≠/g, ' \\ne '],
+  [/≈/g, ' \\approx '],
+  [/±/g, ' \\pm '],
+  [/∞/g, '\\infty '],
+  [/π/g, '\\pi '],
+  [/θ/g, '\\theta '],
+  [/α/g, '\\alpha '],
+  [/β/g, '\\beta '],
+  [/Δ/g, '\\Delta '],
+  [/∫/g, '\\int '],
+  [/Σ/g, '\\sum '],
+  [/°/g, '^{\\circ}'],
+  [/½/g, '\\frac{1}{2}'],
+  [/⅓/g, '\\frac{1}{3}'],
+  [/¼/g, '\\frac{1}{4}'],
+  [/¾/g, '\\frac{3}{4}'],
+];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0',
+  '¹': '1',
+  '²': '2',
+  '³': '3',
+  '⁴': '4',
+  '⁵': '5',
+  '⁶': '6',
+  '⁷': '7',
+  '⁸': '8',
+  '⁹': '9',
+  ⁿ: 'n',
+  '⁻': '-',
+};
+
+// A line drawn under a numerator: mostly dashes, underscores or em dashes.
+const FRACTION_BAR = /^[-_—–=]{2,}$/;
+
+const correctLine = (line: string): string => {
+  let latex = line
+    // Letters Tesseract confuses with digits, when they sit between digits.
+    .replace(/(?<=\d)[Oo](?=\d)/g, '0')
+    .replace(/(?<=\d)[Il|](?=\d)/g, '1')
+    .replace(
+      /[⁰¹²³⁴⁵⁶⁷⁸⁹ⁿ⁻]+/g,
+      (run) => `^{${[...run].map((char) => SUPERSCRIPTS[char]).join('')}}`,
+    );
+
+  SYMBOL_COMMANDS.forEach(([pattern, command]) => {
+    latex = latex.replace(pattern, command);
+  });
+
+  return (
+    latex
+      // √x, √(x + 1) and √16 as radicals.
+      .replace(/√\s*\(([^()]+)\)/g, '\\sqrt{$1}')
+      .replace(/√\s*([\w.]+)/g, '\\sqrt{$1}')
+      // A raised exponent usually comes back inline: "x2" → x^{2}, "(x+1)3" → (x+1)^{3}.
+      .replace(/(^|[^a-zA-Z\\])([a-zA-Z)])(\d+)(?![\d.])/g, '$1$2^{$3}')
+      .replace(/\^(\d+)/g, '^{$1}')
+      // Inline fractions of simple terms: "3/4" and "x/2".
+      .replace(/(?<![\w}])(\d+|[a-zA-Z])\s*\/\s*(\d+|[a-zA-Z])(?![\w{])/g, '\\frac{$1}{$2}')
+      .replace(/\*/g, ' \\cdot ')
+      // Runs of words ("Solve", "Find the area of") stay upright and keep their spaces.
+      .replace(
+        /(^|[^\\a-zA-Z{])([A-Za-z]{2,}(?:[\s,.;:?!]+[A-Za-z]{2,})*[,.;:?!]?)/g,
+        (_match, before: string, words: string) => `${before}\\text{${before ? ' ' : ''}${words} }`,
+      )
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+};
+
+/** Corrects Tesseract's reading of a math problem into LaTeX, one line per line of writing. */
+export const ocrTextToLatex = (text: string): string => {
+  const lines = text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const corrected: string[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const above = lines[index];
+    const bar = lines[index + 1];
+    const below = lines[index + 2];
+    // A stacked fraction reads as three lines: numerator, bar, denominator.
+    if (bar !== undefined && below !== undefined && FRACTION_BAR.test(bar)) {
+      corrected.push(`\\frac{${correctLine(above)}}{${correctLine(below)}}`);
+      index += 2;
+    } else {
+      corrected.push(correctLine(above));
+    }
+  }
+
+  return corrected.join('\n');
+};
+
+/** The LaTeX as one display formula, stacking its lines. */
+export const toDisplayLatex = (latex: string): string => {
+  const lines = latex
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return lines.length > 1
+    ? `\\begin{gathered}${lines.join(' \\\\ ')}\\end{gathered}`
+    : lines.join('');
+};
+
+/** Cleans up the image, runs Tesseract on it and corrects the result into LaTeX. */
+export const recognizeMath = async (file: Blob): Promise<MathOcrResult> => {
+  const [{ default: Tesseract }, image] = await Promise.all([
+    import('tesseract.js'),
+    preprocessForOcr(file).catch((error) => {
+      // Fall back to the original image rather than giving up on OCR.
+      console.error('Failed to preprocess image for OCR', error);
+      return file;
+    }),
+  ]);
+  const result = await Tesseract.recognize(image, 'eng');
+  const text = (result?.data?.text ?? '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const rawConfidence = result?.data?.confidence ?? 0;
+
+  return {
+    text,
+    latex: ocrTextToLatex(text),
+    confidence: Number.isFinite(rawConfidence) ? rawConfidence / 100 : 0,
+  };
+};
@@ -0,0 +1,42 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { splitMath } from './mathSegments';
+
+describe('splitMath', () => {
+  it('splits every delimiter MathText renders', () => {
+    assert.deepEqual(splitMath('Let $x$ be \\(y\\) so $$x = y$$ and \\[y\\]'), [
+      { type: 'text', value: 'Let ' },
+      { type: 'inline', value: 'x' },
+      { type: 'text', value: ' be ' },
+      { type: 'inline', value: 'y' },
+      { type: 'text', value: ' so ' },
+      { type: 'block', value: 'x = y' },
+      { type: 'text', value: ' and ' },
+      { type: 'block', value: 'y' },
+    ]);
+  });
+
+  it('keeps prices and escaped dollars as text', () => {
+    assert.deepEqual(splitMath('Pens cost $5 and $7.'), [
+      { type: 'text', value: 'Pens cost $5 and $7.' },
+    ]);
+    assert.deepEqual(splitMath('\\$5 plus $x$'), [
+      { type: 'text', value: '\\$5 plus ' },
+      { type: 'inline', value: 'x' },
+    ]);
+    assert.deepEqual(splitMath('$5 and $x^2$'), [
+      { type: 'text', value: '$5 and ' },
+      { type: 'inline', value: 'x^2' },
+    ]);
+  });
+
+  it('closes \\(...\\) at its matching pair', () => {
+    assert.deepEqual(splitMath('\\(a \\(b\\) c\\)'), [{ type: 'inline', value: 'a \\(b\\) c' }]);
+  });
+
+  it('reads graph blocks and leaves unterminated ones as text', () => {
+    assert.deepEqual(splitMath('```graph {"y": "x"}```'), [{ type: 'graph', value: '{"y": "x"}' }]);
+    assert.deepEqual(splitMath('$$x = '), [{ type: 'text', value: '$$x = ' }]);
+  });
+});
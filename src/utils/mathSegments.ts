@@ -0,0 +1,108 @@
+import { GRAPH_BLOCK_CLOSE, GRAPH_BLOCK_OPEN } from './graphSpec';
+
+/** Math in message text, split the way `MathText` renders it; shared by exports and voice mode. */
+
+export type MathSegment = { type: 'text' | 'inline' | 'block' | 'graph'; value: string };
+
+/**
+ * Where an inline `$…$` opened at `start` closes, or -1 when that `$` is a literal one. As in
+ * Pandoc, the opening `$` must be followed by a non-space and the closing one preceded by a
+ * non-space and not followed by a digit, so prices like "$5 and $7" stay text.
+ */
+const findInlineDollarEnd = (input: string, start: number): number => {
+  if (input[start - 1] === '\\' || /\s/.test(input[start + 1] ?? ' ')) {
+    return -1;
+  }
+  const end = input.indexOf('$', start + 1);
+  if (end === -1 || input.slice(start + 1, end).includes('\n')) {
+    return -1;
+  }
+  return /\s/.test(input[end - 1]) || /\d/.test(input[end + 1] ?? '') ? -1 : end;
+};
+
+/** Where a `\(…\)` opened at `start` closes, counting nested `\(…\)` pairs, or -1. */
+const findParenEnd = (input: string, start: number): number => {
+  let depth = 1;
+  for (let j = start + 2; j < input.length; j += 1) {
+    if (input[j] === '\\' && input[j + 1] === '(') {
+      depth += 1;
+      j += 1;
+    } else if (input[j] === '\\' && input[j + 1] === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        return j;
+      }
+      j += 1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Splits message text into prose, the `$…$`, `$$…$$`, `\(…\)` and `\[…\]` math and the
+ * ```graph blocks. An unterminated delimiter stays text, so a reply can render while it streams.
+ */
+export const splitMath = (input: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let lastIndex = 0;
+  let i = 0;
+
+  const push = (type: MathSegment['type'], start: number, end: number, next: number) => {
+    if (i > lastIndex) {
+      segments.push({ type: 'text', value: input.slice(lastIndex, i) });
+    }
+    segments.push({ type, value: input.slice(start, end).trim() });
+    i = next;
+    lastIndex = next;
+  };
+
+  while (i < input.length) {
+    if (input.startsWith(GRAPH_BLOCK_OPEN, i)) {
+      const start = i + GRAPH_BLOCK_OPEN.length;
+      const end = input.indexOf(GRAPH_BLOCK_CLOSE, start);
+      if (end !== -1) {
+        push('graph', start, end, end + GRAPH_BLOCK_CLOSE.length);
+        continue;
+      }
+    }
+
+    if (input.startsWith('$$', i)) {
+      const end = input.indexOf('$$', i + 2);
+      if (end !== -1) {
+        push('block', i + 2, end, end + 2);
+        continue;
+      }
+    }
+
+    if (input[i] === '$' && input[i - 1] !== '$' && input[i + 1] !== '$') {
+      const end = findInlineDollarEnd(input, i);
+      if (end !== -1) {
+        push('inline', i + 1, end, end + 1);
+        continue;
+      }
+    }
+
+    if (input.startsWith('\\[', i)) {
+      const end = input.indexOf('\\]', i + 2);
+      if (end !== -1) {
+        push('block', i + 2, end, end + 2);
+        continue;
+      }
+    }
+
+    if (input.startsWith('\\(', i)) {
+      const end = findParenEnd(input, i);
+      if (end !== -1) {
+        push('inline', i + 2, end, end + 2);
+        continue;
+      }
+    }
+
+    i += 1;
+  }
+
+  if (lastIndex < input.length) {
+    segments.push({ type: 'text', value: input.slice(lastIndex) });
+  }
+  return segments;
+};
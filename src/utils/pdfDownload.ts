@@ -0,0 +1,90 @@
+/**
+ * Saves a rendered page section (a worksheet, a session transcript) as a PDF download. The
+ * element is captured as an image, so the PDF matches the screen, KaTeX included, but its text
+ * cannot be selected. Images from other origins appear only when served with CORS headers.
+ * Both libraries load on first use to keep them out of the main bundle.
+ */
+
+const PAGE_MARGIN_MM = 12;
+
+// A page break moves up to this share of a page to land on a blank row instead of a text line.
+const MAX_BREAK_SHIFT = 0.15;
+
+const isBlankRow = (context: CanvasRenderingContext2D, y: number, width: number) => {
+  const { data } = context.getImageData(0, y, width, 1);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] < 245 || data[i + 1] < 245 || data[i + 2] < 245) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const findPageBreak = (context: CanvasRenderingContext2D, top: number, pageHeight: number) => {
+  const width = context.canvas.width;
+  const limit = top + pageHeight;
+  if (limit >= context.canvas.height) {
+    return context.canvas.height;
+  }
+  const lowest = limit - Math.floor(pageHeight * MAX_BREAK_SHIFT);
+  for (let y = limit; y > lowest; y -= 1) {
+    if (isBlankRow(context, y, width)) {
+      return y;
+    }
+  }
+  return limit;
+};
+
+export const downloadElementPdf = async (fileName: string, element: HTMLElement) => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+    import('html2canvas'),
+    import('jspdf'),
+  ]);
+
+  const canvas = await html2canvas(element, {
+    backgroundColor: '#ffffff',
+    scale: 2,
+    useCORS: true,
+  });
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const contentWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const contentHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+  const pixelsPerMm = canvas.width / contentWidth;
+  const pageHeight = Math.floor(contentHeight * pixelsPerMm);
+
+  const page = document.createElement('canvas');
+  page.width = canvas.width;
+  const pageContext = page.getContext('2d');
+  if (!pageContext) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  for (let top = 0; top < canvas.height; ) {
+    const bottom = findPageBreak(context, top, pageHeight);
+    const height = bottom - top;
+    page.height = height;
+    pageContext.fillStyle = '#ffffff';
+    pageContext.fillRect(0, 0, page.width, height);
+    pageContext.drawImage(canvas, 0, top, canvas.width, height, 0, 0, canvas.width, height);
+
+    if (top > 0) {
+      pdf.addPage();
+    }
+    pdf.addImage(
+      page.toDataURL('image/jpeg', 0.92),
+      'JPEG',
+      PAGE_MARGIN_MM,
+      PAGE_MARGIN_MM,
+      contentWidth,
+      height / pixelsPerMm,
+    );
+    top = bottom;
+  }
+
+  pdf.save(fileName);
+};
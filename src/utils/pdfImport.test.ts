@@ -0,0 +1,83 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { cropProblem, isPdfFile, type PdfPageImage } from './pdfImport';
+
+const page: PdfPageImage = {
+  pageNumber: 2,
+  imageUrl: 'data:image/jpeg;base64,page',
+  width: 1400,
+  height: 1800,
+};
+
+const globals = globalThis as Record<string, unknown>;
+
+/** Stands in for the browser's Image and canvas so the crop arithmetic can run under Node. */
+const fakeBrowser = (blob: Blob | null) => {
+  const drawn: unknown[][] = [];
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({ drawImage: (...args: unknown[]) => drawn.push(args) }),
+    toBlob: (callback: (result: Blob | null) => void) => callback(blob),
+  };
+
+  globals.document = { createElement: () => canvas };
+  globals.Image = class {
+    onload: (() => void) | null = null;
+    set src(_value: string) {
+      queueMicrotask(() => this.onload?.());
+    }
+  };
+
+  return { canvas, drawn };
+};
+
+describe('isPdfFile', () => {
+  it('recognizes PDFs by type or extension', () => {
+    assert.equal(isPdfFile(new File([], 'sheet.bin', { type: 'application/pdf' })), true);
+    assert.equal(isPdfFile(new File([], 'Worksheet.PDF')), true);
+    assert.equal(isPdfFile(new File([], 'photo.png', { type: 'image/png' })), false);
+  });
+});
+
+describe('cropProblem', () => {
+  afterEach(() => {
+    delete globals.document;
+    delete globals.Image;
+  });
+
+  it('cuts the boxed fraction of the page into a PNG', async () => {
+    const { canvas, drawn } = fakeBrowser(new Blob(['png'], { type: 'image/png' }));
+    const file = await cropProblem(
+      page,
+      { id: 'r1', pageNumber: 2, x: 0.1, y: 0.25, width: 0.5, height: 0.1 },
+      'problem-1.png',
+    );
+
+    assert.equal(file.name, 'problem-1.png');
+    assert.equal(file.type, 'image/png');
+    assert.deepEqual([canvas.width, canvas.height], [700, 180]);
+    assert.deepEqual(drawn[0].slice(1), [140, 450, 700, 180, 0, 0, 700, 180]);
+  });
+
+  it('keeps at least one pixel for a zero-size box', async () => {
+    const { canvas } = fakeBrowser(new Blob(['png']));
+    await cropProblem(
+      page,
+      { id: 'r2', pageNumber: 2, x: 0.5, y: 0.5, width: 0, height: 0 },
+      'p.png',
+    );
+
+    assert.deepEqual([canvas.width, canvas.height], [1, 1]);
+  });
+
+  it('rejects when the canvas cannot encode the crop', async () => {
+    fakeBrowser(null);
+
+    await assert.rejects(
+      cropProblem(page, { id: 'r3', pageNumber: 2, x: 0, y: 0, width: 1, height: 1 }, 'p.png'),
+      /Could not crop the problem/,
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Worksheet import: PDF pages are rasterized in the browser with pdf.js, and the problems the
+ * learner boxes on a page are cropped into PNGs that are uploaded like any photo.
+ */
+
+export interface PdfPageImage {
+  pageNumber: number;
+  /** A JPEG data URL of the rendered page. */
+  imageUrl: string;
+  width: number;
+  height: number;
+}
+
+/** A box on a page, in fractions (0–1) of the page's width and height. */
+export interface ProblemRegion {
+  id: string;
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_PDF_PAGES = 20;
+const PAGE_RENDER_WIDTH = 1400;
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/** Renders each page (up to `MAX_PDF_PAGES`) to an image the learner can select problems on. */
+export const renderPdfPages = async (
+  file: File,
+): Promise<{ pages: PdfPageImage[]; pageCount: number }> => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: PdfPageImage[] = [];
+
+  try {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported');
+    }
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_PAGES); pageNumber += 1) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PAGE_RENDER_WIDTH / baseViewport.width });
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      context.fillStyle = '#FFFFFF';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+      pages.push({
+        pageNumber,
+        imageUrl: canvas.toDataURL('image/jpeg', 0.9),
+        width: canvas.width,
+        height: canvas.height,
+      });
+      page.cleanup();
+    }
+
+    return { pages, pageCount: pdf.numPages };
+  } finally {
+    void pdf.destroy();
+  }
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the page image'));
+    image.src = src;
+  });
+
+/** Cuts one selected problem out of its page as a PNG file. */
+export const cropProblem = async (
+  page: PdfPageImage,
+  region: ProblemRegion,
+  fileName: string,
+): Promise<File> => {
+  const image = await loadImage(page.imageUrl);
+  const sourceX = Math.round(region.x * page.width);
+  const sourceY = Math.round(region.y * page.height);
+  const width = Math.max(1, Math.round(region.width * page.width));
+  const height = Math.max(1, Math.round(region.height * page.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+  context.drawImage(image, sourceX, sourceY, width, height, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Could not crop the problem'));
+        return;
+      }
+      resolve(new File([blob], fileName, { type: 'image/png' }));
+    }, 'image/png');
+  });
+};
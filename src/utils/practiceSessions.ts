@@ -0,0 +1,31 @@
+import { addDoc, collection, doc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { firestore } from '../firebase';
+import type { GeneratedProblem } from '../types/problem';
+
+// Opens a tutor session that starts with the generated problem as its first message.
+export const createPracticeSession = async (userId: string, problem: GeneratedProblem) => {
+  const sessionsCollection = collection(firestore, 'users', userId, 'sessions');
+  const newSessionRef = doc(sessionsCollection);
+
+  await setDoc(newSessionRef, {
+    createdAt: serverTimestamp(),
+    lastUpdated: serverTimestamp(),
+    topicId: problem.topicId ?? null,
+    subtopic: problem.subtopic ?? null,
+    difficulty: problem.difficulty ?? null,
+    problemId: problem.problemId ?? null,
+    title: problem.title?.trim() || `Practice — ${problem.subtopic ?? problem.topicId}`,
+  });
+
+  await addDoc(collection(newSessionRef, 'messages'), {
+    role: 'assistant',
+    content: problem.problemText,
+    imageUrl: null,
+    topicId: problem.topicId ?? null,
+    difficulty: problem.difficulty ?? null,
+    stepType: null,
+    createdAt: serverTimestamp(),
+  });
+
+  return newSessionRef.id;
+};
@@ -0,0 +1,26 @@
+import type { QuizQuestion } from '../types/quiz';
+
+const CHOICE_LABELS = ['A', 'B', 'C', 'D'];
+
+/**
+ * The question as one block of text, with multiple-choice options and multi-part prompts written
+ * out. Used wherever the question leaves the quiz screen: grading fallbacks, tutor review chats
+ * and review cards.
+ */
+export const fullQuestionText = (
+  question: Pick<QuizQuestion, 'problemText' | 'format' | 'choices' | 'parts'>,
+): string => {
+  if (question.format === 'multipleChoice' && question.choices?.length) {
+    const options = question.choices
+      .map((choice, index) => `${CHOICE_LABELS[index] ?? index + 1}. ${choice}`)
+      .join('\n');
+    return `${question.problemText}\n\n${options}`;
+  }
+
+  if (question.format === 'multiPart' && question.parts?.length) {
+    const prompts = question.parts.map((part) => `(${part.label}) ${part.prompt}`).join('\n');
+    return `${question.problemText}\n\n${prompts}`;
+  }
+
+  return question.problemText;
+};
@@ -0,0 +1,105 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseQuizDraft, pickLatestDraft } from './quizDrafts';
+import type { QuizDraft, QuizQuestion, QuizSetup } from '../types/quiz';
+
+const setup: QuizSetup = {
+  topicId: 'algebra',
+  difficulty: 'beginner',
+  answerFormat: 'mixed',
+  questionCount: 5,
+  mode: 'fixed',
+  timerMode: 'untimed',
+  examMinutes: 20,
+  secondsPerQuestion: 60,
+};
+
+const question: QuizQuestion = {
+  id: 'q1',
+  problemText: 'Solve 2x = 4',
+  topicId: 'algebra',
+  difficulty: 'beginner',
+};
+
+const draftOf = (id: string, savedAt: number): QuizDraft => ({
+  id,
+  setup,
+  responses: [{ ...question, userAnswer: '' }],
+  currentIndex: 0,
+  skillEstimate: null,
+  retakeOf: null,
+  deadlineAt: null,
+  savedAt,
+});
+
+describe('pickLatestDraft', () => {
+  it('resumes the local copy when Firestore has none yet', () => {
+    const cached = draftOf('quiz-1', 100);
+
+    assert.equal(pickLatestDraft(null, cached), cached);
+    assert.equal(pickLatestDraft(null, null), null);
+  });
+
+  it('prefers the newer copy of the same quiz', () => {
+    const remote = draftOf('quiz-1', 100);
+    const newer = draftOf('quiz-1', 200);
+    const older = draftOf('quiz-1', 50);
+
+    assert.equal(pickLatestDraft(remote, newer), newer);
+    assert.equal(pickLatestDraft(remote, older), remote);
+    assert.equal(pickLatestDraft(remote, null), remote);
+  });
+
+  it('keeps the Firestore draft when the local copy is another quiz', () => {
+    const remote = draftOf('quiz-1', 100);
+
+    assert.equal(pickLatestDraft(remote, draftOf('quiz-2', 500)), remote);
+  });
+});
+
+describe('parseQuizDraft', () => {
+  it('reads the localStorage copy', () => {
+    const draft = draftOf('quiz-1', 100);
+
+    assert.deepEqual(parseQuizDraft(JSON.parse(JSON.stringify(draft))), draft);
+  });
+
+  it('reads the Firestore document with its id passed separately', () => {
+    const parsed = parseQuizDraft({ setup, questions: [question], currentIndex: 0 }, 'quiz-9');
+
+    assert.equal(parsed?.id, 'quiz-9');
+    assert.equal(parsed?.responses[0].userAnswer, '');
+    assert.equal(parsed?.savedAt, 0);
+  });
+
+  it('drops malformed questions and clamps the current index', () => {
+    const parsed = parseQuizDraft({
+      id: 'quiz-1',
+      setup,
+      responses: [question, { id: 'q2' }, null],
+      currentIndex: 7,
+    });
+
+    assert.equal(parsed?.responses.length, 1);
+    assert.equal(parsed?.currentIndex, 0);
+  });
+
+  it('rejects drafts without an id, a setup or any questions', () => {
+    assert.equal(parseQuizDraft({ setup, responses: [question] }), null);
+    assert.equal(parseQuizDraft({ id: 'quiz-1', setup: {}, responses: [question] }), null);
+    assert.equal(parseQuizDraft({ id: 'quiz-1', setup, responses: [{ id: 'q2' }] }), null);
+    assert.equal(parseQuizDraft(null), null);
+  });
+
+  it('keeps only a valid retake source', () => {
+    const parsed = parseQuizDraft({
+      id: 'quiz-1',
+      setup,
+      responses: [question],
+      retakeOf: { kind: 'unknown', quizId: 'quiz-0' },
+    });
+
+    assert.equal(parsed?.retakeOf, null);
+  });
+});
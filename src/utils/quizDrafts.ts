@@ -0,0 +1,144 @@
+import { deleteDoc, doc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { firestore } from '../firebase';
+import { getTopicLabel } from './problemGenerator';
+import { parseRetakeSource } from './quizRetakes';
+import type { QuizDraft, QuizQuestionResponse, QuizSetup } from '../types/quiz';
+
+/**
+ * Persistence for in-progress quizzes. Every change is cached in localStorage right away and
+ * written to the quiz's Firestore document shortly after; grading the quiz overwrites the same
+ * document with the completed record. On load, the local copy wins when it is newer or when
+ * Firestore has none yet, since it can be ahead of Firestore by the save delay.
+ */
+
+const getDraftStorageKey = (userId: string) => `quiz-draft-${userId}`;
+
+// Firestore rejects undefined fields, and optional question fields are often left undefined.
+const withoutUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+export const cacheQuizDraft = (userId: string, draft: QuizDraft) => {
+  try {
+    localStorage.setItem(getDraftStorageKey(userId), JSON.stringify(draft));
+  } catch (error) {
+    console.error('Failed to cache quiz draft', error);
+  }
+};
+
+export const readCachedQuizDraft = (userId: string): QuizDraft | null => {
+  try {
+    const saved = localStorage.getItem(getDraftStorageKey(userId));
+    return saved ? parseQuizDraft(JSON.parse(saved)) : null;
+  } catch (error) {
+    console.error('Failed to read cached quiz draft', error);
+    return null;
+  }
+};
+
+export const clearCachedQuizDraft = (userId: string) => {
+  try {
+    localStorage.removeItem(getDraftStorageKey(userId));
+  } catch (error) {
+    console.error('Failed to clear cached quiz draft', error);
+  }
+};
+
+export const saveQuizDraft = async (userId: string, draft: QuizDraft): Promise<void> => {
+  const { id, responses, ...rest } = withoutUndefined(draft);
+
+  await setDoc(doc(firestore, 'users', userId, 'quizzes', id), {
+    ...rest,
+    status: 'inProgress',
+    questions: responses,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const discardQuizDraft = async (userId: string, quizId: string): Promise<void> => {
+  clearCachedQuizDraft(userId);
+  await deleteDoc(doc(firestore, 'users', userId, 'quizzes', quizId));
+};
+
+const isQuizSetup = (value: unknown): value is QuizSetup => {
+  const record = (value ?? {}) as Partial<QuizSetup>;
+  return (
+    typeof record.topicId === 'string' &&
+    typeof record.difficulty === 'string' &&
+    typeof record.questionCount === 'number' &&
+    typeof record.mode === 'string' &&
+    typeof record.timerMode === 'string'
+  );
+};
+
+/**
+ * Reads a draft from either copy: the localStorage JSON (`responses`) or the Firestore document
+ * (`questions`, with the document id passed separately).
+ */
+export const parseQuizDraft = (value: unknown, documentId?: string): QuizDraft | null => {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const id = documentId ?? record.id;
+  const rawResponses = record.responses ?? record.questions;
+
+  if (typeof id !== 'string' || !isQuizSetup(record.setup) || !Array.isArray(rawResponses)) {
+    return null;
+  }
+
+  const responses = rawResponses.flatMap((item): QuizQuestionResponse[] => {
+    const response = (item ?? {}) as QuizQuestionResponse;
+    return typeof response.id === 'string' && typeof response.problemText === 'string'
+      ? [
+          {
+            ...response,
+            userAnswer: typeof response.userAnswer === 'string' ? response.userAnswer : '',
+          },
+        ]
+      : [];
+  });
+
+  if (responses.length === 0) {
+    return null;
+  }
+
+  const currentIndex =
+    typeof record.currentIndex === 'number'
+      ? Math.min(Math.max(Math.floor(record.currentIndex), 0), responses.length - 1)
+      : 0;
+
+  return {
+    id,
+    // Drafts saved before a setup field existed pick up its default on the quiz screen.
+    setup: record.setup,
+    responses,
+    currentIndex,
+    skillEstimate: typeof record.skillEstimate === 'number' ? record.skillEstimate : null,
+    retakeOf: parseRetakeSource(record.retakeOf),
+    deadlineAt: typeof record.deadlineAt === 'number' ? record.deadlineAt : null,
+    savedAt: typeof record.savedAt === 'number' ? record.savedAt : 0,
+  };
+};
+
+/**
+ * Picks the copy to resume: the local one when Firestore has no draft yet, or when it belongs to
+ * the same quiz and is newer.
+ */
+export const pickLatestDraft = (
+  remote: QuizDraft | null,
+  cached: QuizDraft | null,
+): QuizDraft | null => {
+  if (!remote) {
+    return cached;
+  }
+
+  return cached && cached.id === remote.id && cached.savedAt > remote.savedAt ? cached : remote;
+};
+
+/** One line for the resume prompts, e.g. "Algebra · 3 of 10 answered". */
+export const describeQuizDraft = (draft: QuizDraft): string => {
+  // Adaptive quizzes only hold the questions generated so far.
+  const total =
+    draft.setup.mode === 'adaptive' ? draft.setup.questionCount : draft.responses.length;
+  const answered = draft.responses.filter(
+    (response) => response.evaluation || response.userAnswer.trim(),
+  ).length;
+  const topic = getTopicLabel(draft.setup.topicId) ?? 'Mixed topics';
+  return `${topic} · ${answered} of ${total} answered`;
+};
@@ -0,0 +1,127 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  describeWeakestSubtopics,
+  findWeakestSubtopics,
+  parseRetakeSource,
+  planRetake,
+} from './quizRetakes';
+import type { QuizQuestionResponse } from '../types/quiz';
+
+const answered = (
+  id: string,
+  subtopic: string,
+  isCorrect: boolean,
+  overrides: Partial<QuizQuestionResponse> = {},
+): QuizQuestionResponse => ({
+  id,
+  problemText: `Problem ${id}`,
+  topicId: 'algebra',
+  subtopic,
+  difficulty: 'intermediate',
+  userAnswer: '4',
+  evaluation: { isCorrect },
+  ...overrides,
+});
+
+const quiz = [
+  answered('q1', 'Linear equations', false),
+  answered('q2', 'Linear equations', true),
+  answered('q3', 'Quadratics', false, { format: 'numeric' }),
+  answered('q4', 'Quadratics', false, { difficulty: 'beginner' }),
+  answered('q5', 'Inequalities', true),
+];
+
+describe('planRetake', () => {
+  it('reuses each missed question as it was for a missed retake', () => {
+    const plan = planRetake('missed', quiz, 10);
+
+    assert.deepEqual(
+      plan.map((item) => (item.source === 'reuse' ? item.question.problemText : null)),
+      ['Problem q1', 'Problem q3', 'Problem q4'],
+    );
+    assert.ok(plan.every((item) => item.source === 'reuse' && !('id' in item.question)));
+  });
+
+  it('seeds one generated variant per miss, keeping its format', () => {
+    const plan = planRetake('variants', quiz, 10);
+
+    assert.equal(plan.length, 3);
+    assert.deepEqual(plan[1], {
+      source: 'generate',
+      params: {
+        topicId: 'algebra',
+        subtopic: 'Quadratics',
+        difficulty: 'intermediate',
+        variantOf: 'Problem q3',
+        mode: 'quiz',
+        format: 'numeric',
+      },
+    });
+  });
+
+  it('fills the question count by cycling the weakest subtopics', () => {
+    const plan = planRetake('weakest', quiz, 5);
+    const subtopics = plan.map((item) =>
+      item.source === 'generate' ? item.params.subtopic : null,
+    );
+    const seeds = plan.map((item) => (item.source === 'generate' ? item.params.variantOf : null));
+
+    assert.deepEqual(subtopics, [
+      'Quadratics',
+      'Linear equations',
+      'Quadratics',
+      'Linear equations',
+      'Quadratics',
+    ]);
+    assert.deepEqual(seeds, ['Problem q3', 'Problem q1', 'Problem q4', undefined, undefined]);
+  });
+
+  it('practices a subtopic at the level that was missed once its seeds run out', () => {
+    const plan = planRetake('weakest', quiz, 5);
+    const unseeded = plan[4];
+
+    assert.equal(unseeded.source, 'generate');
+    assert.equal(unseeded.source === 'generate' && unseeded.params.difficulty, 'beginner');
+  });
+
+  it('plans nothing when nothing was missed', () => {
+    const perfect = [answered('q1', 'Linear equations', true)];
+
+    assert.deepEqual(planRetake('missed', perfect, 5), []);
+    assert.deepEqual(planRetake('weakest', perfect, 5), []);
+  });
+
+  it('ignores ungraded questions', () => {
+    const ungraded = [answered('q1', 'Linear equations', false, { evaluation: undefined })];
+
+    assert.deepEqual(planRetake('variants', ungraded, 5), []);
+  });
+});
+
+describe('findWeakestSubtopics', () => {
+  it('ranks by share of credit and counts partial credit as a miss', () => {
+    const partial = answered('q6', 'Inequalities', false, {
+      evaluation: { isCorrect: false, score: 0.5 },
+    });
+
+    assert.deepEqual(
+      findWeakestSubtopics([...quiz, partial]).map((result) => result.subtopic),
+      ['Quadratics', 'Linear equations', 'Inequalities'],
+    );
+    assert.equal(describeWeakestSubtopics(quiz), 'Quadratics, Linear equations');
+  });
+});
+
+describe('parseRetakeSource', () => {
+  it('keeps known kinds and drops anything else', () => {
+    assert.deepEqual(parseRetakeSource({ kind: 'variants', quizId: 'quiz-1' }), {
+      kind: 'variants',
+      quizId: 'quiz-1',
+    });
+    assert.deepEqual(parseRetakeSource({ kind: 'missed' }), { kind: 'missed', quizId: null });
+    assert.equal(parseRetakeSource({ kind: 'all' }), null);
+    assert.equal(parseRetakeSource(undefined), null);
+  });
+});
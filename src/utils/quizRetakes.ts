@@ -0,0 +1,153 @@
+import type { ProblemDifficulty, ProblemGenerationParams } from '../types/problem';
+import type {
+  QuizQuestion,
+  QuizQuestionResponse,
+  QuizRetakeKind,
+  QuizRetakeSource,
+} from '../types/quiz';
+
+/**
+ * Plans for quizzes built from a graded one. Retaking the missed questions reuses them as they
+ * were (their answer keys still apply); the other kinds pass the missed problems to the
+ * generator as `variantOf` seeds, so the new questions keep their structure with new numbers.
+ */
+
+export type RetakeQuestionPlan =
+  | { source: 'reuse'; question: Omit<QuizQuestion, 'id'> }
+  | { source: 'generate'; params: ProblemGenerationParams };
+
+interface SubtopicResult {
+  topicId: string;
+  subtopic: string | null;
+  difficulty: ProblemDifficulty;
+  credit: number;
+  attempts: number;
+  missed: QuizQuestionResponse[];
+}
+
+const MAX_WEAK_SUBTOPICS = 3;
+
+export const isRetakeKind = (value: unknown): value is QuizRetakeKind =>
+  value === 'missed' || value === 'variants' || value === 'weakest';
+
+export const parseRetakeSource = (value: unknown): QuizRetakeSource | null => {
+  const record = (value ?? {}) as Partial<QuizRetakeSource>;
+  return isRetakeKind(record.kind)
+    ? { kind: record.kind, quizId: typeof record.quizId === 'string' ? record.quizId : null }
+    : null;
+};
+
+/** Partial credit counts as missed, as it does for review cards. */
+export const isMissedQuestion = (question: QuizQuestionResponse): boolean =>
+  Boolean(question.evaluation && !question.evaluation.isCorrect);
+
+const creditFor = (question: QuizQuestionResponse): number =>
+  question.evaluation?.score ?? (question.evaluation?.isCorrect ? 1 : 0);
+
+const toQuestionFields = (question: QuizQuestionResponse): Omit<QuizQuestion, 'id'> => ({
+  problemText: question.problemText,
+  topicId: question.topicId,
+  subtopic: question.subtopic ?? null,
+  difficulty: question.difficulty,
+  suggestedHint: question.suggestedHint ?? null,
+  problemId: question.problemId ?? null,
+  format: question.format ?? 'free',
+  choices: question.choices,
+  parts: question.parts,
+});
+
+const variantParams = (question: QuizQuestionResponse): ProblemGenerationParams => ({
+  topicId: question.topicId,
+  subtopic: question.subtopic ?? undefined,
+  difficulty: question.difficulty,
+  variantOf: question.problemText,
+  mode: 'quiz',
+  format: question.format ?? 'free',
+});
+
+/** Subtopics with at least one miss, lowest share of credit first. */
+export const findWeakestSubtopics = (questions: QuizQuestionResponse[]): SubtopicResult[] => {
+  const results = new Map<string, SubtopicResult>();
+
+  questions.forEach((question) => {
+    if (!question.evaluation) {
+      return;
+    }
+
+    const key = `${question.topicId}::${question.subtopic ?? ''}`;
+    const result = results.get(key) ?? {
+      topicId: question.topicId,
+      subtopic: question.subtopic ?? null,
+      difficulty: question.difficulty,
+      credit: 0,
+      attempts: 0,
+      missed: [],
+    };
+
+    result.credit += creditFor(question);
+    result.attempts += 1;
+    if (isMissedQuestion(question)) {
+      result.missed.push(question);
+      // Practice at the level that was missed, which is the lower one in an adaptive quiz.
+      result.difficulty = question.difficulty;
+    }
+    results.set(key, result);
+  });
+
+  return Array.from(results.values())
+    .filter((result) => result.missed.length > 0)
+    .sort(
+      (a, b) => a.credit / a.attempts - b.credit / b.attempts || b.missed.length - a.missed.length,
+    )
+    .slice(0, MAX_WEAK_SUBTOPICS);
+};
+
+/**
+ * One entry per question of the new quiz. `missed` and `variants` have one question per miss;
+ * `weakest` fills `questionCount` questions by cycling through the weakest subtopics, seeding
+ * each from that subtopic's misses while they last.
+ */
+export const planRetake = (
+  kind: QuizRetakeKind,
+  questions: QuizQuestionResponse[],
+  questionCount: number,
+): RetakeQuestionPlan[] => {
+  const missed = questions.filter(isMissedQuestion);
+
+  if (kind === 'missed') {
+    return missed.map((question) => ({ source: 'reuse', question: toQuestionFields(question) }));
+  }
+
+  if (kind === 'variants') {
+    return missed.map((question) => ({ source: 'generate', params: variantParams(question) }));
+  }
+
+  const weakest = findWeakestSubtopics(questions);
+  if (weakest.length === 0) {
+    return [];
+  }
+
+  return Array.from({ length: questionCount }, (_, index): RetakeQuestionPlan => {
+    const result = weakest[index % weakest.length];
+    const seed = result.missed[Math.floor(index / weakest.length)];
+
+    return {
+      source: 'generate',
+      params: seed
+        ? variantParams(seed)
+        : {
+            topicId: result.topicId,
+            subtopic: result.subtopic ?? undefined,
+            difficulty: result.difficulty,
+            mode: 'quiz',
+            format: result.missed[0].format ?? 'free',
+          },
+    };
+  });
+};
+
+/** Short description of the weakest subtopics for the retake button. */
+export const describeWeakestSubtopics = (questions: QuizQuestionResponse[]): string =>
+  findWeakestSubtopics(questions)
+    .map((result) => result.subtopic ?? result.topicId)
+    .join(', ');
@@ -22,6 +22,7 @@ export const aggregateQuizStats = (summaries: QuizResultRecord[]): QuizAggregate
       totalQuizzes: 0,
       averageScore: 0,
       recentScore: null,
+      averageSecondsPerQuestion: null,
     };
   }
 
@@ -32,6 +33,7 @@ export const aggregateQuizStats = (summaries: QuizResultRecord[]): QuizAggregate
       totalQuizzes: summaries.length,
       averageScore: 0,
       recentScore: null,
+      averageSecondsPerQuestion: null,
     };
   }
 
@@ -44,9 +46,18 @@ export const aggregateQuizStats = (summaries: QuizResultRecord[]): QuizAggregate
   const averageScore = scores.length > 0 ? sumScores / scores.length : 0;
   const recentScore = scores.length > 0 ? scores[0] : null;
 
+  // Weighted by question count so a long quiz counts for more than a short one.
+  const timed = completed.filter(
+    (summary) => summary.totalTimeSeconds !== null && summary.totalQuestions > 0,
+  );
+  const timedQuestions = timed.reduce((total, summary) => total + summary.totalQuestions, 0);
+  const timedSeconds = timed.reduce((total, summary) => total + (summary.totalTimeSeconds ?? 0), 0);
+  const averageSecondsPerQuestion = timedQuestions > 0 ? timedSeconds / timedQuestions : null;
+
   return {
     totalQuizzes,
     averageScore,
     recentScore,
+    averageSecondsPerQuestion,
   };
 };
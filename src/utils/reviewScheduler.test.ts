@@ -0,0 +1,76 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isReviewDue, scheduleReview } from './reviewScheduler';
+import type { ReviewCard } from '../types/review';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-01T12:00:00Z');
+
+const newCard = { easeFactor: 2.5, intervalDays: 0, repetitions: 0, lapses: 0 };
+
+const daysUntil = (dueAt: Date) => (dueAt.getTime() - now.getTime()) / DAY_MS;
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 intervals of 1, 6 and then interval times ease', () => {
+    const first = scheduleReview(newCard, true, now);
+    assert.equal(first.intervalDays, 1);
+    assert.equal(first.repetitions, 1);
+    assert.equal(daysUntil(first.dueAt), 1);
+
+    const second = scheduleReview(first, true, now);
+    assert.equal(second.intervalDays, 6);
+    assert.equal(daysUntil(second.dueAt), 6);
+
+    const third = scheduleReview(second, true, now);
+    assert.equal(third.intervalDays, 15);
+    assert.equal(third.repetitions, 3);
+    assert.equal(daysUntil(third.dueAt), 15);
+  });
+
+  it('keeps the ease of a correct answer and lowers it after a miss', () => {
+    assert.ok(Math.abs(scheduleReview(newCard, true, now).easeFactor - 2.5) < 1e-9);
+    assert.ok(Math.abs(scheduleReview(newCard, false, now).easeFactor - 1.96) < 1e-9);
+  });
+
+  it('restarts a missed card at one day and counts the lapse', () => {
+    const learned = { easeFactor: 2.5, intervalDays: 15, repetitions: 3, lapses: 1 };
+    const missed = scheduleReview(learned, false, now);
+
+    assert.equal(missed.intervalDays, 1);
+    assert.equal(missed.repetitions, 0);
+    assert.equal(missed.lapses, 2);
+    assert.equal(daysUntil(missed.dueAt), 1);
+  });
+
+  it('never lets the ease fall below 1.3', () => {
+    let card = newCard;
+    for (let i = 0; i < 5; i += 1) {
+      card = scheduleReview(card, false, now);
+    }
+
+    assert.equal(card.easeFactor, 1.3);
+    assert.equal(card.lapses, 5);
+  });
+});
+
+describe('isReviewDue', () => {
+  const cardDueAt = (dueAt: Date): ReviewCard => ({
+    id: 'quiz-1-q1',
+    problemText: 'Solve 2x = 4',
+    topicId: 'algebra',
+    subtopic: null,
+    difficulty: 'beginner',
+    sourceQuizId: 'quiz-1',
+    sourceQuestionId: 'q1',
+    ...newCard,
+    dueAt,
+    lastReviewedAt: null,
+  });
+
+  it('is due at and after its due time only', () => {
+    assert.equal(isReviewDue(cardDueAt(now), now), true);
+    assert.equal(isReviewDue(cardDueAt(new Date(now.getTime() - 1)), now), true);
+    assert.equal(isReviewDue(cardDueAt(new Date(now.getTime() + 1)), now), false);
+  });
+});
@@ -0,0 +1,123 @@
+import { doc, runTransaction, serverTimestamp, Timestamp, updateDoc } from 'firebase/firestore';
+import { firestore } from '../firebase';
+import { fullQuestionText } from './questionText';
+import type { QuizQuestionResponse } from '../types/quiz';
+import type { ReviewCard, ReviewSchedule } from '../types/review';
+
+/**
+ * SM-2 scheduling for missed quiz questions. Each review is graded on SM-2's 0-5 recall
+ * scale: a correct answer counts as 4 and a miss as 1, so a miss restarts the card at a
+ * one-day interval and lowers its ease.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const CORRECT_QUALITY = 4;
+const MISSED_QUALITY = 1;
+
+export const scheduleReview = (
+  card: Pick<ReviewCard, 'easeFactor' | 'intervalDays' | 'repetitions' | 'lapses'>,
+  correct: boolean,
+  now: Date = new Date(),
+): ReviewSchedule => {
+  const quality = correct ? CORRECT_QUALITY : MISSED_QUALITY;
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  if (!correct) {
+    return {
+      easeFactor,
+      intervalDays: 1,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      dueAt: new Date(now.getTime() + DAY_MS),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let intervalDays = Math.round(card.intervalDays * card.easeFactor);
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: card.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+};
+
+export const isReviewDue = (card: ReviewCard, now: Date = new Date()): boolean =>
+  card.dueAt.getTime() <= now.getTime();
+
+/**
+ * Turns the missed questions of a graded quiz into review cards, due right away. Card ids are
+ * derived from the quiz and question, so saving the same quiz twice neither duplicates cards nor
+ * resets the SM-2 progress of cards it already queued: only missing cards are created.
+ */
+export const createReviewCards = async (
+  userId: string,
+  quizId: string,
+  missed: QuizQuestionResponse[],
+): Promise<void> => {
+  if (missed.length === 0) {
+    return;
+  }
+
+  const cardRefs = missed.map((question) =>
+    doc(firestore, 'users', userId, 'reviewCards', `${quizId}-${question.id}`),
+  );
+
+  await runTransaction(firestore, async (transaction) => {
+    const existing = await Promise.all(cardRefs.map((cardRef) => transaction.get(cardRef)));
+
+    missed.forEach((question, index) => {
+      if (existing[index].exists()) {
+        return;
+      }
+
+      transaction.set(cardRefs[index], {
+        // Review variants are free response, so options and part prompts go into the text.
+        problemText: fullQuestionText(question),
+        topicId: question.topicId,
+        subtopic: question.subtopic ?? null,
+        difficulty: question.difficulty,
+        sourceQuizId: quizId,
+        sourceQuestionId: question.id,
+        easeFactor: INITIAL_EASE,
+        intervalDays: 0,
+        repetitions: 0,
+        lapses: 0,
+        dueAt: serverTimestamp(),
+        lastReviewedAt: null,
+        createdAt: serverTimestamp(),
+      });
+    });
+  });
+};
+
+export const saveReviewResult = async (
+  userId: string,
+  card: ReviewCard,
+  correct: boolean,
+): Promise<ReviewSchedule> => {
+  const schedule = scheduleReview(card, correct);
+
+  await updateDoc(doc(firestore, 'users', userId, 'reviewCards', card.id), {
+    easeFactor: schedule.easeFactor,
+    intervalDays: schedule.intervalDays,
+    repetitions: schedule.repetitions,
+    lapses: schedule.lapses,
+    dueAt: Timestamp.fromDate(schedule.dueAt),
+    lastReviewedAt: serverTimestamp(),
+  });
+
+  return schedule;
+};
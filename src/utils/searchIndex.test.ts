@@ -0,0 +1,111 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_SEARCH_FILTERS,
+  buildSearchIndex,
+  searchDocuments,
+  tokenize,
+  type SearchDocument,
+} from './searchIndex';
+
+const sessionDocument = (
+  id: string,
+  sessionId: string,
+  title: string,
+  text: string,
+  overrides: Partial<SearchDocument> = {},
+): SearchDocument => ({
+  id,
+  kind: 'message',
+  title,
+  text,
+  topicId: 'geometry',
+  difficulty: 'intermediate',
+  date: new Date(2026, 2, 10, 15),
+  target: { type: 'session', sessionId },
+  ...overrides,
+});
+
+const documents = [
+  sessionDocument('m1', 's1', 'Ladder problem', 'A ladder leans against a wall at 60 degrees.'),
+  sessionDocument(
+    'm2',
+    's1',
+    'Ladder problem',
+    'The wall is 4 m tall, so the ladder must be longer than the wall.',
+  ),
+  sessionDocument('m3', 's2', 'Area of a circle', 'The ladder of areas: πr² for a circle.', {
+    topicId: 'algebra',
+    difficulty: 'beginner',
+    date: new Date(2026, 1, 1, 9),
+  }),
+  sessionDocument('q1', 'unused', 'Algebra quiz', 'Solve for x: 2x + 3 = 11', {
+    kind: 'quiz',
+    topicId: 'algebra',
+    target: { type: 'quiz', quizId: 'quiz-1' },
+  }),
+];
+
+const index = buildSearchIndex(documents);
+const search = (query: string, filters = DEFAULT_SEARCH_FILTERS) =>
+  searchDocuments(index, query, filters).map((result) => result.document.id);
+
+describe('tokenize', () => {
+  it('lower-cases, folds accents and splits LaTeX commands', () => {
+    assert.deepEqual(tokenize('Café \\frac{1}{2}'), ['cafe', 'frac', '1', '2']);
+  });
+});
+
+describe('searchDocuments', () => {
+  it('matches every word as a prefix', () => {
+    assert.deepEqual(search('ladd wall'), ['m2']);
+    assert.deepEqual(search('solve 11'), ['q1']);
+    assert.deepEqual(search('ladder quiz'), []);
+  });
+
+  it('ranks title matches and repeated words first', () => {
+    assert.deepEqual(search('ladder'), ['m1', 'm3']);
+    const [top, next] = searchDocuments(index, 'ladder', DEFAULT_SEARCH_FILTERS);
+    assert.ok(top.score > next.score);
+  });
+
+  it('shows only the best match of each session', () => {
+    const results = searchDocuments(index, 'wall', DEFAULT_SEARCH_FILTERS);
+
+    assert.equal(results.length, 1);
+    assert.equal(results[0].document.target.type, 'session');
+  });
+
+  it('breaks ties by the newest date', () => {
+    assert.deepEqual(search('the'), ['m2', 'm3']);
+  });
+
+  it('filters by topic, difficulty and local calendar days', () => {
+    assert.deepEqual(search('circle', { ...DEFAULT_SEARCH_FILTERS, topic: 'geometry' }), []);
+    assert.deepEqual(search('ladder', { ...DEFAULT_SEARCH_FILTERS, difficulty: 'beginner' }), [
+      'm3',
+    ]);
+    assert.deepEqual(search('ladder', { ...DEFAULT_SEARCH_FILTERS, from: '2026-03-10' }), ['m1']);
+    assert.deepEqual(search('ladder', { ...DEFAULT_SEARCH_FILTERS, to: '2026-02-01' }), ['m3']);
+  });
+
+  it('returns nothing for a query without words', () => {
+    assert.deepEqual(search('  ?! '), []);
+  });
+
+  it('trims long snippets around the first hit', () => {
+    const long = buildSearchIndex([
+      sessionDocument(
+        'm9',
+        's9',
+        'Notes',
+        `${'filler '.repeat(40)}hypotenuse ${'more '.repeat(40)}`,
+      ),
+    ]);
+    const [result] = searchDocuments(long, 'hypot', DEFAULT_SEARCH_FILTERS);
+
+    assert.match(result.snippet, /^….*hypotenuse.*…$/);
+    assert.ok(result.snippet.length <= 142);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Client-side full-text search over the learner's own history. Each searchable thing (a session
+ * title, a tutor message, the OCR text of an upload, a quiz question) becomes a `SearchDocument`;
+ * the index maps every token to the documents containing it. Queries match each word as a prefix
+ * and require all of them, so "ladd wall" finds the ladder problem.
+ */
+
+export type SearchDocumentKind = 'session' | 'message' | 'ocr' | 'quiz';
+
+export type SearchTarget =
+  | { type: 'session'; sessionId: string }
+  | { type: 'quiz'; quizId: string };
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  /** The session title or quiz name the document belongs to. */
+  title: string;
+  text: string;
+  topicId: string | null;
+  difficulty: string | null;
+  date: Date | null;
+  target: SearchTarget;
+}
+
+export interface SearchFilters {
+  /** `all` or a topic id. */
+  topic: string;
+  difficulty: string;
+  /** `YYYY-MM-DD` from the date inputs; empty means unbounded. */
+  from: string;
+  to: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  /** Token → document position → occurrences. */
+  postings: Map<string, Map<number, number>>;
+}
+
+const TITLE_MATCH_BONUS = 5;
+const SNIPPET_RADIUS = 70;
+const MAX_RESULTS = 50;
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  topic: 'all',
+  difficulty: 'all',
+  from: '',
+  to: '',
+};
+
+/** Lower-cased words and numbers, with accents folded and LaTeX commands reduced to their names. */
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+export const buildSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+
+  documents.forEach((document, position) => {
+    tokenize(`${document.title} ${document.text}`).forEach((token) => {
+      const counts = postings.get(token) ?? new Map<number, number>();
+      counts.set(position, (counts.get(position) ?? 0) + 1);
+      postings.set(token, counts);
+    });
+  });
+
+  return { documents, postings };
+};
+
+const matchesFilters = (document: SearchDocument, filters: SearchFilters): boolean => {
+  if (filters.topic !== 'all' && document.topicId !== filters.topic) {
+    return false;
+  }
+  if (filters.difficulty !== 'all' && document.difficulty !== filters.difficulty) {
+    return false;
+  }
+  // Date inputs are local calendar days, so compare against local midnight.
+  if (filters.from && (!document.date || document.date < new Date(`${filters.from}T00:00:00`))) {
+    return false;
+  }
+  if (filters.to && (!document.date || document.date > new Date(`${filters.to}T23:59:59.999`))) {
+    return false;
+  }
+  return true;
+};
+
+/** Whitespace-collapsed excerpt around the first query word found in the text. */
+const buildSnippet = (text: string, terms: string[]): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  if (flat.length <= SNIPPET_RADIUS * 2) {
+    return flat;
+  }
+
+  const hit =
+    terms
+      .map((term) => lower.indexOf(term))
+      .filter((index) => index >= 0)
+      .sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, hit + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+// Several matching messages from one session would crowd the list, so each session shows its
+// best match only.
+const groupKey = (document: SearchDocument): string =>
+  document.target.type === 'session'
+    ? `session:${document.target.sessionId}`
+    : `quiz:${document.id}`;
+
+export const searchDocuments = (
+  index: SearchIndex,
+  query: string,
+  filters: SearchFilters,
+): SearchResult[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const tokens = Array.from(index.postings.keys());
+  const [first, ...rest] = terms.map((term) => {
+    const termScores = new Map<number, number>();
+    tokens
+      .filter((token) => token.startsWith(term))
+      .forEach((token) => {
+        index.postings.get(token)?.forEach((count, position) => {
+          termScores.set(position, (termScores.get(position) ?? 0) + count);
+        });
+      });
+    return termScores;
+  });
+
+  const best = new Map<string, SearchResult>();
+  first.forEach((firstScore, position) => {
+    const document = index.documents[position];
+    if (
+      !rest.every((termScores) => termScores.has(position)) ||
+      !matchesFilters(document, filters)
+    ) {
+      return;
+    }
+
+    const titleTokens = tokenize(document.title);
+    const titleBonus = terms.some((term) => titleTokens.some((token) => token.startsWith(term)))
+      ? TITLE_MATCH_BONUS
+      : 0;
+    const result = {
+      document,
+      score:
+        rest.reduce((total, termScores) => total + (termScores.get(position) ?? 0), firstScore) +
+        titleBonus,
+      snippet: buildSnippet(document.text, terms),
+    };
+
+    const key = groupKey(document);
+    const current = best.get(key);
+    if (!current || result.score > current.score) {
+      best.set(key, result);
+    }
+  });
+
+  return Array.from(best.values())
+    .sort(
+      (a, b) =>
+        b.score - a.score || (b.document.date?.getTime() ?? 0) - (a.document.date?.getTime() ?? 0),
+    )
+    .slice(0, MAX_RESULTS);
+};
@@ -0,0 +1,144 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SessionMessage } from '../context/SessionContext';
+import {
+  escapeLatex,
+  latexUnicode,
+  messageImageUrls,
+  parseTranscriptMessage,
+  transcriptToLatex,
+  transcriptToMarkdown,
+  type SessionTranscript,
+} from './sessionExport';
+
+const messageOf = (
+  role: SessionMessage['role'],
+  content: string,
+  stepType: SessionMessage['stepType'] = null,
+): SessionMessage => ({
+  id: `${role}-${content.length}`,
+  role,
+  content,
+  topicId: null,
+  createdAt: null,
+  stepType,
+});
+
+const transcriptOf = (messages: SessionMessage[]): SessionTranscript => ({
+  id: 'session-1',
+  title: 'Pricing pens',
+  topicId: null,
+  subtopic: null,
+  difficulty: null,
+  createdAt: null,
+  messages,
+  steps: [],
+  shareId: null,
+});
+
+describe('escapeLatex', () => {
+  it('escapes every LaTeX special character', () => {
+    assert.equal(escapeLatex('A & B'), 'A \\& B');
+    assert.equal(escapeLatex('50% off'), '50\\% off');
+    assert.equal(escapeLatex('#1 pick'), '\\#1 pick');
+    assert.equal(escapeLatex('snake_case'), 'snake\\_case');
+    assert.equal(escapeLatex('a\\b'), 'a\\textbackslash{}b');
+    assert.equal(escapeLatex('~5'), '\\textasciitilde{}5');
+    assert.equal(escapeLatex('{x^2}'), '\\{x\\textasciicircum{}2\\}');
+  });
+
+  it('escapes dollar amounts once', () => {
+    assert.equal(escapeLatex('$5 and $7'), '\\$5 and \\$7');
+    assert.equal(escapeLatex('\\$5'), '\\$5');
+  });
+
+  it('writes math symbols in prose as inline math', () => {
+    assert.equal(escapeLatex('90° angle'), '90\\(^{\\circ}\\) angle');
+  });
+});
+
+describe('latexUnicode', () => {
+  it('wraps symbol macros in braces inside math', () => {
+    assert.equal(latexUnicode('90°', true), '90{^{\\circ}}');
+    assert.equal(latexUnicode('2 × 3 ≤ π', true), '2 {\\times} 3 {\\leq} {\\pi}');
+  });
+
+  it('keeps accented letters and drops characters no font covers', () => {
+    assert.equal(latexUnicode('café – naïve', false), 'café – naïve');
+    assert.equal(latexUnicode('Nice work 🎉', false), 'Nice work ');
+  });
+});
+
+describe('transcript exports', () => {
+  const transcript = transcriptOf([
+    messageOf('user', 'Pens cost $5 and $7. What is $5 + 7$?'),
+    messageOf('assistant', 'Add them: $$5 + 7 = 12$$'),
+    messageOf('assistant', 'The total is **12 dollars**.', 'final'),
+  ]);
+
+  it('keeps prices as text in Markdown and math in dollar delimiters', () => {
+    const markdown = transcriptToMarkdown(transcript);
+
+    assert.match(markdown, /^# Pricing pens\n/);
+    assert.ok(markdown.includes('Pens cost \\$5 and \\$7. What is $5 + 7$?'));
+    assert.ok(markdown.includes('Add them:\n\n$$\n5 + 7 = 12\n$$'));
+    assert.ok(markdown.includes('## Summary\n\nThe total is **12 dollars**.'));
+  });
+
+  it('escapes prices and keeps math in LaTeX delimiters', () => {
+    const latex = transcriptToLatex(transcript);
+
+    assert.ok(latex.includes('Pens cost \\$5 and \\$7. What is \\(5 + 7\\)?'));
+    assert.ok(latex.includes('\\[\n5 + 7 = 12\n\\]'));
+    assert.ok(latex.includes('The total is \\textbf{12 dollars}.'));
+    assert.ok(latex.includes('\\title{Pricing pens}'));
+  });
+});
+
+describe('message images', () => {
+  it('reads every attached image, dropping malformed entries', () => {
+    const message = parseTranscriptMessage('m1', {
+      role: 'user',
+      content: 'Both pages',
+      imageUrls: ['https://example.com/a.png', '', 7, 'https://example.com/b.png'],
+    });
+
+    assert.deepEqual(messageImageUrls(message), [
+      'https://example.com/a.png',
+      'https://example.com/b.png',
+    ]);
+  });
+
+  it('falls back to the single image of older messages', () => {
+    const message = parseTranscriptMessage('m2', {
+      role: 'user',
+      content: '',
+      imageUrl: 'https://example.com/old.png',
+    });
+
+    assert.deepEqual(messageImageUrls(message), ['https://example.com/old.png']);
+    assert.deepEqual(messageImageUrls({ imageUrl: null, imageUrls: [] }), []);
+  });
+
+  it('links each image in both exports', () => {
+    const transcript = transcriptOf([
+      messageOf('user', 'Solve these'),
+      {
+        ...messageOf('user', 'Page two'),
+        imageUrls: ['https://example.com/a.png', 'https://example.com/b_1.png'],
+      },
+    ]);
+
+    assert.ok(
+      transcriptToMarkdown(transcript).includes(
+        '![Uploaded image](https://example.com/a.png)\n\n![Uploaded image](https://example.com/b_1.png)',
+      ),
+    );
+    assert.ok(
+      transcriptToLatex(transcript).includes(
+        '\\href{https://example.com/b\\_1.png}{Uploaded image}',
+      ),
+    );
+  });
+});
@@ -0,0 +1,372 @@
+import { Timestamp } from 'firebase/firestore';
+import type { SessionMessage, SessionStep } from '../context/SessionContext';
+import { formatDateTime } from './formatters';
+import { describeGraph } from './graphSpec';
+import { toDisplayLatex } from './mathOcr';
+import { splitMath } from './mathSegments';
+import { getTopicLabel } from './problemGenerator';
+
+/**
+ * Tutor session transcripts, exported as Markdown (math in `$...$` / `$$...$$`) and as a
+ * standalone LaTeX document; the export page saves PDFs from the rendered transcript. Messages
+ * mix prose with any of the four delimiters `MathText` accepts, so both formats re-delimit the
+ * math and escape only the prose around it. Graph blocks stay fenced in Markdown and become a
+ * one-line description in LaTeX.
+ */
+
+export interface SessionTranscript {
+  id: string;
+  title: string | null;
+  topicId: string | null;
+  subtopic: string | null;
+  difficulty: string | null;
+  createdAt: Date | null;
+  messages: SessionMessage[];
+  steps: SessionStep[];
+  /** The live share link for the session, if it has one (see `src/utils/sessionShares.ts`). */
+  shareId: string | null;
+}
+
+/** The transcript split into the parts every export shows, in order. */
+export interface TranscriptSections {
+  problem: SessionMessage | null;
+  turns: SessionMessage[];
+  summary: SessionMessage | null;
+}
+
+const STEP_TYPE_LABELS: Record<NonNullable<SessionMessage['stepType']>, string> = {
+  hint: 'Hint',
+  check: 'Check',
+  final: 'Final answer',
+};
+
+export const toOptionalDate = (value: unknown): Date | null =>
+  value instanceof Timestamp ? value.toDate() : null;
+
+export const toOptionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value : null;
+
+/** The images attached to a message, including the single `imageUrl` of older messages. */
+export const messageImageUrls = (message: Pick<SessionMessage, 'imageUrl' | 'imageUrls'>) =>
+  message.imageUrls && message.imageUrls.length > 0
+    ? message.imageUrls
+    : message.imageUrl
+      ? [message.imageUrl]
+      : [];
+
+/** Reads a stored message, whether from the messages subcollection or a share snapshot. */
+export const parseTranscriptMessage = (
+  id: string,
+  data: Record<string, unknown>,
+): SessionMessage => ({
+  id,
+  role: data.role === 'assistant' ? 'assistant' : 'user',
+  content: typeof data.content === 'string' ? data.content : '',
+  imageUrl: toOptionalText(data.imageUrl),
+  imageUrls: Array.isArray(data.imageUrls)
+    ? data.imageUrls.filter((url): url is string => typeof url === 'string' && url.length > 0)
+    : [],
+  imageLatex: toOptionalText(data.imageLatex),
+  topicId: toOptionalText(data.topicId),
+  difficulty: toOptionalText(data.difficulty),
+  createdAt: toOptionalDate(data.createdAt),
+  stepType:
+    data.stepType === 'hint' || data.stepType === 'check' || data.stepType === 'final'
+      ? data.stepType
+      : null,
+});
+
+export const parseTranscriptStep = (
+  id: string,
+  data: Record<string, unknown>,
+): SessionStep | null =>
+  typeof data.order === 'number' && typeof data.title === 'string'
+    ? {
+        id,
+        order: data.order,
+        title: data.title,
+        latex: typeof data.latex === 'string' ? data.latex : undefined,
+        hint: toOptionalText(data.hint),
+        completed: data.completed === true,
+        understood: data.understood === true,
+      }
+    : null;
+
+export const transcriptTitle = (transcript: SessionTranscript): string =>
+  transcript.title?.trim() || 'Tutor session';
+
+export const transcriptDetails = (transcript: SessionTranscript): string =>
+  [
+    transcript.subtopic ?? getTopicLabel(transcript.topicId),
+    transcript.difficulty,
+    transcript.createdAt ? formatDateTime(transcript.createdAt) : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const speakerLabel = (message: SessionMessage): string => {
+  const speaker = message.role === 'user' ? 'Student' : 'Tutor';
+  return message.stepType ? `${speaker} · ${STEP_TYPE_LABELS[message.stepType]}` : speaker;
+};
+
+/**
+ * The first student message is the problem; the tutor's last `final` turn is the summary. Empty
+ * placeholder turns (a failed or abandoned stream) are left out.
+ */
+export const splitTranscript = (messages: SessionMessage[]): TranscriptSections => {
+  const visible = messages.filter((message) => message.content.trim() || message.imageUrl);
+  const problem = visible[0]?.role === 'user' ? visible[0] : null;
+  const summary =
+    [...visible]
+      .reverse()
+      .find((message) => message.role === 'assistant' && message.stepType === 'final') ?? null;
+
+  return {
+    problem,
+    turns: visible.filter((message) => message !== problem && message !== summary),
+    summary,
+  };
+};
+
+const toMarkdownContent = (content: string): string =>
+  splitMath(content)
+    .map((segment) => {
+      if (segment.type === 'inline') {
+        return `$${segment.value}$`;
+      }
+      if (segment.type === 'graph') {
+        return `\n\n\`\`\`graph\n${segment.value}\n\`\`\`\n\n`;
+      }
+      if (segment.type === 'block') {
+        return `\n\n$$\n${segment.value}\n$$\n\n`;
+      }
+      // A price left in the prose would open math in Markdown renderers.
+      return segment.value.replace(/(?<!\\)\$/g, '\\$');
+    })
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const markdownMessage = (message: SessionMessage): string =>
+  [
+    message.content.trim() ? toMarkdownContent(message.content) : null,
+    ...messageImageUrls(message).map((url) => `![Uploaded image](${url})`),
+    message.imageLatex ? `$$\n${toDisplayLatex(message.imageLatex)}\n$$` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+export const transcriptToMarkdown = (transcript: SessionTranscript): string => {
+  const { problem, turns, summary } = splitTranscript(transcript.messages);
+  const lines = [`# ${transcriptTitle(transcript)}`, '', `_${transcriptDetails(transcript)}_`, ''];
+
+  if (problem) {
+    lines.push('## Problem', '', markdownMessage(problem), '');
+  }
+
+  if (transcript.steps.length > 0) {
+    lines.push('## Solution steps', '');
+    transcript.steps.forEach((step) => {
+      lines.push(
+        `${step.order}. ${step.completed ? '✓ ' : ''}${toMarkdownContent(step.title)}` +
+          (step.latex ? ` — $${step.latex}$` : ''),
+      );
+      if (step.hint) {
+        lines.push(`   - Hint: ${toMarkdownContent(step.hint)}`);
+      }
+    });
+    lines.push('');
+  }
+
+  if (turns.length > 0) {
+    lines.push('## Conversation', '');
+    turns.forEach((message) => {
+      lines.push(`**${speakerLabel(message)}**`, '', markdownMessage(message), '');
+    });
+  }
+
+  if (summary) {
+    lines.push('## Summary', '', markdownMessage(summary), '');
+  }
+
+  return `${lines.join('\n').trim()}\n`;
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  $: '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  _: '\\_',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+};
+
+// Symbols that pdflatex cannot take as raw UTF-8 in math mode (and mostly not in text either).
+const UNICODE_MATH: Record<string, string> = {
+  '×': '\\times',
+  '÷': '\\div',
+  '·': '\\cdot',
+  '±': '\\pm',
+  '∓': '\\mp',
+  '−': '-',
+  '≤': '\\leq',
+  '≥': '\\geq',
+  '≠': '\\neq',
+  '≈': '\\approx',
+  '≡': '\\equiv',
+  '∞': '\\infty',
+  '√': '\\surd',
+  '°': '^{\\circ}',
+  '²': '^{2}',
+  '³': '^{3}',
+  '½': '\\tfrac{1}{2}',
+  '→': '\\to',
+  '⇒': '\\Rightarrow',
+  '⇔': '\\Leftrightarrow',
+  '∈': '\\in',
+  '∉': '\\notin',
+  '∪': '\\cup',
+  '∩': '\\cap',
+  '⊆': '\\subseteq',
+  '∅': '\\emptyset',
+  '∑': '\\sum',
+  '∫': '\\int',
+  '∂': '\\partial',
+  '′': '\\prime',
+  α: '\\alpha',
+  β: '\\beta',
+  γ: '\\gamma',
+  δ: '\\delta',
+  Δ: '\\Delta',
+  ε: '\\varepsilon',
+  θ: '\\theta',
+  λ: '\\lambda',
+  μ: '\\mu',
+  π: '\\pi',
+  σ: '\\sigma',
+  Σ: '\\Sigma',
+  φ: '\\varphi',
+  ω: '\\omega',
+  Ω: '\\Omega',
+};
+
+// Non-ASCII text `inputenc` and T1 fonts handle directly: Latin-1 letters, Latin Extended-A,
+// dashes, curly quotes, bullets and ellipses.
+const LATEX_TEXT_CHARACTER = /[\u00A0-\u017F\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026]/u;
+
+/**
+ * Rewrites non-ASCII characters for pdflatex: math symbols become macros (wrapped in `\(…\)`
+ * outside math) and anything no standard font covers, such as emoji, is dropped.
+ */
+export const latexUnicode = (value: string, inMath: boolean): string =>
+  value.replace(/[^ -~\s]/gu, (character) => {
+    const macro = UNICODE_MATH[character];
+    if (macro) {
+      return inMath ? `{${macro}}` : `\\(${macro}\\)`;
+    }
+    return LATEX_TEXT_CHARACTER.test(character) ? character : '';
+  });
+
+/** Escapes prose for LaTeX text mode; an already escaped `\$` is a plain dollar sign. */
+export const escapeLatex = (value: string): string =>
+  latexUnicode(
+    value.replace(/\\\$/g, '$').replace(/[\\{}$&#%_^~]/g, (character) => LATEX_SPECIALS[character]),
+    false,
+  );
+
+const latexMath = (value: string): string => latexUnicode(value, true);
+
+// `\href` reads its URL verbatim apart from these.
+const escapeLatexUrl = (value: string): string => value.replace(/[\\#%&_{}]/g, '\\$&');
+
+// Tutor replies use Markdown bold and italics.
+const latexProse = (value: string): string =>
+  escapeLatex(value)
+    .replace(/\*\*(.+?)\*\*/g, '\\textbf{$1}')
+    .replace(/\*(.+?)\*/g, '\\emph{$1}');
+
+const toLatexContent = (content: string): string =>
+  splitMath(content)
+    .map((segment) => {
+      if (segment.type === 'inline') {
+        return `\\(${latexMath(segment.value)}\\)`;
+      }
+      if (segment.type === 'graph') {
+        return `\n\\emph{${escapeLatex(describeGraph(segment.value))}}\n`;
+      }
+      return segment.type === 'block'
+        ? `\n\\[\n${latexMath(segment.value)}\n\\]\n`
+        : latexProse(segment.value);
+    })
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const latexMessage = (message: SessionMessage): string =>
+  [
+    message.content.trim() ? toLatexContent(message.content) : null,
+    // Uploaded images live in Storage, so the document links to them instead of embedding them.
+    ...messageImageUrls(message).map((url) => `\\href{${escapeLatexUrl(url)}}{Uploaded image}`),
+    message.imageLatex ? `\\[\n${latexMath(toDisplayLatex(message.imageLatex))}\n\\]` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+export const transcriptToLatex = (transcript: SessionTranscript): string => {
+  const { problem, turns, summary } = splitTranscript(transcript.messages);
+  const body: string[] = [];
+
+  if (problem) {
+    body.push('\\section*{Problem}', latexMessage(problem));
+  }
+
+  if (transcript.steps.length > 0) {
+    body.push('\\section*{Solution steps}', '\\begin{enumerate}');
+    transcript.steps.forEach((step) => {
+      body.push(
+        `  \\item ${step.completed ? '(done) ' : ''}${toLatexContent(step.title)}` +
+          (step.latex ? ` --- \\(${latexMath(step.latex)}\\)` : '') +
+          (step.hint ? `\\\\\n  \\emph{Hint:} ${toLatexContent(step.hint)}` : ''),
+      );
+    });
+    body.push('\\end{enumerate}');
+  }
+
+  if (turns.length > 0) {
+    body.push('\\section*{Conversation}');
+    turns.forEach((message) => {
+      body.push(`\\paragraph{${escapeLatex(speakerLabel(message))}}`, latexMessage(message));
+    });
+  }
+
+  if (summary) {
+    body.push('\\section*{Summary}', latexMessage(summary));
+  }
+
+  return `\\documentclass[11pt]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage{amsmath,amssymb}
+\\usepackage[margin=2.5cm]{geometry}
+\\usepackage{hyperref}
+\\setlength{\\parindent}{0pt}
+\\setlength{\\parskip}{0.6em}
+
+\\title{${escapeLatex(transcriptTitle(transcript))}}
+\\date{${escapeLatex(transcriptDetails(transcript))}}
+\\author{}
+
+\\begin{document}
+\\maketitle
+
+${body.join('\n\n')}
+
+\\end{document}
+`;
+};
@@ -0,0 +1,111 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_SESSION_LIST_VIEW,
+  collectFolders,
+  collectTags,
+  organizeSessions,
+  parseSessionOrganization,
+  parseTagInput,
+  type OrganizableSession,
+} from './sessionOrganization';
+
+const session = (id: string, overrides: Partial<OrganizableSession> = {}): OrganizableSession => ({
+  id,
+  title: `Session ${id}`,
+  topicId: 'algebra',
+  createdAt: new Date(2026, 0, Number(id)),
+  lastUpdated: new Date(2026, 1, Number(id)),
+  pinned: false,
+  archived: false,
+  folder: null,
+  tags: [],
+  ...overrides,
+});
+
+const sessions = [
+  session('1', { folder: 'Exam prep', tags: ['exam'] }),
+  session('2', { pinned: true, title: 'pinned quadratics', topicId: 'geometry' }),
+  session('3', { archived: true, folder: 'Exam prep', tags: ['exam', 'hard'] }),
+  session('4', { title: 'Angles', topicId: 'geometry', tags: ['hard'] }),
+  session('5', { folder: 'Homework', lastUpdated: null }),
+];
+
+const ids = (view = DEFAULT_SESSION_LIST_VIEW) =>
+  organizeSessions(sessions, view).map((item) => item.id);
+
+describe('organizeSessions', () => {
+  it('lists active sessions, pinned first, then most recently updated', () => {
+    assert.deepEqual(ids(), ['2', '4', '1', '5']);
+  });
+
+  it('filters by archive status', () => {
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, status: 'archived' }), ['3']);
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, status: 'all' }), [
+      '2',
+      '4',
+      '3',
+      '1',
+      '5',
+    ]);
+  });
+
+  it('groups by folder, including sessions outside any folder', () => {
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, folder: 'Exam prep' }), ['1']);
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, folder: 'none' }), ['2', '4']);
+  });
+
+  it('filters by tag', () => {
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, status: 'all', tag: 'hard' }), ['4', '3']);
+  });
+
+  it('sorts by creation date, title or topic', () => {
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, sort: 'created' }), ['2', '5', '4', '1']);
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, sort: 'title' }), ['2', '4', '1', '5']);
+    assert.deepEqual(ids({ ...DEFAULT_SESSION_LIST_VIEW, sort: 'topic' }), ['2', '1', '5', '4']);
+  });
+
+  it('leaves the input list in place', () => {
+    organizeSessions(sessions, DEFAULT_SESSION_LIST_VIEW);
+
+    assert.deepEqual(
+      sessions.map((item) => item.id),
+      ['1', '2', '3', '4', '5'],
+    );
+  });
+});
+
+describe('collectFolders and collectTags', () => {
+  it('lists each folder and tag once, sorted', () => {
+    assert.deepEqual(collectFolders(sessions), ['Exam prep', 'Homework']);
+    assert.deepEqual(collectTags(sessions), ['exam', 'hard']);
+  });
+});
+
+describe('parseTagInput', () => {
+  it('splits on commas and spaces and normalizes each tag', () => {
+    assert.deepEqual(parseTagInput('#Exam, geometry  exam'), ['exam', 'geometry']);
+    assert.deepEqual(parseTagInput(' , '), []);
+    assert.equal(parseTagInput('x'.repeat(60))[0].length, 40);
+  });
+});
+
+describe('parseSessionOrganization', () => {
+  it('reads stored fields and defaults anything missing or malformed', () => {
+    assert.deepEqual(
+      parseSessionOrganization({
+        pinned: true,
+        folder: '  Exam   prep ',
+        tags: ['exam', 3, ''],
+      }),
+      { pinned: true, archived: false, folder: 'Exam prep', tags: ['exam'] },
+    );
+    assert.deepEqual(parseSessionOrganization({ pinned: 'yes', folder: '   ', tags: 'exam' }), {
+      pinned: false,
+      archived: false,
+      folder: null,
+      tags: [],
+    });
+  });
+});
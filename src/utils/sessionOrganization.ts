@@ -0,0 +1,175 @@
+import { arrayRemove, arrayUnion, doc, writeBatch } from 'firebase/firestore';
+import { firestore } from '../firebase';
+
+/**
+ * How learners organize their tutor sessions: pins, archive, one folder and any number of tags,
+ * all stored on the session document. Archiving only hides a session from the lists; stats still
+ * count it. Organizing does not touch `lastUpdated`, so it never reorders "recent" sessions.
+ */
+
+export interface SessionOrganization {
+  pinned: boolean;
+  archived: boolean;
+  folder: string | null;
+  tags: string[];
+}
+
+export interface OrganizableSession extends SessionOrganization {
+  id: string;
+  title: string | null;
+  topicId: string | null;
+  createdAt: Date | null;
+  lastUpdated: Date | null;
+}
+
+export type SessionStatusFilter = 'active' | 'archived' | 'all';
+export type SessionSortOrder = 'updated' | 'created' | 'title' | 'topic';
+
+export interface SessionListView {
+  status: SessionStatusFilter;
+  /** `all`, `none` (sessions outside any folder) or a folder name. */
+  folder: string;
+  /** `all` or a tag. */
+  tag: string;
+  sort: SessionSortOrder;
+}
+
+export type SessionOrganizationAction =
+  | { type: 'pin'; pinned: boolean }
+  | { type: 'archive'; archived: boolean }
+  | { type: 'folder'; folder: string | null }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTag'; tag: string };
+
+export const DEFAULT_SESSION_LIST_VIEW: SessionListView = {
+  status: 'active',
+  folder: 'all',
+  tag: 'all',
+  sort: 'updated',
+};
+
+export const SESSION_STATUS_OPTIONS: Array<{ value: SessionStatusFilter; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'all', label: 'All sessions' },
+];
+
+export const SESSION_SORT_OPTIONS: Array<{ value: SessionSortOrder; label: string }> = [
+  { value: 'updated', label: 'Last updated' },
+  { value: 'created', label: 'Date created' },
+  { value: 'title', label: 'Title' },
+  { value: 'topic', label: 'Topic' },
+];
+
+const MAX_LABEL_LENGTH = 40;
+const BATCH_SIZE = 450;
+
+const normalizeFolder = (value: string): string | null =>
+  value.trim().replace(/\s+/g, ' ').slice(0, MAX_LABEL_LENGTH) || null;
+
+const normalizeTag = (value: string): string =>
+  value.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase().slice(0, MAX_LABEL_LENGTH);
+
+/** Tags typed as a comma- or space-separated list, e.g. "#exam, geometry". */
+export const parseTagInput = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,\s]+/)
+        .map(normalizeTag)
+        .filter(Boolean),
+    ),
+  );
+
+export const parseSessionOrganization = (data: Record<string, unknown>): SessionOrganization => ({
+  pinned: data.pinned === true,
+  archived: data.archived === true,
+  folder: typeof data.folder === 'string' ? normalizeFolder(data.folder) : null,
+  tags: Array.isArray(data.tags)
+    ? data.tags.filter((tag): tag is string => typeof tag === 'string' && tag.length > 0)
+    : [],
+});
+
+const compareText = (a: string | null, b: string | null) =>
+  (a ?? '').localeCompare(b ?? '', undefined, { sensitivity: 'base' });
+
+const compareSessions = (a: OrganizableSession, b: OrganizableSession, sort: SessionSortOrder) => {
+  switch (sort) {
+    case 'created':
+      return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+    case 'title':
+      return compareText(a.title, b.title);
+    case 'topic':
+      return compareText(a.topicId, b.topicId) || compareText(a.title, b.title);
+    default:
+      return (b.lastUpdated?.getTime() ?? 0) - (a.lastUpdated?.getTime() ?? 0);
+  }
+};
+
+/** Filters the sessions for a list and sorts them, pinned sessions first. */
+export const organizeSessions = <T extends OrganizableSession>(
+  sessions: T[],
+  view: SessionListView,
+): T[] =>
+  sessions
+    .filter((session) => {
+      if (view.status === 'active' && session.archived) {
+        return false;
+      }
+      if (view.status === 'archived' && !session.archived) {
+        return false;
+      }
+      if (view.folder === 'none' && session.folder) {
+        return false;
+      }
+      if (view.folder !== 'all' && view.folder !== 'none' && session.folder !== view.folder) {
+        return false;
+      }
+      return view.tag === 'all' || session.tags.includes(view.tag);
+    })
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || compareSessions(a, b, view.sort));
+
+export const collectFolders = (sessions: OrganizableSession[]): string[] =>
+  Array.from(new Set(sessions.flatMap((session) => (session.folder ? [session.folder] : [])))).sort(
+    (a, b) => compareText(a, b),
+  );
+
+export const collectTags = (sessions: OrganizableSession[]): string[] =>
+  Array.from(new Set(sessions.flatMap((session) => session.tags))).sort((a, b) =>
+    compareText(a, b),
+  );
+
+const toUpdate = (action: SessionOrganizationAction): Record<string, unknown> => {
+  switch (action.type) {
+    case 'pin':
+      return { pinned: action.pinned };
+    case 'archive':
+      // Archived sessions leave the pinned group; unarchiving does not re-pin them.
+      return action.archived ? { archived: true, pinned: false } : { archived: false };
+    case 'folder':
+      return { folder: action.folder === null ? null : normalizeFolder(action.folder) };
+    case 'addTags':
+      return { tags: arrayUnion(...action.tags.map(normalizeTag).filter(Boolean)) };
+    case 'removeTag':
+      return { tags: arrayRemove(action.tag) };
+  }
+};
+
+/** Applies one organizing action to every selected session, in batched writes. */
+export const organizeSessionDocs = async (
+  userId: string,
+  sessionIds: string[],
+  action: SessionOrganizationAction,
+) => {
+  const update = toUpdate(action);
+  const commits: Array<Promise<void>> = [];
+  // Firestore caps a batch at 500 writes.
+  for (let start = 0; start < sessionIds.length; start += BATCH_SIZE) {
+    const batch = writeBatch(firestore);
+    sessionIds.slice(start, start + BATCH_SIZE).forEach((sessionId) => {
+      batch.update(doc(firestore, 'users', userId, 'sessions', sessionId), update);
+    });
+    commits.push(batch.commit());
+  }
+  await Promise.all(commits);
+};
@@ -0,0 +1,116 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { firestore } from '../firebase';
+import {
+  messageImageUrls,
+  parseTranscriptMessage,
+  parseTranscriptStep,
+  toOptionalDate,
+  toOptionalText,
+  type SessionTranscript,
+} from './sessionExport';
+
+/**
+ * Read-only share links for tutor sessions. Sharing copies the transcript into a top-level
+ * `shares/{shareId}` document that anyone holding the id can read (the rules allow `get` but not
+ * `list`, so ids cannot be enumerated). The session keeps the id in `shareId`, so sharing again
+ * refreshes the same link and revoking deletes the copy.
+ */
+
+export const shareUrl = (shareId: string): string => `${window.location.origin}/share/${shareId}`;
+
+/** Creates the share snapshot, or refreshes it if the session is already shared. */
+export const shareSession = async (userId: string, transcript: SessionTranscript) => {
+  const shareRef = transcript.shareId
+    ? doc(firestore, 'shares', transcript.shareId)
+    : doc(collection(firestore, 'shares'));
+  const batch = writeBatch(firestore);
+
+  batch.set(shareRef, {
+    ownerId: userId,
+    sessionId: transcript.id,
+    title: transcript.title,
+    topicId: transcript.topicId,
+    subtopic: transcript.subtopic,
+    difficulty: transcript.difficulty,
+    sessionCreatedAt: transcript.createdAt ? Timestamp.fromDate(transcript.createdAt) : null,
+    sharedAt: serverTimestamp(),
+    messages: transcript.messages.map((message) => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      imageUrl: message.imageUrl ?? null,
+      imageUrls: messageImageUrls(message),
+      imageLatex: message.imageLatex ?? null,
+      stepType: message.stepType,
+      createdAt: message.createdAt ? Timestamp.fromDate(message.createdAt) : null,
+    })),
+    steps: transcript.steps.map((step) => ({
+      id: step.id,
+      order: step.order,
+      title: step.title,
+      latex: step.latex ?? null,
+      hint: step.hint ?? null,
+      completed: step.completed === true,
+    })),
+  });
+  batch.update(doc(firestore, 'users', userId, 'sessions', transcript.id), {
+    shareId: shareRef.id,
+  });
+
+  await batch.commit();
+  return shareRef.id;
+};
+
+export const revokeSessionShare = async (userId: string, sessionId: string, shareId: string) => {
+  const batch = writeBatch(firestore);
+  batch.delete(doc(firestore, 'shares', shareId));
+  batch.update(doc(firestore, 'users', userId, 'sessions', sessionId), { shareId: deleteField() });
+  await batch.commit();
+};
+
+/** Deletes a session and, if it was shared, its public copy along with it. */
+export const deleteSessionWithShare = async (userId: string, sessionId: string) => {
+  const sessionRef = doc(firestore, 'users', userId, 'sessions', sessionId);
+  const shareId = (await getDoc(sessionRef)).get('shareId') as unknown;
+  const batch = writeBatch(firestore);
+  batch.delete(sessionRef);
+  if (typeof shareId === 'string') {
+    batch.delete(doc(firestore, 'shares', shareId));
+  }
+  await batch.commit();
+};
+
+const toRecords = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object',
+      )
+    : [];
+
+export const parseSharedTranscript = (
+  shareId: string,
+  data: Record<string, unknown>,
+): SessionTranscript => ({
+  id: typeof data.sessionId === 'string' ? data.sessionId : shareId,
+  title: toOptionalText(data.title),
+  topicId: toOptionalText(data.topicId),
+  subtopic: toOptionalText(data.subtopic),
+  difficulty: toOptionalText(data.difficulty),
+  createdAt: toOptionalDate(data.sessionCreatedAt),
+  messages: toRecords(data.messages).map((message, index) =>
+    parseTranscriptMessage(typeof message.id === 'string' ? message.id : `${index}`, message),
+  ),
+  steps: toRecords(data.steps).flatMap((step, index) => {
+    const parsed = parseTranscriptStep(typeof step.id === 'string' ? step.id : `${index}`, step);
+    return parsed ? [parsed] : [];
+  }),
+  shareId,
+});
@@ -0,0 +1,453 @@
+import type { SkillNode } from '../types/skill';
+
+/**
+ * Prerequisite graph over the problem generator's subtopics. Subtopic names must match the
+ * lists in the Cloud Functions topic guidance exactly, since generated problems report them
+ * verbatim.
+ */
+export const SKILL_GRAPH: SkillNode[] = [
+  // Foundations
+  { id: 'arithmetic', topicId: 'foundations', subtopic: 'Arithmetic', prerequisites: [] },
+  {
+    id: 'order-of-operations',
+    topicId: 'foundations',
+    subtopic: 'Order of Operations (PEMDAS)',
+    prerequisites: ['arithmetic'],
+  },
+  {
+    id: 'factors-multiples',
+    topicId: 'foundations',
+    subtopic: 'Factors & Multiples',
+    prerequisites: ['arithmetic'],
+  },
+  {
+    id: 'prime-numbers',
+    topicId: 'foundations',
+    subtopic: 'Prime Numbers',
+    prerequisites: ['factors-multiples'],
+  },
+  {
+    id: 'fractions',
+    topicId: 'foundations',
+    subtopic: 'Fractions',
+    prerequisites: ['factors-multiples'],
+  },
+  { id: 'decimals', topicId: 'foundations', subtopic: 'Decimals', prerequisites: ['fractions'] },
+  {
+    id: 'percentages',
+    topicId: 'foundations',
+    subtopic: 'Percentages',
+    prerequisites: ['decimals'],
+  },
+  {
+    id: 'ratios-proportions',
+    topicId: 'foundations',
+    subtopic: 'Ratios & Proportions',
+    prerequisites: ['fractions'],
+  },
+  {
+    id: 'exponents-roots',
+    topicId: 'foundations',
+    subtopic: 'Exponents & Roots',
+    prerequisites: ['order-of-operations'],
+  },
+
+  // Pre-Algebra
+  {
+    id: 'integers-absolute-value',
+    topicId: 'pre-algebra',
+    subtopic: 'Integers & Absolute Value',
+    prerequisites: ['arithmetic'],
+  },
+  {
+    id: 'expressions-variables',
+    topicId: 'pre-algebra',
+    subtopic: 'Expressions & Variables',
+    prerequisites: ['order-of-operations'],
+  },
+  {
+    id: 'simplifying-expressions',
+    topicId: 'pre-algebra',
+    subtopic: 'Simplifying Expressions',
+    prerequisites: ['expressions-variables', 'integers-absolute-value'],
+  },
+  {
+    id: 'linear-equations',
+    topicId: 'pre-algebra',
+    subtopic: 'Linear Equations (1 variable)',
+    prerequisites: ['simplifying-expressions'],
+  },
+  {
+    id: 'inequalities',
+    topicId: 'pre-algebra',
+    subtopic: 'Inequalities',
+    prerequisites: ['linear-equations'],
+  },
+  {
+    id: 'coordinate-plane',
+    topicId: 'pre-algebra',
+    subtopic: 'Coordinate Plane & Graphing',
+    prerequisites: ['integers-absolute-value'],
+  },
+  {
+    id: 'functions-relations',
+    topicId: 'pre-algebra',
+    subtopic: 'Functions & Relations',
+    prerequisites: ['coordinate-plane', 'expressions-variables'],
+  },
+  {
+    id: 'translating-word-problems',
+    topicId: 'pre-algebra',
+    subtopic: 'Word Problems & Translating Expressions',
+    prerequisites: ['expressions-variables'],
+  },
+
+  // Algebra I & II
+  {
+    id: 'systems-of-equations',
+    topicId: 'algebra',
+    subtopic: 'Systems of Equations',
+    prerequisites: ['linear-equations', 'coordinate-plane'],
+  },
+  {
+    id: 'polynomials',
+    topicId: 'algebra',
+    subtopic: 'Polynomials',
+    prerequisites: ['simplifying-expressions', 'exponents-roots'],
+  },
+  {
+    id: 'factoring',
+    topicId: 'algebra',
+    subtopic: 'Factoring',
+    prerequisites: ['polynomials', 'factors-multiples'],
+  },
+  {
+    id: 'quadratic-equations',
+    topicId: 'algebra',
+    subtopic: 'Quadratic Equations',
+    prerequisites: ['factoring', 'linear-equations'],
+  },
+  {
+    id: 'rational-expressions',
+    topicId: 'algebra',
+    subtopic: 'Rational Expressions',
+    prerequisites: ['factoring', 'fractions'],
+  },
+  {
+    id: 'radical-expressions',
+    topicId: 'algebra',
+    subtopic: 'Radical Expressions',
+    prerequisites: ['exponents-roots', 'simplifying-expressions'],
+  },
+  {
+    id: 'exponential-logarithmic',
+    topicId: 'algebra',
+    subtopic: 'Exponential & Logarithmic Functions',
+    prerequisites: ['functions-relations', 'exponents-roots'],
+  },
+  {
+    id: 'sequences-series',
+    topicId: 'algebra',
+    subtopic: 'Sequences & Series',
+    prerequisites: ['functions-relations'],
+  },
+  {
+    id: 'complex-numbers',
+    topicId: 'algebra',
+    subtopic: 'Complex Numbers',
+    prerequisites: ['quadratic-equations', 'radical-expressions'],
+  },
+
+  // Geometry
+  {
+    id: 'points-lines-angles',
+    topicId: 'geometry',
+    subtopic: 'Points, Lines, Planes, Angles',
+    prerequisites: ['arithmetic'],
+  },
+  {
+    id: 'triangles',
+    topicId: 'geometry',
+    subtopic: 'Triangles (Types, Congruence, Similarity)',
+    prerequisites: ['points-lines-angles', 'ratios-proportions'],
+  },
+  {
+    id: 'pythagorean-theorem',
+    topicId: 'geometry',
+    subtopic: 'Pythagorean Theorem',
+    prerequisites: ['triangles', 'exponents-roots'],
+  },
+  {
+    id: 'circles',
+    topicId: 'geometry',
+    subtopic: 'Circles (Arcs, Chords, Tangents)',
+    prerequisites: ['points-lines-angles'],
+  },
+  { id: 'polygons', topicId: 'geometry', subtopic: 'Polygons', prerequisites: ['triangles'] },
+  {
+    id: 'coordinate-geometry',
+    topicId: 'geometry',
+    subtopic: 'Coordinate Geometry',
+    prerequisites: ['coordinate-plane', 'pythagorean-theorem'],
+  },
+  {
+    id: 'perimeter-area-volume',
+    topicId: 'geometry',
+    subtopic: 'Perimeter, Area, and Volume',
+    prerequisites: ['polygons'],
+  },
+  {
+    id: 'transformations',
+    topicId: 'geometry',
+    subtopic: 'Transformations (Translation, Reflection, Rotation, Dilation)',
+    prerequisites: ['coordinate-plane', 'points-lines-angles'],
+  },
+  {
+    id: 'proofs-theorems',
+    topicId: 'geometry',
+    subtopic: 'Proofs & Theorems',
+    prerequisites: ['triangles'],
+  },
+
+  // Trigonometry
+  {
+    id: 'radians-degrees',
+    topicId: 'trigonometry',
+    subtopic: 'Radians & Degrees',
+    prerequisites: ['circles'],
+  },
+  {
+    id: 'unit-circle',
+    topicId: 'trigonometry',
+    subtopic: 'Unit Circle',
+    prerequisites: ['radians-degrees', 'pythagorean-theorem'],
+  },
+  {
+    id: 'trig-functions',
+    topicId: 'trigonometry',
+    subtopic: 'Sine, Cosine, Tangent Functions',
+    prerequisites: ['triangles', 'pythagorean-theorem'],
+  },
+  {
+    id: 'graphing-trig',
+    topicId: 'trigonometry',
+    subtopic: 'Graphing Trig Functions',
+    prerequisites: ['unit-circle', 'trig-functions', 'functions-relations'],
+  },
+  {
+    id: 'inverse-trig',
+    topicId: 'trigonometry',
+    subtopic: 'Inverse Trig Functions',
+    prerequisites: ['trig-functions'],
+  },
+  {
+    id: 'trig-identities',
+    topicId: 'trigonometry',
+    subtopic: 'Trig Identities & Equations',
+    prerequisites: ['unit-circle', 'trig-functions'],
+  },
+  {
+    id: 'law-of-sines-cosines',
+    topicId: 'trigonometry',
+    subtopic: 'Law of Sines & Cosines',
+    prerequisites: ['trig-functions'],
+  },
+  {
+    id: 'trig-applications',
+    topicId: 'trigonometry',
+    subtopic: 'Applications (Heights, Distances, Periodic Motion)',
+    prerequisites: ['law-of-sines-cosines', 'graphing-trig'],
+  },
+
+  // Pre-Calculus & Calculus
+  {
+    id: 'limits-continuity',
+    topicId: 'pre-calculus-calculus',
+    subtopic: 'Limits & Continuity',
+    prerequisites: ['functions-relations', 'rational-expressions'],
+  },
+  {
+    id: 'derivatives',
+    topicId: 'pre-calculus-calculus',
+    subtopic: 'Derivatives & Applications',
+    prerequisites: ['limits-continuity'],
+  },
+  {
+    id: 'integrals',
+    topicId: 'pre-calculus-calculus',
+    subtopic: 'Integrals & Applications',
+    prerequisites: ['derivatives'],
+  },
+  {
+    id: 'differential-equations',
+    topicId: 'pre-calculus-calculus',
+    subtopic: 'Differential Equations (Intro)',
+    prerequisites: ['integrals', 'exponential-logarithmic'],
+  },
+  {
+    id: 'parametric-polar',
+    topicId: 'pre-calculus-calculus',
+    subtopic: 'Parametric & Polar Equations',
+    prerequisites: ['unit-circle', 'functions-relations'],
+  },
+  {
+    id: 'infinite-series',
+    topicId: 'pre-calculus-calculus',
+    subtopic: 'Infinite Series & Convergence',
+    prerequisites: ['sequences-series', 'limits-continuity'],
+  },
+
+  // Statistics & Probability
+  {
+    id: 'mean-median-mode',
+    topicId: 'statistics-probability',
+    subtopic: 'Mean, Median, Mode',
+    prerequisites: ['arithmetic'],
+  },
+  {
+    id: 'spread',
+    topicId: 'statistics-probability',
+    subtopic: 'Range, Variance, Standard Deviation',
+    prerequisites: ['mean-median-mode', 'exponents-roots'],
+  },
+  {
+    id: 'probability-rules',
+    topicId: 'statistics-probability',
+    subtopic: 'Probability Rules (Addition, Multiplication)',
+    prerequisites: ['fractions'],
+  },
+  {
+    id: 'conditional-probability',
+    topicId: 'statistics-probability',
+    subtopic: 'Conditional Probability',
+    prerequisites: ['probability-rules'],
+  },
+  {
+    id: 'combinations-permutations',
+    topicId: 'statistics-probability',
+    subtopic: 'Combinations & Permutations',
+    prerequisites: ['counting-principles'],
+  },
+  {
+    id: 'random-variables',
+    topicId: 'statistics-probability',
+    subtopic: 'Random Variables & Distributions',
+    prerequisites: ['probability-rules', 'mean-median-mode'],
+  },
+  {
+    id: 'normal-distribution',
+    topicId: 'statistics-probability',
+    subtopic: 'Normal Distribution',
+    prerequisites: ['random-variables', 'spread'],
+  },
+  {
+    id: 'hypothesis-testing',
+    topicId: 'statistics-probability',
+    subtopic: 'Hypothesis Testing (Intro)',
+    prerequisites: ['normal-distribution'],
+  },
+  {
+    id: 'correlation-regression',
+    topicId: 'statistics-probability',
+    subtopic: 'Correlation & Regression',
+    prerequisites: ['spread', 'coordinate-plane'],
+  },
+
+  // Discrete Math & Logic
+  {
+    id: 'logic-truth-tables',
+    topicId: 'discrete-math-logic',
+    subtopic: 'Logic & Truth Tables',
+    prerequisites: [],
+  },
+  { id: 'set-theory', topicId: 'discrete-math-logic', subtopic: 'Set Theory', prerequisites: [] },
+  {
+    id: 'counting-principles',
+    topicId: 'discrete-math-logic',
+    subtopic: 'Counting Principles',
+    prerequisites: ['arithmetic'],
+  },
+  {
+    id: 'combinatorics',
+    topicId: 'discrete-math-logic',
+    subtopic: 'Combinatorics',
+    prerequisites: ['counting-principles'],
+  },
+  {
+    id: 'graph-theory',
+    topicId: 'discrete-math-logic',
+    subtopic: 'Graph Theory',
+    prerequisites: ['set-theory'],
+  },
+  {
+    id: 'matrices',
+    topicId: 'discrete-math-logic',
+    subtopic: 'Matrices',
+    prerequisites: ['systems-of-equations'],
+  },
+  {
+    id: 'recursion',
+    topicId: 'discrete-math-logic',
+    subtopic: 'Recursion',
+    prerequisites: ['sequences-series'],
+  },
+
+  // Applied Math
+  {
+    id: 'word-problems',
+    topicId: 'applied-math',
+    subtopic: 'Word Problems',
+    prerequisites: ['translating-word-problems'],
+  },
+  {
+    id: 'financial-math',
+    topicId: 'applied-math',
+    subtopic: 'Financial Math (Interest, Loans, Investments)',
+    prerequisites: ['percentages'],
+  },
+  {
+    id: 'rate-time-distance',
+    topicId: 'applied-math',
+    subtopic: 'Rate, Time, Distance Problems',
+    prerequisites: ['ratios-proportions', 'linear-equations'],
+  },
+  {
+    id: 'applied-geometry',
+    topicId: 'applied-math',
+    subtopic: 'Geometry in Real Life (Area, Volume Applications)',
+    prerequisites: ['perimeter-area-volume'],
+  },
+  {
+    id: 'data-interpretation',
+    topicId: 'applied-math',
+    subtopic: 'Data Interpretation & Graphs',
+    prerequisites: ['mean-median-mode'],
+  },
+  {
+    id: 'unit-conversions',
+    topicId: 'applied-math',
+    subtopic: 'Unit Conversions',
+    prerequisites: ['ratios-proportions'],
+  },
+];
+
+const SKILLS_BY_ID = new Map(SKILL_GRAPH.map((skill) => [skill.id, skill]));
+
+export const getSkill = (skillId: string): SkillNode | null => SKILLS_BY_ID.get(skillId) ?? null;
+
+/** Finds the skill a generated problem practices from its topic and reported subtopic. */
+export const findSkillForSubtopic = (
+  topicId: string | null | undefined,
+  subtopic: string | null | undefined,
+): SkillNode | null => {
+  if (!topicId || !subtopic) {
+    return null;
+  }
+
+  const wanted = subtopic.trim().toLowerCase();
+  return (
+    SKILL_GRAPH.find(
+      (skill) => skill.topicId === topicId && skill.subtopic.toLowerCase() === wanted,
+    ) ?? null
+  );
+};
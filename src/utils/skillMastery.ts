@@ -0,0 +1,110 @@
+import { doc, increment, serverTimestamp, writeBatch } from 'firebase/firestore';
+import { firestore } from '../firebase';
+import type { ProblemDifficulty } from '../types/problem';
+import type {
+  FrontierSkill,
+  SkillMasteryEstimate,
+  SkillMasteryRecord,
+  SkillStatus,
+} from '../types/skill';
+import { SKILL_GRAPH } from './skillGraph';
+
+/**
+ * Mastery estimates and the learning frontier. Mastery is the share of correct attempts with
+ * one imaginary right and one imaginary wrong answer added, so a single lucky answer does not
+ * count as mastery; a skill is mastered once that estimate and the attempt count both clear
+ * their thresholds.
+ */
+
+const MASTERY_THRESHOLD = 0.8;
+const MIN_ATTEMPTS_FOR_MASTERY = 3;
+
+export interface SkillEvidence {
+  skillId: string;
+  correct: boolean;
+}
+
+export const estimateSkillMastery = (
+  record: SkillMasteryRecord | null | undefined,
+): SkillMasteryEstimate => {
+  const attempts = record?.attempts ?? 0;
+  const correct = Math.min(record?.correct ?? 0, attempts);
+  const mastery = (correct + 1) / (attempts + 2);
+
+  let status: SkillStatus = 'learning';
+  if (attempts === 0) {
+    status = 'new';
+  } else if (attempts >= MIN_ATTEMPTS_FOR_MASTERY && mastery >= MASTERY_THRESHOLD) {
+    status = 'mastered';
+  }
+
+  return { mastery, attempts, status };
+};
+
+const suggestDifficulty = (estimate: SkillMasteryEstimate): ProblemDifficulty =>
+  estimate.status === 'new' || estimate.mastery < 0.5 ? 'beginner' : 'intermediate';
+
+/**
+ * Skills the learner is ready for: not yet mastered, with every prerequisite mastered. Skills
+ * already in progress come first (closest to mastery first), then new skills in graph order.
+ */
+export const computeFrontier = (records: Record<string, SkillMasteryRecord>): FrontierSkill[] => {
+  const estimates = new Map(
+    SKILL_GRAPH.map((skill) => [skill.id, estimateSkillMastery(records[skill.id])]),
+  );
+  const isMastered = (skillId: string) => estimates.get(skillId)?.status === 'mastered';
+
+  const frontier = SKILL_GRAPH.flatMap((skill): FrontierSkill[] => {
+    const estimate = estimates.get(skill.id) ?? estimateSkillMastery(null);
+
+    if (estimate.status === 'mastered' || !skill.prerequisites.every(isMastered)) {
+      return [];
+    }
+
+    return [{ skill, estimate, suggestedDifficulty: suggestDifficulty(estimate) }];
+  });
+
+  const inProgress = frontier
+    .filter((item) => item.estimate.status === 'learning')
+    .sort((a, b) => b.estimate.mastery - a.estimate.mastery);
+  const fresh = frontier.filter((item) => item.estimate.status === 'new');
+
+  return [...inProgress, ...fresh];
+};
+
+/** Adds graded attempts to the learner's per-skill counters in one batch. */
+export const recordSkillEvidence = async (
+  userId: string,
+  evidence: SkillEvidence[],
+): Promise<void> => {
+  const totals = new Map<string, { attempts: number; correct: number }>();
+
+  evidence.forEach((item) => {
+    const current = totals.get(item.skillId) ?? { attempts: 0, correct: 0 };
+    totals.set(item.skillId, {
+      attempts: current.attempts + 1,
+      correct: current.correct + (item.correct ? 1 : 0),
+    });
+  });
+
+  if (totals.size === 0) {
+    return;
+  }
+
+  const batch = writeBatch(firestore);
+
+  totals.forEach((total, skillId) => {
+    batch.set(
+      doc(firestore, 'users', userId, 'skillMastery', skillId),
+      {
+        skillId,
+        attempts: increment(total.attempts),
+        correct: increment(total.correct),
+        lastPracticedAt: serverTimestamp(),
+      },
+      { merge: true },
+    );
+  });
+
+  await batch.commit();
+};
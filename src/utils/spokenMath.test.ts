@@ -0,0 +1,71 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { latexToSpeech, normalizeSpokenMath, toSpeechText } from './spokenMath';
+
+describe('normalizeSpokenMath', () => {
+  it('reads numbers, operators and powers', () => {
+    assert.equal(normalizeSpokenMath('two x plus three equals eleven'), '2x + 3 = 11');
+    assert.equal(normalizeSpokenMath('X squared minus four'), 'x^2 - 4');
+    assert.equal(normalizeSpokenMath('three point one four'), '3.14');
+    assert.equal(normalizeSpokenMath('x to the fifth power'), 'x^5');
+  });
+
+  it('applies "all squared" to the whole side', () => {
+    assert.equal(normalizeSpokenMath('a plus b all squared'), '(a + b)^2');
+    assert.equal(normalizeSpokenMath('y equals x minus one all cubed'), 'y = (x - 1)^3');
+    assert.equal(normalizeSpokenMath('open paren a plus b close paren all squared'), '(a + b)^2');
+  });
+
+  it('drops articles before roots', () => {
+    assert.equal(normalizeSpokenMath('the square root of sixteen'), 'sqrt(16)');
+    assert.equal(normalizeSpokenMath('a cube root of eight'), 'cbrt(8)');
+  });
+
+  it('reads fraction words', () => {
+    assert.equal(normalizeSpokenMath('one half'), '1 / 2');
+    assert.equal(normalizeSpokenMath('a quarter'), '1 / 4');
+    assert.equal(normalizeSpokenMath('two thirds plus one sixth'), '2 / 3 + 1 / 6');
+    assert.equal(normalizeSpokenMath('wait one second'), 'wait 1 second');
+  });
+});
+
+describe('latexToSpeech', () => {
+  it('reads fractions, powers and roots', () => {
+    assert.equal(latexToSpeech('x^2 + \\frac{1}{2}'), 'x squared plus 1 over 2');
+    assert.equal(latexToSpeech('\\sqrt{16}'), 'the square root of 16');
+  });
+
+  it('reads integral, sum and limit bounds', () => {
+    assert.equal(
+      latexToSpeech('\\int_0^1 x^2 \\, dx'),
+      'the integral from 0 to 1 of x squared d x',
+    );
+    assert.equal(latexToSpeech('\\sum_{i=1}^{n} i'), 'the sum from i equals 1 to n of i');
+    assert.equal(
+      latexToSpeech('\\lim_{x \\to 0} \\frac{\\sin x}{x}'),
+      'the limit as x approaches 0 of sine x over x',
+    );
+    assert.equal(latexToSpeech('\\int f(x)'), 'the integral of f x');
+  });
+});
+
+describe('toSpeechText', () => {
+  it('reads math between dollar signs and leaves prices as text', () => {
+    assert.equal(toSpeechText('$5 and $x^2$'), '$5 and x squared');
+    assert.equal(toSpeechText('It costs $5 and $7 in total.'), 'It costs $5 and $7 in total.');
+    assert.equal(toSpeechText('So $5$ is the answer.'), 'So 5 is the answer.');
+  });
+
+  it('reads nested \\(...\\) math as one expression', () => {
+    assert.equal(toSpeechText('Take \\(f(\\(x\\))\\) now'), 'Take f x now');
+  });
+
+  it('reads matrices by rows', () => {
+    assert.equal(
+      toSpeechText('$$\\begin{pmatrix} 1 & 2 \\\\ 3 & 4 \\end{pmatrix}$$'),
+      'the matrix 1 2, 3 4',
+    );
+    assert.equal(latexToSpeech('\\begin{array}{cc} a & b \\end{array}'), 'a b');
+  });
+});
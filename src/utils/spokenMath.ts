@@ -0,0 +1,541 @@
+import { describeGraph } from './graphSpec';
+import { splitMath } from './mathSegments';
+
+/**
+ * Voice mode's two translations: dictated speech into the plain math the Tutor input expects
+ * ("x squared plus three" → "x^2 + 3"), and the LaTeX in assistant replies into words a speech
+ * synthesizer can read ("\frac{1}{2}" → "1 over 2") instead of spelling out symbols.
+ */
+
+const UNITS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  million: 1000000,
+};
+
+const ORDINALS: Record<string, string> = {
+  second: '2',
+  third: '3',
+  fourth: '4',
+  fifth: '5',
+  sixth: '6',
+  seventh: '7',
+  eighth: '8',
+  ninth: '9',
+  tenth: '10',
+};
+
+// Denominators read as words: "three quarters" is 3/4. "Second" is left out; it is usually time.
+const FRACTION_WORDS: Record<string, number> = {
+  half: 2,
+  halves: 2,
+  third: 3,
+  quarter: 4,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+};
+
+const DIGIT_WORD = `(?:${Object.keys(UNITS).slice(0, 10).join('|')})`;
+const DECIMAL_DIGITS = new RegExp(`\\bpoint((?:\\s+${DIGIT_WORD}\\b)+)`, 'gi');
+const NUMBER_WORD = `(?:${[...Object.keys(UNITS), ...Object.keys(SCALES)].join('|')})`;
+const NUMBER_RUN = new RegExp(`\\b${NUMBER_WORD}(?:[\\s-]+${NUMBER_WORD})*\\b`, 'gi');
+
+// Something an operator can sit next to: a number, a single-letter variable or a bracket.
+const OPERAND_BEFORE = String.raw`([\d)]|\b\d*[a-z])`;
+const OPERAND_AFTER = String.raw`([\d(]|[a-z]\b|-\d)`;
+
+const parseNumberWords = (run: string): string => {
+  let total = 0;
+  let current = 0;
+  run
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .forEach((word) => {
+      if (word in UNITS) {
+        current += UNITS[word];
+      } else if (word === 'hundred') {
+        current = (current || 1) * 100;
+      } else {
+        total += (current || 1) * SCALES[word];
+        current = 0;
+      }
+    });
+  return String(total + current);
+};
+
+const PHRASES: Array<[RegExp, string]> = [
+  [/\bopen (?:paren(?:thesis)?|bracket)\s*/gi, '('],
+  [/\s*\bclose (?:paren(?:thesis)?|bracket)\b/gi, ')'],
+  [/\b(?:is )?greater than or equal to\b/gi, '>='],
+  [/\b(?:is )?less than or equal to\b/gi, '<='],
+  [/\b(?:is )?not equal to\b/gi, '!='],
+  [/\b(?:is )?greater than\b/gi, '>'],
+  [/\b(?:is )?less than\b/gi, '<'],
+  [/\b(?:is )?equal to\b|\bequals\b/gi, '='],
+  [/\bplus or minus\b/gi, '±'],
+  [/\bplus\b/gi, '+'],
+  [/\bminus\b/gi, '-'],
+  [/\bnegative\s+/gi, '-'],
+  [/\bmultiplied by\b/gi, '*'],
+  [/\bdivided by\b/gi, '/'],
+  [/\b(?:the |a )?square root of\s+/gi, 'sqrt '],
+  [/\b(?:the |a )?cube root of\s+/gi, 'cbrt '],
+  [/\s*\bsquared\b/gi, '^2'],
+  [/\s*\bcubed\b/gi, '^3'],
+  [/\bpercent\b/gi, '%'],
+];
+
+/**
+ * "a + b all^2" (from "a plus b all squared"): the power applies to everything back to the start
+ * of that side of the equation, or to the enclosing bracket.
+ */
+const groupWholePowers = (text: string): string => {
+  let output = text;
+
+  for (let match = /\s*\ball\^/.exec(output); match; match = /\s*\ball\^/.exec(output)) {
+    let start = match.index;
+    let depth = 0;
+    while (start > 0) {
+      const char = output[start - 1];
+      if (char === ')') {
+        depth += 1;
+      } else if (char === '(') {
+        if (depth === 0) {
+          break;
+        }
+        depth -= 1;
+      } else if (depth === 0 && /[=<>±,]/.test(char)) {
+        break;
+      }
+      start -= 1;
+    }
+
+    const base = output.slice(start, match.index).trim();
+    const grouped = /[\s+\-*/]/.test(base) && !/^\([^()]*\)$/.test(base) ? `(${base})` : base;
+    const before = output.slice(0, start);
+    output = `${before}${/[^\s(]$/.test(before) ? ' ' : ''}${grouped}^${output.slice(match.index + match[0].length)}`;
+  }
+
+  return output;
+};
+
+/** Turns a speech-recognition transcript into the plain math notation learners type. */
+export const normalizeSpokenMath = (transcript: string): string => {
+  let text = transcript
+    .trim()
+    .replace(/\s+/g, ' ')
+    // Recognizers capitalize single letters ("X squared"); keep the pronoun "I" as it is.
+    .replace(/\b(?!I\b)([A-Z])\b/g, (letter) => letter.toLowerCase())
+    // Digits after "point" are read one by one: "three point one four" is 3.14, not 3.5.
+    .replace(
+      DECIMAL_DIGITS,
+      (_match, digits: string) =>
+        `.${digits
+          .trim()
+          .split(/\s+/)
+          .map((word) => UNITS[word.toLowerCase()])
+          .join('')}`,
+    )
+    .replace(NUMBER_RUN, parseNumberWords)
+    .replace(/(\d) \.(\d)/g, '$1.$2')
+    .replace(/\bpoint (\d)/gi, '.$1')
+    // "two x" is the coefficient 2x.
+    .replace(/(\d) ([a-z])\b/g, '$1$2');
+
+  text = text.replace(
+    new RegExp(
+      String.raw`\s*\b(?:raised )?to the (?:power of )?(?:(\d+)(?:st|nd|rd|th)?|(${Object.keys(ORDINALS).join('|')})|(n)(?:th)?|([a-z]))\b(?: power)?`,
+      'gi',
+    ),
+    (_match, digits?: string, ordinal?: string, nth?: string, letter?: string) =>
+      `^${digits ?? (ordinal ? ORDINALS[ordinal.toLowerCase()] : (nth ?? letter))}`,
+  );
+
+  // "one half", "two thirds", "a quarter": the count over the denominator.
+  text = text.replace(
+    new RegExp(String.raw`\b(\d+|an?) (${Object.keys(FRACTION_WORDS).join('|')})s?\b`, 'gi'),
+    (_match, count: string, denominator: string) =>
+      `${/^\d/.test(count) ? count : '1'}/${FRACTION_WORDS[denominator.toLowerCase()]}`,
+  );
+
+  PHRASES.forEach(([pattern, symbol]) => {
+    text = text.replace(pattern, symbol);
+  });
+
+  // "times" and "over" are ordinary words too, so only read them as operators between operands.
+  text = text
+    .replace(new RegExp(`${OPERAND_BEFORE} times ${OPERAND_AFTER}`, 'gi'), '$1 * $2')
+    .replace(new RegExp(`${OPERAND_BEFORE} over ${OPERAND_AFTER}`, 'gi'), '$1 / $2')
+    .replace(/\bsqrt (\S+)/g, 'sqrt($1)')
+    .replace(/\bcbrt (\S+)/g, 'cbrt($1)');
+
+  return groupWholePowers(
+    text
+      .replace(/\s*(>=|<=|!=|±|[+=<>*/])\s*/g, ' $1 ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+  );
+};
+
+const GREEK_LETTERS = new Set([
+  'alpha',
+  'beta',
+  'gamma',
+  'delta',
+  'epsilon',
+  'zeta',
+  'eta',
+  'theta',
+  'iota',
+  'kappa',
+  'lambda',
+  'mu',
+  'nu',
+  'xi',
+  'pi',
+  'rho',
+  'sigma',
+  'tau',
+  'phi',
+  'chi',
+  'psi',
+  'omega',
+]);
+
+const COMMAND_WORDS: Record<string, string> = {
+  cdot: 'times',
+  times: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  le: 'is less than or equal to',
+  leq: 'is less than or equal to',
+  ge: 'is greater than or equal to',
+  geq: 'is greater than or equal to',
+  ne: 'is not equal to',
+  neq: 'is not equal to',
+  approx: 'is approximately',
+  infty: 'infinity',
+  to: 'approaches',
+  rightarrow: 'gives',
+  Rightarrow: 'implies',
+  implies: 'implies',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  sec: 'secant',
+  csc: 'cosecant',
+  cot: 'cotangent',
+  log: 'log',
+  ln: 'natural log',
+  exp: 'exp',
+  angle: 'angle',
+  triangle: 'triangle',
+  degree: 'degrees',
+  circ: 'degrees',
+  perp: 'is perpendicular to',
+  parallel: 'is parallel to',
+  in: 'in',
+  ldots: 'and so on',
+  cdots: 'and so on',
+  dots: 'and so on',
+};
+
+// Operators whose subscript and superscript are bounds, read before what they apply to.
+const BOUNDED_COMMANDS: Record<string, string> = {
+  int: 'the integral',
+  sum: 'the sum',
+  prod: 'the product',
+  lim: 'the limit',
+};
+
+// Commands that only style or space their argument and say nothing themselves.
+const SILENT_COMMANDS = new Set([
+  'big',
+  'Big',
+  'bigg',
+  'Bigg',
+  'displaystyle',
+  'quad',
+  'qquad',
+  'mathrm',
+  'mathbf',
+  'mathit',
+  'boldsymbol',
+]);
+
+// Environments named by what they hold; the rest, like `aligned`, only lay out their rows.
+const ENVIRONMENT_WORDS: Record<string, string> = {
+  matrix: 'the matrix',
+  pmatrix: 'the matrix',
+  bmatrix: 'the matrix',
+  Bmatrix: 'the matrix',
+  vmatrix: 'the determinant of the matrix',
+  cases: 'the cases',
+};
+
+const SYMBOL_WORDS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '=': 'equals',
+  '<': 'is less than',
+  '>': 'is greater than',
+  '*': 'times',
+  '/': 'over',
+  '!': 'factorial',
+  "'": 'prime',
+  '%': 'percent',
+  ',': ',',
+  ';': ',',
+};
+
+const POWER_WORDS: Record<string, string> = {
+  '2': 'squared',
+  '3': 'cubed',
+  '\\circ': 'degrees',
+  '-1': 'inverse',
+};
+
+const rootName = (degree: string) =>
+  degree === '2' ? 'square' : degree === '3' ? 'cube' : `${degree}th`;
+
+/** Reads LaTeX aloud, e.g. `x^2 + \frac{1}{2}` as "x squared plus 1 over 2". */
+export const latexToSpeech = (latex: string): string => {
+  let index = 0;
+
+  const readCommandName = () => {
+    const start = index;
+    while (index < latex.length && /[a-zA-Z]/.test(latex[index])) {
+      index += 1;
+    }
+    // A backslash followed by a symbol, like `\{` or `\,`, is a one-character command.
+    if (index === start && index < latex.length) {
+      index += 1;
+    }
+    return latex.slice(start, index);
+  };
+
+  // The next argument: a braced group, a command or a single character.
+  const readArgument = (): string => {
+    while (latex[index] === ' ') {
+      index += 1;
+    }
+    if (latex[index] === '{') {
+      let depth = 1;
+      const start = index + 1;
+      index += 1;
+      while (index < latex.length && depth > 0) {
+        if (latex[index] === '\\') {
+          index += 2;
+          continue;
+        }
+        if (latex[index] === '{') depth += 1;
+        if (latex[index] === '}') depth -= 1;
+        index += 1;
+      }
+      return latex.slice(start, index - 1);
+    }
+    if (latex[index] === '\\') {
+      index += 1;
+      return `\\${readCommandName()}`;
+    }
+    const char = latex[index] ?? '';
+    index += 1;
+    return char;
+  };
+
+  const readOptionalArgument = (): string | null => {
+    if (latex[index] !== '[') {
+      return null;
+    }
+    const end = latex.indexOf(']', index);
+    if (end === -1) {
+      return null;
+    }
+    const value = latex.slice(index + 1, end);
+    index = end + 1;
+    return value;
+  };
+
+  // The `_{...}` and `^{...}` after `\int`, `\sum` or `\lim`, in either order.
+  const readBounds = () => {
+    const bounds: { lower: string | null; upper: string | null } = { lower: null, upper: null };
+    for (;;) {
+      while (latex[index] === ' ') {
+        index += 1;
+      }
+      if (latex.startsWith('\\limits', index)) {
+        index += '\\limits'.length;
+      } else if (latex[index] === '_' && bounds.lower === null) {
+        index += 1;
+        bounds.lower = latexToSpeech(readArgument());
+      } else if (latex[index] === '^' && bounds.upper === null) {
+        index += 1;
+        bounds.upper = latexToSpeech(readArgument());
+      } else {
+        return bounds;
+      }
+    }
+  };
+
+  const words: string[] = [];
+
+  while (index < latex.length) {
+    const char = latex[index];
+
+    if (/\s|[{}&]/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (/[\d.]/.test(char)) {
+      const match = /^\d*\.?\d+|^\d+/.exec(latex.slice(index));
+      if (match) {
+        words.push(match[0]);
+        index += match[0].length;
+      } else {
+        index += 1;
+      }
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(char)) {
+      words.push(char);
+      index += 1;
+      continue;
+    }
+
+    if (char === '^') {
+      index += 1;
+      const power = readArgument().trim();
+      words.push(POWER_WORDS[power] ?? `to the power of ${latexToSpeech(power)}`);
+      continue;
+    }
+
+    if (char === '_') {
+      index += 1;
+      words.push(`sub ${latexToSpeech(readArgument())}`);
+      continue;
+    }
+
+    if (char === '\\') {
+      index += 1;
+      const command = readCommandName();
+
+      if (command === 'frac' || command === 'dfrac' || command === 'tfrac') {
+        const numerator = latexToSpeech(readArgument());
+        const denominator = latexToSpeech(readArgument());
+        words.push(`${numerator} over ${denominator}`);
+      } else if (command === 'sqrt') {
+        const degree = readOptionalArgument();
+        const radicand = latexToSpeech(readArgument());
+        words.push(
+          degree
+            ? `the ${rootName(degree.trim())} root of ${radicand}`
+            : `the square root of ${radicand}`,
+        );
+      } else if (command in BOUNDED_COMMANDS) {
+        const { lower, upper } = readBounds();
+        const name = BOUNDED_COMMANDS[command];
+        if (command === 'lim') {
+          words.push(lower ? `${name} as ${lower} of` : `${name} of`);
+        } else if (lower && upper) {
+          words.push(`${name} from ${lower} to ${upper} of`);
+        } else {
+          words.push(lower ? `${name} over ${lower} of` : `${name} of`);
+        }
+      } else if (command === 'text' || command === 'textbf' || command === 'operatorname') {
+        words.push(readArgument());
+      } else if (command === 'left' || command === 'right') {
+        // Skip the delimiter that follows, e.g. `\left(` or `\right\}`.
+        if (latex[index] === '\\') {
+          index += 1;
+        }
+        index += 1;
+      } else if (command === 'begin' || command === 'end') {
+        const environment = readArgument().trim();
+        if (command === 'begin' && environment === 'array') {
+          // Skip the column spec, e.g. `{cc}`.
+          readArgument();
+        }
+        if (command === 'begin' && environment in ENVIRONMENT_WORDS) {
+          words.push(ENVIRONMENT_WORDS[environment]);
+        }
+      } else if (command === '\\') {
+        words.push(',');
+      } else if (command === '%') {
+        words.push('percent');
+      } else if (GREEK_LETTERS.has(command.toLowerCase())) {
+        words.push(command.toLowerCase());
+      } else if (command in COMMAND_WORDS) {
+        words.push(COMMAND_WORDS[command]);
+      } else if (!SILENT_COMMANDS.has(command) && /^[a-zA-Z]+$/.test(command)) {
+        words.push(command);
+      }
+      continue;
+    }
+
+    if (char in SYMBOL_WORDS) {
+      words.push(SYMBOL_WORDS[char]);
+    }
+    index += 1;
+  }
+
+  return words.join(' ').replace(/\s+,/g, ',').replace(/\s+/g, ' ').trim();
+};
+
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>]+/g, '');
+
+/** An assistant reply as the sentence a speech synthesizer should read, math and all. */
+export const toSpeechText = (content: string): string =>
+  splitMath(content)
+    .map((segment) => {
+      if (segment.type === 'graph') {
+        return `${describeGraph(segment.value, latexToSpeech)}.`;
+      }
+      return segment.type === 'text' ? stripMarkdown(segment.value) : latexToSpeech(segment.value);
+    })
+    .join(' ')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
@@ -2,7 +2,10 @@
  * Statistics aggregation utilities for calculating user performance metrics
  */
 
-export interface SessionSummary {
+import type { SessionOrganization } from './sessionOrganization';
+
+/** Archived sessions are included: archiving hides a session from lists, not from stats. */
+export interface SessionSummary extends SessionOrganization {
   id: string;
   createdAt: Date | null;
   lastUpdated: Date | null;
@@ -0,0 +1,152 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ERASER_WIDTH,
+  PEN_WIDTH,
+  drawInk,
+  drawPaper,
+  drawStrokeSegment,
+  type WhiteboardStroke,
+} from './whiteboard';
+
+type Call = [string, ...unknown[]];
+
+/** A 2D context that records drawing calls and the style each was made with. */
+const recordingContext = (width = 120, height = 80) => {
+  const calls: Call[] = [];
+  const style: Record<string, unknown> = { globalCompositeOperation: 'source-over' };
+  const context = new Proxy(style, {
+    get: (target, name: string) => {
+      if (name === 'canvas') {
+        return { width, height };
+      }
+      if (name in target) {
+        return target[name];
+      }
+      return (...args: unknown[]) => {
+        calls.push([name, ...args]);
+        if (name === 'stroke' || name === 'fill') {
+          calls.push(['style', target.globalCompositeOperation, target.strokeStyle]);
+        }
+      };
+    },
+    set: (target, name: string, value: unknown) => {
+      target[name] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+
+  return { calls, context, style };
+};
+
+const count = (calls: Call[], name: string) => calls.filter(([called]) => called === name).length;
+
+const pen = (points: Array<[number, number]>): WhiteboardStroke => ({
+  tool: 'pen',
+  color: '#1F2937',
+  width: PEN_WIDTH,
+  points: points.map(([x, y]) => ({ x, y })),
+});
+
+describe('drawPaper', () => {
+  it('fills blank paper without lines', () => {
+    const { calls, context } = recordingContext();
+    drawPaper(context, 'blank', 120, 80);
+
+    assert.deepEqual(calls, [['fillRect', 0, 0, 120, 80]]);
+  });
+
+  it('rules a 40px grid inside the edges', () => {
+    const { calls, context } = recordingContext();
+    drawPaper(context, 'grid', 120, 80);
+
+    // x = 40, 80 and y = 40.
+    assert.equal(count(calls, 'moveTo'), 3);
+    assert.deepEqual(calls[1], ['beginPath']);
+    assert.deepEqual(calls[2], ['moveTo', 40.5, 0]);
+  });
+
+  it('draws graph paper with both axes through the middle', () => {
+    const { calls, context } = recordingContext();
+    drawPaper(context, 'graph', 120, 80);
+
+    assert.deepEqual(calls.slice(-6, -2), [
+      ['moveTo', 60, 0],
+      ['lineTo', 60, 80],
+      ['moveTo', 0, 40],
+      ['lineTo', 120, 40],
+    ]);
+    assert.equal(count(calls, 'stroke'), 3);
+  });
+});
+
+describe('drawStrokeSegment', () => {
+  it('draws only the newest segment', () => {
+    const { calls, context } = recordingContext();
+    drawStrokeSegment(
+      context,
+      pen([
+        [0, 0],
+        [5, 5],
+        [9, 7],
+      ]),
+    );
+
+    assert.deepEqual(
+      calls.filter(([name]) => name === 'moveTo' || name === 'lineTo'),
+      [
+        ['moveTo', 5, 5],
+        ['lineTo', 9, 7],
+      ],
+    );
+  });
+
+  it('skips a stroke with no points', () => {
+    const { calls, context } = recordingContext();
+    drawStrokeSegment(context, pen([]));
+
+    assert.deepEqual(calls, []);
+  });
+});
+
+describe('drawInk', () => {
+  it('clears the layer, then draws taps as dots and drags as lines', () => {
+    const { calls, context } = recordingContext();
+    drawInk(context, [
+      pen([[10, 10]]),
+      pen([
+        [0, 0],
+        [4, 4],
+      ]),
+    ]);
+
+    assert.deepEqual(calls[0], ['clearRect', 0, 0, 120, 80]);
+    assert.deepEqual(
+      calls.find(([name]) => name === 'arc'),
+      ['arc', 10, 10, PEN_WIDTH / 2, 0, Math.PI * 2],
+    );
+    assert.equal(count(calls, 'fill'), 1);
+    assert.equal(count(calls, 'stroke'), 1);
+  });
+
+  it('erases by cutting through the ink, then restores normal drawing', () => {
+    const { calls, context, style } = recordingContext();
+    const eraser: WhiteboardStroke = {
+      ...pen([
+        [0, 0],
+        [8, 8],
+      ]),
+      tool: 'eraser',
+      width: ERASER_WIDTH,
+    };
+    drawInk(context, [eraser]);
+
+    assert.deepEqual(
+      calls.find(([name]) => name === 'style'),
+      ['style', 'destination-out', '#1F2937'],
+    );
+    assert.equal(style.lineWidth, ERASER_WIDTH);
+    assert.equal(style.globalCompositeOperation, 'source-over');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Drawing for the Tutor whiteboard. Ink lives on its own transparent layer so the eraser removes
+ * strokes without wiping the paper; a snapshot flattens paper and ink into one PNG that is sent
+ * like any uploaded photo.
+ */
+
+export type WhiteboardTool = 'pen' | 'eraser';
+export type WhiteboardPaper = 'blank' | 'grid' | 'graph';
+
+export interface WhiteboardPoint {
+  x: number;
+  y: number;
+}
+
+export interface WhiteboardStroke {
+  tool: WhiteboardTool;
+  color: string;
+  width: number;
+  points: WhiteboardPoint[];
+}
+
+/** The drawing surface in canvas pixels; the element scales it to fit the screen. */
+export const WHITEBOARD_WIDTH = 1200;
+export const WHITEBOARD_HEIGHT = 800;
+
+export const WHITEBOARD_PAPER_OPTIONS: Array<{ value: WhiteboardPaper; label: string }> = [
+  { value: 'blank', label: 'Blank' },
+  { value: 'grid', label: 'Grid' },
+  { value: 'graph', label: 'Graph paper' },
+];
+
+export const WHITEBOARD_PEN_COLORS: Array<{ value: string; label: string }> = [
+  { value: '#1F2937', label: 'Charcoal' },
+  { value: '#4C91F7', label: 'Blue' },
+  { value: '#F87171', label: 'Red' },
+];
+
+export const PEN_WIDTH = 4;
+export const ERASER_WIDTH = 28;
+
+const PAPER_COLOR = '#FFFFFF';
+const GRID_COLOR = '#DCE7F5';
+const MAJOR_GRID_COLOR = '#B8CCEA';
+const AXIS_COLOR = '#6B7280';
+
+const drawLines = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  spacing: number,
+  color: string,
+) => {
+  context.strokeStyle = color;
+  context.lineWidth = 1;
+  context.beginPath();
+  for (let x = spacing; x < width; x += spacing) {
+    context.moveTo(x + 0.5, 0);
+    context.lineTo(x + 0.5, height);
+  }
+  for (let y = spacing; y < height; y += spacing) {
+    context.moveTo(0, y + 0.5);
+    context.lineTo(width, y + 0.5);
+  }
+  context.stroke();
+};
+
+/** Paints the paper: plain, squared, or graph paper with axes through the middle. */
+export const drawPaper = (
+  context: CanvasRenderingContext2D,
+  paper: WhiteboardPaper,
+  width = WHITEBOARD_WIDTH,
+  height = WHITEBOARD_HEIGHT,
+) => {
+  context.fillStyle = PAPER_COLOR;
+  context.fillRect(0, 0, width, height);
+
+  if (paper === 'grid') {
+    drawLines(context, width, height, 40, GRID_COLOR);
+  }
+
+  if (paper === 'graph') {
+    drawLines(context, width, height, 10, GRID_COLOR);
+    drawLines(context, width, height, 50, MAJOR_GRID_COLOR);
+    context.strokeStyle = AXIS_COLOR;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(width / 2, 0);
+    context.lineTo(width / 2, height);
+    context.moveTo(0, height / 2);
+    context.lineTo(width, height / 2);
+    context.stroke();
+  }
+};
+
+const applyStrokeStyle = (context: CanvasRenderingContext2D, stroke: WhiteboardStroke) => {
+  // The eraser cuts through the ink layer to show the paper underneath.
+  context.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+  context.strokeStyle = stroke.color;
+  context.fillStyle = stroke.color;
+  context.lineWidth = stroke.width;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+};
+
+/** Draws the newest segment of a stroke while the pen is still moving. */
+export const drawStrokeSegment = (context: CanvasRenderingContext2D, stroke: WhiteboardStroke) => {
+  const { points } = stroke;
+  const to = points[points.length - 1];
+  const from = points[points.length - 2] ?? to;
+  if (!to) {
+    return;
+  }
+  applyStrokeStyle(context, stroke);
+  context.beginPath();
+  context.moveTo(from.x, from.y);
+  context.lineTo(to.x, to.y);
+  context.stroke();
+  context.globalCompositeOperation = 'source-over';
+};
+
+const drawStroke = (context: CanvasRenderingContext2D, stroke: WhiteboardStroke) => {
+  const [first, ...rest] = stroke.points;
+  if (!first) {
+    return;
+  }
+  applyStrokeStyle(context, stroke);
+  context.beginPath();
+  if (rest.length === 0) {
+    // A tap leaves a dot.
+    context.arc(first.x, first.y, stroke.width / 2, 0, Math.PI * 2);
+    context.fill();
+  } else {
+    context.moveTo(first.x, first.y);
+    rest.forEach((point) => context.lineTo(point.x, point.y));
+    context.stroke();
+  }
+  context.globalCompositeOperation = 'source-over';
+};
+
+/** Redraws the whole ink layer, e.g. after an undo. */
+export const drawInk = (context: CanvasRenderingContext2D, strokes: WhiteboardStroke[]) => {
+  context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  strokes.forEach((stroke) => drawStroke(context, stroke));
+};
+
+/** Flattens the paper and the ink layer into the PNG attached to a Tutor message. */
+export const snapshotWhiteboard = (
+  ink: HTMLCanvasElement,
+  paper: WhiteboardPaper,
+): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ink.width;
+  canvas.height = ink.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not supported'));
+  }
+  drawPaper(context, paper, canvas.width, canvas.height);
+  context.drawImage(ink, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Could not capture the whiteboard'));
+        return;
+      }
+      resolve(new File([blob], `whiteboard-${Date.now()}.png`, { type: 'image/png' }));
+    }, 'image/png');
+  });
+};
@@ -0,0 +1,47 @@
+import { version as katexVersion } from 'katex/package.json';
+import worksheetCss from '../styles/worksheet.css?raw';
+import type { StoredQuizRecord } from '../types/quiz';
+import { fileNameStem } from './fileDownload';
+import { getTopicLabel } from './problemGenerator';
+
+/**
+ * Quiz worksheets are rendered once, by the worksheet page, and exported from the rendered markup:
+ * a PDF download (see `src/utils/pdfDownload.ts`), a standalone HTML file and the print dialog.
+ * The worksheet is styled by `src/styles/worksheet.css` rather than Tailwind so the HTML file
+ * keeps its layout; KaTeX's own stylesheet comes from the CDN build matching the bundled version.
+ */
+
+export interface WorksheetOptions {
+  includeAnswerKey: boolean;
+  includeExplanations: boolean;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const worksheetTitle = (record: StoredQuizRecord): string =>
+  `${getTopicLabel(record.topicId) ?? 'Mixed topics'} worksheet`;
+
+/** Wraps the rendered worksheet markup in a self-contained, print-ready page. */
+export const buildWorksheetDocument = (
+  title: string,
+  worksheetHtml: string,
+): string => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(title)}</title>
+    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katexVersion}/dist/katex.min.css" />
+    <style>body { margin: 2rem; background: #fff; }${worksheetCss}</style>
+  </head>
+  <body>
+    ${worksheetHtml}
+  </body>
+</html>
+`;
+
+export const worksheetFileName = (
+  record: StoredQuizRecord,
+  extension: 'html' | 'pdf' = 'html',
+): string =>
+  `${fileNameStem(worksheetTitle(record), record.completedAt ?? record.createdAt)}.${extension}`;